@@ -14,6 +14,9 @@ import ConfigurationNotice from './components/ConfigurationNotice';
 import AuthPage from './pages/AuthPage';
 import DashboardPage from './pages/DashboardPage';
 import InventoryPage from './pages/InventoryPage';
+import SuppliersPage from './pages/SuppliersPage';
+import PurchaseOrdersPage from './pages/PurchaseOrdersPage';
+import PurchaseOrderEditor from './pages/PurchaseOrderEditor';
 import InvoicesPage from './pages/InvoicesPage';
 import ExpensesPage from './pages/ExpensesPage';
 import CustomersPage from './pages/CustomersPage';
@@ -21,12 +24,16 @@ import ProfilePage from './pages/ProfilePage';
 import MainLayout from './components/layout/MainLayout';
 import MobileLayout from './components/layout/MobileLayout';
 import InvoiceEditor from './pages/InvoiceEditor';
+import RecurringInvoicesPage from './pages/RecurringInvoicesPage';
+import BankImportPage from './pages/BankImportPage';
+import BillingRunPage from './pages/BillingRunPage';
 import ReportsPage from './pages/ReportsPage';
 import TasksPage from './pages/TasksPage'; 
 import QuotesPage from './pages/QuotesPage';
 import QuoteEditor from './pages/QuoteEditor';
 import AppointmentsPage from './pages/AppointmentsPage';
 import ResetPasswordPage from './pages/ResetPasswordPage';
+import QuoteResponsePage from './pages/QuoteResponsePage';
 import TeamPage from './pages/TeamPage';
 import VisitsPage from './pages/VisitsPage';
 import VisitEditor from './pages/VisitEditor';
@@ -85,6 +92,7 @@ const AppRoutes: React.FC = () => {
     <Routes>
       <Route path="/auth" element={<AuthPage />} />
       <Route path="/reset-password" element={<ResetPasswordPage />} />
+      <Route path="/quote-response/:token" element={<QuoteResponsePage />} />
       <Route 
         path="/" 
         element={<PrivateRoute permission="dashboard"><DashboardPage /></PrivateRoute>} 
@@ -93,11 +101,39 @@ const AppRoutes: React.FC = () => {
         path="/inventory" 
         element={<PrivateRoute permission="inventory"><InventoryPage /></PrivateRoute>} 
       />
+      <Route 
+        path="/inventory/suppliers" 
+        element={<PrivateRoute permission="inventory"><SuppliersPage /></PrivateRoute>} 
+      />
+      <Route 
+        path="/inventory/purchase-orders" 
+        element={<PrivateRoute permission="inventory"><PurchaseOrdersPage /></PrivateRoute>} 
+      />
+      <Route 
+        path="/inventory/purchase-orders/new" 
+        element={<PrivateRoute permission="inventory"><PurchaseOrderEditor key={location.pathname} /></PrivateRoute>} 
+      />
+      <Route 
+        path="/inventory/purchase-orders/edit/:id" 
+        element={<PrivateRoute permission="inventory"><PurchaseOrderEditor key={location.pathname} /></PrivateRoute>} 
+      />
       <Route 
         path="/invoices" 
         element={<PrivateRoute permission="invoices"><InvoicesPage /></PrivateRoute>} 
       />
        <Route 
+        path="/invoices/recurring" 
+        element={<PrivateRoute permission="invoices"><RecurringInvoicesPage /></PrivateRoute>} 
+      />
+      <Route 
+        path="/invoices/bank-import" 
+        element={<PrivateRoute permission="invoices"><BankImportPage /></PrivateRoute>} 
+      />
+      <Route 
+        path="/invoices/billing-run" 
+        element={<PrivateRoute permission="invoices"><BillingRunPage /></PrivateRoute>} 
+      />
+      <Route 
         path="/invoices/new" 
         element={<PrivateRoute permission="invoices"><InvoiceEditor key={location.pathname} /></PrivateRoute>} 
       />
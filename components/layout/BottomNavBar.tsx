@@ -13,6 +13,7 @@ import {
   ClipboardDocumentListIcon,
   CurrencyDollarIcon,
   CalendarDaysIcon,
+  TruckIcon,
 } from '@heroicons/react/24/outline';
 
 interface BottomNavBarProps {
@@ -41,6 +42,7 @@ const BottomNavBar: React.FC<BottomNavBarProps> = ({ onOpenTaskModal, onOpenExpe
     { label: t('addAppointment'), icon: CalendarDaysIcon, action: onOpenAppointmentModal },
     { label: t('addTask'), icon: ClipboardDocumentListIcon, action: onOpenTaskModal },
     { label: t('addExpense'), icon: CurrencyDollarIcon, action: onOpenExpenseModal },
+    { label: t('myVan'), icon: TruckIcon, action: () => openTab({ path: '/inventory', label: t('inventory') }) },
   ];
 
   const handleMenuAction = (action: () => void) => {
@@ -4,6 +4,7 @@ import { supabase } from '../../services/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { Customer } from '../../types';
 import { generateNextNumber } from '../../lib/numberGenerator';
+import { COUNTRIES } from '../../constants';
 
 interface CustomerModalProps {
   customer: Customer | null;
@@ -17,7 +18,12 @@ const CustomerModal: React.FC<CustomerModalProps> = ({ customer, closeModal, onS
     name: customer?.name || '',
     email: customer?.email || '',
     phone: customer?.phone || '',
-    address: customer?.address || ''
+    address: customer?.address || '',
+    vat_id: customer?.vat_id || '',
+    buyer_reference: customer?.buyer_reference || '',
+    country: customer?.country || '',
+    reverse_charge: !!customer?.reverse_charge,
+    document_language: customer?.document_language || ''
   });
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<{ email?: string; phone?: string }>({});
@@ -38,7 +44,7 @@ const CustomerModal: React.FC<CustomerModalProps> = ({ customer, closeModal, onS
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({...prev, [name]: value }));
     if (errors[name as keyof typeof errors]) {
@@ -59,7 +65,7 @@ const CustomerModal: React.FC<CustomerModalProps> = ({ customer, closeModal, onS
 
     try {
         if (customer?.id) { // Editing
-            const customerData = { ...formData };
+            const customerData = { ...formData, country: formData.country || null, document_language: formData.document_language || null };
             const { data, error } = await supabase
                 .from('customers')
                 .update(customerData)
@@ -74,6 +80,8 @@ const CustomerModal: React.FC<CustomerModalProps> = ({ customer, closeModal, onS
             const newNumber = await generateNextNumber(profile.org_id, 'customer');
             const customerData = { 
                 ...formData, 
+                country: formData.country || null,
+                document_language: formData.document_language || null,
                 user_id: user.id,
                 org_id: profile.org_id,
                 customer_number: newNumber,
@@ -113,6 +121,27 @@ const CustomerModal: React.FC<CustomerModalProps> = ({ customer, closeModal, onS
                 <div>
                   <textarea name="address" value={formData.address} onChange={handleChange} placeholder="Address" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
                 </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <input name="vat_id" value={formData.vat_id} onChange={handleChange} placeholder="VAT ID (USt-IdNr.)" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                  <input name="buyer_reference" value={formData.buyer_reference} onChange={handleChange} placeholder="Buyer reference (Leitweg-ID)" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                </div>
+                <div className="grid grid-cols-2 gap-4 items-center">
+                  <select name="country" value={formData.country} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                    <option value="">Country: same as company</option>
+                    {COUNTRIES.map(c => <option key={c.code} value={c.code}>{c.name}</option>)}
+                  </select>
+                  <label className="flex items-center gap-x-2 text-sm">
+                    <input type="checkbox" checked={formData.reverse_charge} onChange={(e) => setFormData(prev => ({ ...prev, reverse_charge: e.target.checked }))} className="h-4 w-4 rounded border-gray-300 text-primary-600" />
+                    Reverse charge (§ 13b UStG)
+                  </label>
+                </div>
+                <div>
+                  <select name="document_language" value={formData.document_language} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                    <option value="">Document language: same as user</option>
+                    <option value="de">Deutsch</option>
+                    <option value="al">Shqip</option>
+                  </select>
+                </div>
                 <div className="flex justify-end space-x-2">
                     <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded">Cancel</button>
                     <button type="submit" disabled={loading} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">{loading ? 'Saving...' : 'Save'}</button>
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { DiscountType, Invoice, Quote } from '../../types';
+import { createDownPaymentInvoice } from '../../lib/quoteBilling';
+import DiscountInput from '../ui/DiscountInput';
+
+interface DownPaymentModalProps {
+  quote: Pick<Quote, 'id' | 'quote_number' | 'total_amount'>;
+  remainingAmount: number;
+  closeModal: () => void;
+  onSave: (invoice: Invoice) => void;
+}
+
+const DownPaymentModal: React.FC<DownPaymentModalProps> = ({ quote, remainingAmount, closeModal, onSave }) => {
+  const { profile } = useAuth();
+  const { t } = useLanguage();
+  const [amountType, setAmountType] = useState<DiscountType>('percent');
+  const [amountValue, setAmountValue] = useState<number | null>(30);
+  const [loading, setLoading] = useState(false);
+
+  const grossAmount = amountType === 'percent' ? Number(quote.total_amount) * (amountValue || 0) / 100 : amountValue || 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+    setLoading(true);
+
+    try {
+      const invoice = await createDownPaymentInvoice(quote.id, { type: amountType, value: amountValue || 0 }, profile);
+      onSave(invoice);
+    } catch (error: any) {
+      alert('Error creating down payment invoice: ' + error.message);
+    }
+
+    setLoading(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="down-payment-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md p-6">
+        <h2 id="down-payment-modal-title" className="text-xl font-bold mb-4">{t('downPaymentInvoice')} ({quote.quote_number})</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">{t('downPayment')}</label>
+            <DiscountInput type={amountType} value={amountValue} onChange={(type, value) => { setAmountType(type); setAmountValue(value); }} />
+          </div>
+          <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+            <div className="flex justify-between"><span>{t('downPayment')} (gross):</span><span className="font-medium">€{grossAmount.toFixed(2)}</span></div>
+            <div className="flex justify-between"><span>{t('remainingAmount')}:</span><span>€{remainingAmount.toFixed(2)}</span></div>
+          </div>
+          <div className="flex justify-end space-x-2 pt-2">
+            <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded">Cancel</button>
+            <button type="submit" disabled={loading || grossAmount <= 0} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">{loading ? 'Creating...' : t('createInvoice')}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default DownPaymentModal;
@@ -0,0 +1,91 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getDunningCandidates, createReminder, DunningCandidate } from '../../lib/dunning';
+import { generateReminderPDF } from '../../lib/pdfGenerator';
+import { formatEuropeanDate } from '../../lib/formatting';
+
+interface DunningModalProps {
+  closeModal: () => void;
+  onSave: () => void;
+}
+
+const DunningModal: React.FC<DunningModalProps> = ({ closeModal, onSave }) => {
+  const { profile } = useAuth();
+  const { t } = useLanguage();
+  const [candidates, setCandidates] = useState<DunningCandidate[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!profile?.org_id) return;
+    getDunningCandidates(profile.org_id)
+      .then(data => {
+        setCandidates(data);
+        setSelectedIds(new Set(data.map(c => c.invoice.id)));
+      })
+      .catch(error => alert('Error loading dunning candidates: ' + error.message))
+      .finally(() => setLoading(false));
+  }, [profile]);
+
+  const toggleSelection = (invoiceId: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(invoiceId)) next.delete(invoiceId);
+      else next.add(invoiceId);
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    if (!profile) return;
+    setIsSaving(true);
+    try {
+      for (const candidate of candidates.filter(c => selectedIds.has(c.invoice.id))) {
+        const reminder = await createReminder(candidate, profile);
+        await generateReminderPDF(reminder.id);
+      }
+      onSave();
+    } catch (error: any) {
+      alert('Error creating reminders: ' + error.message);
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="dunning-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl p-6">
+        <h2 id="dunning-modal-title" className="text-xl font-bold mb-4">{t('dunningRun')}</h2>
+        {loading ? <div className="p-6 text-center text-gray-500">Loading...</div> : candidates.length === 0 ? (
+          <p className="p-6 text-center text-gray-500">{t('noDunningCandidates')}</p>
+        ) : (
+          <div className="overflow-y-auto max-h-96 border rounded-md dark:border-gray-700">
+            <table className="min-w-full text-sm">
+              <thead className="border-b dark:border-gray-700"><tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="px-4 py-2 w-10"></th><th className="px-4 py-2">Invoice #</th><th className="px-4 py-2">Customer</th><th className="px-4 py-2">{t('dueDate')}</th><th className="px-4 py-2">{t('dunningLevel')}</th><th className="px-4 py-2 text-right">{t('openBalance')}</th><th className="px-4 py-2 text-right">{t('dunningFee')}</th>
+              </tr></thead>
+              <tbody>{candidates.map(({ invoice, level, openBalance }) => (
+                <tr key={invoice.id} className="border-b dark:border-gray-700">
+                  <td className="px-4 py-2"><input type="checkbox" checked={selectedIds.has(invoice.id)} onChange={() => toggleSelection(invoice.id)} className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"/></td>
+                  <td className="px-4 py-2 font-mono">{invoice.invoice_number}</td>
+                  <td className="px-4 py-2">{invoice.customers?.name || 'N/A'}</td>
+                  <td className="px-4 py-2">{formatEuropeanDate(invoice.due_date)}</td>
+                  <td className="px-4 py-2">{level.name}</td>
+                  <td className="px-4 py-2 text-right">€{openBalance.toFixed(2)}</td>
+                  <td className="px-4 py-2 text-right">€{Number(level.fee).toFixed(2)}</td>
+                </tr>
+              ))}</tbody>
+            </table>
+          </div>
+        )}
+        <div className="flex justify-end space-x-2 pt-4">
+          <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded">Cancel</button>
+          <button onClick={handleCreate} disabled={isSaving || selectedIds.size === 0} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">{isSaving ? 'Saving...' : t('createReminders')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DunningModal;
@@ -0,0 +1,99 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { fetchEInvoiceData, validateEInvoice, exportEInvoice, EInvoiceData, EInvoiceFormat, EInvoiceIssue } from '../../lib/eInvoice';
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+interface EInvoiceExportModalProps {
+  invoiceId: number;
+  closeModal: () => void;
+}
+
+const FORMATS: { value: EInvoiceFormat; label: string }[] = [
+  { value: 'xrechnung-ubl', label: 'XRechnung (UBL)' },
+  { value: 'xrechnung-cii', label: 'XRechnung (CII)' },
+  { value: 'zugferd', label: 'ZUGFeRD / Factur-X (PDF)' },
+];
+
+const EInvoiceExportModal: React.FC<EInvoiceExportModalProps> = ({ invoiceId, closeModal }) => {
+  const { t, language } = useLanguage();
+  const [eInvoiceFormat, setEInvoiceFormat] = useState<EInvoiceFormat>('xrechnung-ubl');
+  const [data, setData] = useState<EInvoiceData | null>(null);
+  const [exportIssues, setExportIssues] = useState<EInvoiceIssue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    fetchEInvoiceData(invoiceId)
+      .then(setData)
+      .catch(error => alert('Error loading invoice: ' + error.message))
+      .finally(() => setLoading(false));
+  }, [invoiceId]);
+
+  const issues = useMemo(() => {
+    if (!data) return [];
+    return exportIssues.length > 0 ? exportIssues : validateEInvoice(data, eInvoiceFormat);
+  }, [data, eInvoiceFormat, exportIssues]);
+
+  const handleFormatChange = (value: EInvoiceFormat) => {
+    setEInvoiceFormat(value);
+    setExportIssues([]);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      // The export validates again against the latest data, in case the invoice changed meanwhile.
+      const result = await exportEInvoice(invoiceId, eInvoiceFormat, language);
+      if (result.length > 0) {
+        setExportIssues(result);
+      } else {
+        closeModal();
+      }
+    } catch (error: any) {
+      console.error("E-invoice export failed:", error);
+      alert('Error exporting e-invoice: ' + error.message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="einvoice-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg p-6">
+        <h2 id="einvoice-modal-title" className="text-xl font-bold mb-4">{t('eInvoiceExport')}</h2>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium">{t('eInvoiceFormat')}</label>
+            <select value={eInvoiceFormat} onChange={(e) => handleFormatChange(e.target.value as EInvoiceFormat)} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+              {FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+            </select>
+          </div>
+          {loading ? <div className="p-6 text-center text-gray-500">Loading...</div> : issues.length === 0 ? (
+            <div className="flex items-center gap-x-3 p-4 text-sm text-green-800 bg-green-50 rounded-lg dark:bg-green-900/20 dark:text-green-300">
+              <CheckCircleIcon className="w-5 h-5 flex-shrink-0"/>
+              <span>{t('eInvoiceValid')}</span>
+            </div>
+          ) : (
+            <div className="p-4 text-sm text-yellow-800 bg-yellow-50 rounded-lg dark:bg-yellow-900/20 dark:text-yellow-300">
+              <div className="flex items-center gap-x-3 font-medium mb-2">
+                <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0"/>
+                <span>{t('eInvoiceMissingFields')}</span>
+              </div>
+              <ul className="list-disc pl-10 space-y-1">
+                {issues.map((issue, index) => <li key={index}>{issue.message}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+        <div className="flex justify-end space-x-2 mt-6">
+          <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded dark:bg-gray-600">Cancel</button>
+          <button onClick={handleExport} disabled={loading || isExporting || !data || issues.length > 0} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">
+            {isExporting ? 'Exporting...' : t('exportFile')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EInvoiceExportModal;
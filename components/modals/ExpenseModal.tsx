@@ -6,6 +6,7 @@ import { generateNextNumber } from '../../lib/numberGenerator';
 import DatePicker from '../ui/DatePicker';
 import { format } from 'date-fns';
 import { parseAsLocalDate } from '../../lib/formatting';
+import { getOrganizationTaxSettings, getVatRates } from '../../lib/taxEngine';
 
 interface ExpenseModalProps {
   expense: Expense | null;
@@ -19,17 +20,27 @@ const ExpenseModal: React.FC<ExpenseModalProps> = ({ expense, closeModal, onSave
   const [formData, setFormData] = useState({
     description: '',
     amount: 0,
-    category: ''
+    category: '',
+    vat_rate: null as number | null,
   });
+  const [vatRates, setVatRates] = useState<number[]>(getVatRates(null));
   const [loading, setLoading] = useState(false);
 
+  useEffect(() => {
+    if (!profile?.org_id) return;
+    getOrganizationTaxSettings(profile.org_id)
+      .then(settings => setVatRates(getVatRates(settings.country)))
+      .catch(error => console.error('Error fetching tax settings:', error.message));
+  }, [profile]);
+
   useEffect(() => {
     if (expense) {
       setExpenseDate(parseAsLocalDate(expense.expense_date));
       setFormData({
         description: expense.description,
         amount: expense.amount,
-        category: expense.category || ''
+        category: expense.category || '',
+        vat_rate: expense.vat_rate ?? null,
       });
     } else {
         setExpenseDate(new Date());
@@ -113,6 +124,13 @@ const ExpenseModal: React.FC<ExpenseModalProps> = ({ expense, closeModal, onSave
                 <input name="category" value={formData.category} onChange={handleChange} placeholder="e.g., Travel" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
               </div>
           </div>
+          <div>
+            <label className="block text-sm font-medium">VAT Rate When Billed</label>
+            <select value={formData.vat_rate ?? ''} onChange={(e) => setFormData(prev => ({ ...prev, vat_rate: e.target.value === '' ? null : parseFloat(e.target.value) }))} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+              <option value="">Default rate</option>
+              {vatRates.map(rate => <option key={rate} value={rate}>{rate}%</option>)}
+            </select>
+          </div>
           <div className="flex justify-end space-x-2 pt-2">
             <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded">Cancel</button>
             <button type="submit" disabled={loading} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">{loading ? 'Saving...' : 'Save'}</button>
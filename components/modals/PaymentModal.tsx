@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Invoice, Payment, PaymentMethod } from '../../types';
+import { recordPayment } from '../../lib/payments';
+import DatePicker from '../ui/DatePicker';
+import { format } from 'date-fns';
+
+interface PaymentModalProps {
+  invoice: Pick<Invoice, 'id' | 'invoice_number'>;
+  openBalance: number;
+  closeModal: () => void;
+  onSave: (payment: Payment) => void;
+}
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['bank_transfer', 'cash', 'card', 'paypal', 'other'];
+
+const PaymentModal: React.FC<PaymentModalProps> = ({ invoice, openBalance, closeModal, onSave }) => {
+  const { profile } = useAuth();
+  const { t } = useLanguage();
+  const [paymentDate, setPaymentDate] = useState<Date | null>(new Date());
+  const [formData, setFormData] = useState({
+    amount: Number(openBalance.toFixed(2)),
+    method: 'bank_transfer' as PaymentMethod,
+    reference: '',
+  });
+  const [loading, setLoading] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    setFormData(prev => ({ ...prev, [name]: type === 'number' ? (value === '' ? 0 : parseFloat(value)) : value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile?.org_id) {
+      alert("Cannot save payment: User or Organization information is missing.");
+      return;
+    }
+    if (!paymentDate) {
+      alert('Please select a valid date.');
+      return;
+    }
+    setLoading(true);
+
+    try {
+      const payment = await recordPayment({
+        invoice_id: invoice.id,
+        payment_date: format(paymentDate, 'yyyy-MM-dd'),
+        amount: Number(formData.amount),
+        method: formData.method,
+        reference: formData.reference || null,
+      }, profile);
+      onSave(payment);
+    } catch (error: any) {
+      alert('Error saving payment: ' + error.message);
+    }
+
+    setLoading(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="payment-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg p-6">
+        <h2 id="payment-modal-title" className="text-xl font-bold mb-4">{t('recordPayment')} ({invoice.invoice_number})</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="mt-1">
+              <label className="block text-sm font-medium">{t('paymentDate')}</label>
+              <DatePicker selected={paymentDate} onChange={setPaymentDate} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium">Amount (€)</label>
+              <input name="amount" type="number" step="0.01" min="0.01" value={formData.amount} onChange={handleChange} required className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium">{t('paymentMethod')}</label>
+              <select name="method" value={formData.method} onChange={handleChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                {PAYMENT_METHODS.map(m => <option key={m} value={m}>{t(m)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('reference')}</label>
+              <input name="reference" value={formData.reference} onChange={handleChange} placeholder="e.g., bank transaction ID" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2 pt-2">
+            <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded">Cancel</button>
+            <button type="submit" disabled={loading} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">{loading ? 'Saving...' : 'Save'}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentModal;
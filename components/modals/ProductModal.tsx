@@ -1,8 +1,10 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { supabase } from '../../services/supabase';
 import { useAuth } from '../../contexts/AuthContext';
-import { Product } from '../../types';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Product, Supplier } from '../../types';
 import { generateNextNumber } from '../../lib/numberGenerator';
+import { getOrganizationTaxSettings, getVatRates } from '../../lib/taxEngine';
 
 interface ProductModalProps {
   product: Product | null;
@@ -12,14 +14,31 @@ interface ProductModalProps {
 
 const ProductModal: React.FC<ProductModalProps> = ({ product, closeModal, onSave }) => {
   const { user, profile } = useAuth();
+  const { t } = useLanguage();
   const [formData, setFormData] = useState({
     name: product?.name || '',
     description: product?.description || '',
     selling_price: product?.selling_price || 0,
-    stock_level: product?.stock_level || null,
+    stock_level: product ? product.stock_level : null, // Only entered for new products; afterwards it follows the stock movements
+    purchase_price: product?.purchase_price ?? null,
+    preferred_supplier_id: product?.preferred_supplier_id ?? null,
+    vat_rate: product?.vat_rate ?? null,
   });
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [vatRates, setVatRates] = useState<number[]>(getVatRates(null));
   const [loading, setLoading] = useState(false);
 
+  useEffect(() => {
+    if (!profile?.org_id) return;
+    supabase.from('suppliers').select('*').eq('org_id', profile.org_id).order('name').then(({ data, error }) => {
+      if (error) console.error('Error fetching suppliers:', error.message);
+      else setSuppliers(data || []);
+    });
+    getOrganizationTaxSettings(profile.org_id)
+      .then(settings => setVatRates(getVatRates(settings.country)))
+      .catch(error => console.error('Error fetching tax settings:', error.message));
+  }, [profile]);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
     setFormData(prev => ({ ...prev, [name]: type === 'number' ? (value === '' ? null : parseFloat(value)) : value }));
@@ -38,6 +57,7 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, closeModal, onSave
 
         if (product?.id) { // Editing
             productData.id = product.id;
+            delete productData.stock_level;
         } else { // Creating
             const newNumber = await generateNextNumber(profile.org_id, 'product');
             productData = {
@@ -63,8 +83,23 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, closeModal, onSave
           <textarea name="description" value={formData.description} onChange={handleChange} placeholder="Description" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
           <div className="grid grid-cols-2 gap-4">
             <input name="selling_price" type="number" step="0.01" value={formData.selling_price} onChange={handleChange} placeholder="Selling Price (€)" required className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
-            <input name="stock_level" type="number" value={formData.stock_level ?? ''} onChange={handleChange} placeholder="Stock Level (optional)" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+            {product ? (
+              <p className="p-2 text-sm text-gray-500 dark:text-gray-400">{t('stock')}: {product.stock_level ?? 'N/A'} · {t('stockFromLedger')}</p>
+            ) : (
+              <input name="stock_level" type="number" step="any" min="0" value={formData.stock_level ?? ''} onChange={handleChange} placeholder={t('openingStock')} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <input name="purchase_price" type="number" step="0.01" min="0" value={formData.purchase_price ?? ''} onChange={handleChange} placeholder={t('purchasePrice')} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+            <select name="preferred_supplier_id" value={formData.preferred_supplier_id ?? ''} onChange={(e) => setFormData(prev => ({ ...prev, preferred_supplier_id: e.target.value ? parseInt(e.target.value, 10) : null }))} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+              <option value="">{t('preferredSupplier')}: -</option>
+              {suppliers.map(supplier => <option key={supplier.id} value={supplier.id}>{t('preferredSupplier')}: {supplier.name}</option>)}
+            </select>
           </div>
+          <select name="vat_rate" value={formData.vat_rate ?? ''} onChange={(e) => setFormData(prev => ({ ...prev, vat_rate: e.target.value === '' ? null : parseFloat(e.target.value) }))} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+            <option value="">{t('vatRate')}: {t('defaultVatRate')}</option>
+            {vatRates.map(rate => <option key={rate} value={rate}>{t('vatRate')}: {rate}%</option>)}
+          </select>
           <div className="flex justify-end space-x-2">
             <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded">Cancel</button>
             <button type="submit" disabled={loading} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">{loading ? 'Saving...' : 'Save'}</button>
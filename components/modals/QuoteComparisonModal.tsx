@@ -0,0 +1,114 @@
+import React, { useState, useMemo } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { QuoteRevisionItem } from '../../types';
+import { QuoteVersion, LineComparison, compareQuoteVersions } from '../../lib/quoteRevisions';
+import { formatDiscount } from '../../lib/documentTotals';
+import { roundMoney } from '../../lib/money';
+import { formatEuropeanDate } from '../../lib/formatting';
+
+interface QuoteComparisonModalProps {
+  quoteNumber: string;
+  versions: QuoteVersion[]; // All versions, newest first
+  initialVersion: number;
+  closeModal: () => void;
+}
+
+const CHANGE_STYLES: Record<LineComparison['change'], string> = {
+  added: 'bg-green-50 dark:bg-green-900/20',
+  removed: 'bg-red-50 dark:bg-red-900/20 line-through text-gray-500',
+  changed: 'bg-yellow-50 dark:bg-yellow-900/20',
+  unchanged: '',
+};
+
+// Shows one field of a compared line, with the old value struck through if it changed.
+const FieldValue: React.FC<{ line: LineComparison; field: LineComparison['changedFields'][number]; render: (item: QuoteRevisionItem) => string }> = ({ line, field, render }) => {
+  const item = line.after || line.before;
+  if (!item) return null;
+  if (line.change === 'changed' && line.changedFields.includes(field) && line.before) {
+    return <><span className="line-through text-gray-400 mr-1">{render(line.before)}</span><span className="font-medium">{render(item)}</span></>;
+  }
+  return <>{render(item)}</>;
+};
+
+const QuoteComparisonModal: React.FC<QuoteComparisonModalProps> = ({ quoteNumber, versions, initialVersion, closeModal }) => {
+  const { t } = useLanguage();
+  const latest = versions[0].version;
+  const [fromVersion, setFromVersion] = useState(initialVersion);
+  const [toVersion, setToVersion] = useState(latest);
+
+  const from = versions.find(v => v.version === fromVersion) || versions[versions.length - 1];
+  const to = versions.find(v => v.version === toVersion) || versions[0];
+  const comparison = useMemo(() => compareQuoteVersions(from, to), [from, to]);
+
+  const versionSelect = (value: number, onChange: (version: number) => void) => (
+    <select value={value} onChange={(e) => onChange(parseInt(e.target.value, 10))} className="p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+      {versions.map(v => <option key={v.version} value={v.version}>{t('version')} {v.version}{v.version === latest ? ` (${t('currentVersion')})` : ''}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="quote-comparison-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl p-6 max-h-[90vh] overflow-y-auto">
+        <h2 id="quote-comparison-modal-title" className="text-xl font-bold mb-4">{t('compareVersions')} ({quoteNumber})</h2>
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+          {versionSelect(fromVersion, setFromVersion)}
+          <span>→</span>
+          {versionSelect(toVersion, setToVersion)}
+        </div>
+        <div className="grid grid-cols-2 gap-4 mb-4 text-sm text-gray-600 dark:text-gray-400">
+          {[from, to].map((version, index) => (
+            <div key={index}>
+              <p className="font-medium text-gray-900 dark:text-white">{t('version')} {version.version}</p>
+              <p>{formatEuropeanDate(version.issue_date)} · {t('valid_until')} {formatEuropeanDate(version.valid_until_date)} · <span className="capitalize">{t(version.status as any)}</span></p>
+            </div>
+          ))}
+        </div>
+        <div className="overflow-x-auto -mx-6">
+          <table className="min-w-full">
+            <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+              <th className="px-6 py-2">Description</th><th className="px-6 py-2 text-right">Qty</th><th className="px-6 py-2 text-right">Unit Price</th><th className="px-6 py-2 text-right">VAT %</th><th className="px-6 py-2 text-right">{t('discount')}</th><th className="px-6 py-2 text-right">Net</th>
+            </tr></thead>
+            <tbody>{comparison.lines.map((line, index) => (
+              <tr key={index} className={`border-b dark:border-gray-700 text-sm ${CHANGE_STYLES[line.change]}`}>
+                <td className="px-6 py-2">
+                  {line.change !== 'unchanged' && <span className="mr-2 text-xs font-semibold uppercase">{t(`change_${line.change}`)}</span>}
+                  <FieldValue line={line} field="description" render={item => item.description} />
+                  <span className="block text-xs text-gray-500 dark:text-gray-400"><FieldValue line={line} field="item_type" render={item => item.item_type === 'alternative' ? `${t('itemType_alternative')}: ${item.alternative_group}` : item.item_type === 'optional' ? t('itemType_optional') : ''} /></span>
+                </td>
+                <td className="px-6 py-2 text-right whitespace-nowrap"><FieldValue line={line} field="quantity" render={item => String(item.quantity)} /></td>
+                <td className="px-6 py-2 text-right whitespace-nowrap"><FieldValue line={line} field="unit_price" render={item => `€${item.unit_price.toFixed(2)}`} /></td>
+                <td className="px-6 py-2 text-right whitespace-nowrap"><FieldValue line={line} field="vat_rate" render={item => `${item.vat_rate}%`} /></td>
+                <td className="px-6 py-2 text-right whitespace-nowrap"><FieldValue line={line} field="discount" render={item => formatDiscount(item) || '-'} /></td>
+                <td className="px-6 py-2 text-right whitespace-nowrap">
+                  {line.change === 'changed' && line.beforeNet !== line.afterNet && <span className="line-through text-gray-400 mr-1">€{line.beforeNet.toFixed(2)}</span>}
+                  €{(line.after ? line.afterNet : line.beforeNet).toFixed(2)}
+                </td>
+              </tr>
+            ))}</tbody>
+          </table>
+        </div>
+        <table className="mt-4 ml-auto text-sm">
+          <thead><tr className="text-gray-500 dark:text-gray-400">
+            <th></th><th className="px-4 text-right">v{from.version}</th><th className="px-4 text-right">v{to.version}</th><th className="pl-4 text-right">{t('difference')}</th>
+          </tr></thead>
+          <tbody>{comparison.totals.map(total => {
+            const difference = roundMoney(total.after - total.before);
+            return (
+              <tr key={total.key} className={total.key === 'grandTotal' ? 'font-bold' : ''}>
+                <td className="pr-4">{t(`total_${total.key}`)}</td>
+                <td className="px-4 text-right">€{total.before.toFixed(2)}</td>
+                <td className="px-4 text-right">€{total.after.toFixed(2)}</td>
+                <td className={`pl-4 text-right ${difference > 0 ? 'text-green-600' : difference < 0 ? 'text-red-600' : 'text-gray-400'}`}>{difference > 0 ? '+' : ''}{difference.toFixed(2)}</td>
+              </tr>
+            );
+          })}</tbody>
+        </table>
+        <div className="flex justify-end pt-4">
+          <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded dark:bg-gray-700">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuoteComparisonModal;
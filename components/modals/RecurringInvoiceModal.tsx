@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { supabase } from '../../services/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Customer, Product, RecurrenceInterval, RecurringInvoiceTemplate } from '../../types';
+import { saveRecurringTemplate, RecurringItemPayload } from '../../lib/recurringInvoices';
+import { parseAsLocalDate } from '../../lib/formatting';
+import { getOrganizationTaxSettings, getTaxRules, getVatRates, applyTaxRules, OrganizationTaxSettings } from '../../lib/taxEngine';
+import ProductSelectionModal from './ProductSelectionModal';
+import DatePicker from '../ui/DatePicker';
+import { TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+
+interface RecurringInvoiceModalProps {
+  template: RecurringInvoiceTemplate | null;
+  closeModal: () => void;
+  onSave: () => void;
+}
+
+export const RECURRENCE_INTERVALS: RecurrenceInterval[] = ['monthly', 'quarterly', 'half_yearly', 'yearly'];
+
+const RecurringInvoiceModal: React.FC<RecurringInvoiceModalProps> = ({ template, closeModal, onSave }) => {
+  const { profile } = useAuth();
+  const { t } = useLanguage();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [taxSettings, setTaxSettings] = useState<OrganizationTaxSettings | null>(null);
+  const [formData, setFormData] = useState({
+    name: template?.name || '',
+    customer_id: template?.customer_id || 0,
+    interval: template?.interval || 'monthly' as RecurrenceInterval,
+    issue_as: template?.issue_as || 'draft' as 'draft' | 'sent',
+    payment_terms_days: template?.payment_terms_days ?? 14,
+    notes: template?.notes || '',
+  });
+  const [startDate, setStartDate] = useState<Date | null>(parseAsLocalDate(template?.start_date) || new Date());
+  const [endDate, setEndDate] = useState<Date | null>(parseAsLocalDate(template?.end_date));
+  const [nextRunDate, setNextRunDate] = useState<Date | null>(parseAsLocalDate(template?.next_run_date));
+  const [items, setItems] = useState<RecurringItemPayload[]>(
+    template?.recurring_invoice_items?.map(({ id, template_id, ...item }) => item) || [{ product_id: null, description: '', quantity: 1, unit_price: 0, vat_rate: getVatRates(null)[0] }]
+  );
+  const [isProductModalOpen, setIsProductModalOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!profile?.org_id) return;
+    supabase.from('customers').select('*').eq('org_id', profile.org_id).order('name')
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching customers:', error.message);
+        else setCustomers(data || []);
+      });
+    getOrganizationTaxSettings(profile.org_id)
+      .then(setTaxSettings)
+      .catch(error => console.error('Error fetching tax settings:', error.message));
+  }, [profile]);
+
+  const taxRules = useMemo(
+    () => getTaxRules(taxSettings, customers.find(c => c.id === formData.customer_id)),
+    [taxSettings, customers, formData.customer_id]
+  );
+
+  useEffect(() => {
+    if (taxSettings) setItems(prev => applyTaxRules(prev, taxRules));
+  }, [taxRules, taxSettings]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    setFormData(prev => ({ ...prev, [name]: type === 'number' || name === 'customer_id' ? (parseInt(value) || 0) : value }));
+  };
+
+  const handleItemChange = (index: number, field: keyof RecurringItemPayload, value: any) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, [field]: value } : item));
+  };
+
+  const addProductsFromModal = (selectedProducts: Product[]) => {
+    const newItems = selectedProducts.map(p => ({
+      product_id: p.id, description: p.name, quantity: 1, unit_price: p.selling_price, vat_rate: taxRules.defaultRate,
+    }));
+    setItems(prev => [...prev.filter(i => i.description), ...newItems]);
+    setIsProductModalOpen(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile?.org_id) {
+      alert("Cannot save recurring invoice: User or Organization information is missing.");
+      return;
+    }
+    if (!formData.customer_id) {
+      alert("Please select a customer.");
+      return;
+    }
+    if (!startDate) {
+      alert('Please select a start date.');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      alert('The end date must not be before the start date.');
+      return;
+    }
+    const validItems = items.filter(i => i.description);
+    if (validItems.length === 0) {
+      alert('Please add at least one item.');
+      return;
+    }
+    setLoading(true);
+
+    try {
+      const startDateISO = format(startDate, 'yyyy-MM-dd');
+      await saveRecurringTemplate(template?.id || null, {
+        ...formData,
+        notes: formData.notes || null,
+        start_date: startDateISO,
+        end_date: endDate ? format(endDate, 'yyyy-MM-dd') : null,
+        // A new template first runs on its start date.
+        next_run_date: template && nextRunDate ? format(nextRunDate, 'yyyy-MM-dd') : startDateISO,
+        status: template?.status === 'ended' ? 'active' : template?.status || 'active',
+      }, validItems, profile);
+      onSave();
+    } catch (error: any) {
+      alert('Error saving recurring invoice: ' + error.message);
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="recurring-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl p-6 max-h-[90vh] overflow-y-auto">
+        <h2 id="recurring-modal-title" className="text-xl font-bold mb-4">{template ? template.name : t('newRecurringInvoice')}</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium">{t('title')}</label>
+              <input name="name" value={formData.name} onChange={handleChange} required placeholder="e.g. Maintenance contract" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('customers')}</label>
+              <select name="customer_id" value={formData.customer_id || ''} onChange={handleChange} required className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                <option value="">Select a customer</option>
+                {customers.map(c => <option key={c.id} value={c.id}>{c.name} ({c.customer_number})</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('interval')}</label>
+              <select name="interval" value={formData.interval} onChange={handleChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                {RECURRENCE_INTERVALS.map(i => <option key={i} value={i}>{t(i)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('issueAs')}</label>
+              <select name="issue_as" value={formData.issue_as} onChange={handleChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                <option value="draft">{t('draft')}</option>
+                <option value="sent">{t('sent')}</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('startDate')}</label>
+              <DatePicker selected={startDate} onChange={setStartDate} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('endDate')}</label>
+              <div className="flex items-center gap-x-2">
+                <div className="flex-grow"><DatePicker selected={endDate} onChange={setEndDate} /></div>
+                {endDate && <button type="button" onClick={() => setEndDate(null)} title="Clear"><XMarkIcon className="w-5 h-5 text-gray-500"/></button>}
+              </div>
+            </div>
+            {template && (
+              <div>
+                <label className="block text-sm font-medium">{t('nextRun')}</label>
+                <DatePicker selected={nextRunDate} onChange={setNextRunDate} />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium">{t('paymentTermsDays')}</label>
+              <input name="payment_terms_days" type="number" min="0" value={formData.payment_terms_days} onChange={handleChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="font-semibold mb-2">Items</h3>
+            <table className="min-w-full text-sm">
+              <thead className="border-b dark:border-gray-700"><tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-2">Description</th><th className="py-2 w-20">Qty</th><th className="py-2 w-28">Unit Price</th><th className="py-2 w-24">VAT %</th><th className="w-8"></th>
+              </tr></thead>
+              <tbody>{items.map((item, index) => (
+                <tr key={index} className="border-b dark:border-gray-700">
+                  <td className="py-2 pr-2"><input value={item.description} onChange={(e) => handleItemChange(index, 'description', e.target.value)} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"/></td>
+                  <td className="py-2 pr-2"><input type="number" value={item.quantity || ''} onChange={(e) => handleItemChange(index, 'quantity', parseFloat(e.target.value))} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"/></td>
+                  <td className="py-2 pr-2"><input type="number" step="0.01" value={item.unit_price || ''} onChange={(e) => handleItemChange(index, 'unit_price', parseFloat(e.target.value))} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"/></td>
+                  <td className="py-2 pr-2"><select value={item.vat_rate} onChange={(e) => handleItemChange(index, 'vat_rate', parseInt(e.target.value))} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600">{taxRules.rates.map(rate => <option key={rate} value={rate}>{rate}%</option>)}</select></td>
+                  <td><button type="button" onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}><TrashIcon className="w-5 h-5 text-red-500"/></button></td>
+                </tr>
+              ))}</tbody>
+            </table>
+            <div className="flex space-x-2 mt-2">
+              <button type="button" onClick={() => setItems(prev => [...prev, { product_id: null, description: '', quantity: 1, unit_price: 0, vat_rate: taxRules.defaultRate }])} className="px-4 py-2 bg-gray-200 rounded-md dark:bg-gray-600 text-sm">Add Item</button>
+              <button type="button" onClick={() => setIsProductModalOpen(true)} className="px-4 py-2 bg-blue-200 text-blue-800 rounded-md dark:bg-blue-900 dark:text-blue-200 text-sm">Add Product</button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium">{t('notes')}</label>
+            <textarea name="notes" value={formData.notes} onChange={handleChange} rows={2} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded dark:bg-gray-600">Cancel</button>
+            <button type="submit" disabled={loading} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">{loading ? 'Saving...' : 'Save'}</button>
+          </div>
+        </form>
+      </div>
+      {isProductModalOpen && <ProductSelectionModal isOpen={isProductModalOpen} onClose={() => setIsProductModalOpen(false)} onAdd={addProductsFromModal} />}
+    </div>
+  );
+};
+
+export default RecurringInvoiceModal;
@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { EmailDocumentType } from '../../types';
+import { prepareDocumentEmail, sendDocumentEmail } from '../../lib/email';
+import { PaperClipIcon } from '@heroicons/react/24/outline';
+
+interface SendDocumentModalProps {
+  documentType: EmailDocumentType;
+  documentId: number;
+  documentNumber: string;
+  closeModal: () => void;
+  onSent: () => void;
+}
+
+const parseAddresses = (value: string) => value.split(/[,;\s]+/).map(a => a.trim()).filter(Boolean);
+
+const SendDocumentModal: React.FC<SendDocumentModalProps> = ({ documentType, documentId, documentNumber, closeModal, onSent }) => {
+  const { profile } = useAuth();
+  const { t, language } = useLanguage();
+  const [formData, setFormData] = useState({ to: '', cc: '', subject: '', body: '' });
+  const [loading, setLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    prepareDocumentEmail(documentType, documentId)
+      .then(email => setFormData(prev => ({ ...prev, ...email })))
+      .catch(error => alert('Error preparing email: ' + error.message))
+      .finally(() => setLoading(false));
+  }, [documentType, documentId]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setFormData(prev => ({ ...prev, [e.target.name]: e.target.value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    const to = parseAddresses(formData.to);
+    const cc = parseAddresses(formData.cc);
+    const invalid = [...to, ...cc].filter(a => !emailRegex.test(a));
+    if (invalid.length > 0) {
+      alert(`Invalid email address: ${invalid.join(', ')}`);
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const logEntry = await sendDocumentEmail({ documentType, documentId, to, cc, subject: formData.subject, body: formData.body, language }, profile);
+      if (!logEntry) {
+        alert('The email was saved as an .eml file and not sent. The document was not marked as sent.');
+      }
+      onSent();
+    } catch (error: any) {
+      alert('Error sending email: ' + error.message);
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="send-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl p-6">
+        <h2 id="send-modal-title" className="text-xl font-bold mb-4">{t('sendDocument')}</h2>
+        {loading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="w-12 h-12 border-4 border-dashed rounded-full animate-spin border-primary-600"></div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium">{t('recipients')}</label>
+              <input name="to" value={formData.to} onChange={handleChange} required placeholder="name@example.com" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('cc')}</label>
+              <input name="cc" value={formData.cc} onChange={handleChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('subject')}</label>
+              <input name="subject" value={formData.subject} onChange={handleChange} required className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('message')}</label>
+              <textarea name="body" value={formData.body} onChange={handleChange} rows={8} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+            </div>
+            <p className="flex items-center gap-x-2 text-sm text-gray-500 dark:text-gray-400">
+              <PaperClipIcon className="w-4 h-4"/> {documentType === 'invoice' ? 'Rechnung' : 'Angebot'}_{documentNumber}.pdf
+            </p>
+            <div className="flex justify-end space-x-2">
+              <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded dark:bg-gray-600">Cancel</button>
+              <button type="submit" disabled={isSending} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">{isSending ? 'Sending...' : t('send')}</button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SendDocumentModal;
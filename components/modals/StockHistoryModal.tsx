@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useTabs } from '../../contexts/TabContext';
+import { Product, StockMovement, StockMovementSource, StockMovementType, StorageLocation } from '../../types';
+import { getStockMovements, postStockMovements, getBookedQuantity, roundQuantity, MANUAL_MOVEMENT_TYPES } from '../../lib/stock';
+import { getStorageLocations } from '../../lib/storageLocations';
+import { formatEuropeanDate, formatEuropeanTime } from '../../lib/formatting';
+
+interface StockHistoryModalProps {
+  product: Product;
+  canManage: boolean;
+  closeModal: () => void;
+  onChange: () => void; // Called after a movement was posted, to refresh the stock level
+}
+
+const SOURCE_PATHS: Record<StockMovementSource, string> = { invoice: '/invoices/edit', visit: '/visits/edit', purchase_order: '/inventory/purchase-orders/edit' };
+
+const StockHistoryModal: React.FC<StockHistoryModalProps> = ({ product, canManage, closeModal, onChange }) => {
+  const { profile } = useAuth();
+  const { t } = useLanguage();
+  const { openTab } = useTabs();
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [movementType, setMovementType] = useState<StockMovementType>('receipt');
+  const [locationId, setLocationId] = useState<number | null>(null);
+  const [quantity, setQuantity] = useState<number | ''>('');
+  const [note, setNote] = useState('');
+
+  const fetchMovements = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setMovements(await getStockMovements(product.id));
+    } catch (error: any) {
+      console.error('Error fetching stock movements:', error.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [product.id]);
+
+  useEffect(() => {
+    fetchMovements();
+  }, [fetchMovements]);
+
+  useEffect(() => {
+    getStorageLocations(product.org_id)
+      .then(setLocations)
+      .catch(error => console.error('Error fetching storage locations:', error.message));
+  }, [product.org_id]);
+
+  const locationName = (id: number | null) => id === null ? t('mainWarehouse') : locations.find(l => l.id === id)?.name || `#${id}`;
+
+  // The ledger starts at the last manually maintained stock level if it has no movements yet.
+  const currentStock = movements.length > 0
+    ? roundQuantity(movements.reduce((sum, m) => sum + Number(m.quantity), 0))
+    : Number(product.stock_level) || 0;
+
+  // Stock level after each movement, newest first.
+  const balances = useMemo(() => {
+    let balance = currentStock;
+    return movements.map(m => {
+      const after = balance;
+      balance = roundQuantity(balance - Number(m.quantity));
+      return after;
+    });
+  }, [movements, currentStock]);
+
+  // Corrections are counted per location; without movements all stock lies in the main warehouse.
+  const locationStock = movements.length > 0
+    ? roundQuantity(movements.filter(m => (m.location_id ?? null) === locationId).reduce((sum, m) => sum + Number(m.quantity), 0))
+    : (locationId === null ? currentStock : 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile?.org_id || quantity === '') return;
+    const booked = getBookedQuantity(movementType, Number(quantity), locationStock);
+    if (booked === 0) {
+      alert('The movement does not change the stock.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await postStockMovements([{
+        org_id: product.org_id,
+        product_id: product.id,
+        movement_type: movementType,
+        quantity: booked,
+        source_type: null,
+        source_id: null,
+        location_id: locationId,
+        note: note.trim() || null,
+        created_by: profile.id,
+      }]);
+      setQuantity('');
+      setNote('');
+      await fetchMovements();
+      onChange();
+    } catch (error: any) {
+      alert('Error posting stock movement: ' + error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="stock-history-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 id="stock-history-modal-title" className="text-xl font-bold">{t('stockHistory')}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{product.product_number} · {product.name}</p>
+          </div>
+          <div className="text-right">
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('currentStock')}</p>
+            <p className="text-2xl font-bold">{currentStock}</p>
+          </div>
+        </div>
+
+        {canManage && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-5 gap-2 items-end p-4 mb-4 rounded-md bg-gray-50 dark:bg-gray-700/50">
+            <div>
+              <label className="block text-sm font-medium">{t('movementType')}</label>
+              <select value={movementType} onChange={(e) => setMovementType(e.target.value as StockMovementType)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                {MANUAL_MOVEMENT_TYPES.map(type => <option key={type} value={type}>{t(`movement_${type}`)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('storageLocation')}</label>
+              <select value={locationId ?? ''} onChange={(e) => setLocationId(e.target.value === '' ? null : Number(e.target.value))} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                <option value="">{t('mainWarehouse')}</option>
+                {locations.map(location => <option key={location.id} value={location.id}>{location.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{movementType === 'correction' ? t('countedStock') : t('quantity')}</label>
+              <input type="number" step="any" min={movementType === 'correction' ? undefined : 0} value={quantity} onChange={(e) => setQuantity(e.target.value === '' ? '' : parseFloat(e.target.value))} required className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('note')}</label>
+              <input value={note} onChange={(e) => setNote(e.target.value)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+            </div>
+            <button type="submit" disabled={isSaving || quantity === ''} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">{isSaving ? 'Saving...' : t('postMovement')}</button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="w-12 h-12 border-4 border-dashed rounded-full animate-spin border-primary-600"></div>
+          </div>
+        ) : movements.length === 0 ? (
+          <p className="p-4 text-center text-gray-500">{t('noStockMovements')}</p>
+        ) : (
+          <div className="overflow-x-auto -mx-6">
+            <table className="min-w-full">
+              <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                <th className="px-6 py-2">{t('date')}</th><th className="px-6 py-2">{t('movementType')}</th><th className="px-6 py-2">{t('storageLocation')}</th><th className="px-6 py-2">{t('note')}</th><th className="px-6 py-2 text-right">{t('quantity')}</th><th className="px-6 py-2 text-right">{t('stock')}</th>
+              </tr></thead>
+              <tbody>{movements.map((movement, index) => {
+                const quantityValue = Number(movement.quantity);
+                const sourcePath = movement.source_type && movement.source_id ? `${SOURCE_PATHS[movement.source_type]}/${movement.source_id}` : null;
+                return (
+                  <tr key={movement.id} className="border-b dark:border-gray-700 text-sm">
+                    <td className="px-6 py-2 whitespace-nowrap">{formatEuropeanDate(movement.created_at)} {formatEuropeanTime(movement.created_at)}</td>
+                    <td className="px-6 py-2">{t(`movement_${movement.movement_type}`)}</td>
+                    <td className="px-6 py-2 whitespace-nowrap">{locationName(movement.location_id ?? null)}</td>
+                    <td className="px-6 py-2">
+                      {sourcePath ? (
+                        <button onClick={() => { closeModal(); openTab({ path: sourcePath, label: movement.note || '' }); }} className="text-primary-600 hover:underline">{movement.note}</button>
+                      ) : movement.note}
+                    </td>
+                    <td className={`px-6 py-2 text-right font-medium ${quantityValue < 0 ? 'text-red-600' : 'text-green-600'}`}>{quantityValue > 0 ? '+' : ''}{quantityValue}</td>
+                    <td className="px-6 py-2 text-right">{balances[index]}</td>
+                  </tr>
+                );
+              })}</tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex justify-end pt-4">
+          <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded dark:bg-gray-700">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockHistoryModal;
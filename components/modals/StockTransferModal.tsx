@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Product, StorageLocation } from '../../types';
+import { transferStock, getLocationQuantity, LocationStock } from '../../lib/stock';
+
+interface StockTransferModalProps {
+  product: Product;
+  locations: StorageLocation[];
+  stock: LocationStock;
+  destinationId?: number | null; // Fixes the destination, e.g. the van of the current user when restocking
+  closeModal: () => void;
+  onChange: () => void; // Called after the transfer was posted, to refresh the stock
+}
+
+// The main warehouse is represented by an empty select value.
+const toLocationId = (value: string): number | null => value === '' ? null : Number(value);
+
+const StockTransferModal: React.FC<StockTransferModalProps> = ({ product, locations, stock, destinationId, closeModal, onChange }) => {
+  const { profile } = useAuth();
+  const { t } = useLanguage();
+  const isDestinationFixed = destinationId !== undefined;
+  const [to, setTo] = useState(isDestinationFixed ? String(destinationId ?? '') : String(locations[0]?.id ?? ''));
+  const [from, setFrom] = useState(isDestinationFixed && destinationId === null ? String(locations[0]?.id ?? '') : '');
+  const [quantity, setQuantity] = useState<number | ''>('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const locationName = (value: string) => value === '' ? t('mainWarehouse') : locations.find(l => String(l.id) === value)?.name || '';
+  const available = getLocationQuantity(stock, toLocationId(from), product);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || quantity === '') return;
+    setIsSaving(true);
+    try {
+      await transferStock({
+        orgId: product.org_id,
+        productId: product.id,
+        fromLocationId: toLocationId(from),
+        toLocationId: toLocationId(to),
+        quantity: Number(quantity),
+        note: `${locationName(from)} → ${locationName(to)}`,
+      }, profile.id);
+      onChange();
+      closeModal();
+    } catch (error: any) {
+      alert('Error transferring stock: ' + error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const options = [{ value: '', label: t('mainWarehouse') }, ...locations.map(l => ({ value: String(l.id), label: l.name }))];
+  const selectClass = "mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="stock-transfer-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md p-6">
+        <h2 id="stock-transfer-modal-title" className="text-xl font-bold">{t('transferStock')}</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{product.product_number} · {product.name}</p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium">{t('fromLocation')}</label>
+            <select value={from} onChange={(e) => setFrom(e.target.value)} className={selectClass}>
+              {options.filter(o => o.value !== to).map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('currentStock')}: {available}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium">{t('toLocation')}</label>
+            <select value={to} onChange={(e) => setTo(e.target.value)} disabled={isDestinationFixed} className={selectClass}>
+              {options.filter(o => o.value !== from).map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium">{t('quantity')}</label>
+            <input type="number" step="any" min="0" max={available} value={quantity} onChange={(e) => setQuantity(e.target.value === '' ? '' : parseFloat(e.target.value))} required className={selectClass} />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded dark:bg-gray-700">Cancel</button>
+            <button type="submit" disabled={isSaving || quantity === '' || from === to} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">{isSaving ? 'Saving...' : t('transferStock')}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StockTransferModal;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Supplier } from '../../types';
+
+interface SupplierModalProps {
+  supplier: Supplier | null;
+  closeModal: () => void;
+  onSave: (supplier: Partial<Supplier>) => Promise<void>;
+}
+
+const SupplierModal: React.FC<SupplierModalProps> = ({ supplier, closeModal, onSave }) => {
+  const [formData, setFormData] = useState({
+    name: supplier?.name || '',
+    contact_person: supplier?.contact_person || '',
+    email: supplier?.email || '',
+    phone: supplier?.phone || '',
+    address: supplier?.address || '',
+    customer_number: supplier?.customer_number || '',
+    notes: supplier?.notes || '',
+  });
+  const [loading, setLoading] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setFormData(prev => ({ ...prev, [e.target.name]: e.target.value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    // Empty optional fields are stored as null.
+    const supplierData: Partial<Supplier> = Object.fromEntries(
+      Object.entries(formData).map(([key, value]) => [key, key === 'name' ? value.trim() : value.trim() || null])
+    );
+    if (supplier?.id) supplierData.id = supplier.id;
+    await onSave(supplierData);
+    setLoading(false);
+  };
+
+  const inputClass = "w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg p-6">
+        <h2 className="text-xl font-bold mb-4">{supplier ? 'Edit Supplier' : 'Add New Supplier'}</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input name="name" value={formData.name} onChange={handleChange} placeholder="Supplier Name" required className={inputClass} />
+          <div className="grid grid-cols-2 gap-4">
+            <input name="contact_person" value={formData.contact_person} onChange={handleChange} placeholder="Contact Person" className={inputClass} />
+            <input name="customer_number" value={formData.customer_number} onChange={handleChange} placeholder="Our Customer Number" className={inputClass} />
+            <input name="email" type="email" value={formData.email} onChange={handleChange} placeholder="Email" className={inputClass} />
+            <input name="phone" value={formData.phone} onChange={handleChange} placeholder="Phone" className={inputClass} />
+          </div>
+          <textarea name="address" value={formData.address} onChange={handleChange} placeholder="Address" rows={3} className={inputClass} />
+          <textarea name="notes" value={formData.notes} onChange={handleChange} placeholder="Notes" rows={2} className={inputClass} />
+          <div className="flex justify-end space-x-2">
+            <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded dark:bg-gray-700">Cancel</button>
+            <button type="submit" disabled={loading} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">{loading ? 'Saving...' : 'Save'}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SupplierModal;
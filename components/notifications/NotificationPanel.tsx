@@ -2,7 +2,7 @@
 import React, { useState } from 'react';
 import { useNotifications } from '../../contexts/NotificationContext';
 import { useTabs } from '../../contexts/TabContext';
-import { BellAlertIcon, BriefcaseIcon, CalendarDaysIcon, ClipboardDocumentListIcon } from '@heroicons/react/24/outline';
+import { BellAlertIcon, BriefcaseIcon, CalendarDaysIcon, ClipboardDocumentListIcon, ArrowPathIcon, DocumentCheckIcon } from '@heroicons/react/24/outline';
 import { Notification, NotificationType } from '../../types';
 import ConfirmModal from '../modals/ConfirmModal';
 
@@ -32,6 +32,8 @@ const NOTIFICATION_ICONS: Record<NotificationType, React.ElementType> = {
     new_task: ClipboardDocumentListIcon,
     new_visit: BriefcaseIcon,
     new_appointment: CalendarDaysIcon,
+    recurring_invoices: ArrowPathIcon,
+    quote_response: DocumentCheckIcon,
     generic: BellAlertIcon
 };
 
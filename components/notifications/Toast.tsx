@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { CheckCircleIcon, InformationCircleIcon, ExclamationTriangleIcon, XMarkIcon, BellAlertIcon, BriefcaseIcon, CalendarDaysIcon, ClipboardDocumentListIcon } from '@heroicons/react/24/outline';
+import { CheckCircleIcon, InformationCircleIcon, ExclamationTriangleIcon, XMarkIcon, BellAlertIcon, BriefcaseIcon, CalendarDaysIcon, ClipboardDocumentListIcon, ArrowPathIcon, DocumentCheckIcon } from '@heroicons/react/24/outline';
 import { Toast as ToastType, useNotifications } from '../../contexts/NotificationContext';
 import { NotificationType } from '../../types';
 
@@ -12,6 +12,8 @@ const NOTIFICATION_ICONS: Record<NotificationType, React.ElementType> = {
     new_task: ClipboardDocumentListIcon,
     new_visit: BriefcaseIcon,
     new_appointment: CalendarDaysIcon,
+    recurring_invoices: ArrowPathIcon,
+    quote_response: DocumentCheckIcon,
     generic: BellAlertIcon
 };
 
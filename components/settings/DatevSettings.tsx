@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { DatevChart, DatevExpenseAccount, DatevRevenueKey, DatevSettings as DatevSettingsType } from '../../types';
+import { DATEV_DEFAULT_ACCOUNTS } from '../../constants';
+import { getDatevSettings, saveDatevSettings, getDefaultDatevSettings } from '../../lib/datev';
+import { TrashIcon } from '@heroicons/react/24/outline';
+
+interface DatevSettingsProps {
+  orgId: string;
+}
+
+const REVENUE_KEYS: DatevRevenueKey[] = ['standard_19', 'standard_7', 'standard_0', 'reverse_charge', 'intra_community', 'export', 'small_business'];
+
+const DatevSettings: React.FC<DatevSettingsProps> = ({ orgId }) => {
+  const { t } = useLanguage();
+  const [settings, setSettings] = useState<DatevSettingsType>(getDefaultDatevSettings(orgId));
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    getDatevSettings(orgId)
+      .then(setSettings)
+      .catch(error => {
+        console.error("Failed to fetch DATEV settings:", error);
+        alert("Failed to load DATEV settings. Please try again.");
+      })
+      .finally(() => setIsLoading(false));
+  }, [orgId]);
+
+  const getRevenueLabel = (key: DatevRevenueKey) =>
+    key.startsWith('standard_') ? `${t('tax_standard')} ${key.replace('standard_', '')}%` : t(`tax_${key}` as any);
+
+  const handleChartChange = (chart: DatevChart) => {
+    if (!window.confirm(`Switch to ${chart}? The accounts will be reset to the ${chart} standard accounts.`)) return;
+    setSettings(s => ({ ...s, chart, ...DATEV_DEFAULT_ACCOUNTS[chart] }));
+  };
+
+  const handleRevenueChange = (key: DatevRevenueKey, field: 'account' | 'bu_key', value: string) => {
+    setSettings(s => ({ ...s, revenue_accounts: { ...s.revenue_accounts, [key]: { ...s.revenue_accounts[key], [field]: value } } }));
+  };
+
+  const handleExpenseChange = (index: number, field: keyof DatevExpenseAccount, value: string) => {
+    setSettings(s => ({ ...s, expense_accounts: s.expense_accounts.map((e, i) => i === index ? { ...e, [field]: value } : e) }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveDatevSettings({ ...settings, expense_accounts: settings.expense_accounts.filter(e => e.category.trim() && e.account.trim()) });
+      alert('DATEV settings saved successfully!');
+    } catch (error: any) {
+      alert('Error saving DATEV settings: ' + error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600";
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t('datevSettings')}</h2>
+        <button onClick={handleSave} disabled={isSaving || isLoading} className="px-4 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
+          {isSaving ? 'Saving...' : t('save')}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">Accounts used by the DATEV export for your tax advisor. Customers get debtor numbers from 10000 on their first export.</p>
+      {isLoading ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="w-12 h-12 border-4 border-dashed rounded-full animate-spin border-primary-600"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium">{t('consultantNumber')}</label>
+              <input value={settings.consultant_number} onChange={(e) => setSettings(s => ({ ...s, consultant_number: e.target.value.trim() }))} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('clientNumber')}</label>
+              <input value={settings.client_number} onChange={(e) => setSettings(s => ({ ...s, client_number: e.target.value.trim() }))} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('chartOfAccounts')}</label>
+              <select value={settings.chart} onChange={(e) => handleChartChange(e.target.value as DatevChart)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                <option value="SKR03">SKR03</option>
+                <option value="SKR04">SKR04</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('bankAccount')}</label>
+              <input value={settings.bank_account} onChange={(e) => setSettings(s => ({ ...s, bank_account: e.target.value.trim() }))} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="font-semibold mb-2">{t('revenueAccounts')}</h3>
+            <table className="min-w-full">
+              <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                <th className="py-2">{t('taxTreatment')}</th><th className="py-2 w-32">{t('account')}</th><th className="py-2 w-32">{t('buKey')}</th>
+              </tr></thead>
+              <tbody>{REVENUE_KEYS.map(key => (
+                <tr key={key} className="border-b dark:border-gray-700">
+                  <td className="py-2 text-sm">{getRevenueLabel(key)}</td>
+                  <td className="py-2 pr-2"><input value={settings.revenue_accounts[key]?.account || ''} onChange={(e) => handleRevenueChange(key, 'account', e.target.value.trim())} className={inputClass}/></td>
+                  <td className="py-2 pr-2"><input value={settings.revenue_accounts[key]?.bu_key || ''} onChange={(e) => handleRevenueChange(key, 'bu_key', e.target.value.trim())} className={inputClass}/></td>
+                </tr>
+              ))}</tbody>
+            </table>
+          </div>
+
+          <div>
+            <h3 className="font-semibold mb-2">{t('expenseAccounts')}</h3>
+            <table className="min-w-full">
+              <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                <th className="py-2">{t('category')}</th><th className="py-2 w-32">{t('account')}</th><th className="py-2 w-32">{t('buKey')}</th><th className="w-10"></th>
+              </tr></thead>
+              <tbody>
+                {settings.expense_accounts.map((expenseAccount, index) => (
+                  <tr key={index} className="border-b dark:border-gray-700">
+                    <td className="py-2 pr-2"><input value={expenseAccount.category} onChange={(e) => handleExpenseChange(index, 'category', e.target.value)} className={inputClass}/></td>
+                    <td className="py-2 pr-2"><input value={expenseAccount.account} onChange={(e) => handleExpenseChange(index, 'account', e.target.value.trim())} className={inputClass}/></td>
+                    <td className="py-2 pr-2"><input value={expenseAccount.bu_key} onChange={(e) => handleExpenseChange(index, 'bu_key', e.target.value.trim())} className={inputClass}/></td>
+                    <td><button onClick={() => setSettings(s => ({ ...s, expense_accounts: s.expense_accounts.filter((_, i) => i !== index) }))}><TrashIcon className="w-5 h-5 text-red-500"/></button></td>
+                  </tr>
+                ))}
+                <tr className="border-b dark:border-gray-700">
+                  <td className="py-2 text-sm text-gray-500">{t('defaultExpenseAccount')}</td>
+                  <td className="py-2 pr-2"><input value={settings.default_expense_account} onChange={(e) => setSettings(s => ({ ...s, default_expense_account: e.target.value.trim() }))} className={inputClass}/></td>
+                  <td colSpan={2}></td>
+                </tr>
+              </tbody>
+            </table>
+            <button onClick={() => setSettings(s => ({ ...s, expense_accounts: [...s.expense_accounts, { category: '', account: '', bu_key: '' }] }))} className="mt-4 px-4 py-2 bg-gray-200 rounded-md dark:bg-gray-600 text-sm">Add Category</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DatevSettings;
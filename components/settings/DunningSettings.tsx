@@ -0,0 +1,85 @@
+import React, { useState, useEffect } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { DunningLevel } from '../../types';
+import { getDunningLevels, saveDunningLevels } from '../../lib/dunning';
+import { TrashIcon } from '@heroicons/react/24/outline';
+
+interface DunningSettingsProps {
+  orgId: string;
+}
+
+type EditableLevel = Omit<DunningLevel, 'org_id'>;
+
+const DunningSettings: React.FC<DunningSettingsProps> = ({ orgId }) => {
+  const { t } = useLanguage();
+  const [levels, setLevels] = useState<EditableLevel[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    getDunningLevels(orgId)
+      .then(data => setLevels(data.map(({ org_id, ...l }) => l)))
+      .catch(error => {
+        console.error("Failed to fetch dunning levels:", error);
+        alert("Failed to load dunning levels. Please try again.");
+      })
+      .finally(() => setIsLoading(false));
+  }, [orgId]);
+
+  const handleChange = (index: number, field: keyof EditableLevel, value: string) => {
+    setLevels(prev => prev.map((l, i) => i === index ? { ...l, [field]: field === 'name' ? value : (parseFloat(value) || 0) } : l));
+  };
+
+  const addLevel = () => setLevels(prev => [...prev, { level: prev.length + 1, name: `${prev.length}. Mahnung`, days_after: 14, fee: 0 }]);
+  const removeLevel = (index: number) => setLevels(prev => prev.filter((_, i) => i !== index));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveDunningLevels(orgId, levels);
+      alert('Dunning levels saved successfully!');
+    } catch (error: any) {
+      alert('Error saving dunning levels: ' + error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t('dunning')}</h2>
+        <button onClick={handleSave} disabled={isSaving || isLoading} className="px-4 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
+          {isSaving ? 'Saving...' : t('save')}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">The first level is sent the given number of days after the due date, every further level after the previous reminder.</p>
+      {isLoading ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="w-12 h-12 border-4 border-dashed rounded-full animate-spin border-primary-600"></div>
+        </div>
+      ) : (
+        <>
+          <table className="min-w-full">
+            <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+              <th className="py-2 w-16">{t('dunningLevel')}</th><th className="py-2">{t('title')}</th><th className="py-2 w-32">{t('daysAfter')}</th><th className="py-2 w-32">{t('dunningFee')} (€)</th><th className="w-10"></th>
+            </tr></thead>
+            <tbody>{levels.map((level, index) => (
+              <tr key={index} className="border-b dark:border-gray-700">
+                <td className="py-2 font-medium">{index + 1}</td>
+                <td className="py-2 pr-2"><input value={level.name} onChange={(e) => handleChange(index, 'name', e.target.value)} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"/></td>
+                <td className="py-2 pr-2"><input type="number" min="0" value={level.days_after} onChange={(e) => handleChange(index, 'days_after', e.target.value)} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"/></td>
+                <td className="py-2 pr-2"><input type="number" min="0" step="0.01" value={level.fee} onChange={(e) => handleChange(index, 'fee', e.target.value)} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"/></td>
+                <td><button onClick={() => removeLevel(index)}><TrashIcon className="w-5 h-5 text-red-500"/></button></td>
+              </tr>
+            ))}</tbody>
+          </table>
+          <button onClick={addLevel} className="mt-4 px-4 py-2 bg-gray-200 rounded-md dark:bg-gray-600 text-sm">Add Level</button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DunningSettings;
@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { EmailTemplate, MailTransportType } from '../../types';
+import { EMAIL_PLACEHOLDERS } from '../../constants';
+import { getEmailTemplates, saveEmailTemplates, getOrganizationMailTransport, saveOrganizationMailTransport } from '../../lib/email';
+
+interface EmailSettingsProps {
+  orgId: string;
+}
+
+type EditableTemplate = Omit<EmailTemplate, 'org_id'>;
+
+const EmailSettings: React.FC<EmailSettingsProps> = ({ orgId }) => {
+  const { t } = useLanguage();
+  const [templates, setTemplates] = useState<EditableTemplate[]>([]);
+  const [transport, setTransport] = useState<MailTransportType>('smtp');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all([getEmailTemplates(orgId), getOrganizationMailTransport(orgId)])
+      .then(([templateData, transportData]) => {
+        setTemplates(templateData.map(({ org_id, ...tpl }) => tpl));
+        setTransport(transportData);
+      })
+      .catch(error => {
+        console.error("Failed to fetch email settings:", error);
+        alert("Failed to load email settings. Please try again.");
+      })
+      .finally(() => setIsLoading(false));
+  }, [orgId]);
+
+  const handleChange = (index: number, field: 'subject' | 'body', value: string) => {
+    setTemplates(prev => prev.map((tpl, i) => i === index ? { ...tpl, [field]: value } : tpl));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await Promise.all([saveEmailTemplates(orgId, templates), saveOrganizationMailTransport(orgId, transport)]);
+      alert('Email settings saved successfully!');
+    } catch (error: any) {
+      alert('Error saving email settings: ' + error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t('emailTemplates')}</h2>
+        <button onClick={handleSave} disabled={isSaving || isLoading} className="px-4 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
+          {isSaving ? 'Saving...' : t('save')}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+        {t('placeholders')}: {EMAIL_PLACEHOLDERS.map(p => `{${p}}`).join(', ')}
+      </p>
+      {isLoading ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="w-12 h-12 border-4 border-dashed rounded-full animate-spin border-primary-600"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="max-w-xs">
+            <label className="block text-sm font-medium">{t('mailTransport')}</label>
+            <select value={transport} onChange={(e) => setTransport(e.target.value as MailTransportType)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+              <option value="smtp">{t('transport_smtp')}</option>
+              <option value="file">{t('transport_file')}</option>
+            </select>
+          </div>
+          {templates.map((template, index) => (
+            <div key={template.document_type} className="space-y-2">
+              <h3 className="font-semibold">{t(template.document_type === 'invoice' ? 'invoices' : 'quotes')}</h3>
+              <input value={template.subject} onChange={(e) => handleChange(index, 'subject', e.target.value)} placeholder={t('subject')} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+              <textarea value={template.body} onChange={(e) => handleChange(index, 'body', e.target.value)} rows={6} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmailSettings;
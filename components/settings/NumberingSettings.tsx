@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../services/supabase';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { NumberResetPolicy, NumberScheme, SequenceType } from '../../types';
+import { SEQUENCE_TYPES, getNumberSchemes, getNextCounters, saveNumberSchemes, saveBranchCode, previewNumber, validateNumberPattern } from '../../lib/numberGenerator';
+
+interface NumberingSettingsProps {
+  orgId: string;
+}
+
+const RESET_POLICIES: NumberResetPolicy[] = ['never', 'yearly', 'monthly'];
+
+const NumberingSettings: React.FC<NumberingSettingsProps> = ({ orgId }) => {
+  const { t } = useLanguage();
+  const [schemes, setSchemes] = useState<Record<SequenceType, NumberScheme> | null>(null);
+  const [savedSchemes, setSavedSchemes] = useState<Record<SequenceType, NumberScheme> | null>(null);
+  const [nextCounters, setNextCounters] = useState<Record<SequenceType, number> | null>(null);
+  const [branchCode, setBranchCode] = useState('');
+  const [savedBranchCode, setSavedBranchCode] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all([
+      getNumberSchemes(orgId).then(async data => ({ data, counters: await getNextCounters(orgId, data) })),
+      supabase.from('organizations').select('branch_code').eq('id', orgId).single(),
+    ])
+      .then(([{ data, counters }, { data: organization }]) => {
+        setSchemes(data);
+        setSavedSchemes(data);
+        setNextCounters(counters);
+        setBranchCode(organization?.branch_code || '');
+        setSavedBranchCode(organization?.branch_code || '');
+      })
+      .catch(error => {
+        console.error("Failed to fetch number schemes:", error);
+        alert("Failed to load number schemes. Please try again.");
+      })
+      .finally(() => setIsLoading(false));
+  }, [orgId]);
+
+  const handleChange = (type: SequenceType, field: 'pattern' | 'reset_policy' | 'start_value', value: string) => {
+    setSchemes(prev => prev && ({
+      ...prev,
+      [type]: { ...prev[type], [field]: field === 'start_value' ? (parseInt(value, 10) || 1) : value },
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!schemes || !savedSchemes) return;
+    setIsSaving(true);
+    try {
+      if (branchCode.trim() !== savedBranchCode) {
+        await saveBranchCode(orgId, branchCode);
+      }
+      await saveNumberSchemes(orgId, Object.values(schemes), savedSchemes);
+      const reloaded = await getNumberSchemes(orgId);
+      setSchemes(reloaded);
+      setSavedSchemes(reloaded);
+      setNextCounters(await getNextCounters(orgId, reloaded));
+      setSavedBranchCode(branchCode.trim());
+      alert('Number schemes saved successfully!');
+    } catch (error: any) {
+      alert('Error saving number schemes: ' + error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600";
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t('numberSchemes')}</h2>
+        <button onClick={handleSave} disabled={isSaving || isLoading} className="px-4 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
+          {isSaving ? 'Saving...' : t('save')}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+        Tokens: <code>{'{YYYY}'}</code>, <code>{'{YY}'}</code>, <code>{'{MM}'}</code>, <code>{'{BRANCH}'}</code> and <code>{'{NUMBER:4}'}</code> for a counter padded to four digits. Changing the start value restarts the counter at that value for the current period. The preview shows the next number.
+      </p>
+      {isLoading || !schemes || !savedSchemes || !nextCounters ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="w-12 h-12 border-4 border-dashed rounded-full animate-spin border-primary-600"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="w-48">
+            <label className="block text-sm font-medium">{t('branchCode')}</label>
+            <input value={branchCode} onChange={(e) => setBranchCode(e.target.value)} maxLength={10} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                <th className="py-2">Type</th><th className="py-2">{t('numberPattern')}</th><th className="py-2 w-36">{t('counterReset')}</th><th className="py-2 w-28">{t('startValue')}</th><th className="py-2">{t('preview')}</th>
+              </tr></thead>
+              <tbody>{SEQUENCE_TYPES.map(type => {
+                const scheme = schemes[type];
+                const patternError = validateNumberPattern(scheme.pattern, scheme.reset_policy);
+                return (
+                  <tr key={type} className="border-b dark:border-gray-700 align-top">
+                    <td className="py-2 pr-2 text-sm">{t(`sequence_${type}`)}</td>
+                    <td className="py-2 pr-2">
+                      <input value={scheme.pattern} onChange={(e) => handleChange(type, 'pattern', e.target.value)} className={`${inputClass} font-mono`}/>
+                      {patternError && <p className="mt-1 text-xs text-red-600">{patternError}</p>}
+                    </td>
+                    <td className="py-2 pr-2">
+                      <select value={scheme.reset_policy} onChange={(e) => handleChange(type, 'reset_policy', e.target.value)} className={inputClass}>
+                        {RESET_POLICIES.map(policy => <option key={policy} value={policy}>{t(`reset_${policy}`)}</option>)}
+                      </select>
+                    </td>
+                    <td className="py-2 pr-2"><input type="number" min="1" value={scheme.start_value} onChange={(e) => handleChange(type, 'start_value', e.target.value)} className={inputClass}/></td>
+                    <td className="py-2 text-sm font-mono text-gray-600 dark:text-gray-400 whitespace-nowrap">{patternError ? '-' : previewNumber(scheme, savedSchemes[type], nextCounters[type], branchCode.trim())}</td>
+                  </tr>
+                );
+              })}</tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NumberingSettings;
@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../services/supabase';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Organization, PdfFont, PdfFooterColumn, PdfItemColumn, PdfLayout, PdfLayoutDocumentType, PdfLogoPosition } from '../../types';
+import { PDF_LAYOUT_DOCUMENT_TYPES, getPdfLayouts, savePdfLayout } from '../../lib/pdfLayout';
+import { generateLayoutPreview } from '../../lib/pdfGenerator';
+
+interface PdfLayoutSettingsProps {
+  orgId: string;
+}
+
+const LOGO_POSITIONS: PdfLogoPosition[] = ['left', 'center', 'right', 'hidden'];
+const FONTS: { value: PdfFont; label: string }[] = [
+  { value: 'helvetica', label: 'Helvetica' },
+  { value: 'times', label: 'Times' },
+  { value: 'courier', label: 'Courier' },
+];
+const FOOTER_COLUMNS: PdfFooterColumn[] = ['address', 'contact', 'bank', 'tax'];
+const ITEM_COLUMNS: { value: PdfItemColumn; label: 'pdf_position' | 'pdf_quantity' | 'pdf_unitPrice' | 'pdf_discount' | 'pdf_vat' }[] = [
+  { value: 'position', label: 'pdf_position' },
+  { value: 'quantity', label: 'pdf_quantity' },
+  { value: 'unit_price', label: 'pdf_unitPrice' },
+  { value: 'discount', label: 'pdf_discount' },
+  { value: 'vat', label: 'pdf_vat' },
+];
+
+const PdfLayoutSettings: React.FC<PdfLayoutSettingsProps> = ({ orgId }) => {
+  const { t, language } = useLanguage();
+  const [layouts, setLayouts] = useState<Record<PdfLayoutDocumentType, PdfLayout> | null>(null);
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [documentType, setDocumentType] = useState<PdfLayoutDocumentType>('invoice');
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all([
+      getPdfLayouts(orgId),
+      supabase.from('organizations').select('*').eq('id', orgId).single(),
+    ])
+      .then(([data, { data: org }]) => {
+        setLayouts(data);
+        setOrganization(org);
+      })
+      .catch(error => {
+        console.error("Failed to fetch PDF layouts:", error);
+        alert("Failed to load PDF layouts. Please try again.");
+      })
+      .finally(() => setIsLoading(false));
+  }, [orgId]);
+
+  // Re-render the sample document shortly after the last change.
+  const layout = layouts?.[documentType];
+  useEffect(() => {
+    if (!organization || !layout) return;
+    let url: string | null = null;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      generateLayoutPreview(organization, layout, language)
+        .then(blob => {
+          if (cancelled) return;
+          url = URL.createObjectURL(blob);
+          setPreviewUrl(url);
+        })
+        .catch(error => console.error("Failed to render the layout preview:", error));
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [organization, layout, language]);
+
+  const handleChange = <K extends keyof PdfLayout>(field: K, value: PdfLayout[K]) => {
+    setLayouts(prev => prev && ({ ...prev, [documentType]: { ...prev[documentType], [field]: value } }));
+  };
+
+  // Footer columns keep their configured order; item columns are stored as the hidden ones.
+  const toggleFooterColumn = (column: PdfFooterColumn) => {
+    if (!layout) return;
+    const columns = layout.footer_columns.includes(column)
+      ? layout.footer_columns.filter(c => c !== column)
+      : FOOTER_COLUMNS.filter(c => c === column || layout.footer_columns.includes(c));
+    handleChange('footer_columns', columns);
+  };
+
+  const toggleItemColumn = (column: PdfItemColumn) => {
+    if (!layout) return;
+    const hidden = layout.hidden_columns.includes(column)
+      ? layout.hidden_columns.filter(c => c !== column)
+      : [...layout.hidden_columns, column];
+    handleChange('hidden_columns', hidden);
+  };
+
+  const handleSave = async () => {
+    if (!layout) return;
+    setIsSaving(true);
+    try {
+      await savePdfLayout(layout);
+      alert('PDF layout saved successfully!');
+    } catch (error: any) {
+      alert('Error saving PDF layout: ' + error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600";
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t('pdfLayout')}</h2>
+        <button onClick={handleSave} disabled={isSaving || isLoading} className="px-4 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
+          {isSaving ? 'Saving...' : t('save')}
+        </button>
+      </div>
+      {isLoading || !layout ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="w-12 h-12 border-4 border-dashed rounded-full animate-spin border-primary-600"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium">{t('layoutDocumentType')}</label>
+              <select value={documentType} onChange={(e) => setDocumentType(e.target.value as PdfLayoutDocumentType)} className={inputClass}>
+                {PDF_LAYOUT_DOCUMENT_TYPES.map(type => <option key={type} value={type}>{t(`layoutType_${type}`)}</option>)}
+              </select>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium">{t('logoPosition')}</label>
+                <select value={layout.logo_position} onChange={(e) => handleChange('logo_position', e.target.value as PdfLogoPosition)} className={inputClass}>
+                  {LOGO_POSITIONS.map(position => <option key={position} value={position}>{t(`logo_${position}`)}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium">{t('accentColor')}</label>
+                <input type="color" value={layout.accent_color} onChange={(e) => handleChange('accent_color', e.target.value)} className="mt-1 w-full h-10 p-1 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+              </div>
+              <div>
+                <label className="block text-sm font-medium">{t('font')}</label>
+                <select value={layout.font} onChange={(e) => handleChange('font', e.target.value as PdfFont)} className={inputClass}>
+                  {FONTS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('introText')}</label>
+              <textarea value={layout.intro_text || ''} onChange={(e) => handleChange('intro_text', e.target.value)} rows={3} className={inputClass}/>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('closingText')}</label>
+              <textarea value={layout.closing_text || ''} onChange={(e) => handleChange('closing_text', e.target.value)} rows={3} className={inputClass}/>
+            </div>
+            <div>
+              <span className="block text-sm font-medium">{t('footerColumns')}</span>
+              <div className="mt-1 flex flex-wrap gap-4">
+                {FOOTER_COLUMNS.map(column => (
+                  <label key={column} className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={layout.footer_columns.includes(column)} onChange={() => toggleFooterColumn(column)}/>
+                    {t(`footer_${column}`)}
+                  </label>
+                ))}
+              </div>
+            </div>
+            {documentType !== 'reminder' && (
+              <div>
+                <span className="block text-sm font-medium">{t('itemColumns')}</span>
+                <div className="mt-1 flex flex-wrap gap-4">
+                  {ITEM_COLUMNS.map(column => (
+                    <label key={column.value} className="flex items-center gap-2 text-sm">
+                      <input type="checkbox" checked={!layout.hidden_columns.includes(column.value)} onChange={() => toggleItemColumn(column.value)}/>
+                      {t(column.label)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <div>
+            <span className="block text-sm font-medium mb-1">{t('preview')}</span>
+            {previewUrl
+              ? <iframe src={previewUrl} title={t('preview')} className="w-full h-[36rem] border rounded dark:border-gray-600"/>
+              : <div className="flex items-center justify-center h-[36rem] border rounded dark:border-gray-600"><div className="w-12 h-12 border-4 border-dashed rounded-full animate-spin border-primary-600"></div></div>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PdfLayoutSettings;
@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { QuoteFollowUpSettings as Settings } from '../../types';
+import { getQuoteFollowUpSettings, saveQuoteFollowUpSettings, getDefaultQuoteFollowUpSettings } from '../../lib/quoteFollowUp';
+
+interface QuoteFollowUpSettingsProps {
+  orgId: string;
+}
+
+type DaysField = 'follow_up_days' | 'expiry_reminder_days';
+
+const QuoteFollowUpSettings: React.FC<QuoteFollowUpSettingsProps> = ({ orgId }) => {
+  const { t } = useLanguage();
+  const [settings, setSettings] = useState<Settings>(getDefaultQuoteFollowUpSettings(orgId));
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    getQuoteFollowUpSettings(orgId)
+      .then(setSettings)
+      .catch(error => {
+        console.error("Failed to fetch quote follow-up settings:", error);
+        alert("Failed to load quote follow-up settings. Please try again.");
+      })
+      .finally(() => setIsLoading(false));
+  }, [orgId]);
+
+  const handleToggle = (field: DaysField, enabled: boolean) => {
+    setSettings(prev => ({ ...prev, [field]: enabled ? getDefaultQuoteFollowUpSettings(orgId)[field] : null }));
+  };
+
+  const handleDaysChange = (field: DaysField, value: string) => {
+    setSettings(prev => ({ ...prev, [field]: Math.max(0, parseInt(value, 10) || 0) }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveQuoteFollowUpSettings(settings);
+      alert('Quote follow-up settings saved successfully!');
+    } catch (error: any) {
+      alert('Error saving quote follow-up settings: ' + error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const fields: { field: DaysField; label: string }[] = [
+    { field: 'follow_up_days', label: t('followUpAfterSending') },
+    { field: 'expiry_reminder_days', label: t('reminderBeforeExpiry') },
+  ];
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t('quoteFollowUps')}</h2>
+        <button onClick={handleSave} disabled={isSaving || isLoading} className="px-4 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
+          {isSaving ? 'Saving...' : t('save')}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">Sent quotes are marked as expired after their valid until date. The tasks are assigned to whoever created the quote.</p>
+      {isLoading ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="w-12 h-12 border-4 border-dashed rounded-full animate-spin border-primary-600"></div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {fields.map(({ field, label }) => (
+            <div key={field} className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-x-2 w-72">
+                <input type="checkbox" checked={settings[field] != null} onChange={(e) => handleToggle(field, e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-primary-600" />
+                <span className="text-sm font-medium">{label}</span>
+              </label>
+              {settings[field] != null && (
+                <div className="flex items-center gap-x-2 text-sm">
+                  <input type="number" min="0" value={settings[field] ?? ''} onChange={(e) => handleDaysChange(field, e.target.value)} className="w-24 p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600" />
+                  <span>{t('days')}</span>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuoteFollowUpSettings;
@@ -0,0 +1,121 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../../services/supabase';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Profile, StorageLocationType } from '../../types';
+import { getStorageLocations, saveStorageLocations, EditableStorageLocation } from '../../lib/storageLocations';
+import { TrashIcon } from '@heroicons/react/24/outline';
+
+interface StorageLocationSettingsProps {
+  orgId: string;
+}
+
+const LOCATION_TYPES: StorageLocationType[] = ['warehouse', 'vehicle'];
+
+const StorageLocationSettings: React.FC<StorageLocationSettingsProps> = ({ orgId }) => {
+  const { t } = useLanguage();
+  const [locations, setLocations] = useState<EditableStorageLocation[]>([]);
+  const [employees, setEmployees] = useState<Pick<Profile, 'id' | 'full_name' | 'email'>[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchLocations = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [data, { data: members, error }] = await Promise.all([
+        getStorageLocations(orgId),
+        supabase.from('profiles').select('id, full_name, email').eq('org_id', orgId).order('full_name'),
+      ]);
+      if (error) throw new Error(error.message);
+      setLocations(data.map(({ org_id, created_at, ...l }) => l));
+      setEmployees(members || []);
+    } catch (error) {
+      console.error("Failed to fetch storage locations:", error);
+      alert("Failed to load storage locations. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [orgId]);
+
+  useEffect(() => {
+    fetchLocations();
+  }, [fetchLocations]);
+
+  const handleChange = (index: number, field: keyof EditableStorageLocation, value: string) => {
+    setLocations(prev => prev.map((l, i) => i === index ? { ...l, [field]: field === 'employee_id' ? value || null : value } : l));
+  };
+
+  const addLocation = () => setLocations(prev => [...prev, { name: '', location_type: 'vehicle', employee_id: null }]);
+  const removeLocation = (index: number) => setLocations(prev => prev.filter((_, i) => i !== index));
+
+  const handleSave = async () => {
+    if (locations.some(l => !l.name.trim())) {
+      alert('Please enter a name for every storage location.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await saveStorageLocations(orgId, locations);
+      await fetchLocations();
+      alert('Storage locations saved successfully!');
+    } catch (error: any) {
+      alert('Error saving storage locations: ' + error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t('storageLocations')}</h2>
+        <button onClick={handleSave} disabled={isSaving || isLoading} className="px-4 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
+          {isSaving ? 'Saving...' : t('save')}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">Stock is kept in the main warehouse unless it is transferred to another location. Visits consume the products from the vehicle of the assigned employee.</p>
+      {isLoading ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="w-12 h-12 border-4 border-dashed rounded-full animate-spin border-primary-600"></div>
+        </div>
+      ) : (
+        <>
+          <table className="min-w-full">
+            <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+              <th className="py-2">Name</th><th className="py-2 w-40">{t('locationType')}</th><th className="py-2">{t('assignedEmployee')}</th><th className="w-10"></th>
+            </tr></thead>
+            <tbody>
+              <tr className="border-b dark:border-gray-700 text-gray-500 dark:text-gray-400">
+                <td className="py-2 pr-2 font-medium">{t('mainWarehouse')}</td>
+                <td className="py-2 pr-2">{t('locationType_warehouse')}</td>
+                <td className="py-2 pr-2">-</td>
+                <td></td>
+              </tr>
+              {locations.map((location, index) => (
+                <tr key={location.id ?? `new-${index}`} className="border-b dark:border-gray-700">
+                  <td className="py-2 pr-2"><input value={location.name} onChange={(e) => handleChange(index, 'name', e.target.value)} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"/></td>
+                  <td className="py-2 pr-2">
+                    <select value={location.location_type} onChange={(e) => handleChange(index, 'location_type', e.target.value)} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+                      {LOCATION_TYPES.map(type => <option key={type} value={type}>{t(`locationType_${type}`)}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-2 pr-2">
+                    {location.location_type === 'vehicle' ? (
+                      <select value={location.employee_id || ''} onChange={(e) => handleChange(index, 'employee_id', e.target.value)} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+                        <option value="">-</option>
+                        {employees.map(employee => <option key={employee.id} value={employee.id}>{employee.full_name || employee.email}</option>)}
+                      </select>
+                    ) : '-'}
+                  </td>
+                  <td><button onClick={() => removeLocation(index)}><TrashIcon className="w-5 h-5 text-red-500"/></button></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button onClick={addLocation} className="mt-4 px-4 py-2 bg-gray-200 rounded-md dark:bg-gray-600 text-sm">Add Location</button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StorageLocationSettings;
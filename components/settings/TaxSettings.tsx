@@ -0,0 +1,71 @@
+import React, { useState, useEffect } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { COUNTRIES, DEFAULT_COUNTRY } from '../../constants';
+import { getOrganizationTaxSettings, saveOrganizationTaxSettings, getVatRates, OrganizationTaxSettings } from '../../lib/taxEngine';
+
+interface TaxSettingsProps {
+  orgId: string;
+}
+
+const TaxSettings: React.FC<TaxSettingsProps> = ({ orgId }) => {
+  const { t } = useLanguage();
+  const [settings, setSettings] = useState<OrganizationTaxSettings>({ country: DEFAULT_COUNTRY, small_business: false });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    getOrganizationTaxSettings(orgId)
+      .then(data => setSettings({ country: data.country || DEFAULT_COUNTRY, small_business: !!data.small_business }))
+      .catch(error => {
+        console.error("Failed to fetch tax settings:", error);
+        alert("Failed to load tax settings. Please try again.");
+      })
+      .finally(() => setIsLoading(false));
+  }, [orgId]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveOrganizationTaxSettings(orgId, settings);
+      alert('Tax settings saved successfully!');
+    } catch (error: any) {
+      alert('Error saving tax settings: ' + error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t('tax')}</h2>
+        <button onClick={handleSave} disabled={isSaving || isLoading} className="px-4 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
+          {isSaving ? 'Saving...' : t('save')}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">The VAT rates and mandatory invoice notes are derived from these settings and the country and VAT ID of each customer.</p>
+      {isLoading ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="w-12 h-12 border-4 border-dashed rounded-full animate-spin border-primary-600"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium">{t('country')}</label>
+            <select value={settings.country || DEFAULT_COUNTRY} onChange={(e) => setSettings(s => ({ ...s, country: e.target.value }))} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+              {COUNTRIES.map(c => <option key={c.code} value={c.code}>{c.name}</option>)}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">VAT rates: {getVatRates(settings.country).map(rate => `${rate}%`).join(', ')}</p>
+          </div>
+          <label className="flex items-center gap-x-2 md:mt-6">
+            <input type="checkbox" checked={!!settings.small_business} onChange={(e) => setSettings(s => ({ ...s, small_business: e.target.checked }))} className="h-4 w-4 rounded border-gray-300 text-primary-600" />
+            <span className="text-sm font-medium">{t('smallBusiness')}</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaxSettings;
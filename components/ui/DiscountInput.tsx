@@ -0,0 +1,41 @@
+import React from 'react';
+import { DiscountType } from '../../types';
+
+interface DiscountInputProps {
+  type: DiscountType | null | undefined;
+  value: number | null | undefined;
+  onChange: (type: DiscountType, value: number | null) => void;
+  disabled?: boolean;
+}
+
+// A number input combined with a percent/euro switch, used for line and document discounts.
+const DiscountInput: React.FC<DiscountInputProps> = ({ type, value, onChange, disabled = false }) => {
+  const discountType: DiscountType = type || 'percent';
+
+  return (
+    <div className="flex">
+      <input
+        type="number"
+        min="0"
+        step="0.01"
+        max={discountType === 'percent' ? 100 : undefined}
+        value={value || ''}
+        onChange={(e) => onChange(discountType, e.target.value === '' ? null : parseFloat(e.target.value))}
+        readOnly={disabled}
+        placeholder="0"
+        className="w-full min-w-0 p-1 border rounded-l-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"
+      />
+      <select
+        value={discountType}
+        onChange={(e) => onChange(e.target.value as DiscountType, value ?? null)}
+        disabled={disabled}
+        className="p-1 border border-l-0 rounded-r-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50"
+      >
+        <option value="percent">%</option>
+        <option value="fixed">€</option>
+      </select>
+    </div>
+  );
+};
+
+export default DiscountInput;
@@ -0,0 +1,80 @@
+import React, { useRef, useEffect } from 'react';
+
+interface SignaturePadProps {
+  onChange: (signature: string | null) => void;
+  clearLabel: string;
+  disabled?: boolean;
+}
+
+// A canvas to sign on with mouse, pen or finger. Reports the signature as PNG data URL, or null when cleared.
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, clearLabel, disabled = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+  // Match the drawing buffer to the displayed size, so strokes are not scaled.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.scale(ratio, ratio);
+      context.lineWidth = 2;
+      context.lineCap = 'round';
+      context.lineJoin = 'round';
+      context.strokeStyle = '#111827';
+    }
+  }, []);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = getPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!lastPoint.current || !context) return;
+    const point = getPoint(e);
+    context.beginPath();
+    context.moveTo(lastPoint.current.x, lastPoint.current.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPoint.current = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPoint.current) return;
+    lastPoint.current = null;
+    onChange(canvasRef.current?.toDataURL('image/png') || null);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        className="w-full h-40 bg-white border-2 border-dashed rounded-md touch-none border-gray-300 dark:border-gray-600"
+      />
+      <button type="button" onClick={handleClear} disabled={disabled} className="mt-1 text-sm text-primary-600 hover:underline disabled:opacity-50">{clearLabel}</button>
+    </div>
+  );
+};
+
+export default SignaturePad;
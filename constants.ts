@@ -1,7 +1,134 @@
 // Fix: Added missing constants file with translations and VAT rates.
-import { UserRole } from './types';
+import { UserRole, DunningLevel, EmailTemplate, DatevChart, DatevSettings, NumberScheme, SequenceType, PdfLayout } from './types';
 
-export const GERMAN_VAT_RATES = [19, 7, 0];
+// Standard and reduced VAT rates per country (ISO 3166-1 alpha-2), highest first. Used by the tax engine.
+export const VAT_RATES_BY_COUNTRY: { [countryCode: string]: number[] } = {
+  DE: [19, 7, 0],
+  AT: [20, 13, 10, 0],
+  AL: [20, 6, 0],
+  XK: [18, 8, 0],
+};
+
+export const DEFAULT_COUNTRY = 'DE';
+
+export const EU_COUNTRIES = [
+  'AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU',
+  'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK',
+];
+
+// Countries offered in the organization and customer forms.
+export const COUNTRIES: { code: string; name: string }[] = [
+  { code: 'DE', name: 'Deutschland' },
+  { code: 'AL', name: 'Albanien' },
+  { code: 'XK', name: 'Kosovo' },
+  { code: 'MK', name: 'Nordmazedonien' },
+  { code: 'AT', name: 'Österreich' },
+  { code: 'CH', name: 'Schweiz' },
+  { code: 'IT', name: 'Italien' },
+  { code: 'FR', name: 'Frankreich' },
+  { code: 'NL', name: 'Niederlande' },
+  { code: 'BE', name: 'Belgien' },
+  { code: 'LU', name: 'Luxemburg' },
+  { code: 'PL', name: 'Polen' },
+  { code: 'CZ', name: 'Tschechien' },
+  { code: 'DK', name: 'Dänemark' },
+  { code: 'ES', name: 'Spanien' },
+  { code: 'GR', name: 'Griechenland' },
+  { code: 'HR', name: 'Kroatien' },
+  { code: 'SI', name: 'Slowenien' },
+  { code: 'HU', name: 'Ungarn' },
+  { code: 'RO', name: 'Rumänien' },
+  { code: 'BG', name: 'Bulgarien' },
+  { code: 'SE', name: 'Schweden' },
+  { code: 'GB', name: 'Vereinigtes Königreich' },
+  { code: 'RS', name: 'Serbien' },
+  { code: 'ME', name: 'Montenegro' },
+  { code: 'TR', name: 'Türkei' },
+  { code: 'US', name: 'Vereinigte Staaten' },
+];
+
+// Default dunning levels (Mahnstufen) if an organization has not configured its own
+export const DEFAULT_DUNNING_LEVELS: Omit<DunningLevel, 'org_id'>[] = [
+  { level: 1, name: 'Zahlungserinnerung', days_after: 7, fee: 0 },
+  { level: 2, name: '1. Mahnung', days_after: 14, fee: 5 },
+  { level: 3, name: '2. Mahnung', days_after: 14, fee: 10 },
+];
+
+// Placeholders that can be used in email templates; they are replaced when a document is sent.
+export const EMAIL_PLACEHOLDERS = ['customer_name', 'document_number', 'issue_date', 'due_date', 'total_amount', 'company_name'];
+
+// Default email templates if an organization has not configured its own
+export const DEFAULT_EMAIL_TEMPLATES: Omit<EmailTemplate, 'org_id'>[] = [
+  {
+    document_type: 'invoice',
+    subject: 'Rechnung {document_number} von {company_name}',
+    body: 'Sehr geehrte Damen und Herren,\n\nanbei erhalten Sie unsere Rechnung {document_number} vom {issue_date} über {total_amount}. Bitte begleichen Sie den Betrag bis zum {due_date}.\n\nMit freundlichen Grüßen\n{company_name}',
+  },
+  {
+    document_type: 'quote',
+    subject: 'Angebot {document_number} von {company_name}',
+    body: 'Sehr geehrte Damen und Herren,\n\nanbei erhalten Sie unser Angebot {document_number} vom {issue_date} über {total_amount}. Das Angebot ist gültig bis zum {due_date}.\n\nMit freundlichen Grüßen\n{company_name}',
+  },
+];
+
+// Standard accounts of the DATEV charts of accounts, used until an organization configures its own mapping
+export const DATEV_DEFAULT_ACCOUNTS: Record<DatevChart, Pick<DatevSettings, 'bank_account' | 'revenue_accounts' | 'default_expense_account'>> = {
+  SKR03: {
+    bank_account: '1200',
+    revenue_accounts: {
+      standard_19: { account: '8400', bu_key: '' },
+      standard_7: { account: '8300', bu_key: '' },
+      standard_0: { account: '8200', bu_key: '' },
+      reverse_charge: { account: '8337', bu_key: '' },
+      intra_community: { account: '8125', bu_key: '' },
+      export: { account: '8120', bu_key: '' },
+      small_business: { account: '8195', bu_key: '' },
+    },
+    default_expense_account: '4900',
+  },
+  SKR04: {
+    bank_account: '1800',
+    revenue_accounts: {
+      standard_19: { account: '4400', bu_key: '' },
+      standard_7: { account: '4300', bu_key: '' },
+      standard_0: { account: '4200', bu_key: '' },
+      reverse_charge: { account: '4337', bu_key: '' },
+      intra_community: { account: '4125', bu_key: '' },
+      export: { account: '4120', bu_key: '' },
+      small_business: { account: '4185', bu_key: '' },
+    },
+    default_expense_account: '6300',
+  },
+};
+
+// DATEV reserves 10000-69999 for debtors when accounts have four digits.
+export const DATEV_FIRST_DEBTOR_NUMBER = 10000;
+
+// Default number schemes if an organization has not configured its own; they match the numbers issued before schemes were configurable
+export const DEFAULT_NUMBER_SCHEMES: Record<SequenceType, Pick<NumberScheme, 'pattern' | 'reset_policy'>> = {
+  customer: { pattern: 'CUST-{NUMBER:6}', reset_policy: 'never' },
+  quote: { pattern: 'QUO-{YYYY}-{NUMBER:4}', reset_policy: 'yearly' },
+  invoice: { pattern: 'INV-{YYYY}-{NUMBER:4}', reset_policy: 'yearly' },
+  credit_note: { pattern: 'GS-{YYYY}-{NUMBER:4}', reset_policy: 'yearly' },
+  cancellation: { pattern: 'STO-{YYYY}-{NUMBER:4}', reset_policy: 'yearly' },
+  task: { pattern: 'TASK-{YYYY}-{NUMBER:4}', reset_policy: 'yearly' },
+  product: { pattern: 'PROD-{NUMBER:5}', reset_policy: 'never' },
+  appointment: { pattern: 'APP-{YYYY}-{NUMBER:4}', reset_policy: 'yearly' },
+  expense: { pattern: 'EXP-{YYYY}-{NUMBER:4}', reset_policy: 'yearly' },
+  visit: { pattern: 'VIS-{YYYY}-{NUMBER:4}', reset_policy: 'yearly' },
+  purchase_order: { pattern: 'PO-{YYYY}-{NUMBER:4}', reset_policy: 'yearly' },
+};
+
+// PDF layout of every document type until an organization configures its own
+export const DEFAULT_PDF_LAYOUT: Omit<PdfLayout, 'org_id' | 'document_type'> = {
+  logo_position: 'left',
+  accent_color: '#1d4ed8', // primary-700 blue
+  font: 'helvetica',
+  intro_text: null,
+  closing_text: null,
+  footer_columns: ['address', 'contact', 'bank', 'tax'],
+  hidden_columns: [],
+};
 
 // Default permissions for roles if not configured in the database
 export const defaultPermissions: Record<UserRole, string[]> = {
@@ -29,6 +156,7 @@ export const translations = {
     address: 'Adresse',
     iban: 'IBAN',
     bic: 'BIC',
+    girocodeOnInvoices: 'GiroCode (QR-Code für Überweisungen) auf Rechnungen drucken',
     vat_id: 'USt-IdNr.',
     save: 'Speichern',
     cancel: 'Abbrechen',
@@ -42,6 +170,350 @@ export const translations = {
     sales_overview: 'Verkaufsübersicht',
     recent_invoices: 'Letzte Rechnungen',
     paid: 'Bezahlt',
+    partially_paid: 'Teilweise bezahlt',
+    payments: 'Zahlungen',
+    recordPayment: 'Zahlung erfassen',
+    paymentDate: 'Zahlungsdatum',
+    paymentMethod: 'Zahlungsart',
+    reference: 'Referenz',
+    paidAmount: 'Bezahlt',
+    openBalance: 'Offener Betrag',
+    noPaymentsYet: 'Noch keine Zahlungen erfasst.',
+    reminders: 'Mahnungen',
+    dunning: 'Mahnwesen',
+    dunningRun: 'Mahnlauf',
+    dunningLevel: 'Mahnstufe',
+    dunningFee: 'Mahngebühr',
+    daysAfter: 'Tage danach',
+    createReminders: 'Mahnungen erstellen',
+    noRemindersYet: 'Noch keine Mahnungen versendet.',
+    noDunningCandidates: 'Keine Rechnungen sind zur Mahnung fällig.',
+    invoice: 'Rechnung',
+    credit_note: 'Gutschrift',
+    cancellation: 'Stornorechnung',
+    createCreditNote: 'Gutschrift erstellen',
+    cancelInvoice: 'Rechnung stornieren',
+    refersToInvoice: 'Bezieht sich auf Rechnung',
+    invoiceLockedNotice: 'Diese Rechnung wurde versendet und kann nicht mehr geändert werden. Korrekturen sind nur per Gutschrift oder Stornorechnung möglich.',
+    creditDocumentLockedNotice: 'Dieses Dokument wurde ausgestellt und kann nicht mehr geändert werden.',
+    eInvoiceExport: 'E-Rechnung exportieren',
+    eInvoiceFormat: 'Format',
+    eInvoiceValid: 'Alle Pflichtangaben sind vorhanden.',
+    eInvoiceMissingFields: 'Für den Export fehlen folgende Pflichtangaben:',
+    exportFile: 'Exportieren',
+    recurringInvoices: 'Wiederkehrende Rechnungen',
+    newRecurringInvoice: 'Neue wiederkehrende Rechnung',
+    generateDueInvoices: 'Fällige Rechnungen erzeugen',
+    interval: 'Intervall',
+    monthly: 'Monatlich',
+    quarterly: 'Vierteljährlich',
+    half_yearly: 'Halbjährlich',
+    yearly: 'Jährlich',
+    issueAs: 'Erstellen als',
+    startDate: 'Startdatum',
+    endDate: 'Enddatum',
+    nextRun: 'Nächste Ausführung',
+    upcomingRuns: 'Nächste Ausführungen',
+    paymentTermsDays: 'Zahlungsziel (Tage)',
+    skipNextRun: 'Nächste Ausführung überspringen',
+    pause: 'Pausieren',
+    resume: 'Fortsetzen',
+    active: 'Aktiv',
+    paused: 'Pausiert',
+    ended: 'Beendet',
+    noRecurringInvoices: 'Keine wiederkehrenden Rechnungen vorhanden.',
+    discount: 'Rabatt',
+    documentDiscount: 'Gesamtrabatt',
+    netAmount: 'Nettobetrag',
+    tax: 'Steuern',
+    country: 'Land',
+    smallBusiness: 'Kleinunternehmer (§ 19 UStG)',
+    reverseChargeRecipient: 'Leistungsempfänger nach § 13b UStG',
+    taxTreatment: 'Besteuerung',
+    tax_standard: 'Regelbesteuerung',
+    tax_reverse_charge: 'Reverse Charge (§ 13b UStG)',
+    tax_intra_community: 'Innergemeinschaftliche Lieferung',
+    tax_export: 'Ausfuhrlieferung',
+    tax_small_business: 'Kleinunternehmer (§ 19 UStG)',
+    send: 'Senden',
+    sendDocument: 'Per E-Mail senden',
+    recipients: 'Empfänger',
+    cc: 'CC',
+    subject: 'Betreff',
+    message: 'Nachricht',
+    emailLog: 'E-Mail-Verlauf',
+    emailTemplates: 'E-Mail-Vorlagen',
+    mailTransport: 'Versand über',
+    transport_smtp: 'SMTP-Server',
+    transport_file: 'Datei (.eml, zum Testen)',
+    placeholders: 'Platzhalter',
+    bankImport: 'Kontoauszug importieren',
+    bankImportHint: 'Unterstützt CAMT.053 (XML), MT940 und CSV-Exporte Ihrer Bank.',
+    counterparty: 'Auftraggeber / Empfänger',
+    match: 'Zuordnung',
+    split: 'Aufteilen',
+    confirm: 'Bestätigen',
+    ignore: 'Ignorieren',
+    createExpense: 'Als Ausgabe erfassen',
+    confirmAllMatched: 'Alle Zuordnungen bestätigen',
+    noOpenTransactions: 'Keine offenen Umsätze.',
+    match_reference: 'Rechnungsnummer',
+    match_amount: 'Betrag',
+    match_customer: 'Kunde',
+    datevExport: 'DATEV-Export',
+    datevSettings: 'DATEV',
+    consultantNumber: 'Beraternummer',
+    clientNumber: 'Mandantennummer',
+    chartOfAccounts: 'Kontenrahmen',
+    bankAccount: 'Bankkonto',
+    revenueAccounts: 'Erlöskonten',
+    expenseAccounts: 'Aufwandskonten',
+    defaultExpenseAccount: 'Aufwandskonto (Standard)',
+    account: 'Konto',
+    buKey: 'BU-Schlüssel',
+    createInvoiceFromVisit: 'Rechnung aus Einsatz erstellen',
+    billable: 'Weiterberechnen',
+    laborTime: 'Arbeitszeit',
+    laborHours: 'Stunden',
+    hourlyRate: 'Stundensatz',
+    billedOnInvoice: 'Abgerechnet mit Rechnung',
+    billed: 'Abgerechnet',
+    billingRun: 'Sammelrechnung',
+    billingRunHint: 'Erstellt eine Rechnung pro Kunde über alle abgeschlossenen, noch nicht abgerechneten Einsätze des Zeitraums.',
+    preview: 'Vorschau',
+    positions: 'Positionen',
+    net: 'Netto',
+    createInvoices: 'Rechnungen erstellen',
+    invoicesCreated: 'Erstellte Rechnungen',
+    noUnbilledVisits: 'Keine abzurechnenden Einsätze in diesem Zeitraum.',
+    quoteInvoicing: 'Abrechnung',
+    downPayment: 'Abschlag',
+    downPaymentInvoice: 'Abschlagsrechnung',
+    finalInvoice: 'Schlussrechnung',
+    createInvoice: 'Rechnung erstellen',
+    invoicedAmount: 'Abgerechnet',
+    remainingAmount: 'Verbleibend',
+    billing_full: 'Rechnung',
+    billing_down_payment: 'Abschlagsrechnung',
+    billing_final: 'Schlussrechnung',
+    numberSchemes: 'Nummernkreise',
+    branchCode: 'Filialkürzel',
+    numberPattern: 'Format',
+    counterReset: 'Zähler zurücksetzen',
+    startValue: 'Startwert',
+    reset_never: 'Nie',
+    reset_yearly: 'Jährlich',
+    reset_monthly: 'Monatlich',
+    sequence_customer: 'Kunden',
+    sequence_quote: 'Angebote',
+    sequence_invoice: 'Rechnungen',
+    sequence_credit_note: 'Gutschriften',
+    sequence_cancellation: 'Stornorechnungen',
+    sequence_task: 'Aufgaben',
+    sequence_product: 'Produkte',
+    sequence_appointment: 'Termine',
+    sequence_expense: 'Ausgaben',
+    sequence_visit: 'Einsätze',
+    sequence_purchase_order: 'Bestellungen',
+    taxNote_reverse_charge: 'Steuerschuldnerschaft des Leistungsempfängers (§ 13b UStG).',
+    taxNote_intra_community: 'Steuerfreie innergemeinschaftliche Lieferung (§ 4 Nr. 1b i.V.m. § 6a UStG).',
+    taxNote_export: 'Steuerfreie Ausfuhrlieferung (§ 4 Nr. 1a i.V.m. § 6 UStG).',
+    taxNote_small_business: 'Gemäß § 19 UStG wird keine Umsatzsteuer berechnet.',
+    taxNote_customerVatId: 'USt-IdNr. des Leistungsempfängers: {vatId}',
+    pdf_billTo: 'Rechnungsempfänger',
+    pdf_number_invoice: 'Rechnungsnummer',
+    pdf_number_credit_note: 'Gutschriftsnummer',
+    pdf_number_cancellation: 'Stornonummer',
+    pdf_number_quote: 'Angebotsnummer',
+    pdf_date: 'Datum',
+    pdf_dueDate: 'Fällig am',
+    pdf_validUntil: 'Gültig bis',
+    pdf_title_invoice: 'RECHNUNG',
+    pdf_title_credit_note: 'GUTSCHRIFT',
+    pdf_title_cancellation: 'STORNORECHNUNG',
+    pdf_title_down_payment: 'ABSCHLAGSRECHNUNG',
+    pdf_title_final: 'SCHLUSSRECHNUNG',
+    pdf_title_quote: 'ANGEBOT',
+    pdf_correctsInvoice: 'zur Rechnung {number} vom {date}',
+    pdf_position: 'Pos.',
+    pdf_description: 'Beschreibung',
+    pdf_quantity: 'Menge',
+    pdf_unitPrice: 'Preis/Einheit',
+    pdf_discount: 'Rabatt',
+    pdf_vat: 'MwSt.',
+    pdf_total: 'Gesamt',
+    pdf_subtotal: 'Zwischensumme (Netto)',
+    pdf_lessDiscount: 'abzgl. Rabatt',
+    pdf_netAmount: 'Nettobetrag',
+    pdf_plusVat: 'zzgl. MwSt. ({rate}%)',
+    pdf_grandTotal: 'Gesamtbetrag',
+    pdf_notes: 'Anmerkungen',
+    pdf_payByGiroCode: 'Bezahlen per GiroCode',
+    pdf_giroCodeHint: 'Scannen Sie den Code mit Ihrer Banking-App, um {amount} mit dem Verwendungszweck {reference} zu überweisen.',
+    pdf_carryOver: 'Übertrag',
+    pdf_page: 'Seite {page} von {pages}',
+    pdf_phone: 'Tel',
+    pdf_email: 'E-Mail',
+    pdf_vatId: 'USt-IdNr',
+    pdf_invoiceDate: 'Rechnungsdatum',
+    pdf_overdueSince: 'Fällig seit',
+    pdf_reminderIntroFirst: 'Sicherlich haben Sie übersehen, dass unsere Rechnung {number} noch nicht vollständig beglichen ist. Wir bitten Sie, den offenen Betrag innerhalb von 7 Tagen zu überweisen.',
+    pdf_reminderIntroFurther: 'Trotz unserer bisherigen Erinnerungen ist unsere Rechnung {number} weiterhin offen. Bitte überweisen Sie den Gesamtbetrag einschließlich Mahngebühren umgehend, spätestens innerhalb von 7 Tagen.',
+    pdf_invoiceAmount: 'Rechnungsbetrag',
+    pdf_alreadyPaid: 'Bereits bezahlt',
+    pdf_openInvoiceAmount: 'Offener Rechnungsbetrag',
+    pdf_reminderFees: 'Mahngebühren',
+    pdf_amountDue: 'Zu zahlender Betrag',
+    pdf_reminderClosing: 'Sollten Sie die Zahlung bereits veranlasst haben, betrachten Sie dieses Schreiben bitte als gegenstandslos.',
+    pdf_optionsTitle: 'Optionale und alternative Positionen (nicht im Gesamtbetrag enthalten)',
+    pdf_optionalItems: 'Optionale Positionen',
+    pdf_alternativeGroup: 'Alternative: {group}',
+    pdf_supplier: 'Lieferant',
+    pdf_number_purchase_order: 'Bestellnummer',
+    pdf_title_purchase_order: 'BESTELLUNG',
+    pdf_deliveryDate: 'Gewünschter Liefertermin',
+    pdf_ourCustomerNumber: 'Unsere Kundennummer',
+    pdf_purchaseOrderIntro: 'Hiermit bestellen wir zu den vereinbarten Konditionen folgende Artikel:',
+    pdf_productNumber: 'Art.-Nr.',
+    pdf_orderTotal: 'Bestellwert (netto)',
+    pdfLayout: 'PDF-Layout',
+    layoutDocumentType: 'Dokumenttyp',
+    layoutType_invoice: 'Rechnung',
+    layoutType_credit_note: 'Gutschrift',
+    layoutType_cancellation: 'Stornorechnung',
+    layoutType_quote: 'Angebot',
+    layoutType_reminder: 'Mahnung',
+    layoutType_purchase_order: 'Bestellung',
+    logoPosition: 'Logo-Position',
+    logo_left: 'Links',
+    logo_center: 'Mittig',
+    logo_right: 'Rechts',
+    logo_hidden: 'Ausgeblendet',
+    accentColor: 'Akzentfarbe',
+    font: 'Schriftart',
+    introText: 'Einleitungstext',
+    closingText: 'Schlusstext',
+    footerColumns: 'Spalten der Fußzeile',
+    footer_address: 'Anschrift',
+    footer_contact: 'Kontakt',
+    footer_bank: 'Bankverbindung',
+    footer_tax: 'Steuerangaben',
+    itemColumns: 'Spalten der Positionstabelle',
+    acceptanceLinks: 'Annahme-Links',
+    createLink: 'Link erstellen',
+    copyLink: 'Link kopieren',
+    revokeLink: 'Widerrufen',
+    link_active: 'Aktiv',
+    link_expired: 'Abgelaufen',
+    link_revoked: 'Widerrufen',
+    quoteLinkInvalid: 'Dieser Link ist ungültig, abgelaufen oder wurde widerrufen.',
+    downloadPdf: 'PDF herunterladen',
+    yourResponse: 'Ihre Antwort',
+    yourName: 'Ihr Name',
+    signature: 'Unterschrift',
+    clearSignature: 'Unterschrift löschen',
+    acceptQuoteConfirmation: 'Mit Ihrem Namen und Ihrer Unterschrift nehmen Sie dieses Angebot verbindlich an.',
+    acceptQuote: 'Angebot annehmen',
+    declineQuote: 'Angebot ablehnen',
+    quoteAcceptedOn: 'Angenommen am',
+    quoteDeclinedOn: 'Abgelehnt am',
+    quoteVersions: 'Versionen',
+    version: 'Version',
+    currentVersion: 'aktuell',
+    compareVersions: 'Vergleichen',
+    difference: 'Differenz',
+    change_added: 'Neu',
+    change_removed: 'Entfernt',
+    change_changed: 'Geändert',
+    total_itemsTotal: 'Summe Positionen',
+    total_documentDiscount: 'Rabatt',
+    total_subtotal: 'Nettobetrag',
+    total_totalVat: 'MwSt.',
+    total_grandTotal: 'Gesamtbetrag',
+    itemType: 'Positionsart',
+    itemType_standard: 'Standard',
+    itemType_optional: 'Optional',
+    itemType_alternative: 'Alternative',
+    alternativeGroup: 'Gruppe',
+    optionChosen: 'Gewählt',
+    chooseOptions: 'Wählen Sie die gewünschten Optionen und Alternativen aus.',
+    expired: 'Abgelaufen',
+    listView: 'Liste',
+    pipelineView: 'Pipeline',
+    openQuotesAgeing: 'Alter offener Angebote',
+    age_0_7: '0–7 Tage',
+    age_8_14: '8–14 Tage',
+    age_15_30: '15–30 Tage',
+    age_31_plus: 'Über 30 Tage',
+    sentDaysAgo: 'Gesendet vor (Tagen)',
+    quoteFollowUps: 'Angebotsnachverfolgung',
+    followUpAfterSending: 'Nachfassen nach dem Versand',
+    reminderBeforeExpiry: 'Erinnerung vor Ablauf',
+    days: 'Tage',
+    stockHistory: 'Lagerbewegungen',
+    currentStock: 'Aktueller Bestand',
+    movementType: 'Bewegungsart',
+    movement_receipt: 'Zugang',
+    movement_consumption: 'Verbrauch',
+    movement_correction: 'Korrektur',
+    movement_return: 'Rückgabe',
+    movement_transfer: 'Umlagerung',
+    countedStock: 'Gezählter Bestand',
+    quantity: 'Menge',
+    note: 'Notiz',
+    date: 'Datum',
+    stock: 'Bestand',
+    postMovement: 'Buchen',
+    noStockMovements: 'Noch keine Lagerbewegungen.',
+    openingStock: 'Anfangsbestand (optional)',
+    stockFromLedger: 'Der Bestand ergibt sich aus den Lagerbewegungen.',
+    suppliers: 'Lieferanten',
+    supplier: 'Lieferant',
+    newSupplier: 'Neuer Lieferant',
+    noSuppliers: 'Noch keine Lieferanten angelegt.',
+    contactPerson: 'Ansprechpartner',
+    ourCustomerNumber: 'Unsere Kundennummer',
+    purchasePrice: 'Einkaufspreis',
+    preferredSupplier: 'Bevorzugter Lieferant',
+    purchaseOrders: 'Bestellungen',
+    purchaseOrder: 'Bestellung',
+    newPurchaseOrder: 'Neue Bestellung',
+    noPurchaseOrders: 'Keine Bestellungen gefunden.',
+    orderNumber: 'Bestellnummer',
+    orderDate: 'Bestelldatum',
+    expectedDelivery: 'Liefertermin',
+    orderTotal: 'Bestellwert (netto)',
+    purchaseOrderStatus_draft: 'Entwurf',
+    purchaseOrderStatus_ordered: 'Bestellt',
+    purchaseOrderStatus_partially_received: 'Teilweise geliefert',
+    purchaseOrderStatus_received: 'Geliefert',
+    markAsOrdered: 'Als bestellt markieren',
+    goodsReceipt: 'Wareneingang',
+    receivedQuantity: 'Geliefert',
+    openQuantity: 'Offen',
+    receiveAllOpen: 'Alles offene übernehmen',
+    bookGoodsReceipt: 'Wareneingang buchen',
+    storageLocations: 'Lagerorte',
+    storageLocation: 'Lagerort',
+    mainWarehouse: 'Hauptlager',
+    locationType: 'Art',
+    locationType_warehouse: 'Lager',
+    locationType_vehicle: 'Fahrzeug',
+    allLocations: 'Alle Lagerorte',
+    transferStock: 'Umlagern',
+    fromLocation: 'Von',
+    toLocation: 'Nach',
+    myVan: 'Mein Fahrzeug',
+    onlyMyVan: 'Nur Bestand im Fahrzeug',
+    noVanAssigned: 'Ihnen ist kein Fahrzeug zugeordnet. Verbrauchte Artikel werden aus dem Hauptlager gebucht.',
+    restock: 'Auffüllen',
+    vatRate: 'MwSt.-Satz',
+    defaultVatRate: 'Standardsatz des Belegs',
+    bank_transfer: 'Überweisung',
+    cash: 'Bar',
+    card: 'Karte',
+    paypal: 'PayPal',
+    other: 'Sonstige',
     sent: 'Gesendet',
     overdue: 'Überfällig',
     draft: 'Entwurf',
@@ -152,6 +624,7 @@ export const translations = {
     address: 'Adresa',
     iban: 'IBAN',
     bic: 'BIC',
+    girocodeOnInvoices: 'Printo kodin QR GiroCode për transferta bankare në fatura',
     vat_id: 'ID e TVSH-së',
     save: 'Ruaj',
     cancel: 'Anulo',
@@ -165,6 +638,350 @@ export const translations = {
     pasqyra_e_shitjeve: 'Pasqyra e shitjeve',
     recent_invoices: 'Faturat e fundit',
     paid: 'Paguar',
+    partially_paid: 'Paguar pjesërisht',
+    payments: 'Pagesat',
+    recordPayment: 'Regjistro pagesë',
+    paymentDate: 'Data e pagesës',
+    paymentMethod: 'Mënyra e pagesës',
+    reference: 'Referenca',
+    paidAmount: 'Paguar',
+    openBalance: 'Shuma e mbetur',
+    noPaymentsYet: 'Ende nuk ka pagesa.',
+    reminders: 'Kujtesat',
+    dunning: 'Kujtesat e pagesës',
+    dunningRun: 'Ekzekuto kujtesat',
+    dunningLevel: 'Niveli i kujtesës',
+    dunningFee: 'Tarifa e kujtesës',
+    daysAfter: 'Ditë më pas',
+    createReminders: 'Krijo kujtesat',
+    noRemindersYet: 'Ende nuk janë dërguar kujtesa.',
+    noDunningCandidates: 'Asnjë faturë nuk ka nevojë për kujtesë.',
+    invoice: 'Faturë',
+    credit_note: 'Notë krediti',
+    cancellation: 'Faturë anulimi',
+    createCreditNote: 'Krijo notë krediti',
+    cancelInvoice: 'Anulo faturën',
+    refersToInvoice: 'I referohet faturës',
+    invoiceLockedNotice: 'Kjo faturë është dërguar dhe nuk mund të ndryshohet më. Korrigjimet bëhen vetëm me notë krediti ose faturë anulimi.',
+    creditDocumentLockedNotice: 'Ky dokument është lëshuar dhe nuk mund të ndryshohet më.',
+    eInvoiceExport: 'Eksporto e-faturën',
+    eInvoiceFormat: 'Formati',
+    eInvoiceValid: 'Të gjitha të dhënat e detyrueshme janë të plota.',
+    eInvoiceMissingFields: 'Për eksportin mungojnë të dhënat e detyrueshme të mëposhtme:',
+    exportFile: 'Eksporto',
+    recurringInvoices: 'Fatura periodike',
+    newRecurringInvoice: 'Faturë periodike e re',
+    generateDueInvoices: 'Krijo faturat e afatit',
+    interval: 'Intervali',
+    monthly: 'Mujore',
+    quarterly: 'Tremujore',
+    half_yearly: 'Gjashtëmujore',
+    yearly: 'Vjetore',
+    issueAs: 'Krijo si',
+    startDate: 'Data e fillimit',
+    endDate: 'Data e përfundimit',
+    nextRun: 'Ekzekutimi i radhës',
+    upcomingRuns: 'Ekzekutimet e ardhshme',
+    paymentTermsDays: 'Afati i pagesës (ditë)',
+    skipNextRun: 'Kapërce ekzekutimin e radhës',
+    pause: 'Pezullo',
+    resume: 'Vazhdo',
+    active: 'Aktive',
+    paused: 'E pezulluar',
+    ended: 'E përfunduar',
+    noRecurringInvoices: 'Nuk ka fatura periodike.',
+    discount: 'Zbritje',
+    documentDiscount: 'Zbritje totale',
+    netAmount: 'Shuma neto',
+    tax: 'Tatimet',
+    country: 'Shteti',
+    smallBusiness: 'Biznes i vogël (§ 19 UStG)',
+    reverseChargeRecipient: 'Marrës i shërbimit sipas § 13b UStG',
+    taxTreatment: 'Tatimi',
+    tax_standard: 'Tatim standard',
+    tax_reverse_charge: 'Reverse Charge (§ 13b UStG)',
+    tax_intra_community: 'Furnizim brenda BE',
+    tax_export: 'Eksport',
+    tax_small_business: 'Biznes i vogël (§ 19 UStG)',
+    send: 'Dërgo',
+    sendDocument: 'Dërgo me email',
+    recipients: 'Marrësit',
+    cc: 'CC',
+    subject: 'Subjekti',
+    message: 'Mesazhi',
+    emailLog: 'Historiku i emaileve',
+    emailTemplates: 'Shabllonet e emailit',
+    mailTransport: 'Dërgimi përmes',
+    transport_smtp: 'Server SMTP',
+    transport_file: 'Skedar (.eml, për testim)',
+    placeholders: 'Vendmbajtësit',
+    bankImport: 'Importo ekstraktin bankar',
+    bankImportHint: 'Mbështet eksportet CAMT.053 (XML), MT940 dhe CSV të bankës suaj.',
+    counterparty: 'Paguesi / Përfituesi',
+    match: 'Përputhja',
+    split: 'Ndaj',
+    confirm: 'Konfirmo',
+    ignore: 'Injoro',
+    createExpense: 'Regjistro si shpenzim',
+    confirmAllMatched: 'Konfirmo të gjitha përputhjet',
+    noOpenTransactions: 'Nuk ka transaksione të hapura.',
+    match_reference: 'Numri i faturës',
+    match_amount: 'Shuma',
+    match_customer: 'Klienti',
+    datevExport: 'Eksport DATEV',
+    datevSettings: 'DATEV',
+    consultantNumber: 'Numri i këshilltarit',
+    clientNumber: 'Numri i klientit (mandant)',
+    chartOfAccounts: 'Plani kontabël',
+    bankAccount: 'Llogaria bankare',
+    revenueAccounts: 'Llogaritë e të ardhurave',
+    expenseAccounts: 'Llogaritë e shpenzimeve',
+    defaultExpenseAccount: 'Llogaria e shpenzimeve (standarde)',
+    account: 'Llogaria',
+    buKey: 'Çelësi BU',
+    createInvoiceFromVisit: 'Krijo faturë nga vizita',
+    billable: 'I faturueshëm',
+    laborTime: 'Koha e punës',
+    laborHours: 'Orë',
+    hourlyRate: 'Tarifa për orë',
+    billedOnInvoice: 'Faturuar me faturën',
+    billed: 'Faturuar',
+    billingRun: 'Faturë përmbledhëse',
+    billingRunHint: 'Krijon një faturë për klient për të gjitha vizitat e përfunduara dhe ende të pafaturuara të periudhës.',
+    preview: 'Parapamje',
+    positions: 'Pozicione',
+    net: 'Neto',
+    createInvoices: 'Krijo faturat',
+    invoicesCreated: 'Faturat e krijuara',
+    noUnbilledVisits: 'Nuk ka vizita për t\'u faturuar në këtë periudhë.',
+    quoteInvoicing: 'Faturimi',
+    downPayment: 'Paradhënie',
+    downPaymentInvoice: 'Faturë paradhënieje',
+    finalInvoice: 'Faturë përfundimtare',
+    createInvoice: 'Krijo faturë',
+    invoicedAmount: 'Faturuar',
+    remainingAmount: 'Mbetur',
+    billing_full: 'Faturë',
+    billing_down_payment: 'Faturë paradhënieje',
+    billing_final: 'Faturë përfundimtare',
+    numberSchemes: 'Skemat e numërimit',
+    branchCode: 'Kodi i degës',
+    numberPattern: 'Formati',
+    counterReset: 'Rivendos numëruesin',
+    startValue: 'Vlera fillestare',
+    reset_never: 'Kurrë',
+    reset_yearly: 'Çdo vit',
+    reset_monthly: 'Çdo muaj',
+    sequence_customer: 'Klientët',
+    sequence_quote: 'Ofertat',
+    sequence_invoice: 'Faturat',
+    sequence_credit_note: 'Notat e kreditit',
+    sequence_cancellation: 'Faturat e anulimit',
+    sequence_task: 'Detyrat',
+    sequence_product: 'Produktet',
+    sequence_appointment: 'Takimet',
+    sequence_expense: 'Shpenzimet',
+    sequence_visit: 'Vizitat',
+    sequence_purchase_order: 'Porositë',
+    taxNote_reverse_charge: 'Detyrimi tatimor i marrësit të shërbimit (§ 13b UStG).',
+    taxNote_intra_community: 'Furnizim brenda BE-së i përjashtuar nga TVSH (§ 4 Nr. 1b në lidhje me § 6a UStG).',
+    taxNote_export: 'Furnizim eksporti i përjashtuar nga TVSH (§ 4 Nr. 1a në lidhje me § 6 UStG).',
+    taxNote_small_business: 'Sipas § 19 UStG nuk llogaritet TVSH.',
+    taxNote_customerVatId: 'Numri i TVSH-së së marrësit: {vatId}',
+    pdf_billTo: 'Marrësi i faturës',
+    pdf_number_invoice: 'Numri i faturës',
+    pdf_number_credit_note: 'Numri i notës së kreditit',
+    pdf_number_cancellation: 'Numri i anulimit',
+    pdf_number_quote: 'Numri i ofertës',
+    pdf_date: 'Data',
+    pdf_dueDate: 'Afati i pagesës',
+    pdf_validUntil: 'E vlefshme deri',
+    pdf_title_invoice: 'FATURË',
+    pdf_title_credit_note: 'NOTË KREDITI',
+    pdf_title_cancellation: 'FATURË ANULIMI',
+    pdf_title_down_payment: 'FATURË PARAPAGIMI',
+    pdf_title_final: 'FATURË PËRFUNDIMTARE',
+    pdf_title_quote: 'OFERTË',
+    pdf_correctsInvoice: 'për faturën {number} të datës {date}',
+    pdf_position: 'Nr.',
+    pdf_description: 'Përshkrimi',
+    pdf_quantity: 'Sasia',
+    pdf_unitPrice: 'Çmimi/njësi',
+    pdf_discount: 'Zbritje',
+    pdf_vat: 'TVSH',
+    pdf_total: 'Totali',
+    pdf_subtotal: 'Nëntotali (neto)',
+    pdf_lessDiscount: 'minus zbritjen',
+    pdf_netAmount: 'Shuma neto',
+    pdf_plusVat: 'plus TVSH ({rate}%)',
+    pdf_grandTotal: 'Shuma totale',
+    pdf_notes: 'Shënime',
+    pdf_payByGiroCode: 'Paguaj me GiroCode',
+    pdf_giroCodeHint: 'Skanoni kodin me aplikacionin tuaj bankar për të transferuar {amount} me përshkrimin {reference}.',
+    pdf_carryOver: 'Mbartje',
+    pdf_page: 'Faqja {page} nga {pages}',
+    pdf_phone: 'Tel',
+    pdf_email: 'Email',
+    pdf_vatId: 'Nr. TVSH',
+    pdf_invoiceDate: 'Data e faturës',
+    pdf_overdueSince: 'E papaguar që nga',
+    pdf_reminderIntroFirst: 'Me siguri nuk e keni vënë re që fatura jonë {number} nuk është paguar ende plotësisht. Ju lutemi transferoni shumën e papaguar brenda 7 ditëve.',
+    pdf_reminderIntroFurther: 'Pavarësisht kujtesave tona të mëparshme, fatura jonë {number} mbetet e papaguar. Ju lutemi transferoni menjëherë shumën totale përfshirë tarifat e kujtesës, jo më vonë se brenda 7 ditëve.',
+    pdf_invoiceAmount: 'Shuma e faturës',
+    pdf_alreadyPaid: 'E paguar tashmë',
+    pdf_openInvoiceAmount: 'Shuma e papaguar e faturës',
+    pdf_reminderFees: 'Tarifat e kujtesës',
+    pdf_amountDue: 'Shuma për t\'u paguar',
+    pdf_reminderClosing: 'Nëse e keni kryer tashmë pagesën, ju lutemi ta konsideroni këtë letër të pavlefshme.',
+    pdf_optionsTitle: 'Pozicione opsionale dhe alternative (nuk përfshihen në shumën totale)',
+    pdf_optionalItems: 'Pozicione opsionale',
+    pdf_alternativeGroup: 'Alternativë: {group}',
+    pdf_supplier: 'Furnitori',
+    pdf_number_purchase_order: 'Numri i porosisë',
+    pdf_title_purchase_order: 'POROSI',
+    pdf_deliveryDate: 'Data e dëshiruar e dorëzimit',
+    pdf_ourCustomerNumber: 'Numri ynë i klientit',
+    pdf_purchaseOrderIntro: 'Me anë të kësaj porosisim artikujt e mëposhtëm me kushtet e rëna dakord:',
+    pdf_productNumber: 'Nr. i artikullit',
+    pdf_orderTotal: 'Vlera e porosisë (neto)',
+    pdfLayout: 'Faqosja e PDF-së',
+    layoutDocumentType: 'Lloji i dokumentit',
+    layoutType_invoice: 'Faturë',
+    layoutType_credit_note: 'Notë krediti',
+    layoutType_cancellation: 'Faturë anulimi',
+    layoutType_quote: 'Ofertë',
+    layoutType_reminder: 'Kujtesë pagese',
+    layoutType_purchase_order: 'Porosi',
+    logoPosition: 'Pozicioni i logos',
+    logo_left: 'Majtas',
+    logo_center: 'Në qendër',
+    logo_right: 'Djathtas',
+    logo_hidden: 'I fshehur',
+    accentColor: 'Ngjyra kryesore',
+    font: 'Fonti',
+    introText: 'Teksti hyrës',
+    closingText: 'Teksti përmbyllës',
+    footerColumns: 'Kolonat e fundfaqes',
+    footer_address: 'Adresa',
+    footer_contact: 'Kontakti',
+    footer_bank: 'Të dhënat bankare',
+    footer_tax: 'Të dhënat tatimore',
+    itemColumns: 'Kolonat e tabelës së artikujve',
+    acceptanceLinks: 'Linket e pranimit',
+    createLink: 'Krijo link',
+    copyLink: 'Kopjo linkun',
+    revokeLink: 'Revoko',
+    link_active: 'Aktiv',
+    link_expired: 'I skaduar',
+    link_revoked: 'I revokuar',
+    quoteLinkInvalid: 'Ky link është i pavlefshëm, ka skaduar ose është revokuar.',
+    downloadPdf: 'Shkarko PDF',
+    yourResponse: 'Përgjigjja juaj',
+    yourName: 'Emri juaj',
+    signature: 'Nënshkrimi',
+    clearSignature: 'Fshi nënshkrimin',
+    acceptQuoteConfirmation: 'Me emrin dhe nënshkrimin tuaj e pranoni këtë ofertë në mënyrë detyruese.',
+    acceptQuote: 'Prano ofertën',
+    declineQuote: 'Refuzo ofertën',
+    quoteAcceptedOn: 'Pranuar më',
+    quoteDeclinedOn: 'Refuzuar më',
+    quoteVersions: 'Versionet',
+    version: 'Versioni',
+    currentVersion: 'aktual',
+    compareVersions: 'Krahaso',
+    difference: 'Diferenca',
+    change_added: 'E re',
+    change_removed: 'E hequr',
+    change_changed: 'E ndryshuar',
+    total_itemsTotal: 'Shuma e artikujve',
+    total_documentDiscount: 'Zbritja',
+    total_subtotal: 'Shuma neto',
+    total_totalVat: 'TVSH',
+    total_grandTotal: 'Shuma totale',
+    itemType: 'Lloji i artikullit',
+    itemType_standard: 'Standard',
+    itemType_optional: 'Opsional',
+    itemType_alternative: 'Alternativë',
+    alternativeGroup: 'Grupi',
+    optionChosen: 'Zgjedhur',
+    chooseOptions: 'Zgjidhni opsionet dhe alternativat që dëshironi.',
+    expired: 'Skaduar',
+    listView: 'Lista',
+    pipelineView: 'Pipeline',
+    openQuotesAgeing: 'Mosha e ofertave të hapura',
+    age_0_7: '0–7 ditë',
+    age_8_14: '8–14 ditë',
+    age_15_30: '15–30 ditë',
+    age_31_plus: 'Mbi 30 ditë',
+    sentDaysAgo: 'Dërguar para (ditësh)',
+    quoteFollowUps: 'Ndjekja e ofertave',
+    followUpAfterSending: 'Ndjekje pas dërgimit',
+    reminderBeforeExpiry: 'Kujtesë para skadimit',
+    days: 'Ditë',
+    stockHistory: 'Lëvizjet e stokut',
+    currentStock: 'Stoku aktual',
+    movementType: 'Lloji i lëvizjes',
+    movement_receipt: 'Hyrje',
+    movement_consumption: 'Konsum',
+    movement_correction: 'Korrigjim',
+    movement_return: 'Kthim',
+    movement_transfer: 'Transferim',
+    countedStock: 'Stoku i numëruar',
+    quantity: 'Sasia',
+    note: 'Shënim',
+    date: 'Data',
+    stock: 'Stoku',
+    postMovement: 'Regjistro',
+    noStockMovements: 'Ende nuk ka lëvizje stoku.',
+    openingStock: 'Stoku fillestar (opsional)',
+    stockFromLedger: 'Stoku rrjedh nga lëvizjet e stokut.',
+    suppliers: 'Furnitorët',
+    supplier: 'Furnitori',
+    newSupplier: 'Furnitor i ri',
+    noSuppliers: 'Ende nuk ka furnitorë.',
+    contactPerson: 'Personi i kontaktit',
+    ourCustomerNumber: 'Numri ynë i klientit',
+    purchasePrice: 'Çmimi i blerjes',
+    preferredSupplier: 'Furnitori i preferuar',
+    purchaseOrders: 'Porositë',
+    purchaseOrder: 'Porosia',
+    newPurchaseOrder: 'Porosi e re',
+    noPurchaseOrders: 'Nuk u gjetën porosi.',
+    orderNumber: 'Numri i porosisë',
+    orderDate: 'Data e porosisë',
+    expectedDelivery: 'Data e dorëzimit',
+    orderTotal: 'Vlera e porosisë (neto)',
+    purchaseOrderStatus_draft: 'Draft',
+    purchaseOrderStatus_ordered: 'E porositur',
+    purchaseOrderStatus_partially_received: 'Pjesërisht e pranuar',
+    purchaseOrderStatus_received: 'E pranuar',
+    markAsOrdered: 'Shëno si të porositur',
+    goodsReceipt: 'Pranimi i mallit',
+    receivedQuantity: 'E pranuar',
+    openQuantity: 'E hapur',
+    receiveAllOpen: 'Merr të gjitha të hapurat',
+    bookGoodsReceipt: 'Regjistro pranimin e mallit',
+    storageLocations: 'Vendet e magazinimit',
+    storageLocation: 'Vendi i magazinimit',
+    mainWarehouse: 'Magazina kryesore',
+    locationType: 'Lloji',
+    locationType_warehouse: 'Magazinë',
+    locationType_vehicle: 'Automjet',
+    allLocations: 'Të gjitha vendet',
+    transferStock: 'Transfero stokun',
+    fromLocation: 'Nga',
+    toLocation: 'Në',
+    myVan: 'Automjeti im',
+    onlyMyVan: 'Vetëm stoku në automjet',
+    noVanAssigned: 'Nuk keni automjet të caktuar. Artikujt e përdorur regjistrohen nga magazina kryesore.',
+    restock: 'Rimbush',
+    vatRate: 'Norma e TVSH',
+    defaultVatRate: 'Norma standarde e dokumentit',
+    bank_transfer: 'Transfertë bankare',
+    cash: 'Para në dorë',
+    card: 'Kartë',
+    paypal: 'PayPal',
+    other: 'Tjetër',
     sent: 'Dërguar',
     overdue: 'E vonuar',
     draft: 'Draft',
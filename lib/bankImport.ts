@@ -0,0 +1,590 @@
+import { supabase } from '../services/supabase';
+import { BankTransaction, BankTransactionStatus, Invoice, Profile } from '../types';
+import { getOpenBalance, syncInvoiceStatus } from './payments';
+import { generateNextNumber } from './numberGenerator';
+import { roundMoney, sumMoney, toCents } from './money';
+
+export type BankStatementFormat = 'camt053' | 'mt940' | 'csv';
+
+export type StatementTransaction = Pick<BankTransaction, 'import_hash' | 'booking_date' | 'amount' | 'currency' | 'counterparty_name' | 'counterparty_iban' | 'reference'>;
+
+export type OpenInvoice = Pick<Invoice, 'id' | 'invoice_number' | 'customer_id' | 'total_amount' | 'status'> & {
+  customers: { name: string } | null;
+  openAmount: number;
+};
+
+export interface MatchAllocation {
+  invoice_id: number;
+  amount: number;
+}
+
+export type MatchReason = 'reference' | 'amount' | 'customer';
+
+export interface TransactionMatch {
+  transaction: StatementTransaction;
+  allocations: MatchAllocation[];
+  reason: MatchReason | null; // Why the allocations were suggested, null if nothing matched
+}
+
+// Amounts are stored with two decimals, so anything below half a cent counts as equal.
+const EPSILON = 0.005;
+
+
+// FNV-1a, enough to recognize transactions that were already imported.
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Assigns import hashes. Identical transactions within one statement are told apart by their position.
+ */
+const withImportHashes = (transactions: Omit<StatementTransaction, 'import_hash'>[]): StatementTransaction[] => {
+  const occurrences = new Map<string, number>();
+  return transactions.map(tx => {
+    const key = [tx.booking_date, tx.amount.toFixed(2), tx.currency, tx.counterparty_iban || tx.counterparty_name, tx.reference].join('|');
+    const occurrence = (occurrences.get(key) || 0) + 1;
+    occurrences.set(key, occurrence);
+    return { ...tx, import_hash: `${hashString(key)}-${occurrence}` };
+  });
+};
+
+const collapseWhitespace = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+/**
+ * Parses an amount in German (1.234,56) or English (1,234.56) notation.
+ */
+const parseAmount = (value: string): number => {
+  let cleaned = value.replace(/[^\d,.\-+]/g, '');
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+  const amount = parseFloat(cleaned);
+  return isNaN(amount) ? NaN : roundMoney(amount);
+};
+
+/**
+ * Parses dates as dd.MM.yyyy, dd.MM.yy or yyyy-MM-dd.
+ * @returns The date as yyyy-MM-dd, or null if the value is not a date.
+ */
+const parseDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const german = trimmed.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/);
+  if (german) {
+    const year = german[3].length === 2 ? `20${german[3]}` : german[3];
+    return `${year}-${german[2].padStart(2, '0')}-${german[1].padStart(2, '0')}`;
+  }
+  return null;
+};
+
+// --- CAMT.053 ---
+
+const childrenByName = (parent: Element, name: string): Element[] =>
+  Array.from(parent.children).filter(child => child.localName === name);
+
+// Follows a path of element names below `parent`, e.g. ['RltdPties', 'Dbtr', 'Nm'].
+const findElement = (parent: Element | null | undefined, path: string[]): Element | null => {
+  let current: Element | null = parent || null;
+  for (const name of path) {
+    if (!current) return null;
+    current = childrenByName(current, name)[0] || null;
+  }
+  return current;
+};
+
+const elementText = (parent: Element | null | undefined, path: string[]): string =>
+  findElement(parent, path)?.textContent?.trim() || '';
+
+/**
+ * Parses a CAMT.053 bank statement (ISO 20022). Batch bookings with several transaction details
+ * are split into one transaction per detail.
+ * @param xml The XML document.
+ * @returns The transactions.
+ */
+export const parseCamt053 = (xml: string): StatementTransaction[] => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not a valid CAMT.053 XML document.');
+  }
+
+  const transactions: Omit<StatementTransaction, 'import_hash'>[] = [];
+  Array.from(document.getElementsByTagNameNS('*', 'Ntry')).forEach(entry => {
+    const isDebit = elementText(entry, ['CdtDbtInd']) === 'DBIT';
+    const bookingDate = parseDate(elementText(entry, ['BookgDt', 'Dt']) || elementText(entry, ['BookgDt', 'DtTm']) || elementText(entry, ['ValDt', 'Dt'])) || '';
+    const entryAmount = findElement(entry, ['Amt']);
+    const details = childrenByName(entry, 'NtryDtls').flatMap(d => childrenByName(d, 'TxDtls'));
+    // A single detail carries the counterparty of the whole entry; several details are booked as a batch.
+    const parts = details.length > 1 && details.every(d => findElement(d, ['AmtDtls', 'TxAmt', 'Amt']) || findElement(d, ['Amt']))
+      ? details.map(d => ({ detail: d, amountElement: findElement(d, ['AmtDtls', 'TxAmt', 'Amt']) || findElement(d, ['Amt']) }))
+      : [{ detail: details[0] as Element | undefined, amountElement: entryAmount }];
+
+    parts.forEach(({ detail, amountElement }) => {
+      const party = isDebit ? 'Cdtr' : 'Dbtr';
+      const remittance = findElement(detail, ['RmtInf']);
+      const unstructured = remittance ? childrenByName(remittance, 'Ustrd').map(u => u.textContent?.trim() || '') : [];
+      const structured = remittance
+        ? childrenByName(remittance, 'Strd').map(s => elementText(s, ['CdtrRefInf', 'Ref']))
+        : [];
+      const amount = parseFloat(amountElement?.textContent || '');
+      if (isNaN(amount)) return;
+
+      transactions.push({
+        booking_date: bookingDate,
+        amount: roundMoney(isDebit ? -amount : amount),
+        currency: amountElement?.getAttribute('Ccy') || 'EUR',
+        counterparty_name: elementText(detail, ['RltdPties', party, 'Nm']) || elementText(detail, ['RltdPties', party, 'Pty', 'Nm']),
+        counterparty_iban: elementText(detail, ['RltdPties', `${party}Acct`, 'Id', 'IBAN']) || null,
+        reference: collapseWhitespace([...unstructured, ...structured].filter(Boolean).join(' ') || elementText(entry, ['AddtlNtryInf'])),
+      });
+    });
+  });
+  return withImportHashes(transactions);
+};
+
+// --- MT940 ---
+
+/**
+ * Splits the `:86:` information field. German banks structure it with `?nn` subfields:
+ * 20-29 and 60-63 hold the remittance information, 31 the IBAN and 32/33 the name of the counterparty.
+ */
+const parseMt940Information = (info: string) => {
+  if (!/\?\d{2}/.test(info)) {
+    return { name: '', iban: null, reference: collapseWhitespace(info) };
+  }
+  const subfields = new Map<number, string>();
+  const parts = info.split(/\?(\d{2})/);
+  for (let i = 1; i < parts.length; i += 2) {
+    subfields.set(Number(parts[i]), (subfields.get(Number(parts[i])) || '') + parts[i + 1]);
+  }
+  const join = (codes: number[]) => codes.map(code => subfields.get(code) || '').join('');
+  return {
+    name: collapseWhitespace(join([32, 33])),
+    iban: subfields.get(31)?.trim() || null,
+    // SEPA remittance lines are continued without separator, so they are joined as they are.
+    reference: collapseWhitespace(join([20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 60, 61, 62, 63])),
+  };
+};
+
+/**
+ * Parses an MT940 (SWIFT) bank statement.
+ * @param text The statement file.
+ * @returns The transactions.
+ */
+export const parseMt940 = (text: string): StatementTransaction[] => {
+  // Continuation lines belong to the field before them.
+  const fields: { tag: string; value: string }[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const field = line.match(/^:(\w{2,3}):(.*)$/);
+    if (field) {
+      fields.push({ tag: field[1], value: field[2] });
+    } else if (fields.length > 0 && line !== '-' && line.trim() !== '') {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  });
+
+  const transactions: Omit<StatementTransaction, 'import_hash'>[] = [];
+  let currency = 'EUR';
+  fields.forEach(({ tag, value }) => {
+    if (tag === '60F' || tag === '60M') {
+      currency = value.slice(7, 10) || currency;
+    } else if (tag === '61') {
+      const line = value.split('\n')[0];
+      const match = line.match(/^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])[A-Z]?(\d+,\d*)/);
+      if (!match) return;
+      // A reversed debit (RD) is a credit and vice versa.
+      const isDebit = match[5] === 'D' || match[5] === 'RC';
+      const amount = parseAmount(match[6]);
+      transactions.push({
+        booking_date: `20${match[1]}-${match[2]}-${match[3]}`,
+        amount: isDebit ? -amount : amount,
+        currency,
+        counterparty_name: '',
+        counterparty_iban: null,
+        reference: '',
+      });
+    } else if (tag === '86' && transactions.length > 0) {
+      const information = parseMt940Information(value.replace(/\n/g, ''));
+      const transaction = transactions[transactions.length - 1];
+      transaction.counterparty_name = information.name;
+      transaction.counterparty_iban = information.iban;
+      transaction.reference = information.reference;
+    }
+  });
+  return withImportHashes(transactions);
+};
+
+// --- CSV ---
+
+// Known column headers of German and English bank exports, compared in lower case.
+const CSV_COLUMNS = {
+  date: ['buchungstag', 'buchungsdatum', 'booking date', 'datum', 'date', 'valuta'],
+  amount: ['betrag', 'amount', 'umsatz'],
+  credit: ['haben', 'credit', 'eingang'],
+  debit: ['soll', 'debit', 'ausgang'],
+  name: ['beguenstigter/zahlungspflichtiger', 'begünstigter/zahlungspflichtiger', 'name zahlungsbeteiligter', 'zahlungsempfänger', 'auftraggeber', 'empfänger', 'counterparty', 'payee', 'name'],
+  iban: ['iban zahlungsbeteiligter', 'kontonummer/iban', 'iban'],
+  reference: ['verwendungszweck', 'reference', 'purpose', 'description', 'beschreibung'],
+  currency: ['währung', 'waehrung', 'currency'],
+};
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const values: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current.trim());
+  return values;
+};
+
+const findColumn = (headers: string[], candidates: string[]): number => {
+  for (const candidate of candidates) {
+    const index = headers.findIndex(h => h === candidate);
+    if (index >= 0) return index;
+  }
+  for (const candidate of candidates) {
+    const index = headers.findIndex(h => h.startsWith(candidate));
+    if (index >= 0) return index;
+  }
+  return -1;
+};
+
+/**
+ * Parses a generic CSV export of a bank. The delimiter and the columns are detected from the header row,
+ * which may be preceded by account information as in many German online banking exports.
+ * @param text The CSV file.
+ * @returns The transactions.
+ */
+export const parseBankCsv = (text: string): StatementTransaction[] => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+
+  for (let headerIndex = 0; headerIndex < Math.min(lines.length, 30); headerIndex++) {
+    const delimiter = [';', ',', '\t'].reduce((best, d) => lines[headerIndex].split(d).length > lines[headerIndex].split(best).length ? d : best);
+    const headers = splitCsvLine(lines[headerIndex], delimiter).map(h => h.toLowerCase());
+    const columns = Object.fromEntries(
+      Object.entries(CSV_COLUMNS).map(([key, candidates]) => [key, findColumn(headers, candidates)])
+    ) as Record<keyof typeof CSV_COLUMNS, number>;
+    const hasAmount = columns.amount >= 0 || (columns.credit >= 0 && columns.debit >= 0);
+    if (columns.date < 0 || !hasAmount) continue;
+
+    const transactions: Omit<StatementTransaction, 'import_hash'>[] = [];
+    lines.slice(headerIndex + 1).forEach(line => {
+      const values = splitCsvLine(line, delimiter);
+      const bookingDate = parseDate(values[columns.date] || '');
+      const amount = columns.amount >= 0
+        ? parseAmount(values[columns.amount] || '')
+        : roundMoney((parseAmount(values[columns.credit] || '') || 0) - Math.abs(parseAmount(values[columns.debit] || '') || 0));
+      if (!bookingDate || isNaN(amount) || amount === 0) return;
+
+      const value = (column: number) => column >= 0 ? values[column] || '' : '';
+      transactions.push({
+        booking_date: bookingDate,
+        amount,
+        currency: value(columns.currency) || 'EUR',
+        counterparty_name: collapseWhitespace(value(columns.name)),
+        counterparty_iban: value(columns.iban).replace(/\s+/g, '') || null,
+        reference: collapseWhitespace(value(columns.reference)),
+      });
+    });
+    return withImportHashes(transactions);
+  }
+  throw new Error('No header row with a date and an amount column was found in the CSV file.');
+};
+
+/**
+ * Detects the format of a bank statement from its name and content.
+ * @param filename The name of the file.
+ * @param content The content of the file.
+ * @returns The format.
+ */
+export const detectStatementFormat = (filename: string, content: string): BankStatementFormat => {
+  const start = content.replace(/^\uFEFF/, '').trimStart();
+  if (start.startsWith('<') || /\.xml$/i.test(filename)) return 'camt053';
+  if (/^:20:/m.test(content) && /^:61:/m.test(content)) return 'mt940';
+  return 'csv';
+};
+
+/**
+ * Reads a bank statement file. Files that are not valid UTF-8 are read as Windows-1252,
+ * the encoding of most German bank exports.
+ * @param file The uploaded file.
+ * @returns The parsed transactions and the detected format.
+ */
+export const readBankStatement = async (file: File): Promise<{ format: BankStatementFormat; transactions: StatementTransaction[] }> => {
+  const buffer = await file.arrayBuffer();
+  let content: string;
+  try {
+    content = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    content = new TextDecoder('windows-1252').decode(buffer);
+  }
+
+  const format = detectStatementFormat(file.name, content);
+  const parsers = { camt053: parseCamt053, mt940: parseMt940, csv: parseBankCsv };
+  return { format, transactions: parsers[format](content) };
+};
+
+// --- Matching ---
+
+const normalizeForSearch = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// RE-1 must not match a reference to RE-10, so the number may not be followed by another digit.
+const containsDocumentNumber = (reference: string, documentNumber: string): boolean => {
+  for (let i = reference.indexOf(documentNumber); i >= 0; i = reference.indexOf(documentNumber, i + 1)) {
+    if (!/\d/.test(reference[i + documentNumber.length] || '')) return true;
+  }
+  return false;
+};
+
+const normalizeName = (value: string) =>
+  value.toLowerCase().replace(/\b(gmbh|ag|kg|ug|ohg|e\.?\s?k|mbh|co|sh\.?p\.?k)\b/g, '').replace(/[^a-z0-9äöüß]/g, '');
+
+const namesMatch = (counterparty: string, customerName: string | undefined) => {
+  const a = normalizeName(counterparty);
+  const b = normalizeName(customerName || '');
+  return a.length >= 3 && b.length >= 3 && (a.includes(b) || b.includes(a));
+};
+
+/**
+ * Fetches the invoices of an organization that still have an open balance.
+ * @param orgId The UUID of the organization.
+ * @returns The invoices with their open amount, oldest first.
+ */
+export const getOpenInvoices = async (orgId: string): Promise<OpenInvoice[]> => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('id, invoice_number, customer_id, total_amount, status, issue_date, customers:customers!left(name), payments:payments!left(amount), credit_notes:invoices!original_invoice_id(total_amount, status)')
+    .eq('org_id', orgId)
+    .eq('document_type', 'invoice')
+    .in('status', ['sent', 'partially_paid', 'overdue'])
+    .order('issue_date', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data || [])
+    .map(({ payments, credit_notes, ...invoice }: any) => ({
+      ...invoice,
+      openAmount: roundMoney(getOpenBalance(invoice, payments, credit_notes)),
+    }))
+    .filter((invoice: OpenInvoice) => invoice.openAmount > 0);
+};
+
+/**
+ * Suggests invoices for each incoming payment. An invoice number in the reference is the strongest
+ * hint; several numbers split the payment. Without one, an invoice with exactly the transferred
+ * open amount is suggested, preferring one of the paying customer, and finally the oldest open
+ * invoice of that customer. Debits are never matched.
+ * @param transactions The statement transactions.
+ * @param openInvoices The open invoices of the organization.
+ * @returns One match per transaction, in the order of the transactions.
+ */
+export const matchTransactions = (transactions: StatementTransaction[], openInvoices: OpenInvoice[]): TransactionMatch[] => {
+  // Open amounts still available, so that two payments are not suggested for the same balance.
+  const remaining = new Map(openInvoices.map(invoice => [invoice.id, invoice.openAmount]));
+  const available = () => openInvoices.filter(invoice => (remaining.get(invoice.id) || 0) > EPSILON);
+
+  const allocate = (transaction: StatementTransaction, invoices: OpenInvoice[], reason: MatchReason): TransactionMatch => {
+    let rest = transaction.amount;
+    const allocations: MatchAllocation[] = [];
+    invoices.forEach(invoice => {
+      const amount = roundMoney(Math.min(rest, remaining.get(invoice.id) || 0));
+      if (amount <= EPSILON) return;
+      allocations.push({ invoice_id: invoice.id, amount });
+      remaining.set(invoice.id, roundMoney((remaining.get(invoice.id) || 0) - amount));
+      rest = roundMoney(rest - amount);
+    });
+    return { transaction, allocations, reason: allocations.length > 0 ? reason : null };
+  };
+
+  return transactions.map(transaction => {
+    if (transaction.amount <= 0) return { transaction, allocations: [], reason: null };
+
+    const reference = normalizeForSearch(transaction.reference);
+    const byNumber = available().filter(invoice => {
+      const number = normalizeForSearch(invoice.invoice_number || '');
+      return number.length > 0 && containsDocumentNumber(reference, number);
+    });
+    if (byNumber.length > 0) return allocate(transaction, byNumber, 'reference');
+
+    const byAmount = available().filter(invoice => Math.abs((remaining.get(invoice.id) || 0) - transaction.amount) < EPSILON);
+    const byAmountAndName = byAmount.filter(invoice => namesMatch(transaction.counterparty_name, invoice.customers?.name));
+    if (byAmountAndName.length > 0) return allocate(transaction, byAmountAndName.slice(0, 1), 'amount');
+    if (byAmount.length === 1) return allocate(transaction, byAmount, 'amount');
+
+    const byName = available().filter(invoice => namesMatch(transaction.counterparty_name, invoice.customers?.name));
+    if (byName.length > 0) return allocate(transaction, byName, 'customer');
+
+    return { transaction, allocations: [], reason: null };
+  });
+};
+
+// --- Posting ---
+
+/**
+ * Returns which of the given transactions have already been processed in an earlier import.
+ * @param orgId The UUID of the organization.
+ * @param importHashes The import hashes of the statement transactions.
+ * @returns The hashes that are already known.
+ */
+export const getProcessedImportHashes = async (orgId: string, importHashes: string[]): Promise<Set<string>> => {
+  if (importHashes.length === 0) return new Set();
+  const { data, error } = await supabase
+    .from('bank_transactions')
+    .select('import_hash')
+    .eq('org_id', orgId)
+    .in('import_hash', importHashes);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return new Set((data || []).map(row => row.import_hash));
+};
+
+const logTransaction = async (transaction: StatementTransaction, status: BankTransactionStatus, profile: Profile, expenseId: number | null = null): Promise<number> => {
+  const { data, error } = await supabase
+    .from('bank_transactions')
+    .insert({
+      ...transaction,
+      user_id: profile.id,
+      org_id: profile.org_id,
+      status,
+      expense_id: expenseId,
+    })
+    .select('id')
+    .single();
+  if (error || !data) throw new Error(error?.message || "Failed to log the transaction.");
+  return data.id;
+};
+
+/**
+ * Posts a confirmed match: records a bank transfer payment per allocation and updates the status
+ * of the invoices. No invoice may receive more than its current open balance.
+ * The transaction is logged first, so it cannot be posted twice, and all payments are inserted in
+ * one statement, so either the whole match is posted or, after removing the log entry again, nothing.
+ * @param transaction The incoming payment.
+ * @param allocations The invoices and the part of the payment that goes to each of them.
+ * @param profile The profile of the user confirming the match.
+ */
+export const confirmTransactionMatch = async (transaction: StatementTransaction, allocations: MatchAllocation[], profile: Profile) => {
+  if (allocations.length === 0) {
+    throw new Error("Please select at least one invoice.");
+  }
+  if (allocations.some(a => !a.invoice_id || !(toCents(a.amount) > 0))) {
+    throw new Error("Every allocation needs an invoice and an amount greater than zero.");
+  }
+  const allocated = sumMoney(allocations.map(a => a.amount));
+  if (toCents(allocated) > toCents(transaction.amount)) {
+    throw new Error(`The allocated €${allocated.toFixed(2)} exceed the transferred €${transaction.amount.toFixed(2)}.`);
+  }
+
+  const invoiceIds = [...new Set(allocations.map(a => a.invoice_id))];
+  const { data: invoices, error } = await supabase
+    .from('invoices')
+    .select('id, invoice_number, total_amount, payments:payments!left(amount), credit_notes:invoices!original_invoice_id(total_amount, status)')
+    .in('id', invoiceIds);
+  if (error) throw new Error(error.message);
+
+  for (const invoiceId of invoiceIds) {
+    const invoice = (invoices || []).find(i => i.id === invoiceId);
+    if (!invoice) throw new Error(`Invoice ${invoiceId} not found.`);
+    const openBalance = getOpenBalance(invoice, invoice.payments, invoice.credit_notes);
+    const invoiceAllocated = sumMoney(allocations.filter(a => a.invoice_id === invoiceId).map(a => a.amount));
+    if (toCents(invoiceAllocated) > toCents(openBalance)) {
+      throw new Error(`The €${invoiceAllocated.toFixed(2)} allocated to invoice ${invoice.invoice_number} exceed its open balance of €${openBalance.toFixed(2)}.`);
+    }
+  }
+
+  const logId = await logTransaction(transaction, 'matched', profile);
+  const { error: paymentsError } = await supabase.from('payments').insert(allocations.map(allocation => ({
+    invoice_id: allocation.invoice_id,
+    payment_date: transaction.booking_date,
+    amount: roundMoney(allocation.amount),
+    method: 'bank_transfer',
+    reference: transaction.reference || null,
+    user_id: profile.id,
+    org_id: profile.org_id,
+  })));
+  if (paymentsError) {
+    const { error: unlogError } = await supabase.from('bank_transactions').delete().eq('id', logId);
+    if (unlogError) {
+      throw new Error(`${paymentsError.message} The transaction could not be reset and will be skipped in later imports: ${unlogError.message}`);
+    }
+    throw new Error(paymentsError.message);
+  }
+
+  for (const invoiceId of invoiceIds) {
+    await syncInvoiceStatus(invoiceId);
+  }
+};
+
+/**
+ * Records an outgoing payment as an expense.
+ * @param transaction The debit.
+ * @param profile The profile of the user creating the expense.
+ * @returns The ID of the new expense.
+ */
+export const createExpenseFromTransaction = async (transaction: StatementTransaction, profile: Profile): Promise<number> => {
+  if (!profile.org_id) {
+    throw new Error("User is not associated with an organization.");
+  }
+  const expenseNumber = await generateNextNumber(profile.org_id, 'expense');
+  const { data, error } = await supabase
+    .from('expenses')
+    .insert({
+      user_id: profile.id,
+      org_id: profile.org_id,
+      expense_number: expenseNumber,
+      expense_date: transaction.booking_date,
+      description: [transaction.counterparty_name, transaction.reference].filter(Boolean).join(': ') || 'Bank transaction',
+      amount: Math.abs(transaction.amount),
+      category: null,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to create expense.");
+  }
+
+  await logTransaction(transaction, 'expense', profile, data.id);
+  return data.id;
+};
+
+/**
+ * Marks a transaction as processed without posting anything, so that it is skipped in later imports.
+ * @param transaction The transaction to ignore.
+ * @param profile The profile of the user.
+ */
+export const ignoreTransaction = async (transaction: StatementTransaction, profile: Profile) => {
+  await logTransaction(transaction, 'ignored', profile);
+};
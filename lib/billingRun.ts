@@ -0,0 +1,166 @@
+import { supabase } from '../services/supabase';
+import { Customer, Invoice, Profile, Visit } from '../types';
+import { getNumberDraw } from './numberGenerator';
+import { calculateDocumentTotals } from './documentTotals';
+import { getOrganizationTaxSettings, getTaxRules, OrganizationTaxSettings } from './taxEngine';
+import { getVisitInvoiceItems, isVisitBilled, VisitInvoiceItem } from './conversion';
+import { formatEuropeanDate } from './formatting';
+import { addDays, format, startOfDay } from 'date-fns';
+
+export interface BillingPeriod {
+  start: Date;
+  end: Date;
+}
+
+export interface BillingRunVisit {
+  visit: Visit;
+  items: VisitInvoiceItem[];
+  netAmount: number;
+}
+
+export interface BillingRunGroup {
+  customer: Customer;
+  visits: BillingRunVisit[];
+  items: VisitInvoiceItem[]; // All items of the invoice, grouped by visit
+  totalAmount: number;
+}
+
+export interface BillingRunResult {
+  invoices: Invoice[];
+  failed: { customer: Customer; error: string }[];
+}
+
+const toISODate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Returns the heading of a visit's items on a collective invoice.
+ * @param visit The visit.
+ * @returns The visit number, date and location.
+ */
+export const getVisitGroupLabel = (visit: Pick<Visit, 'visit_number' | 'visit_date' | 'location'>): string =>
+  `Einsatz ${visit.visit_number} vom ${formatEuropeanDate(visit.visit_date)}${visit.location ? `, ${visit.location}` : ''}`;
+
+/**
+ * Fetches the completed visits of a period that have not been billed yet.
+ * @param orgId The UUID of the organization.
+ * @param period The first and last day of the period.
+ * @returns The visits with their customer, products, expenses and invoice, oldest first.
+ */
+export const getUnbilledVisits = async (orgId: string, period: BillingPeriod): Promise<Visit[]> => {
+  const { data, error } = await supabase
+    .from('visits')
+    .select('*, customers:customers!left(*), visit_products:visit_products!left(*, products(*)), visit_expenses:visit_expenses!left(*, expenses(*)), invoices:invoice_id(id, invoice_number, status)')
+    .eq('org_id', orgId)
+    .eq('status', 'completed')
+    .gte('visit_date', startOfDay(period.start).toISOString())
+    .lt('visit_date', addDays(startOfDay(period.end), 1).toISOString())
+    .order('visit_date', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return ((data || []) as Visit[]).filter(visit => !isVisitBilled(visit));
+};
+
+/**
+ * Groups visits into one collective invoice per customer. Each visit's items are headed by the
+ * visit number, date and location. Visits without anything to bill are left out.
+ * @param visits The unbilled visits with their joined customer, products and expenses.
+ * @param taxSettings The tax settings of the organization.
+ * @returns The invoices to be created, ordered by customer name.
+ */
+export const buildBillingRunGroups = (visits: Visit[], taxSettings: OrganizationTaxSettings): BillingRunGroup[] => {
+  const groups = new Map<number, BillingRunGroup>();
+
+  for (const visit of visits) {
+    if (!visit.customers) continue;
+    const taxRules = getTaxRules(taxSettings, visit.customers);
+    const groupLabel = getVisitGroupLabel(visit);
+    const items = getVisitInvoiceItems(visit, taxRules).map(item => ({ ...item, group_label: groupLabel }));
+    if (items.length === 0) continue;
+
+    const group = groups.get(visit.customer_id) || { customer: visit.customers, visits: [], items: [], totalAmount: 0 };
+    group.visits.push({ visit, items, netAmount: calculateDocumentTotals(items).subtotal });
+    group.items.push(...items);
+    groups.set(visit.customer_id, group);
+  }
+
+  return Array.from(groups.values())
+    .map(group => ({ ...group, totalAmount: calculateDocumentTotals(group.items).grandTotal }))
+    .sort((a, b) => a.customer.name.localeCompare(b.customer.name));
+};
+
+/**
+ * Fetches the unbilled visits of a period and groups them into the collective invoices of a billing run.
+ * Nothing is written; the result is the preview the run is confirmed from.
+ * @param orgId The UUID of the organization.
+ * @param period The first and last day of the period.
+ * @returns The invoices to be created.
+ */
+export const getBillingRunPreview = async (orgId: string, period: BillingPeriod): Promise<BillingRunGroup[]> => {
+  const [visits, taxSettings] = await Promise.all([getUnbilledVisits(orgId, period), getOrganizationTaxSettings(orgId)]);
+  return buildBillingRunGroups(visits, taxSettings);
+};
+
+// Creates the collective invoice of one customer and marks its visits as billed. The invoice, its
+// items, the visits and the invoice number are written in one transaction by
+// `create_collective_invoice` (supabase_billing_run.sql): if a visit was billed in the meantime,
+// nothing is kept and no invoice number is used up.
+const createCollectiveInvoice = async (group: BillingRunGroup, period: BillingPeriod, profile: Profile, taxSettings: OrganizationTaxSettings): Promise<Invoice> => {
+  const orgId = profile.org_id!;
+  const taxRules = getTaxRules(taxSettings, group.customer);
+  const today = new Date();
+  const numberDraw = await getNumberDraw(orgId, 'invoice', today);
+
+  const { data: invoice, error } = await supabase
+    .rpc('create_collective_invoice', {
+      p_invoice: {
+        user_id: profile.id,
+        org_id: orgId,
+        customer_id: group.customer.id,
+        issue_date: toISODate(today),
+        due_date: toISODate(addDays(today, 14)),
+        total_amount: group.totalAmount,
+        notes: `Sammelrechnung für Einsätze vom ${formatEuropeanDate(period.start)} bis ${formatEuropeanDate(period.end)}`,
+        tax_treatment: taxRules.treatment,
+      },
+      p_items: group.items,
+      p_visits: group.visits.map(({ visit }) => ({ id: visit.id, invoice_id: visit.invoice_id ?? null })),
+      p_sequence_name: numberDraw.sequenceName,
+      p_number_pattern: numberDraw.pattern,
+      p_number_offset: numberDraw.offset,
+    })
+    .single();
+
+  if (error || !invoice) {
+    throw new Error(error?.message || "Failed to create invoice.");
+  }
+  return invoice as Invoice;
+};
+
+/**
+ * Creates the previewed collective invoices as drafts, one per customer, and marks their visits as billed.
+ * A customer whose invoice fails is reported and skipped; the other invoices are still created.
+ * @param groups The invoices of the preview that should be created.
+ * @param period The period of the billing run, printed in the invoice notes.
+ * @param profile The profile of the user performing the run.
+ * @returns The created invoices and the customers that failed.
+ */
+export const executeBillingRun = async (groups: BillingRunGroup[], period: BillingPeriod, profile: Profile): Promise<BillingRunResult> => {
+  if (!profile.org_id) {
+    throw new Error("User is not associated with an organization.");
+  }
+
+  const taxSettings = await getOrganizationTaxSettings(profile.org_id);
+  const result: BillingRunResult = { invoices: [], failed: [] };
+
+  for (const group of groups) {
+    try {
+      result.invoices.push(await createCollectiveInvoice(group, period, profile, taxSettings));
+    } catch (error: any) {
+      result.failed.push({ customer: group.customer, error: error.message });
+    }
+  }
+
+  return result;
+};
@@ -1,14 +1,24 @@
 import { supabase } from "../services/supabase";
-import { Profile, Quote, Invoice, QuoteItem } from "../types";
+import { Profile, Quote, Invoice, InvoiceItem, QuoteItem, Visit } from "../types";
 import { generateNextNumber } from "./numberGenerator";
+import { calculateDocumentTotals, isBindingItem, getDocumentTotal } from "./documentTotals";
+import { getItemVatRate, getOrganizationTaxSettings, getTaxRules, TaxRules } from "./taxEngine";
+import { formatEuropeanDate } from "./formatting";
+import { getQuoteInvoices } from "./quoteBilling";
+
+export type VisitInvoiceItem = Omit<InvoiceItem, 'id' | 'invoice_id'>;
+
+const LABOR_DESCRIPTION = 'Arbeitszeit';
 
 /**
  * Converts a given quote into a new invoice.
  * @param quoteId The ID of the quote to convert.
  * @param profile The profile of the user performing the action.
+ * @param expectedVersion The version of the quote the user decided on. Conversion fails if the quote
+ * has been revised since, so only the latest version can become an invoice.
  * @returns The newly created invoice object.
  */
-export const convertQuoteToInvoice = async (quoteId: number, profile: Profile): Promise<Invoice> => {
+export const convertQuoteToInvoice = async (quoteId: number, profile: Profile, expectedVersion?: number): Promise<Invoice> => {
   if (!profile.org_id) {
     throw new Error("User is not associated with an organization.");
   }
@@ -27,24 +37,18 @@ export const convertQuoteToInvoice = async (quoteId: number, profile: Profile):
     throw new Error(quoteError?.message || "Quote not found or you do not have permission to access it.");
   }
 
-  // Using `quote_items` from the fetched data
-  const quoteItems: QuoteItem[] = (quote as any).quote_items || [];
-  
-  if (quote.status === 'accepted') {
-    // Check if an invoice already exists for this quote to prevent duplicates
-    const { data: existingInvoice, error: checkError } = await supabase
-      .from('invoices')
-      .select('id')
-      .ilike('notes', `%Converted from Quote #${quote.quote_number}%`)
-      .single();
-    
-    if (checkError && checkError.code !== 'PGRST116') { // Ignore "no rows" error
-      throw checkError;
-    }
+  // Earlier versions only live in quote_revisions; the quote row always holds the latest one.
+  if (expectedVersion !== undefined && (quote.version || 1) !== expectedVersion) {
+    throw new Error(`Quote #${quote.quote_number} has been revised to version ${quote.version} in the meantime. Please review the latest version before converting it.`);
+  }
 
-    if (existingInvoice) {
-      throw new Error(`An invoice has already been created for quote #${quote.quote_number}.`);
-    }
+  // Using `quote_items` from the fetched data. Optional and alternative items are only carried over if chosen.
+  const quoteItems: QuoteItem[] = ((quote as any).quote_items || []).filter(isBindingItem);
+  
+  // A quote is converted as a whole only once; partly billed quotes are completed with a final invoice.
+  const existingInvoice = (await getQuoteInvoices(quote.id)).find(invoice => invoice.status !== 'cancelled');
+  if (existingInvoice) {
+    throw new Error(`Invoice #${existingInvoice.invoice_number} has already been created for quote #${quote.quote_number}.`);
   }
 
   // 2. Prepare the new invoice data
@@ -60,9 +64,16 @@ export const convertQuoteToInvoice = async (quoteId: number, profile: Profile):
     invoice_number: newInvoiceNumber,
     issue_date: today.toISOString().split('T')[0],
     due_date: dueDate.toISOString().split('T')[0],
-    total_amount: quote.total_amount,
+    total_amount: calculateDocumentTotals(quoteItems, quote).grandTotal,
     status: 'draft',
     notes: `Converted from Quote #${quote.quote_number}\n\n${quote.notes || ''}`.trim(),
+    document_type: 'invoice',
+    original_invoice_id: null,
+    discount_type: quote.discount_type,
+    discount_value: quote.discount_value,
+    tax_treatment: quote.tax_treatment,
+    quote_id: quote.id,
+    billing_type: 'full',
   };
 
   // 3. Insert the new invoice
@@ -85,6 +96,8 @@ export const convertQuoteToInvoice = async (quoteId: number, profile: Profile):
       quantity: item.quantity,
       unit_price: item.unit_price,
       vat_rate: item.vat_rate,
+      discount_type: item.discount_type,
+      discount_value: item.discount_value,
     }));
 
     const { error: itemsInsertError } = await supabase
@@ -97,6 +110,7 @@ export const convertQuoteToInvoice = async (quoteId: number, profile: Profile):
       throw new Error(itemsInsertError.message || "Failed to create invoice items.");
     }
   }
+  createdInvoice.total_amount = await getDocumentTotal('invoice', createdInvoice.id);
 
   // 5. Update the original quote's status to 'accepted'
   const { error: quoteUpdateError } = await supabase
@@ -111,4 +125,150 @@ export const convertQuoteToInvoice = async (quoteId: number, profile: Profile):
 
   // 6. Return the newly created invoice
   return createdInvoice as Invoice;
-};
\ No newline at end of file
+};
+
+/**
+ * Builds the invoice items of a visit: the products used, the billable expenses and the labor time.
+ * Products and expenses keep their own VAT rate if they have one; everything else gets the default rate.
+ * @param visit The visit with its joined products and expenses.
+ * @param taxRules The tax rules of the invoice.
+ * @returns The invoice items without IDs.
+ */
+export const getVisitInvoiceItems = (visit: Visit, taxRules: TaxRules): VisitInvoiceItem[] => {
+  const productItems = (visit.visit_products || []).map(p => ({
+    product_id: p.product_id,
+    description: p.products?.name || `Product #${p.product_id}`,
+    quantity: Number(p.quantity) || 0,
+    unit_price: Number(p.unit_price) || 0,
+    vat_rate: getItemVatRate(p.products?.vat_rate, taxRules),
+  }));
+
+  const expenseItems = (visit.visit_expenses || [])
+    .filter(e => e.billable && e.expenses)
+    .map(e => ({
+      product_id: null,
+      description: e.expenses!.description,
+      quantity: 1,
+      unit_price: Number(e.expenses!.amount) || 0,
+      vat_rate: getItemVatRate(e.expenses!.vat_rate, taxRules),
+    }));
+
+  const laborHours = Number(visit.labor_hours) || 0;
+  const laborItems = laborHours > 0
+    ? [{ product_id: null, description: LABOR_DESCRIPTION, quantity: laborHours, unit_price: Number(visit.hourly_rate) || 0, vat_rate: taxRules.defaultRate }]
+    : [];
+
+  return [...productItems, ...expenseItems, ...laborItems];
+};
+
+/**
+ * Checks whether a visit has been billed. A visit whose invoice was fully credited can be billed again.
+ * @param visit The visit with its joined invoice.
+ * @returns True if the visit is linked to an invoice that is not cancelled.
+ */
+export const isVisitBilled = (visit: Pick<Visit, 'invoice_id' | 'invoices'>): boolean =>
+  !!visit.invoice_id && !!visit.invoices && visit.invoices.status !== 'cancelled';
+
+/**
+ * Links a visit to its invoice, unless another invoice has been linked since the visit was read.
+ * @param visit The visit as it was read before creating the invoice.
+ * @param invoiceId The ID of the new invoice.
+ * @returns True if the visit was linked.
+ */
+export const linkVisitToInvoice = async (visit: Pick<Visit, 'id' | 'invoice_id'>, invoiceId: number): Promise<boolean> => {
+  let query = supabase.from('visits').update({ invoice_id: invoiceId }).eq('id', visit.id);
+  query = visit.invoice_id ? query.eq('invoice_id', visit.invoice_id) : query.is('invoice_id', null);
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return !!data && data.length > 0;
+};
+
+/**
+ * Creates an invoice from a completed visit with its products, billable expenses and labor time,
+ * and links the visit to it.
+ * @param visitId The ID of the visit to bill.
+ * @param profile The profile of the user performing the action.
+ * @returns The newly created invoice object.
+ */
+export const convertVisitToInvoice = async (visitId: number, profile: Profile): Promise<Invoice> => {
+  if (!profile.org_id) {
+    throw new Error("User is not associated with an organization.");
+  }
+
+  const { data: visitArray, error: visitError } = await supabase
+    .from('visits')
+    .select('*, customers:customers!left(*), visit_products:visit_products!left(*, products(*)), visit_expenses:visit_expenses!left(*, expenses(*)), invoices:invoice_id(id, invoice_number, status)')
+    .eq('id', visitId)
+    .eq('org_id', profile.org_id)
+    .limit(1);
+
+  const visit = visitArray?.[0] as Visit | undefined;
+
+  if (visitError || !visit) {
+    throw new Error(visitError?.message || "Visit not found or you do not have permission to access it.");
+  }
+  if (visit.status !== 'completed') {
+    throw new Error(`Visit #${visit.visit_number} has not been completed yet.`);
+  }
+  if (isVisitBilled(visit)) {
+    throw new Error(`Visit #${visit.visit_number} has already been billed on invoice #${visit.invoices!.invoice_number}.`);
+  }
+
+  const taxRules = getTaxRules(await getOrganizationTaxSettings(profile.org_id), visit.customers);
+  const items = getVisitInvoiceItems(visit, taxRules);
+  if (items.length === 0) {
+    throw new Error(`Visit #${visit.visit_number} has no products, billable expenses or labor time to bill.`);
+  }
+
+  const newInvoiceNumber = await generateNextNumber(profile.org_id, 'invoice');
+  const today = new Date();
+  const dueDate = new Date();
+  dueDate.setDate(today.getDate() + 14); // Due in 14 days by default
+
+  const newInvoiceData: Omit<Invoice, 'id' | 'customers' | 'invoice_items' | 'organizations' | 'created_at'> = {
+    user_id: profile.id,
+    org_id: profile.org_id,
+    customer_id: visit.customer_id,
+    invoice_number: newInvoiceNumber,
+    issue_date: today.toISOString().split('T')[0],
+    due_date: dueDate.toISOString().split('T')[0],
+    total_amount: calculateDocumentTotals(items).grandTotal,
+    status: 'draft',
+    notes: `Visit #${visit.visit_number} on ${formatEuropeanDate(visit.visit_date)}${visit.location ? `, ${visit.location}` : ''}`,
+    document_type: 'invoice',
+    original_invoice_id: null,
+    tax_treatment: taxRules.treatment,
+  };
+
+  const { data: createdInvoice, error: invoiceInsertError } = await supabase
+    .from('invoices')
+    .insert(newInvoiceData)
+    .select()
+    .single();
+
+  if (invoiceInsertError || !createdInvoice) {
+    throw new Error(invoiceInsertError?.message || "Failed to create invoice.");
+  }
+
+  const { error: itemsInsertError } = await supabase
+    .from('invoice_items')
+    .insert(items.map(item => ({ ...item, invoice_id: createdInvoice.id })));
+
+  if (itemsInsertError) {
+    await supabase.from('invoices').delete().eq('id', createdInvoice.id);
+    throw new Error(itemsInsertError.message || "Failed to create invoice items.");
+  }
+
+  // Another session may have billed the visit in the meantime; only one invoice may win.
+  if (!(await linkVisitToInvoice(visit, createdInvoice.id))) {
+    await supabase.from('invoice_items').delete().eq('invoice_id', createdInvoice.id);
+    await supabase.from('invoices').delete().eq('id', createdInvoice.id);
+    throw new Error(`Visit #${visit.visit_number} has already been billed.`);
+  }
+
+  createdInvoice.total_amount = await getDocumentTotal('invoice', createdInvoice.id);
+  return createdInvoice as Invoice;
+};
@@ -0,0 +1,166 @@
+import { supabase } from '../services/supabase';
+import { Invoice, InvoiceDocumentType, InvoiceItem, Profile } from '../types';
+import { generateNextNumber } from './numberGenerator';
+import { getCreditedAmount, syncInvoiceStatus } from './payments';
+import { syncInvoiceStock } from './stock';
+import { calculateDocumentTotals, getDocumentTotal } from './documentTotals';
+import { roundMoney } from './money';
+import { formatEuropeanDate } from './formatting';
+import { format } from 'date-fns';
+
+type CreditDocumentType = Exclude<InvoiceDocumentType, 'invoice'>;
+type CreditItem = Omit<InvoiceItem, 'id' | 'invoice_id'>;
+
+const EPSILON = 0.005;
+
+// Builds the items crediting part of an invoice: one line per VAT rate, each carrying the same share
+// of that rate's net amount after all discounts.
+const buildPartialCreditItems = (original: Invoice, grossAmount: number, label: string): CreditItem[] => {
+  const totals = calculateDocumentTotals(original.invoice_items || [], original);
+  if (totals.grandTotal <= 0) return [];
+  const share = grossAmount / totals.grandTotal;
+
+  return totals.vatBreakdown
+    .filter(({ taxableAmount }) => taxableAmount !== 0)
+    .map(({ rate, taxableAmount }) => ({
+      product_id: null,
+      description: `${label} (Restbetrag) zur Rechnung ${original.invoice_number}`,
+      quantity: 1,
+      unit_price: roundMoney(taxableAmount * share),
+      vat_rate: rate,
+    }));
+};
+
+/**
+ * Checks whether an invoice may still be edited. Once an invoice has left the draft
+ * status it is a legal document and can only be corrected with a credit note or cancellation.
+ * The database enforces the same rule (supabase_invoice_lock.sql).
+ * @param invoice The invoice to check.
+ * @returns True if the invoice is locked against editing.
+ */
+export const isInvoiceLocked = (invoice: Pick<Invoice, 'status'>): boolean => {
+  return invoice.status !== 'draft';
+};
+
+/**
+ * Returns how much of an invoice can still be credited: its total minus its issued credit notes and
+ * cancellations.
+ * @param invoiceId The ID of the original invoice.
+ * @param excludeCreditId A credit note left out of the sum, e.g. the one being edited.
+ * @returns The remaining amount, never below zero.
+ */
+export const getRemainingCreditAmount = async (invoiceId: number, excludeCreditId: number | null = null): Promise<number> => {
+  const { data: original, error } = await supabase
+    .from('invoices')
+    .select('total_amount, credit_notes:invoices!original_invoice_id(id, total_amount, status)')
+    .eq('id', invoiceId)
+    .single();
+
+  if (error || !original) {
+    throw new Error(error?.message || "Invoice not found.");
+  }
+  const otherCredits = (original.credit_notes || []).filter((c: Pick<Invoice, 'id'>) => c.id !== excludeCreditId);
+  return Math.max(0, roundMoney(Number(original.total_amount) - getCreditedAmount(otherCredits)));
+};
+
+/**
+ * Creates a credit note or cancellation invoice for an issued invoice by copying its items.
+ * A cancellation (Stornorechnung) reverses the whole invoice and is issued immediately;
+ * a credit note (Gutschrift) is created as a draft so the credited items can be adjusted.
+ * An invoice can never be credited beyond its total: if earlier credit notes leave less than the
+ * total, the new credit note covers only the remaining amount, split by VAT rate.
+ * @param invoiceId The ID of the original invoice.
+ * @param type The type of credit document to create.
+ * @param profile The profile of the user creating the document.
+ * @returns The created credit document.
+ */
+export const createCreditDocument = async (invoiceId: number, type: CreditDocumentType, profile: Profile): Promise<Invoice> => {
+  if (!profile.org_id) {
+    throw new Error("User is not associated with an organization.");
+  }
+
+  const { data: original, error: fetchError } = await supabase
+    .from('invoices')
+    .select('*, invoice_items:invoice_items!left(*), credit_notes:invoices!original_invoice_id(invoice_number, total_amount, status)')
+    .eq('id', invoiceId)
+    .single();
+
+  if (fetchError || !original) {
+    throw new Error(fetchError?.message || "Invoice not found.");
+  }
+  if (original.document_type !== 'invoice') {
+    throw new Error("Credit notes can only be created for invoices.");
+  }
+  if (original.status === 'draft') {
+    throw new Error("Draft invoices can be edited or deleted directly.");
+  }
+  if (original.status === 'cancelled') {
+    throw new Error("This invoice has already been cancelled.");
+  }
+  const draftCredit = (original.credit_notes || []).find((c: Pick<Invoice, 'invoice_number' | 'status'>) => c.status === 'draft');
+  if (draftCredit) {
+    throw new Error(`Credit note #${draftCredit.invoice_number} is still a draft. Issue or delete it first.`);
+  }
+  const creditedAmount = getCreditedAmount(original.credit_notes);
+  const remainingAmount = roundMoney(Number(original.total_amount) - creditedAmount);
+  if (remainingAmount <= EPSILON) {
+    throw new Error("This invoice has already been fully credited.");
+  }
+  if (type === 'cancellation' && creditedAmount > 0) {
+    throw new Error("This invoice already has credit notes. Please use a credit note for the remaining amount.");
+  }
+
+  const documentNumber = await generateNextNumber(profile.org_id, type);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const label = type === 'cancellation' ? 'Stornierung' : 'Gutschrift';
+  const isPartial = remainingAmount < roundMoney(Number(original.total_amount)) - EPSILON;
+  // A partial credit lists net amounts per VAT rate, so the document discount is not applied again.
+  const itemsToCopy: CreditItem[] = isPartial
+    ? buildPartialCreditItems(original as Invoice, remainingAmount, label)
+    : (original.invoice_items || []).map(({ id, invoice_id, ...item }: InvoiceItem) => item);
+
+  const { data: creditDocument, error: insertError } = await supabase
+    .from('invoices')
+    .insert({
+      user_id: profile.id,
+      org_id: profile.org_id,
+      customer_id: original.customer_id,
+      invoice_number: documentNumber,
+      issue_date: today,
+      due_date: today,
+      total_amount: isPartial ? remainingAmount : original.total_amount,
+      // Issued documents are locked together with their items, so a cancellation is issued below.
+      status: 'draft',
+      notes: `${label} zur Rechnung ${original.invoice_number} vom ${formatEuropeanDate(original.issue_date)}`,
+      document_type: type,
+      original_invoice_id: original.id,
+      discount_type: isPartial ? null : original.discount_type,
+      discount_value: isPartial ? null : original.discount_value,
+      tax_treatment: original.tax_treatment,
+    })
+    .select()
+    .single();
+
+  if (insertError || !creditDocument) {
+    throw new Error(insertError?.message || `Failed to create ${type}.`);
+  }
+
+  if (itemsToCopy.length > 0) {
+    const { error: itemsError } = await supabase.from('invoice_items').insert(itemsToCopy.map(item => ({ ...item, invoice_id: creditDocument.id })));
+    if (itemsError) throw new Error(itemsError.message);
+  }
+  creditDocument.total_amount = await getDocumentTotal('invoice', creditDocument.id);
+
+  if (type === 'cancellation') {
+    const { error: issueError } = await supabase.from('invoices').update({ status: 'sent' }).eq('id', creditDocument.id);
+    if (issueError) throw new Error(issueError.message);
+    creditDocument.status = 'sent';
+  }
+
+  await syncInvoiceStatus(original.id);
+  // A cancellation is issued immediately and returns what the invoice took from stock.
+  if (type === 'cancellation') {
+    await syncInvoiceStock(creditDocument.id, profile.id);
+  }
+  return creditDocument as Invoice;
+};
@@ -0,0 +1,393 @@
+import { supabase } from '../services/supabase';
+import { Customer, DatevAccount, DatevChart, DatevRevenueKey, DatevSettings, Expense, Invoice, InvoiceItem, Payment, TaxTreatment } from '../types';
+import { DATEV_DEFAULT_ACCOUNTS, DATEV_FIRST_DEBTOR_NUMBER } from '../constants';
+import { calculateDocumentTotals } from './documentTotals';
+import { roundMoney } from './money';
+import { parseAddress } from './eInvoice';
+import { downloadBlob } from './export';
+import { parseAsLocalDate } from './formatting';
+import { format } from 'date-fns';
+
+export interface DatevBooking {
+  amount: number; // Always positive; the side says in which direction it is booked
+  side: 'S' | 'H'; // Soll/Haben of `account`
+  account: string;
+  contraAccount: string;
+  buKey: string;
+  date: string; // yyyy-MM-dd
+  documentNumber: string; // Belegfeld 1
+  text: string; // Buchungstext
+}
+
+export interface DatevPeriod {
+  start: Date;
+  end: Date;
+}
+
+type InvoiceWithItems = Invoice & { invoice_items: InvoiceItem[] | null };
+type PaymentWithInvoice = Payment & { invoices: Pick<Invoice, 'invoice_number' | 'customer_id'> };
+
+// The general ledger accounts have four digits, debtors one more.
+const ACCOUNT_LENGTH = 4;
+
+
+/**
+ * Returns the key of the revenue account for an invoice line.
+ * @param treatment The tax treatment of the invoice.
+ * @param rate The VAT rate of the line.
+ * @returns The key into the revenue account mapping.
+ */
+export const getRevenueKey = (treatment: TaxTreatment | null | undefined, rate: number): DatevRevenueKey => {
+  if (treatment && treatment !== 'standard') return treatment;
+  return `standard_${rate}` as DatevRevenueKey;
+};
+
+/**
+ * Returns the DATEV settings an organization starts with.
+ * @param orgId The UUID of the organization.
+ * @param chart The chart of accounts.
+ * @returns The settings with the standard accounts of the chart.
+ */
+export const getDefaultDatevSettings = (orgId: string, chart: DatevChart = 'SKR03'): DatevSettings => ({
+  org_id: orgId,
+  consultant_number: '',
+  client_number: '',
+  chart,
+  ...DATEV_DEFAULT_ACCOUNTS[chart],
+  expense_accounts: [],
+});
+
+/**
+ * Fetches the DATEV settings of an organization.
+ * @param orgId The UUID of the organization.
+ * @returns The settings, or the SKR03 defaults if none are saved.
+ */
+export const getDatevSettings = async (orgId: string): Promise<DatevSettings> => {
+  const { data, error } = await supabase
+    .from('datev_settings')
+    .select('*')
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data) return getDefaultDatevSettings(orgId);
+
+  const defaults = getDefaultDatevSettings(orgId, data.chart);
+  return { ...defaults, ...data, revenue_accounts: { ...defaults.revenue_accounts, ...data.revenue_accounts } } as DatevSettings;
+};
+
+/**
+ * Saves the DATEV settings of an organization.
+ * @param settings The settings.
+ */
+export const saveDatevSettings = async (settings: DatevSettings) => {
+  const { error } = await supabase.from('datev_settings').upsert(settings, { onConflict: 'org_id' });
+  if (error) throw new Error(error.message);
+};
+
+// --- Bookings ---
+
+const getDebtorAccount = (customer: Pick<Customer, 'debtor_number' | 'name'> | null | undefined, documentNumber: string): string => {
+  if (!customer?.debtor_number) {
+    throw new Error(`The customer of ${documentNumber} has no debtor number.`);
+  }
+  return String(customer.debtor_number);
+};
+
+/**
+ * Books an invoice, credit note or cancellation: one booking per revenue account, against the debtor.
+ * @param invoice The document with its items and customer.
+ * @param settings The DATEV settings.
+ * @returns The bookings.
+ */
+export const buildInvoiceBookings = (invoice: InvoiceWithItems, settings: DatevSettings): DatevBooking[] => {
+  const debtor = getDebtorAccount(invoice.customers, invoice.invoice_number);
+  // Credit notes and cancellations are stored with positive amounts and reduce the receivable.
+  const side = invoice.document_type && invoice.document_type !== 'invoice' ? 'H' : 'S';
+  const totals = calculateDocumentTotals(invoice.invoice_items || [], { discount_type: invoice.discount_type, discount_value: invoice.discount_value });
+
+  // Rates that share a revenue account (e.g. 0% under a tax exemption) are booked together.
+  const byAccount = new Map<string, { revenue: DatevAccount; amount: number }>();
+  totals.vatBreakdown.forEach(({ rate, taxableAmount, vat }) => {
+    const key = getRevenueKey(invoice.tax_treatment, rate);
+    const revenue = settings.revenue_accounts[key];
+    if (!revenue?.account) {
+      throw new Error(`No DATEV revenue account is configured for "${key}" (${invoice.invoice_number}).`);
+    }
+    const mapKey = `${revenue.account}|${revenue.bu_key}`;
+    const entry = byAccount.get(mapKey) || { revenue, amount: 0 };
+    entry.amount += taxableAmount + vat;
+    byAccount.set(mapKey, entry);
+  });
+
+  return Array.from(byAccount.values())
+    .filter(({ amount }) => roundMoney(amount) !== 0)
+    .map(({ revenue, amount }) => ({
+      amount: roundMoney(Math.abs(amount)),
+      side: amount < 0 ? (side === 'S' ? 'H' : 'S') : side,
+      account: debtor,
+      contraAccount: revenue.account,
+      buKey: revenue.bu_key,
+      date: invoice.issue_date,
+      documentNumber: invoice.invoice_number,
+      text: invoice.customers?.name || '',
+    }));
+};
+
+/**
+ * Books a customer payment from the bank account against the debtor.
+ * @param payment The payment with its invoice.
+ * @param customer The customer of the invoice.
+ * @param settings The DATEV settings.
+ * @returns The booking.
+ */
+export const buildPaymentBooking = (payment: PaymentWithInvoice, customer: Customer | undefined, settings: DatevSettings): DatevBooking => ({
+  amount: roundMoney(Math.abs(payment.amount)),
+  side: payment.amount < 0 ? 'H' : 'S',
+  account: settings.bank_account,
+  contraAccount: getDebtorAccount(customer, payment.invoices.invoice_number),
+  buKey: '',
+  date: payment.payment_date,
+  documentNumber: payment.invoices.invoice_number,
+  text: `Zahlung ${customer?.name || ''}`.trim(),
+});
+
+/**
+ * Books an expense on the account of its category against the bank account.
+ * @param expense The expense.
+ * @param settings The DATEV settings.
+ * @returns The booking.
+ */
+export const buildExpenseBooking = (expense: Expense, settings: DatevSettings): DatevBooking => {
+  const category = (expense.category || '').trim().toLowerCase();
+  const mapping = settings.expense_accounts.find(e => e.category.trim().toLowerCase() === category && category !== '');
+  return {
+    amount: roundMoney(Math.abs(expense.amount)),
+    side: expense.amount < 0 ? 'H' : 'S',
+    account: mapping?.account || settings.default_expense_account,
+    contraAccount: settings.bank_account,
+    buKey: mapping?.bu_key || '',
+    date: expense.expense_date,
+    documentNumber: expense.expense_number,
+    text: expense.description,
+  };
+};
+
+// --- EXTF files ---
+
+const text = (value: string | null | undefined, maxLength?: number) => {
+  const cleaned = (value || '').replace(/[\r\n]+/g, ' ').trim();
+  return `"${(maxLength ? cleaned.slice(0, maxLength) : cleaned).replace(/"/g, '""')}"`;
+};
+const amount = (value: number) => value.toFixed(2).replace('.', ',');
+const compactDate = (date: Date) => format(date, 'yyyyMMdd');
+// Belegfeld 1 only allows these characters.
+const documentField = (value: string) => text(value.replace(/[^A-Za-z0-9$&%*+\-/]/g, ''), 36);
+
+const buildHeader = (settings: DatevSettings, category: { id: number; name: string; version: number }, createdAt: Date, period?: DatevPeriod) => {
+  const fiscalYearStart = new Date((period?.start || createdAt).getFullYear(), 0, 1);
+  return [
+    text('EXTF'), 700, category.id, text(category.name), category.version,
+    format(createdAt, 'yyyyMMddHHmmssSSS'), '', text('RE'), text(''), text(''),
+    settings.consultant_number, settings.client_number, compactDate(fiscalYearStart), ACCOUNT_LENGTH,
+    period ? compactDate(period.start) : '', period ? compactDate(period.end) : '',
+    text(period ? `Export ${format(period.start, 'dd.MM.yyyy')}-${format(period.end, 'dd.MM.yyyy')}` : ''), text(''),
+    period ? 1 : '', period ? 0 : '', period ? 0 : '', text(period ? 'EUR' : ''),
+    '', text(''), '', '', text(settings.chart.replace('SKR', '')), '', '', text(''), text(''),
+  ].join(';');
+};
+
+const validateSettings = (settings: DatevSettings) => {
+  if (!/^\d{4,7}$/.test(settings.consultant_number)) {
+    throw new Error('Please enter the DATEV consultant number (Beraternummer, 4-7 digits) in the settings.');
+  }
+  if (!/^\d{1,5}$/.test(settings.client_number)) {
+    throw new Error('Please enter the DATEV client number (Mandantennummer, 1-5 digits) in the settings.');
+  }
+};
+
+/**
+ * Formats bookings as a DATEV Buchungsstapel (EXTF format, version 700). Only the leading 14 columns
+ * are written; DATEV fills the remaining ones with their defaults.
+ * @param bookings The bookings.
+ * @param settings The DATEV settings.
+ * @param period The exported period; it must lie within one fiscal year.
+ * @param createdAt The time of the export.
+ * @returns The file content.
+ */
+export const formatBookingBatch = (bookings: DatevBooking[], settings: DatevSettings, period: DatevPeriod, createdAt: Date = new Date()): string => {
+  const columns = [
+    'Umsatz (ohne Soll/Haben-Kz)', 'Soll/Haben-Kennzeichen', 'WKZ Umsatz', 'Kurs', 'Basis-Umsatz', 'WKZ Basis-Umsatz',
+    'Konto', 'Gegenkonto (ohne BU-Schlüssel)', 'BU-Schlüssel', 'Belegdatum', 'Belegfeld 1', 'Belegfeld 2', 'Skonto', 'Buchungstext',
+  ];
+  const rows = bookings.map(b => [
+    amount(b.amount), text(b.side), text('EUR'), '', '', '',
+    b.account, b.contraAccount, text(b.buKey), format(parseAsLocalDate(b.date)!, 'ddMM'),
+    documentField(b.documentNumber), text(''), '', text(b.text, 60),
+  ].join(';'));
+
+  return [buildHeader(settings, { id: 21, name: 'Buchungsstapel', version: 13 }, createdAt, period), columns.join(';'), ...rows].join('\r\n') + '\r\n';
+};
+
+/**
+ * Formats the customers as DATEV debtor master data (EXTF Debitoren/Kreditoren, version 700).
+ * Only the leading 20 columns (number, name, VAT ID and postal address) are written.
+ * @param customers The customers; all must have a debtor number.
+ * @param settings The DATEV settings.
+ * @param createdAt The time of the export.
+ * @returns The file content.
+ */
+export const formatDebtorMasterData = (customers: Customer[], settings: DatevSettings, createdAt: Date = new Date()): string => {
+  const columns = [
+    'Konto', 'Name (Adressattyp Unternehmen)', 'Unternehmensgegenstand', 'Name (Adressattyp natürl. Person)',
+    'Vorname (Adressattyp natürl. Person)', 'Name (Adressattyp keine Angabe)', 'Adressattyp', 'Kurzbezeichnung',
+    'EU-Land', 'EU-UStID', 'Anrede', 'Titel/Akad. Grad', 'Adelstitel', 'Namensvorsatz', 'Adressart',
+    'Straße', 'Postfach', 'Postleitzahl', 'Ort', 'Land',
+  ];
+  const rows = customers.map(customer => {
+    // Customers with a VAT ID are businesses; for all others DATEV gets no address type.
+    const isCompany = !!customer.vat_id;
+    const vatId = (customer.vat_id || '').replace(/\s+/g, '').toUpperCase();
+    const address = parseAddress(customer.address, customer.country);
+    return [
+      customer.debtor_number, text(isCompany ? customer.name : '', 50), text(''), text(''), text(''),
+      text(isCompany ? '' : customer.name, 50), text(isCompany ? '2' : '0'), text(customer.name, 15),
+      text(vatId.slice(0, 2)), text(vatId.slice(2)), text(''), text(''), text(''), text(''), text('STR'),
+      text(address.street, 36), text(''), text(address.postcode, 10), text(address.city, 30), text(address.country),
+    ].join(';');
+  });
+
+  return [buildHeader(settings, { id: 16, name: 'Debitoren/Kreditoren', version: 5 }, createdAt), columns.join(';'), ...rows].join('\r\n') + '\r\n';
+};
+
+// Windows-1252 characters in the range 0x80-0x9F; all others below 0x100 map to themselves.
+const WINDOWS_1252_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/**
+ * Encodes text as Windows-1252, which DATEV expects for EXTF files. Unsupported characters become '?'.
+ * @param value The text.
+ * @returns The encoded bytes.
+ */
+export const encodeWindows1252 = (value: string): Uint8Array => {
+  const chars = Array.from(value);
+  return Uint8Array.from(chars, char => {
+    const code = char.charCodeAt(0);
+    if (WINDOWS_1252_EXTRAS[char] !== undefined) return WINDOWS_1252_EXTRAS[char];
+    return code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : 0x3f;
+  });
+};
+
+// --- Export ---
+
+/**
+ * Gives debtor numbers to customers that do not have one yet, continuing after the highest number in use.
+ * @param orgId The UUID of the organization.
+ * @param customers The customers that need a debtor number.
+ * @returns The customers with their debtor numbers.
+ */
+export const assignDebtorNumbers = async (orgId: string, customers: Customer[]): Promise<Customer[]> => {
+  const missing = customers.filter(c => !c.debtor_number).sort((a, b) => (a.customer_number || '').localeCompare(b.customer_number || ''));
+  if (missing.length === 0) return customers;
+
+  const { data, error } = await supabase
+    .from('customers')
+    .select('debtor_number')
+    .eq('org_id', orgId)
+    .not('debtor_number', 'is', null)
+    .order('debtor_number', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  let next = Math.max(DATEV_FIRST_DEBTOR_NUMBER, (data?.[0]?.debtor_number || 0) + 1);
+  const assigned = new Map<number, number>();
+  for (const customer of missing) {
+    const { error: updateError } = await supabase.from('customers').update({ debtor_number: next }).eq('id', customer.id);
+    if (updateError) throw new Error(updateError.message);
+    assigned.set(customer.id, next++);
+  }
+  return customers.map(c => assigned.has(c.id) ? { ...c, debtor_number: assigned.get(c.id) } : c);
+};
+
+/**
+ * Exports the issued invoices, credit notes, payments and expenses of a period as a DATEV Buchungsstapel,
+ * together with the master data of the customers involved, and downloads both files.
+ * @param orgId The UUID of the organization.
+ * @param period The period; it must lie within one calendar year, which DATEV treats as the fiscal year.
+ * @returns The number of bookings.
+ */
+export const exportDatev = async (orgId: string, period: DatevPeriod): Promise<number> => {
+  if (period.start.getFullYear() !== period.end.getFullYear() || period.start > period.end) {
+    throw new Error('The DATEV export period must lie within one fiscal year.');
+  }
+  const settings = await getDatevSettings(orgId);
+  validateSettings(settings);
+
+  const start = format(period.start, 'yyyy-MM-dd');
+  const end = format(period.end, 'yyyy-MM-dd');
+  const [invoicesResult, paymentsResult, expensesResult] = await Promise.all([
+    supabase
+      .from('invoices')
+      .select('*, invoice_items:invoice_items!left(*), customers:customers!left(*)')
+      .eq('org_id', orgId)
+      .neq('status', 'draft')
+      .gte('issue_date', start)
+      .lte('issue_date', end)
+      .order('issue_date'),
+    supabase
+      .from('payments')
+      .select('*, invoices:invoices!inner(invoice_number, customer_id)')
+      .eq('org_id', orgId)
+      .gte('payment_date', start)
+      .lte('payment_date', end)
+      .order('payment_date'),
+    supabase
+      .from('expenses')
+      .select('*')
+      .eq('org_id', orgId)
+      .gte('expense_date', start)
+      .lte('expense_date', end)
+      .order('expense_date'),
+  ]);
+
+  const fetchError = invoicesResult.error || paymentsResult.error || expensesResult.error;
+  if (fetchError) {
+    throw new Error(fetchError.message);
+  }
+  const invoices = (invoicesResult.data || []) as InvoiceWithItems[];
+  const payments = (paymentsResult.data || []) as PaymentWithInvoice[];
+  const expenses = (expensesResult.data || []) as Expense[];
+
+  // Every customer with a booking needs a debtor number and a master data record.
+  const customerIds = new Set([...invoices.map(i => i.customer_id), ...payments.map(p => p.invoices.customer_id)]);
+  let customers: Customer[] = [];
+  if (customerIds.size > 0) {
+    const { data, error } = await supabase.from('customers').select('*').in('id', Array.from(customerIds));
+    if (error) throw new Error(error.message);
+    customers = await assignDebtorNumbers(orgId, (data || []) as Customer[]);
+  }
+  const customersById = new Map(customers.map(c => [c.id, c]));
+
+  const bookings = [
+    ...invoices.flatMap(invoice => buildInvoiceBookings({ ...invoice, customers: customersById.get(invoice.customer_id) }, settings)),
+    ...payments.map(payment => buildPaymentBooking(payment, customersById.get(payment.invoices.customer_id), settings)),
+    ...expenses.map(expense => buildExpenseBooking(expense, settings)),
+  ];
+  if (bookings.length === 0) {
+    throw new Error('There is nothing to export in this period.');
+  }
+
+  const createdAt = new Date();
+  const suffix = `${settings.consultant_number}_${settings.client_number}_${start}_${end}`;
+  const toBlob = (content: string) => new Blob([encodeWindows1252(content) as BlobPart], { type: 'text/csv;charset=windows-1252' });
+  downloadBlob(toBlob(formatBookingBatch(bookings, settings, period, createdAt)), `EXTF_Buchungsstapel_${suffix}.csv`);
+  downloadBlob(toBlob(formatDebtorMasterData(customers, settings, createdAt)), `EXTF_Debitoren_${suffix}.csv`);
+  return bookings.length;
+};
@@ -0,0 +1,175 @@
+import { supabase } from '../services/supabase';
+import { DiscountType, QuoteItemType } from '../types';
+import { allocateCents, fromCents, multiplyToCents, percentOfCents, toCents } from './money';
+
+export interface DiscountFields {
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+}
+
+export type TotalsLineInput = DiscountFields & {
+  quantity?: number | null;
+  unit_price?: number | null;
+  vat_rate?: number | null;
+  deducted_invoice_id?: number | null;
+  item_type?: QuoteItemType | null;
+  is_selected?: boolean | null;
+};
+
+export interface LineTotals {
+  gross: number; // quantity × unit price
+  lineDiscount: number;
+  net: number; // after the line discount, as shown on the line
+  total: number; // net plus its VAT, as shown on the line; the document VAT is rounded per rate
+  documentDiscountShare: number;
+  taxableAmount: number; // after the line and the allocated document discount
+  binding: boolean; // false for optional and alternative quote items that were not chosen
+}
+
+export interface VatBreakdown {
+  rate: number;
+  taxableAmount: number;
+  documentDiscount: number;
+  vat: number;
+}
+
+export interface DocumentTotals {
+  lines: LineTotals[];
+  itemsTotal: number; // sum of line nets
+  lineDiscountTotal: number;
+  documentDiscount: number;
+  subtotal: number; // net total after all discounts
+  vatBreakdown: VatBreakdown[];
+  totalVat: number;
+  grandTotal: number;
+}
+
+// Calculates a discount on an amount in cents.
+const discountCents = (baseCents: number, discount: DiscountFields): number => {
+  const value = Number(discount.discount_value) || 0;
+  if (value <= 0 || baseCents <= 0) return 0;
+  const amount = discount.discount_type === 'fixed' ? toCents(value) : percentOfCents(baseCents, Math.min(value, 100));
+  return Math.min(amount, baseCents);
+};
+
+/**
+ * Tells whether an item counts towards the document total. Optional and alternative quote items
+ * are offered with their price but only count once they were chosen.
+ * @param item The item.
+ * @returns True for standard items and chosen options.
+ */
+export const isBindingItem = (item: Pick<TotalsLineInput, 'item_type' | 'is_selected'>): boolean =>
+  !item.item_type || item.item_type === 'standard' || !!item.is_selected;
+
+/**
+ * Calculates the amount of a percentage or fixed discount. Fixed discounts are capped at the base amount.
+ * @param base The amount the discount applies to.
+ * @param discount The discount type and value.
+ * @returns The discount amount, rounded to cents.
+ */
+export const calculateDiscount = (base: number, discount: DiscountFields): number =>
+  fromCents(discountCents(toCents(base), discount));
+
+/**
+ * Calculates line, discount and VAT totals of a quote or invoice. All amounts are calculated in
+ * integer cents, so editors, PDFs, exports and the stored total always agree.
+ * The document discount is distributed over the lines in proportion to their net amounts, so the
+ * VAT of every rate is reduced by exactly its share. Rounding differences go to the largest line.
+ * VAT is rounded once per VAT rate on the sum of its lines, as is German practice.
+ * Lines deducting a down payment invoice are not discounted. Optional and alternative items that
+ * were not chosen get their line amounts but are left out of all document totals.
+ * @param items The document items with their optional line discounts.
+ * @param documentDiscount The optional discount on the whole document.
+ * @returns The totals per line, per VAT rate and for the document.
+ */
+export const calculateDocumentTotals = (
+  items: TotalsLineInput[],
+  documentDiscount: DiscountFields = {}
+): DocumentTotals => {
+  const lines = items.map(item => {
+    const gross = multiplyToCents(item.quantity, item.unit_price);
+    const lineDiscount = discountCents(gross, item);
+    const binding = isBindingItem(item);
+    return { gross, lineDiscount, net: gross - lineDiscount, rate: Number(item.vat_rate) || 0, binding, discountable: binding && !item.deducted_invoice_id };
+  });
+
+  const itemsTotal = lines.reduce((sum, l) => sum + (l.binding ? l.net : 0), 0);
+  const discountableTotal = lines.reduce((sum, l) => sum + (l.discountable ? l.net : 0), 0);
+  const documentDiscountAmount = discountCents(discountableTotal, documentDiscount);
+  const shares = allocateCents(documentDiscountAmount, lines.map(l => (l.discountable ? l.net : 0)));
+
+  const byRate = new Map<number, { taxableAmount: number; documentDiscount: number }>();
+  const lineTotals: LineTotals[] = lines.map((line, index) => {
+    const taxableAmount = line.net - shares[index];
+    if (line.binding) {
+      const entry = byRate.get(line.rate) || { taxableAmount: 0, documentDiscount: 0 };
+      entry.taxableAmount += taxableAmount;
+      entry.documentDiscount += shares[index];
+      byRate.set(line.rate, entry);
+    }
+    return {
+      gross: fromCents(line.gross),
+      lineDiscount: fromCents(line.lineDiscount),
+      net: fromCents(line.net),
+      total: fromCents(line.net + percentOfCents(line.net, line.rate)),
+      documentDiscountShare: fromCents(shares[index]),
+      taxableAmount: fromCents(taxableAmount),
+      binding: line.binding,
+    };
+  });
+
+  const vatBreakdown = Array.from(byRate.entries())
+    .map(([rate, entry]) => ({
+      rate,
+      taxableAmount: entry.taxableAmount,
+      documentDiscount: entry.documentDiscount,
+      vat: percentOfCents(entry.taxableAmount, rate),
+    }))
+    .sort((a, b) => b.rate - a.rate);
+
+  const subtotal = itemsTotal - documentDiscountAmount;
+  const totalVat = vatBreakdown.reduce((sum, b) => sum + b.vat, 0);
+
+  return {
+    lines: lineTotals,
+    itemsTotal: fromCents(itemsTotal),
+    lineDiscountTotal: fromCents(lines.reduce((sum, l) => sum + (l.binding ? l.lineDiscount : 0), 0)),
+    documentDiscount: fromCents(documentDiscountAmount),
+    subtotal: fromCents(subtotal),
+    vatBreakdown: vatBreakdown.map(b => ({ ...b, taxableAmount: fromCents(b.taxableAmount), documentDiscount: fromCents(b.documentDiscount), vat: fromCents(b.vat) })),
+    totalVat: fromCents(totalVat),
+    grandTotal: fromCents(subtotal + totalVat),
+  };
+};
+
+/**
+ * Fetches the stored total of a quote or invoice. The database recalculates it from the items
+ * whenever the items or the document discount change (see supabase_document_totals.sql), so a
+ * document inserted with a preliminary total has its final total once its items are saved.
+ * @param documentType Whether the document is a quote or an invoice (including credit notes).
+ * @param documentId The ID of the document.
+ * @returns The stored total.
+ */
+export const getDocumentTotal = async (documentType: 'quote' | 'invoice', documentId: number): Promise<number> => {
+  const { data: document, error } = await supabase
+    .from(documentType === 'quote' ? 'quotes' : 'invoices')
+    .select('total_amount')
+    .eq('id', documentId)
+    .single();
+
+  if (error || !document) {
+    throw new Error(error?.message || 'Document not found.');
+  }
+  return Number(document.total_amount);
+};
+
+/**
+ * Formats a discount for display, e.g. "10%" or "€5.00".
+ * @param discount The discount type and value.
+ * @returns The formatted discount, or an empty string if there is none.
+ */
+export const formatDiscount = (discount: DiscountFields): string => {
+  const value = Number(discount.discount_value) || 0;
+  if (value <= 0) return '';
+  return discount.discount_type === 'fixed' ? `€${value.toFixed(2)}` : `${value}%`;
+};
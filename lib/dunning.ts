@@ -0,0 +1,156 @@
+import { supabase } from '../services/supabase';
+import { DunningLevel, Invoice, InvoiceReminder, Profile } from '../types';
+import { DEFAULT_DUNNING_LEVELS } from '../constants';
+import { getOpenBalance } from './payments';
+import { parseAsLocalDate } from './formatting';
+import { addDays, format, startOfDay } from 'date-fns';
+
+export interface DunningCandidate {
+  invoice: Invoice;
+  level: DunningLevel;
+  openBalance: number;
+}
+
+/**
+ * Fetches the dunning levels of an organization, falling back to the defaults.
+ * @param orgId The UUID of the organization.
+ * @returns The dunning levels, sorted by level.
+ */
+export const getDunningLevels = async (orgId: string): Promise<DunningLevel[]> => {
+  const { data, error } = await supabase
+    .from('dunning_levels')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('level');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  if (!data || data.length === 0) {
+    return DEFAULT_DUNNING_LEVELS.map(l => ({ ...l, org_id: orgId }));
+  }
+  return data as DunningLevel[];
+};
+
+/**
+ * Replaces the dunning levels of an organization.
+ * @param orgId The UUID of the organization.
+ * @param levels The complete list of levels; they are renumbered in the given order.
+ */
+export const saveDunningLevels = async (orgId: string, levels: Omit<DunningLevel, 'org_id'>[]) => {
+  const { error: deleteError } = await supabase.from('dunning_levels').delete().eq('org_id', orgId);
+  if (deleteError) throw new Error(deleteError.message);
+
+  if (levels.length === 0) return;
+
+  const { error } = await supabase.from('dunning_levels').insert(
+    levels.map(({ id, ...l }, index) => ({ ...l, level: index + 1, org_id: orgId }))
+  );
+  if (error) throw new Error(error.message);
+};
+
+/**
+ * Flips all sent or partially paid invoices of an organization whose due date has passed to 'overdue'.
+ * @param orgId The UUID of the organization.
+ */
+export const markOverdueInvoices = async (orgId: string) => {
+  const todayStr = format(new Date(), 'yyyy-MM-dd');
+  const { error } = await supabase
+    .from('invoices')
+    .update({ status: 'overdue' })
+    .eq('org_id', orgId)
+    .eq('document_type', 'invoice')
+    .in('status', ['sent', 'partially_paid'])
+    .lt('due_date', todayStr);
+
+  if (error) throw new Error(error.message);
+};
+
+/**
+ * Determines which dunning level an overdue invoice has reached today, if any.
+ * Level 1 becomes due `days_after` days after the due date, every further level
+ * `days_after` days after the previous reminder.
+ * @param invoice The invoice with its due date.
+ * @param reminders The reminders already sent for the invoice.
+ * @param levels The dunning levels of the organization, sorted by level.
+ * @param today The reference date.
+ * @returns The next level to send, or null if nothing is due.
+ */
+export const getNextDunningLevel = (
+  invoice: Pick<Invoice, 'due_date'>,
+  reminders: Pick<InvoiceReminder, 'level' | 'sent_at'>[],
+  levels: DunningLevel[],
+  today: Date = new Date()
+): DunningLevel | null => {
+  const lastReminder = [...reminders].sort((a, b) => b.level - a.level)[0];
+  const nextLevel = levels.find(l => l.level === (lastReminder?.level || 0) + 1);
+  if (!nextLevel) return null;
+
+  const referenceDate = parseAsLocalDate(lastReminder ? lastReminder.sent_at : invoice.due_date);
+  if (!referenceDate) return null;
+
+  return startOfDay(today) >= addDays(referenceDate, nextLevel.days_after) ? nextLevel : null;
+};
+
+/**
+ * Collects all overdue invoices of an organization for which the next reminder is due.
+ * @param orgId The UUID of the organization.
+ * @returns The invoices together with the level to send and their open balance.
+ */
+export const getDunningCandidates = async (orgId: string): Promise<DunningCandidate[]> => {
+  const levels = await getDunningLevels(orgId);
+
+  const { data: invoices, error } = await supabase
+    .from('invoices')
+    .select('*, customers:customers!left(name, email), payments:payments!left(amount), invoice_reminders:invoice_reminders!left(level, sent_at), credit_notes:invoices!original_invoice_id(total_amount, status)')
+    .eq('org_id', orgId)
+    .eq('document_type', 'invoice')
+    .eq('status', 'overdue')
+    .order('due_date');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const candidates: DunningCandidate[] = [];
+  (invoices || []).forEach((invoice: Invoice) => {
+    const openBalance = getOpenBalance(invoice, invoice.payments, invoice.credit_notes);
+    if (openBalance <= 0) return;
+    const level = getNextDunningLevel(invoice, invoice.invoice_reminders || [], levels);
+    if (level) candidates.push({ invoice, level, openBalance });
+  });
+  return candidates;
+};
+
+/**
+ * Records that a reminder of the given level was sent for an invoice.
+ * @param candidate The invoice, level and open balance to remind about.
+ * @param profile The profile of the user running the dunning.
+ * @returns The saved reminder.
+ */
+export const createReminder = async (candidate: DunningCandidate, profile: Profile): Promise<InvoiceReminder> => {
+  if (!profile.org_id) {
+    throw new Error("User is not associated with an organization.");
+  }
+
+  const { data, error } = await supabase
+    .from('invoice_reminders')
+    .insert({
+      user_id: profile.id,
+      org_id: profile.org_id,
+      invoice_id: candidate.invoice.id,
+      level: candidate.level.level,
+      name: candidate.level.name,
+      fee: candidate.level.fee,
+      open_amount: candidate.openBalance,
+      sent_at: format(new Date(), 'yyyy-MM-dd'),
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to create reminder.");
+  }
+  return data as InvoiceReminder;
+};
@@ -0,0 +1,547 @@
+import { supabase } from '../services/supabase';
+import { Customer, Invoice, InvoiceItem, Organization } from '../types';
+import generateDocumentPDF from './pdfGenerator';
+import { downloadBlob } from './export';
+import { getPaidAmount } from './payments';
+import { calculateDocumentTotals, LineTotals } from './documentTotals';
+import { roundMoney } from './money';
+import { getTaxCategoryCode, getTaxNote, TaxCategoryCode } from './taxEngine';
+import { formatEuropeanDate, parseAsLocalDate } from './formatting';
+import { format } from 'date-fns';
+import { AFRelationship, PDFDocument, PDFName } from 'pdf-lib';
+
+export type EInvoiceFormat = 'xrechnung-ubl' | 'xrechnung-cii' | 'zugferd';
+
+export interface EInvoiceIssue {
+  field: string;
+  message: string;
+}
+
+export type EInvoiceData = Invoice & {
+  organizations: Organization;
+  customers: Customer;
+  invoice_items: InvoiceItem[];
+};
+
+interface PostalAddress {
+  street: string;
+  postcode: string;
+  city: string;
+  country: string;
+}
+
+interface TaxBreakdown {
+  category: TaxCategoryCode;
+  exemptionReason: string | null; // Required for the exempt categories E, AE, K and G (BT-120)
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+  documentDiscount: number;
+}
+
+interface Totals {
+  lines: LineTotals[];
+  lineTotal: number;
+  allowanceTotal: number;
+  taxExclusive: number;
+  taxTotal: number;
+  grandTotal: number;
+  prepaid: number;
+  payable: number;
+  breakdown: TaxBreakdown[];
+}
+
+const XRECHNUNG_CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0';
+const PEPPOL_PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0';
+const EN16931_GUIDELINE_ID = 'urn:cen.eu:en16931:2017';
+const CURRENCY = 'EUR';
+const UNIT_CODE = 'C62'; // UN/ECE Rec 20 "one"
+
+const amount = (value: number) => roundMoney(value).toFixed(2);
+
+const escapeXml = (value: string | number | null | undefined) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Splits a free-text address ("Musterstraße 1, 12345 Berlin") into the parts an e-invoice requires.
+ * The line starting with a 4-5 digit postcode is taken as postcode and city, the first other line as street.
+ * @param address The address as entered by the user.
+ * @param country The ISO country code of the address; defaults to Germany.
+ * @returns The parsed address; missing parts are empty strings.
+ */
+export const parseAddress = (address: string | null | undefined, country?: string | null): PostalAddress => {
+  const lines = (address || '').split(/[\n,]/).map(line => line.trim()).filter(Boolean);
+  const cityLineIndex = lines.findIndex(line => /^\d{4,5}\s+\S/.test(line));
+  const cityMatch = cityLineIndex >= 0 ? lines[cityLineIndex].match(/^(\d{4,5})\s+(.+)$/) : null;
+  const street = lines.find((_, index) => index !== cityLineIndex) || '';
+
+  return {
+    street,
+    postcode: cityMatch?.[1] || '',
+    city: cityMatch?.[2] || '',
+    country: country || 'DE',
+  };
+};
+
+/**
+ * Fetches an invoice with everything needed to build an e-invoice.
+ * @param invoiceId The ID of the invoice, credit note or cancellation.
+ * @returns The invoice with its items, organization, customer, payments and original invoice.
+ */
+export const fetchEInvoiceData = async (invoiceId: number): Promise<EInvoiceData> => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*, customers:customers!left(*), organizations:organizations!left(*), invoice_items:invoice_items!left(*), payments:payments!left(*), original_invoice:original_invoice_id(id, invoice_number, issue_date)')
+    .eq('id', invoiceId)
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Invoice not found.");
+  }
+  return data as EInvoiceData;
+};
+
+/**
+ * Checks that all fields which EN 16931 (and for XRechnung the German CIUS) marks as mandatory are present.
+ * This is a local pre-check of the data we hold, not a replacement for a full schematron validation.
+ * @param data The invoice data as returned by fetchEInvoiceData.
+ * @param eInvoiceFormat The format that is going to be produced.
+ * @returns A list of issues; the export may only run when it is empty.
+ */
+export const validateEInvoice = (data: Partial<EInvoiceData>, eInvoiceFormat: EInvoiceFormat): EInvoiceIssue[] => {
+  const issues: EInvoiceIssue[] = [];
+  const require = (condition: unknown, field: string, message: string) => {
+    if (!condition) issues.push({ field, message });
+  };
+
+  require(data.invoice_number, 'invoice.invoice_number', 'Invoice number is missing (BT-1).');
+  require(data.issue_date, 'invoice.issue_date', 'Issue date is missing (BT-2).');
+  if (data.document_type === 'invoice') {
+    require(data.due_date, 'invoice.due_date', 'Due date is missing (BT-9).');
+  } else {
+    require(data.original_invoice, 'invoice.original_invoice_id', 'The corrected invoice is missing (BT-25).');
+  }
+
+  const items = data.invoice_items || [];
+  require(items.length > 0, 'invoice.invoice_items', 'The invoice has no line items (BG-25).');
+  items.forEach((item, index) => {
+    require(item.description?.trim(), `invoice_items[${index}].description`, `Line ${index + 1}: description is missing (BT-153).`);
+    // Lines deducting a down payment invoice are the only ones booked with a negative quantity.
+    if (item.deducted_invoice_id) {
+      require(Number(item.quantity) !== 0, `invoice_items[${index}].quantity`, `Line ${index + 1}: quantity must not be zero (BT-129).`);
+    } else {
+      require(item.quantity > 0, `invoice_items[${index}].quantity`, `Line ${index + 1}: quantity must be greater than zero (BT-129).`);
+    }
+    require(Number(item.unit_price) >= 0, `invoice_items[${index}].unit_price`, `Line ${index + 1}: the item net price must not be negative (BR-27).`);
+  });
+
+  const organization = data.organizations;
+  if (!organization) {
+    issues.push({ field: 'organization', message: 'Seller organization is missing (BG-4).' });
+  } else {
+    const sellerAddress = parseAddress(organization.address, organization.country);
+    require(organization.company_name || organization.name, 'organization.company_name', 'Seller name is missing (BT-27).');
+    require(sellerAddress.street, 'organization.address', 'Seller street is missing (BT-35).');
+    require(sellerAddress.postcode && sellerAddress.city, 'organization.address', 'Seller postcode and city are missing; enter them as "12345 City" (BT-37, BT-38).');
+    require(organization.ust_idnr, 'organization.ust_idnr', 'Seller VAT ID (USt-IdNr.) is missing (BT-31).');
+    require(organization.email, 'organization.email', 'Seller email is missing (BT-34, BT-43).');
+    require(organization.phone, 'organization.phone', 'Seller phone number is missing (BT-42).');
+    if (data.document_type === 'invoice') {
+      require(organization.iban, 'organization.iban', 'Seller IBAN is missing (BT-84).');
+    }
+  }
+
+  const customer = data.customers;
+  if (!customer) {
+    issues.push({ field: 'customer', message: 'Buyer is missing (BG-7).' });
+  } else {
+    const buyerAddress = parseAddress(customer.address, customer.country || organization?.country);
+    require(customer.name, 'customer.name', 'Buyer name is missing (BT-44).');
+    if (data.tax_treatment === 'reverse_charge' || data.tax_treatment === 'intra_community') {
+      require(customer.vat_id, 'customer.vat_id', 'Buyer VAT ID is required for reverse charge and intra-community supplies (BT-48).');
+    }
+    require(buyerAddress.postcode && buyerAddress.city, 'customer.address', 'Buyer postcode and city are missing; enter them as "12345 City" (BT-53, BT-52).');
+    if (eInvoiceFormat !== 'zugferd') {
+      require(customer.buyer_reference, 'customer.buyer_reference', 'Buyer reference (Leitweg-ID) is missing (BT-10).');
+      require(customer.email, 'customer.email', 'Buyer email is missing (BT-49).');
+    }
+  }
+
+  return issues;
+};
+
+// Computes line, allowance, tax and payable totals grouped by VAT rate, as EN 16931 expects them.
+// The document discount becomes one document level allowance per VAT rate.
+const calculateTotals = (data: EInvoiceData): Totals => {
+  const totals = calculateDocumentTotals(data.invoice_items, { discount_type: data.discount_type, discount_value: data.discount_value });
+
+  const breakdown: TaxBreakdown[] = totals.vatBreakdown.map(b => {
+    const category = getTaxCategoryCode(data.tax_treatment, b.rate);
+    return {
+      category,
+      exemptionReason: category === 'S' || category === 'Z' ? null : getTaxNote(data.tax_treatment || 'standard', data.customers),
+      rate: b.rate,
+    taxableAmount: b.taxableAmount,
+      taxAmount: b.vat,
+      documentDiscount: b.documentDiscount,
+    };
+  });
+
+  const prepaid = data.document_type === 'invoice' ? Math.min(roundMoney(getPaidAmount(data.payments)), totals.grandTotal) : 0;
+
+  return {
+    lines: totals.lines,
+    lineTotal: totals.itemsTotal,
+    allowanceTotal: totals.documentDiscount,
+    taxExclusive: totals.subtotal,
+    taxTotal: totals.totalVat,
+    grandTotal: totals.grandTotal,
+    prepaid,
+    payable: roundMoney(totals.grandTotal - prepaid),
+    breakdown,
+  };
+};
+
+// The percentage of a percent discount, or undefined for a fixed one.
+const discountPercent = (item: { discount_type?: string | null; discount_value?: number | null }) =>
+  item.discount_type === 'fixed' ? undefined : Math.min(Number(item.discount_value) || 0, 100);
+
+const isCreditDocument = (data: EInvoiceData) => data.document_type !== 'invoice';
+
+const ublParty = (name: string, address: PostalAddress, email: string | null, vatId: string | null, contact?: { name: string; phone: string; email: string }) => `
+      <cac:Party>
+        ${email ? `<cbc:EndpointID schemeID="EM">${escapeXml(email)}</cbc:EndpointID>` : ''}
+        <cac:PartyName><cbc:Name>${escapeXml(name)}</cbc:Name></cac:PartyName>
+        <cac:PostalAddress>
+          <cbc:StreetName>${escapeXml(address.street)}</cbc:StreetName>
+          <cbc:CityName>${escapeXml(address.city)}</cbc:CityName>
+          <cbc:PostalZone>${escapeXml(address.postcode)}</cbc:PostalZone>
+          <cac:Country><cbc:IdentificationCode>${address.country}</cbc:IdentificationCode></cac:Country>
+        </cac:PostalAddress>
+        ${vatId ? `<cac:PartyTaxScheme><cbc:CompanyID>${escapeXml(vatId)}</cbc:CompanyID><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>` : ''}
+        <cac:PartyLegalEntity><cbc:RegistrationName>${escapeXml(name)}</cbc:RegistrationName></cac:PartyLegalEntity>
+        ${contact ? `<cac:Contact><cbc:Name>${escapeXml(contact.name)}</cbc:Name><cbc:Telephone>${escapeXml(contact.phone)}</cbc:Telephone><cbc:ElectronicMail>${escapeXml(contact.email)}</cbc:ElectronicMail></cac:Contact>` : ''}
+      </cac:Party>`;
+
+/**
+ * Builds an XRechnung in the UBL 2.1 syntax. Credit notes and cancellations become a UBL CreditNote.
+ * @param data The validated invoice data.
+ * @returns The XML document as a string.
+ */
+export const buildUblXml = (data: EInvoiceData): string => {
+  const organization = data.organizations;
+  const customer = data.customers;
+  const sellerName = organization.company_name || organization.name;
+  const totals = calculateTotals(data);
+  const isCredit = isCreditDocument(data);
+  const root = isCredit ? 'CreditNote' : 'Invoice';
+  const lineElement = isCredit ? 'CreditNoteLine' : 'InvoiceLine';
+  const quantityElement = isCredit ? 'CreditedQuantity' : 'InvoicedQuantity';
+
+  const taxCategory = (category: string, rate: number, element: string, exemptionReason?: string | null) =>
+    `<cac:${element}><cbc:ID>${category}</cbc:ID><cbc:Percent>${rate}</cbc:Percent>${exemptionReason ? `<cbc:TaxExemptionReason>${escapeXml(exemptionReason)}</cbc:TaxExemptionReason>` : ''}<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:${element}>`;
+
+  const allowance = (value: number, base: number, percent: number | undefined, category?: TaxBreakdown) => `<cac:AllowanceCharge>
+      <cbc:ChargeIndicator>false</cbc:ChargeIndicator>
+      <cbc:AllowanceChargeReasonCode>95</cbc:AllowanceChargeReasonCode>
+      <cbc:AllowanceChargeReason>Rabatt</cbc:AllowanceChargeReason>
+      ${percent !== undefined ? `<cbc:MultiplierFactorNumeric>${percent}</cbc:MultiplierFactorNumeric>` : ''}
+      <cbc:Amount currencyID="${CURRENCY}">${amount(value)}</cbc:Amount>
+      <cbc:BaseAmount currencyID="${CURRENCY}">${amount(base)}</cbc:BaseAmount>
+      ${category ? taxCategory(category.category, category.rate, 'TaxCategory') : ''}
+    </cac:AllowanceCharge>`;
+
+  const lines = data.invoice_items.map((item, index) => `
+  <cac:${lineElement}>
+    <cbc:ID>${index + 1}</cbc:ID>
+    <cbc:${quantityElement} unitCode="${UNIT_CODE}">${item.quantity}</cbc:${quantityElement}>
+    <cbc:LineExtensionAmount currencyID="${CURRENCY}">${amount(totals.lines[index].net)}</cbc:LineExtensionAmount>
+    ${totals.lines[index].lineDiscount > 0 ? allowance(totals.lines[index].lineDiscount, totals.lines[index].gross, discountPercent(item)) : ''}
+    <cac:Item>
+      <cbc:Name>${escapeXml(item.description)}</cbc:Name>
+      ${taxCategory(getTaxCategoryCode(data.tax_treatment, item.vat_rate), item.vat_rate, 'ClassifiedTaxCategory')}
+    </cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="${CURRENCY}">${amount(item.unit_price)}</cbc:PriceAmount></cac:Price>
+  </cac:${lineElement}>`).join('');
+
+  const subtotals = totals.breakdown.map(b => `
+    <cac:TaxSubtotal>
+      <cbc:TaxableAmount currencyID="${CURRENCY}">${amount(b.taxableAmount)}</cbc:TaxableAmount>
+      <cbc:TaxAmount currencyID="${CURRENCY}">${amount(b.taxAmount)}</cbc:TaxAmount>
+      ${taxCategory(b.category, b.rate, 'TaxCategory', b.exemptionReason)}
+    </cac:TaxSubtotal>`).join('');
+
+  const namespace = `urn:oasis:names:specification:ubl:schema:xsd:${root}-2`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<${root} xmlns="${namespace}" xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2" xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">
+  <cbc:CustomizationID>${XRECHNUNG_CUSTOMIZATION_ID}</cbc:CustomizationID>
+  <cbc:ProfileID>${PEPPOL_PROFILE_ID}</cbc:ProfileID>
+  <cbc:ID>${escapeXml(data.invoice_number)}</cbc:ID>
+  <cbc:IssueDate>${data.issue_date}</cbc:IssueDate>
+  ${isCredit ? '<cbc:CreditNoteTypeCode>381</cbc:CreditNoteTypeCode>' : `<cbc:DueDate>${data.due_date}</cbc:DueDate>
+  <cbc:InvoiceTypeCode>380</cbc:InvoiceTypeCode>`}
+  ${data.notes ? `<cbc:Note>${escapeXml(data.notes)}</cbc:Note>` : ''}
+  <cbc:DocumentCurrencyCode>${CURRENCY}</cbc:DocumentCurrencyCode>
+  <cbc:BuyerReference>${escapeXml(customer.buyer_reference)}</cbc:BuyerReference>
+  ${isCredit && data.original_invoice ? `<cac:BillingReference><cac:InvoiceDocumentReference><cbc:ID>${escapeXml(data.original_invoice.invoice_number)}</cbc:ID><cbc:IssueDate>${data.original_invoice.issue_date}</cbc:IssueDate></cac:InvoiceDocumentReference></cac:BillingReference>` : ''}
+  <cac:AccountingSupplierParty>${ublParty(sellerName, parseAddress(organization.address, organization.country), organization.email, organization.ust_idnr, { name: sellerName, phone: organization.phone, email: organization.email })}
+  </cac:AccountingSupplierParty>
+  <cac:AccountingCustomerParty>${ublParty(customer.name, parseAddress(customer.address, customer.country || organization.country), customer.email, customer.vat_id || null)}
+  </cac:AccountingCustomerParty>
+  ${organization.iban ? `<cac:PaymentMeans>
+    <cbc:PaymentMeansCode>58</cbc:PaymentMeansCode>
+    <cbc:PaymentID>${escapeXml(data.invoice_number)}</cbc:PaymentID>
+    <cac:PayeeFinancialAccount>
+      <cbc:ID>${escapeXml(organization.iban.replace(/\s/g, ''))}</cbc:ID>
+      <cbc:Name>${escapeXml(sellerName)}</cbc:Name>
+      ${organization.bic ? `<cac:FinancialInstitutionBranch><cbc:ID>${escapeXml(organization.bic)}</cbc:ID></cac:FinancialInstitutionBranch>` : ''}
+    </cac:PayeeFinancialAccount>
+  </cac:PaymentMeans>` : ''}
+  ${isCredit ? '' : `<cac:PaymentTerms><cbc:Note>Zahlbar bis ${formatEuropeanDate(data.due_date)}</cbc:Note></cac:PaymentTerms>`}
+  ${totals.breakdown.filter(b => b.documentDiscount > 0).map(b => allowance(b.documentDiscount, roundMoney(b.taxableAmount + b.documentDiscount), undefined, b)).join('\n  ')}
+  <cac:TaxTotal>
+    <cbc:TaxAmount currencyID="${CURRENCY}">${amount(totals.taxTotal)}</cbc:TaxAmount>${subtotals}
+  </cac:TaxTotal>
+  <cac:LegalMonetaryTotal>
+    <cbc:LineExtensionAmount currencyID="${CURRENCY}">${amount(totals.lineTotal)}</cbc:LineExtensionAmount>
+    <cbc:TaxExclusiveAmount currencyID="${CURRENCY}">${amount(totals.taxExclusive)}</cbc:TaxExclusiveAmount>
+    <cbc:TaxInclusiveAmount currencyID="${CURRENCY}">${amount(totals.grandTotal)}</cbc:TaxInclusiveAmount>
+    ${totals.allowanceTotal > 0 ? `<cbc:AllowanceTotalAmount currencyID="${CURRENCY}">${amount(totals.allowanceTotal)}</cbc:AllowanceTotalAmount>` : ''}
+    <cbc:PrepaidAmount currencyID="${CURRENCY}">${amount(totals.prepaid)}</cbc:PrepaidAmount>
+    <cbc:PayableAmount currencyID="${CURRENCY}">${amount(totals.payable)}</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>${lines}
+</${root}>
+`;
+};
+
+const ciiDate = (date: string) => format(parseAsLocalDate(date) as Date, 'yyyyMMdd');
+
+const ciiAddress = (address: PostalAddress) => `<ram:PostalTradeAddress>
+          <ram:PostcodeCode>${escapeXml(address.postcode)}</ram:PostcodeCode>
+          <ram:LineOne>${escapeXml(address.street)}</ram:LineOne>
+          <ram:CityName>${escapeXml(address.city)}</ram:CityName>
+          <ram:CountryID>${address.country}</ram:CountryID>
+        </ram:PostalTradeAddress>`;
+
+/**
+ * Builds an invoice in the UN/CEFACT Cross Industry Invoice syntax, used by XRechnung CII and ZUGFeRD/Factur-X.
+ * @param data The validated invoice data.
+ * @param eInvoiceFormat Either 'xrechnung-cii' or 'zugferd'; determines the specification identifier.
+ * @returns The XML document as a string.
+ */
+export const buildCiiXml = (data: EInvoiceData, eInvoiceFormat: EInvoiceFormat): string => {
+  const organization = data.organizations;
+  const customer = data.customers;
+  const sellerName = organization.company_name || organization.name;
+  const totals = calculateTotals(data);
+  const isXRechnung = eInvoiceFormat !== 'zugferd';
+
+  const allowance = (value: number, base: number, percent: number | undefined, category?: TaxBreakdown) => `<ram:SpecifiedTradeAllowanceCharge>
+          <ram:ChargeIndicator><udt:Indicator>false</udt:Indicator></ram:ChargeIndicator>
+          ${percent !== undefined ? `<ram:CalculationPercent>${percent}</ram:CalculationPercent>` : ''}
+          <ram:BasisAmount>${amount(base)}</ram:BasisAmount>
+          <ram:ActualAmount>${amount(value)}</ram:ActualAmount>
+          <ram:ReasonCode>95</ram:ReasonCode>
+          <ram:Reason>Rabatt</ram:Reason>
+          ${category ? `<ram:CategoryTradeTax><ram:TypeCode>VAT</ram:TypeCode><ram:CategoryCode>${category.category}</ram:CategoryCode><ram:RateApplicablePercent>${category.rate}</ram:RateApplicablePercent></ram:CategoryTradeTax>` : ''}
+        </ram:SpecifiedTradeAllowanceCharge>`;
+
+  const lines = data.invoice_items.map((item, index) => `
+    <ram:IncludedSupplyChainTradeLineItem>
+      <ram:AssociatedDocumentLineDocument><ram:LineID>${index + 1}</ram:LineID></ram:AssociatedDocumentLineDocument>
+      <ram:SpecifiedTradeProduct><ram:Name>${escapeXml(item.description)}</ram:Name></ram:SpecifiedTradeProduct>
+      <ram:SpecifiedLineTradeAgreement>
+        <ram:NetPriceProductTradePrice><ram:ChargeAmount>${amount(item.unit_price)}</ram:ChargeAmount></ram:NetPriceProductTradePrice>
+      </ram:SpecifiedLineTradeAgreement>
+      <ram:SpecifiedLineTradeDelivery><ram:BilledQuantity unitCode="${UNIT_CODE}">${item.quantity}</ram:BilledQuantity></ram:SpecifiedLineTradeDelivery>
+      <ram:SpecifiedLineTradeSettlement>
+        <ram:ApplicableTradeTax><ram:TypeCode>VAT</ram:TypeCode><ram:CategoryCode>${getTaxCategoryCode(data.tax_treatment, item.vat_rate)}</ram:CategoryCode><ram:RateApplicablePercent>${item.vat_rate}</ram:RateApplicablePercent></ram:ApplicableTradeTax>
+        ${totals.lines[index].lineDiscount > 0 ? allowance(totals.lines[index].lineDiscount, totals.lines[index].gross, discountPercent(item)) : ''}
+        <ram:SpecifiedTradeSettlementLineMonetarySummation><ram:LineTotalAmount>${amount(totals.lines[index].net)}</ram:LineTotalAmount></ram:SpecifiedTradeSettlementLineMonetarySummation>
+      </ram:SpecifiedLineTradeSettlement>
+    </ram:IncludedSupplyChainTradeLineItem>`).join('');
+
+  const taxes = totals.breakdown.map(b => `
+      <ram:ApplicableTradeTax>
+        <ram:CalculatedAmount>${amount(b.taxAmount)}</ram:CalculatedAmount>
+        <ram:TypeCode>VAT</ram:TypeCode>
+        ${b.exemptionReason ? `<ram:ExemptionReason>${escapeXml(b.exemptionReason)}</ram:ExemptionReason>` : ''}
+        <ram:BasisAmount>${amount(b.taxableAmount)}</ram:BasisAmount>
+        <ram:CategoryCode>${b.category}</ram:CategoryCode>
+        <ram:RateApplicablePercent>${b.rate}</ram:RateApplicablePercent>
+      </ram:ApplicableTradeTax>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100" xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100" xmlns:qdt="urn:un:unece:uncefact:data:standard:QualifiedDataType:100" xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">
+  <rsm:ExchangedDocumentContext>
+    ${isXRechnung ? `<ram:BusinessProcessSpecifiedDocumentContextParameter><ram:ID>${PEPPOL_PROFILE_ID}</ram:ID></ram:BusinessProcessSpecifiedDocumentContextParameter>` : ''}
+    <ram:GuidelineSpecifiedDocumentContextParameter><ram:ID>${isXRechnung ? XRECHNUNG_CUSTOMIZATION_ID : EN16931_GUIDELINE_ID}</ram:ID></ram:GuidelineSpecifiedDocumentContextParameter>
+  </rsm:ExchangedDocumentContext>
+  <rsm:ExchangedDocument>
+    <ram:ID>${escapeXml(data.invoice_number)}</ram:ID>
+    <ram:TypeCode>${isCreditDocument(data) ? '381' : '380'}</ram:TypeCode>
+    <ram:IssueDateTime><udt:DateTimeString format="102">${ciiDate(data.issue_date)}</udt:DateTimeString></ram:IssueDateTime>
+    ${data.notes ? `<ram:IncludedNote><ram:Content>${escapeXml(data.notes)}</ram:Content></ram:IncludedNote>` : ''}
+  </rsm:ExchangedDocument>
+  <rsm:SupplyChainTradeTransaction>${lines}
+    <ram:ApplicableHeaderTradeAgreement>
+      ${customer.buyer_reference ? `<ram:BuyerReference>${escapeXml(customer.buyer_reference)}</ram:BuyerReference>` : ''}
+      <ram:SellerTradeParty>
+        <ram:Name>${escapeXml(sellerName)}</ram:Name>
+        <ram:DefinedTradeContact>
+          <ram:PersonName>${escapeXml(sellerName)}</ram:PersonName>
+          <ram:TelephoneUniversalCommunication><ram:CompleteNumber>${escapeXml(organization.phone)}</ram:CompleteNumber></ram:TelephoneUniversalCommunication>
+          <ram:EmailURIUniversalCommunication><ram:URIID>${escapeXml(organization.email)}</ram:URIID></ram:EmailURIUniversalCommunication>
+        </ram:DefinedTradeContact>
+        ${ciiAddress(parseAddress(organization.address, organization.country))}
+        <ram:URIUniversalCommunication><ram:URIID schemeID="EM">${escapeXml(organization.email)}</ram:URIID></ram:URIUniversalCommunication>
+        <ram:SpecifiedTaxRegistration><ram:ID schemeID="VA">${escapeXml(organization.ust_idnr)}</ram:ID></ram:SpecifiedTaxRegistration>
+      </ram:SellerTradeParty>
+      <ram:BuyerTradeParty>
+        <ram:Name>${escapeXml(customer.name)}</ram:Name>
+        ${ciiAddress(parseAddress(customer.address, customer.country || organization.country))}
+        ${customer.email ? `<ram:URIUniversalCommunication><ram:URIID schemeID="EM">${escapeXml(customer.email)}</ram:URIID></ram:URIUniversalCommunication>` : ''}
+        ${customer.vat_id ? `<ram:SpecifiedTaxRegistration><ram:ID schemeID="VA">${escapeXml(customer.vat_id)}</ram:ID></ram:SpecifiedTaxRegistration>` : ''}
+      </ram:BuyerTradeParty>
+    </ram:ApplicableHeaderTradeAgreement>
+    <ram:ApplicableHeaderTradeDelivery/>
+    <ram:ApplicableHeaderTradeSettlement>
+      <ram:PaymentReference>${escapeXml(data.invoice_number)}</ram:PaymentReference>
+      <ram:InvoiceCurrencyCode>${CURRENCY}</ram:InvoiceCurrencyCode>
+      ${organization.iban ? `<ram:SpecifiedTradeSettlementPaymentMeans>
+        <ram:TypeCode>58</ram:TypeCode>
+        <ram:PayeePartyCreditorFinancialAccount><ram:IBANID>${escapeXml(organization.iban.replace(/\s/g, ''))}</ram:IBANID></ram:PayeePartyCreditorFinancialAccount>
+        ${organization.bic ? `<ram:PayeeSpecifiedCreditorFinancialInstitution><ram:BICID>${escapeXml(organization.bic)}</ram:BICID></ram:PayeeSpecifiedCreditorFinancialInstitution>` : ''}
+      </ram:SpecifiedTradeSettlementPaymentMeans>` : ''}${taxes}
+      ${totals.breakdown.filter(b => b.documentDiscount > 0).map(b => allowance(b.documentDiscount, roundMoney(b.taxableAmount + b.documentDiscount), undefined, b)).join('\n      ')}
+      ${isCreditDocument(data) ? '' : `<ram:SpecifiedTradePaymentTerms>
+        <ram:Description>Zahlbar bis ${formatEuropeanDate(data.due_date)}</ram:Description>
+        <ram:DueDateDateTime><udt:DateTimeString format="102">${ciiDate(data.due_date)}</udt:DateTimeString></ram:DueDateDateTime>
+      </ram:SpecifiedTradePaymentTerms>`}
+      <ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+        <ram:LineTotalAmount>${amount(totals.lineTotal)}</ram:LineTotalAmount>
+        ${totals.allowanceTotal > 0 ? `<ram:AllowanceTotalAmount>${amount(totals.allowanceTotal)}</ram:AllowanceTotalAmount>` : ''}
+        <ram:TaxBasisTotalAmount>${amount(totals.taxExclusive)}</ram:TaxBasisTotalAmount>
+        <ram:TaxTotalAmount currencyID="${CURRENCY}">${amount(totals.taxTotal)}</ram:TaxTotalAmount>
+        <ram:GrandTotalAmount>${amount(totals.grandTotal)}</ram:GrandTotalAmount>
+        <ram:TotalPrepaidAmount>${amount(totals.prepaid)}</ram:TotalPrepaidAmount>
+        <ram:DuePayableAmount>${amount(totals.payable)}</ram:DuePayableAmount>
+      </ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+      ${isCreditDocument(data) && data.original_invoice ? `<ram:InvoiceReferencedDocument>
+        <ram:IssuerAssignedID>${escapeXml(data.original_invoice.invoice_number)}</ram:IssuerAssignedID>
+        <ram:FormattedIssueDateTime><qdt:DateTimeString format="102">${ciiDate(data.original_invoice.issue_date)}</qdt:DateTimeString></ram:FormattedIssueDateTime>
+      </ram:InvoiceReferencedDocument>` : ''}
+    </ram:ApplicableHeaderTradeSettlement>
+  </rsm:SupplyChainTradeTransaction>
+</rsm:CrossIndustryInvoice>
+`;
+};
+
+// XMP metadata identifying the PDF as PDF/A-3B with an embedded Factur-X EN 16931 invoice.
+const buildFacturXMetadata = (data: EInvoiceData) => `<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+      <pdfaid:part>3</pdfaid:part>
+      <pdfaid:conformance>B</pdfaid:conformance>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(data.invoice_number)}</rdf:li></rdf:Alt></dc:title>
+      <dc:creator><rdf:Seq><rdf:li>${escapeXml(data.organizations.company_name || data.organizations.name)}</rdf:li></rdf:Seq></dc:creator>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:fx="urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#">
+      <fx:DocumentType>INVOICE</fx:DocumentType>
+      <fx:DocumentFileName>factur-x.xml</fx:DocumentFileName>
+      <fx:Version>1.0</fx:Version>
+      <fx:ConformanceLevel>EN 16931</fx:ConformanceLevel>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/" xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#" xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+      <pdfaExtension:schemas>
+        <rdf:Bag>
+          <rdf:li rdf:parseType="Resource">
+            <pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>
+            <pdfaSchema:namespaceURI>urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#</pdfaSchema:namespaceURI>
+            <pdfaSchema:prefix>fx</pdfaSchema:prefix>
+            <pdfaSchema:property>
+              <rdf:Seq>
+                <rdf:li rdf:parseType="Resource"><pdfaProperty:name>DocumentFileName</pdfaProperty:name><pdfaProperty:valueType>Text</pdfaProperty:valueType><pdfaProperty:category>external</pdfaProperty:category><pdfaProperty:description>The name of the embedded XML document</pdfaProperty:description></rdf:li>
+                <rdf:li rdf:parseType="Resource"><pdfaProperty:name>DocumentType</pdfaProperty:name><pdfaProperty:valueType>Text</pdfaProperty:valueType><pdfaProperty:category>external</pdfaProperty:category><pdfaProperty:description>The type of the hybrid document</pdfaProperty:description></rdf:li>
+                <rdf:li rdf:parseType="Resource"><pdfaProperty:name>Version</pdfaProperty:name><pdfaProperty:valueType>Text</pdfaProperty:valueType><pdfaProperty:category>external</pdfaProperty:category><pdfaProperty:description>The version of the XML schema</pdfaProperty:description></rdf:li>
+                <rdf:li rdf:parseType="Resource"><pdfaProperty:name>ConformanceLevel</pdfaProperty:name><pdfaProperty:valueType>Text</pdfaProperty:valueType><pdfaProperty:category>external</pdfaProperty:category><pdfaProperty:description>The conformance level of the embedded data</pdfaProperty:description></rdf:li>
+              </rdf:Seq>
+            </pdfaSchema:property>
+          </rdf:li>
+        </rdf:Bag>
+      </pdfaExtension:schemas>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+/**
+ * Creates a ZUGFeRD/Factur-X hybrid PDF by embedding the CII XML into the regular invoice PDF.
+ * Note: jsPDF does not embed its standard fonts, so strict PDF/A-3 validators may still flag the file;
+ * the embedded XML itself is what receiving systems process.
+ * @param data The validated invoice data.
+ * @param language The language of the visual PDF.
+ * @returns The hybrid PDF.
+ */
+const buildZugferdPdf = async (data: EInvoiceData, language: 'de' | 'al'): Promise<Blob> => {
+  const visualPdf = await generateDocumentPDF(data.id, 'invoice', language, 'blob');
+  if (!visualPdf) {
+    throw new Error("Could not generate the invoice PDF.");
+  }
+
+  const encoder = new TextEncoder();
+  const pdfDoc = await PDFDocument.load(await visualPdf.arrayBuffer());
+  const now = new Date();
+
+  await pdfDoc.attach(encoder.encode(buildCiiXml(data, 'zugferd')), 'factur-x.xml', {
+    mimeType: 'text/xml',
+    description: 'Factur-X/ZUGFeRD invoice data',
+    creationDate: now,
+    modificationDate: now,
+    afRelationship: AFRelationship.Alternative,
+  });
+
+  const metadata = pdfDoc.context.stream(encoder.encode(buildFacturXMetadata(data)), { Type: 'Metadata', Subtype: 'XML' });
+  pdfDoc.catalog.set(PDFName.of('Metadata'), pdfDoc.context.register(metadata));
+  pdfDoc.setTitle(data.invoice_number);
+  pdfDoc.setProducer('Zogu Solutions');
+
+  const bytes = await pdfDoc.save({ useObjectStreams: false });
+  return new Blob([bytes as BlobPart], { type: 'application/pdf' });
+};
+
+/**
+ * Validates an invoice and downloads it in the requested e-invoice format.
+ * @param invoiceId The ID of the invoice, credit note or cancellation.
+ * @param eInvoiceFormat The format to produce.
+ * @param language The language of the visual PDF (ZUGFeRD only).
+ * @returns The validation issues; nothing is downloaded if there are any.
+ */
+export const exportEInvoice = async (invoiceId: number, eInvoiceFormat: EInvoiceFormat, language: 'de' | 'al'): Promise<EInvoiceIssue[]> => {
+  const data = await fetchEInvoiceData(invoiceId);
+  const issues = validateEInvoice(data, eInvoiceFormat);
+  if (issues.length > 0) return issues;
+
+  const fileName = data.invoice_number.replace(/[^\w.-]/g, '_');
+  switch (eInvoiceFormat) {
+    case 'xrechnung-ubl':
+      downloadBlob(new Blob([buildUblXml(data)], { type: 'application/xml' }), `${fileName}_xrechnung_ubl.xml`);
+      break;
+    case 'xrechnung-cii':
+      downloadBlob(new Blob([buildCiiXml(data, eInvoiceFormat)], { type: 'application/xml' }), `${fileName}_xrechnung_cii.xml`);
+      break;
+    case 'zugferd':
+      downloadBlob(await buildZugferdPdf(data, language), `${fileName}_zugferd.pdf`);
+      break;
+  }
+  return [];
+};
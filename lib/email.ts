@@ -0,0 +1,317 @@
+import { supabase } from '../services/supabase';
+import { DocumentEmail, EmailDocumentType, EmailTemplate, MailTransportType, Profile } from '../types';
+import { DEFAULT_EMAIL_TEMPLATES } from '../constants';
+import generateDocumentPDF from './pdfGenerator';
+import { downloadBlob } from './export';
+import { formatEuropeanDate } from './formatting';
+import { syncInvoiceStock } from './stock';
+
+type Language = 'de' | 'al';
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Blob;
+}
+
+export interface MailMessage {
+  fromName: string;
+  replyTo: string | null;
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  attachments: MailAttachment[];
+}
+
+export interface MailTransport {
+  delivers: boolean; // False if the mail is only saved, so it must not be logged as sent
+  send: (message: MailMessage) => Promise<void>;
+}
+
+export interface SendDocumentEmailOptions {
+  documentType: EmailDocumentType;
+  documentId: number;
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  language: Language;
+}
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const blobToBase64 = async (blob: Blob) => bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+const textToBase64 = (text: string) => bytesToBase64(new TextEncoder().encode(text));
+// MIME bodies are limited to 76 characters per line.
+const wrapBase64 = (base64: string) => base64.replace(/.{1,76}/g, '$&\r\n').trimEnd();
+// RFC 2047 encoded word, so that umlauts survive in headers.
+const encodeHeader = (value: string) => /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${textToBase64(value)}?=`;
+
+/**
+ * Sends mails through the `send-email` Supabase Edge Function (supabase/functions/send-email), which
+ * holds the SMTP credentials.
+ */
+export const smtpTransport: MailTransport = {
+  delivers: true,
+  send: async (message) => {
+    const attachments = await Promise.all(message.attachments.map(async a => ({
+      filename: a.filename,
+      contentType: a.contentType,
+      content: await blobToBase64(a.content),
+    })));
+    const { error } = await supabase.functions.invoke('send-email', {
+      body: { ...message, attachments },
+    });
+    if (error) {
+      // The function answers with the reason, e.g. a rejected recipient or missing SMTP settings.
+      const details = await error.context?.json?.().catch(() => null);
+      throw new Error(details?.error || error.message || 'The send-email Edge Function is not available.');
+    }
+  },
+};
+
+/**
+ * Stand-in for testing without a mail server: writes the mail as an .eml file that can be opened in
+ * any mail client or dropped into a mailcatcher.
+ */
+export const fileTransport: MailTransport = {
+  delivers: false,
+  send: async (message) => {
+    const boundary = `----=_Part_${Date.now().toString(36)}`;
+    const headers = [
+      `From: ${encodeHeader(message.fromName)}${message.replyTo ? ` <${message.replyTo}>` : ''}`,
+      `To: ${message.to.join(', ')}`,
+      ...(message.cc.length > 0 ? [`Cc: ${message.cc.join(', ')}`] : []),
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    ];
+    const parts = [
+      ['Content-Type: text/plain; charset=UTF-8', 'Content-Transfer-Encoding: base64', '', wrapBase64(textToBase64(message.body))].join('\r\n'),
+      ...await Promise.all(message.attachments.map(async a => [
+        `Content-Type: ${a.contentType}; name="${a.filename}"`,
+        'Content-Transfer-Encoding: base64',
+        `Content-Disposition: attachment; filename="${a.filename}"`,
+        '',
+        wrapBase64(await blobToBase64(a.content)),
+      ].join('\r\n'))),
+    ];
+    const eml = `${headers.join('\r\n')}\r\n\r\n${parts.map(p => `--${boundary}\r\n${p}\r\n`).join('')}--${boundary}--\r\n`;
+    downloadBlob(new Blob([eml], { type: 'message/rfc822' }), `${message.subject.replace(/[^\w.-]+/g, '_')}.eml`);
+  },
+};
+
+/**
+ * Returns the mail transport configured for an organization.
+ * @param type The configured transport; SMTP if not set.
+ * @returns The transport.
+ */
+export const getMailTransport = (type: MailTransportType | null | undefined): MailTransport =>
+  type === 'file' ? fileTransport : smtpTransport;
+
+/**
+ * Fetches the mail transport configured for an organization.
+ * @param orgId The UUID of the organization.
+ * @returns The transport type; SMTP if not set.
+ */
+export const getOrganizationMailTransport = async (orgId: string): Promise<MailTransportType> => {
+  const { data, error } = await supabase.from('organizations').select('mail_transport').eq('id', orgId).single();
+  if (error) throw new Error(error.message);
+  return data?.mail_transport || 'smtp';
+};
+
+/**
+ * Saves the mail transport of an organization.
+ * @param orgId The UUID of the organization.
+ * @param transport The transport type.
+ */
+export const saveOrganizationMailTransport = async (orgId: string, transport: MailTransportType) => {
+  const { error } = await supabase.from('organizations').update({ mail_transport: transport }).eq('id', orgId);
+  if (error) throw new Error(error.message);
+};
+
+/**
+ * Replaces placeholders like {document_number} in a template. Unknown placeholders are kept.
+ * @param template The template text.
+ * @param values The placeholder values by name.
+ * @returns The filled text.
+ */
+export const fillPlaceholders = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (match, name) => values[name] ?? match);
+
+/**
+ * Fetches the email templates of an organization, falling back to the defaults per document type.
+ * @param orgId The UUID of the organization.
+ * @returns One template per document type.
+ */
+export const getEmailTemplates = async (orgId: string): Promise<EmailTemplate[]> => {
+  const { data, error } = await supabase
+    .from('email_templates')
+    .select('*')
+    .eq('org_id', orgId);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return DEFAULT_EMAIL_TEMPLATES.map(defaults =>
+    (data || []).find(t => t.document_type === defaults.document_type) || { ...defaults, org_id: orgId }
+  );
+};
+
+/**
+ * Replaces the email templates of an organization.
+ * @param orgId The UUID of the organization.
+ * @param templates The templates, one per document type.
+ */
+export const saveEmailTemplates = async (orgId: string, templates: Omit<EmailTemplate, 'org_id'>[]) => {
+  const { error: deleteError } = await supabase.from('email_templates').delete().eq('org_id', orgId);
+  if (deleteError) throw new Error(deleteError.message);
+
+  const { error } = await supabase.from('email_templates').insert(
+    templates.map(({ id, ...t }) => ({ ...t, org_id: orgId }))
+  );
+  if (error) throw new Error(error.message);
+};
+
+/**
+ * Fetches a document and fills the organization's template for it.
+ * @param documentType The type of the document.
+ * @param documentId The ID of the invoice or quote.
+ * @returns The customer's email address and the filled subject and body.
+ */
+export const prepareDocumentEmail = async (documentType: EmailDocumentType, documentId: number) => {
+  const table = documentType === 'invoice' ? 'invoices' : 'quotes';
+  const { data: document, error } = await supabase
+    .from(table)
+    .select('*, customers:customers!left(name, email), organizations:organizations!left(name, company_name)')
+    .eq('id', documentId)
+    .single();
+
+  if (error || !document) {
+    throw new Error(error?.message || `Failed to load ${documentType}.`);
+  }
+
+  const templates = await getEmailTemplates(document.org_id);
+  const template = templates.find(t => t.document_type === documentType)!;
+  const values: Record<string, string> = {
+    customer_name: document.customers?.name || '',
+    document_number: documentType === 'invoice' ? document.invoice_number : document.quote_number,
+    issue_date: formatEuropeanDate(document.issue_date),
+    due_date: formatEuropeanDate(documentType === 'invoice' ? document.due_date : document.valid_until_date),
+    total_amount: `€${Number(document.total_amount).toFixed(2)}`,
+    company_name: document.organizations?.company_name || document.organizations?.name || '',
+  };
+
+  return {
+    to: document.customers?.email || '',
+    subject: fillPlaceholders(template.subject, values),
+    body: fillPlaceholders(template.body, values),
+  };
+};
+
+/**
+ * Emails an invoice or quote with its PDF attached, logs the delivery and marks a draft as sent.
+ * A mail that the transport only saves as a file was not delivered, so it is neither logged nor
+ * does it mark the document as sent.
+ * @param options The document, the recipients and the final subject and body.
+ * @param profile The profile of the user sending the document.
+ * @returns The log entry of the delivery, or null if the mail was only saved as a file.
+ */
+export const sendDocumentEmail = async (options: SendDocumentEmailOptions, profile: Profile): Promise<DocumentEmail | null> => {
+  const { documentType, documentId, to, cc, subject, body, language } = options;
+  if (to.length === 0) {
+    throw new Error("Please enter at least one recipient.");
+  }
+
+  const table = documentType === 'invoice' ? 'invoices' : 'quotes';
+  const { data: document, error } = await supabase
+    .from(table)
+    .select('*, organizations:organizations!left(name, company_name, email, mail_transport)')
+    .eq('id', documentId)
+    .single();
+
+  if (error || !document) {
+    throw new Error(error?.message || `Failed to load ${documentType}.`);
+  }
+
+  const pdf = await generateDocumentPDF(documentId, documentType, language, 'blob');
+  if (!pdf) {
+    throw new Error("Could not generate the PDF.");
+  }
+
+  const organization = document.organizations;
+  const documentNumber = documentType === 'invoice' ? document.invoice_number : document.quote_number;
+  const transportType: MailTransportType = organization?.mail_transport || 'smtp';
+  const transport = getMailTransport(transportType);
+
+  await transport.send({
+    fromName: organization?.company_name || organization?.name || '',
+    replyTo: organization?.email || null,
+    to,
+    cc,
+    subject,
+    body,
+    attachments: [{ filename: `${documentType === 'invoice' ? 'Rechnung' : 'Angebot'}_${documentNumber}.pdf`, contentType: 'application/pdf', content: pdf }],
+  });
+  if (!transport.delivers) return null;
+
+  const { data: logEntry, error: logError } = await supabase
+    .from('document_emails')
+    .insert({
+      user_id: profile.id,
+      org_id: document.org_id,
+      document_type: documentType,
+      document_id: documentId,
+      recipients: to,
+      cc,
+      subject,
+      transport: transportType,
+      sent_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (logError || !logEntry) {
+    throw new Error(logError?.message || "The email was sent, but could not be logged.");
+  }
+
+  if (document.status === 'draft') {
+    const sentFields = documentType === 'quote' ? { sent_at: new Date().toISOString() } : {};
+    const { error: statusError } = await supabase.from(table).update({ status: 'sent', ...sentFields }).eq('id', documentId);
+    if (statusError) throw new Error(statusError.message);
+    if (documentType === 'invoice') {
+      await syncInvoiceStock(documentId, profile.id);
+    }
+  }
+
+  return logEntry as DocumentEmail;
+};
+
+/**
+ * Fetches the delivery log of a document.
+ * @param documentType The type of the document.
+ * @param documentId The ID of the invoice or quote.
+ * @returns The sent emails, newest first.
+ */
+export const getDocumentEmails = async (documentType: EmailDocumentType, documentId: number): Promise<DocumentEmail[]> => {
+  const { data, error } = await supabase
+    .from('document_emails')
+    .select('*')
+    .eq('document_type', documentType)
+    .eq('document_id', documentId)
+    .order('sent_at', { ascending: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data || []) as DocumentEmail[];
+};
@@ -34,6 +34,23 @@ const jsonToCsv = (items: any[]): string => {
     return [headerString, ...rows].join('\r\n');
 };
 
+/**
+ * Triggers a browser download for an in-memory file.
+ * @param blob The file content.
+ * @param filename The desired name for the downloaded file.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
 /**
  * Triggers a browser download for a CSV file.
  * @param data The array of objects to convert to CSV.
@@ -46,14 +63,7 @@ export const downloadCsv = (data: any[], filename: string) => {
     }
     const csvData = jsonToCsv(data);
     const blob = new Blob([csvData], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', filename);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadBlob(blob, filename);
 };
 
 /**
@@ -0,0 +1,55 @@
+import QRCode from 'qrcode';
+
+export interface GiroCodePayment {
+  beneficiary: string;
+  iban: string;
+  bic?: string | null;
+  amount: number;
+  reference: string;
+}
+
+// Limits of the EPC069-12 data fields.
+const MAX_BENEFICIARY_LENGTH = 70;
+const MAX_REFERENCE_LENGTH = 140;
+const MAX_AMOUNT = 999999999.99;
+
+const normalizeAccount = (value: string) => value.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Builds the payload of an EPC QR code (GiroCode) for a SEPA credit transfer according to EPC069-12.
+ * @param payment The beneficiary, bank account, amount and remittance reference.
+ * @returns The payload, or null if the account or amount cannot be encoded.
+ */
+export const buildEpcPayload = (payment: GiroCodePayment): string | null => {
+  const iban = normalizeAccount(payment.iban || '');
+  const amount = Math.round(payment.amount * 100) / 100;
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{1,30}$/.test(iban) || !payment.beneficiary || amount < 0.01 || amount > MAX_AMOUNT) {
+    return null;
+  }
+
+  return [
+    'BCD',
+    '002', // Version 002 makes the BIC optional within the EEA
+    '1', // UTF-8
+    'SCT',
+    normalizeAccount(payment.bic || ''),
+    payment.beneficiary.trim().slice(0, MAX_BENEFICIARY_LENGTH),
+    iban,
+    `EUR${amount.toFixed(2)}`,
+    '', // Purpose code
+    '', // Structured creditor reference; the invoice number goes into the unstructured one
+    payment.reference.trim().slice(0, MAX_REFERENCE_LENGTH),
+  ].join('\n');
+};
+
+/**
+ * Renders an EPC QR code (GiroCode) as a PNG data URL.
+ * @param payment The beneficiary, bank account, amount and remittance reference.
+ * @returns The data URL, or null if the payment cannot be encoded.
+ */
+export const generateGiroCode = async (payment: GiroCodePayment): Promise<string | null> => {
+  const payload = buildEpcPayload(payment);
+  if (!payload) return null;
+  // EPC069-12 prescribes error correction level M.
+  return QRCode.toDataURL(payload, { errorCorrectionLevel: 'M', margin: 0, width: 300 });
+};
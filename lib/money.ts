@@ -0,0 +1,93 @@
+/**
+ * Exact money arithmetic. Amounts are stored and passed around as euros, but every calculation that
+ * rounds goes through integer cents, so the same inputs always round to the same cent.
+ */
+
+// Decimal places kept from inputs such as quantities and unit prices.
+const SCALE = 6;
+const UNITS_PER_CENT = BigInt(10 ** (SCALE - 2));
+const ONE = BigInt(10 ** SCALE);
+
+// Converts a value to an exact decimal with SCALE decimal places. Binary noise of floats
+// (e.g. 0.1 + 0.2) lies far below the sixth decimal, so it is rounded away here.
+const toUnits = (value: number | string | null | undefined): bigint => {
+  const number = Number(value);
+  if (!Number.isFinite(number)) return BigInt(0);
+  const [integer, fraction] = Math.abs(number).toFixed(SCALE).split('.');
+  const units = BigInt(integer + fraction);
+  return number < 0 ? -units : units;
+};
+
+// Divides by a positive integer, rounding halves away from zero (kaufmännisches Runden).
+const divideRounded = (dividend: bigint, divisor: bigint): bigint => {
+  const quotient = dividend / divisor;
+  const remainder = dividend % divisor;
+  const zero = BigInt(0);
+  if ((remainder < zero ? -remainder : remainder) * BigInt(2) < divisor) return quotient;
+  return dividend < zero ? quotient - BigInt(1) : quotient + BigInt(1);
+};
+
+/**
+ * Converts an amount in euros to integer cents, rounding halves away from zero.
+ * @param value The amount in euros.
+ * @returns The amount in cents.
+ */
+export const toCents = (value: number | string | null | undefined): number =>
+  Number(divideRounded(toUnits(value), UNITS_PER_CENT));
+
+/**
+ * Converts integer cents to euros.
+ * @param cents The amount in cents.
+ * @returns The amount in euros.
+ */
+export const fromCents = (cents: number): number => cents / 100;
+
+/**
+ * Rounds an amount to cents.
+ * @param value The amount in euros.
+ * @returns The rounded amount in euros.
+ */
+export const roundMoney = (value: number | string | null | undefined): number => fromCents(toCents(value));
+
+/**
+ * Adds up amounts exactly.
+ * @param values The amounts in euros.
+ * @returns The sum in euros, rounded to cents.
+ */
+export const sumMoney = (values: (number | string | null | undefined)[]): number =>
+  fromCents(values.reduce<number>((sum, value) => sum + toCents(value), 0));
+
+/**
+ * Multiplies a quantity by a unit price without floating-point errors.
+ * @param quantity The quantity, with up to six decimals.
+ * @param unitPrice The unit price in euros, with up to six decimals.
+ * @returns The product in cents.
+ */
+export const multiplyToCents = (quantity: number | string | null | undefined, unitPrice: number | string | null | undefined): number =>
+  Number(divideRounded(toUnits(quantity) * toUnits(unitPrice), ONE * UNITS_PER_CENT));
+
+/**
+ * Calculates a percentage of an amount, e.g. the VAT or a percentage discount.
+ * @param cents The amount in cents.
+ * @param percent The percentage, with up to six decimals.
+ * @returns The share in cents.
+ */
+export const percentOfCents = (cents: number, percent: number | string | null | undefined): number =>
+  Number(divideRounded(BigInt(cents) * toUnits(percent), ONE * BigInt(100)));
+
+/**
+ * Distributes an amount over weights in proportion to them. The rounding difference goes to the
+ * largest weight, so the parts always add up to the amount.
+ * @param cents The amount to distribute in cents.
+ * @param weights The weights in cents, e.g. line amounts.
+ * @returns The part of every weight in cents.
+ */
+export const allocateCents = (cents: number, weights: number[]): number[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) return weights.map(() => 0);
+
+  const parts = weights.map(weight => Number(divideRounded(BigInt(cents) * BigInt(weight), BigInt(totalWeight))));
+  const largest = weights.reduce((max, weight, index) => (weight > weights[max] ? index : max), 0);
+  parts[largest] += cents - parts.reduce((sum, part) => sum + part, 0);
+  return parts;
+};
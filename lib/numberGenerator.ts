@@ -1,25 +1,291 @@
 import { supabase } from '../services/supabase';
+import { NumberResetPolicy, NumberScheme, SequenceType } from '../types';
+import { DEFAULT_NUMBER_SCHEMES } from '../constants';
+import { format } from 'date-fns';
 
-export type SequenceType = 'customer' | 'quote' | 'invoice' | 'task' | 'product' | 'appointment' | 'expense' | 'visit';
+export type { SequenceType } from '../types';
+
+export const SEQUENCE_TYPES: SequenceType[] = ['customer', 'quote', 'invoice', 'credit_note', 'cancellation', 'task', 'product', 'appointment', 'expense', 'visit', 'purchase_order'];
+
+export interface NumberContext {
+    date: Date;
+    counter: number;
+    branchCode?: string | null;
+}
+
+export interface NumberDraw {
+    sequenceName: string;
+    pattern: string; // Every token except {NUMBER} is rendered
+    offset: number;
+}
+
+const MAX_NUMBER_LENGTH = 40;
+const TOKEN_PATTERN = /\{([A-Z]+)(?::(\d+))?\}/g;
+
+/**
+ * Returns the period a counter belongs to under a reset policy.
+ * @param policy The reset policy.
+ * @param date The date the number is issued on.
+ * @returns 'yyyy' or 'yyyy-MM', or '' if the counter never resets.
+ */
+export const getPeriodKey = (policy: NumberResetPolicy, date: Date): string => {
+    switch (policy) {
+        case 'yearly': return format(date, 'yyyy');
+        case 'monthly': return format(date, 'yyyy-MM');
+        default: return '';
+    }
+};
+
+/**
+ * Returns the name of the counter a number is drawn from. Periodic counters get the period as suffix,
+ * so the default schemes use the same counters as before schemes were configurable (e.g. 'invoice_2026').
+ * @param scheme The number scheme.
+ * @param date The date the number is issued on.
+ * @returns The sequence name passed to `get_next_sequence_value`.
+ */
+export const getSequenceName = (scheme: Pick<NumberScheme, 'counter_key' | 'reset_policy'>, date: Date): string => {
+    const period = getPeriodKey(scheme.reset_policy, date);
+    return period ? `${scheme.counter_key}_${period.replace('-', '_')}` : scheme.counter_key;
+};
+
+/**
+ * Renders a number pattern. Supported tokens are {YYYY}, {YY}, {MM}, {BRANCH} and {NUMBER}, where
+ * {NUMBER:4} pads the counter with zeros to four digits.
+ * @param pattern The pattern, e.g. 'RE-{YYYY}-{NUMBER:4}'.
+ * @param context The issue date, counter value and branch code.
+ * @returns The formatted number.
+ */
+export const formatDocumentNumber = (pattern: string, context: NumberContext): string =>
+    pattern.replace(TOKEN_PATTERN, (token, name: string, width?: string) => {
+        switch (name) {
+            case 'YYYY': return format(context.date, 'yyyy');
+            case 'YY': return format(context.date, 'yy');
+            case 'MM': return format(context.date, 'MM');
+            case 'BRANCH': return context.branchCode || '';
+            case 'NUMBER': return String(context.counter).padStart(Number(width) || 0, '0');
+            default: return token;
+        }
+    });
+
+/**
+ * Checks a number pattern. Periodic counters need the period in the number, otherwise numbers would repeat.
+ * @param pattern The pattern.
+ * @param policy The reset policy the pattern is used with.
+ * @returns An error message, or null if the pattern is valid.
+ */
+export const validateNumberPattern = (pattern: string, policy: NumberResetPolicy): string | null => {
+    const tokens = Array.from(pattern.matchAll(TOKEN_PATTERN), match => match[1]);
+    const unknown = tokens.find(token => !['YYYY', 'YY', 'MM', 'BRANCH', 'NUMBER'].includes(token));
+    const hasYear = tokens.includes('YYYY') || tokens.includes('YY');
+
+    if (unknown) return `Unknown token {${unknown}}.`;
+    if (tokens.filter(token => token === 'NUMBER').length !== 1) return 'The pattern must contain {NUMBER} exactly once.';
+    if (policy === 'yearly' && !hasYear) return 'A yearly counter needs {YYYY} or {YY} in the pattern.';
+    if (policy === 'monthly' && (!hasYear || !tokens.includes('MM'))) return 'A monthly counter needs the year and {MM} in the pattern.';
+    if (formatDocumentNumber(pattern, { date: new Date(), counter: 1, branchCode: 'XXXX' }).length > MAX_NUMBER_LENGTH) {
+        return `The number must not be longer than ${MAX_NUMBER_LENGTH} characters.`;
+    }
+    return null;
+};
 
 /**
- * Generates the next sequential number for a given document type.
- * This relies on a backend Supabase RPC function `get_next_sequence_value`
- * to ensure atomic, gap-less number generation.
+ * Returns the number scheme used for a sequence type until the organization configures its own.
+ * @param orgId The UUID of the organization.
+ * @param type The type of document sequence.
+ * @returns The default scheme.
+ */
+export const getDefaultNumberScheme = (orgId: string, type: SequenceType): NumberScheme => ({
+    org_id: orgId,
+    sequence_type: type,
+    ...DEFAULT_NUMBER_SCHEMES[type],
+    start_value: 1,
+    counter_key: type,
+    start_period: null,
+});
+
+// The start value shifts the counter only within the period the scheme was restarted in.
+const getStartOffset = (scheme: NumberScheme, date: Date): number =>
+    scheme.start_period === getPeriodKey(scheme.reset_policy, date) ? Math.max(0, (Number(scheme.start_value) || 1) - 1) : 0;
+
+// Start values are whole numbers from 1.
+const normalizeStartValue = (value: number | string | null | undefined): number => Math.max(1, Math.floor(Number(value) || 1));
+
+/**
+ * Fetches the counter value the next number of a scheme will get, without drawing a number.
+ * @param orgId The UUID of the organization.
+ * @param scheme The saved number scheme.
+ * @param date The date the number would be issued on.
+ * @returns The next counter value, including the start value.
+ */
+export const getNextCounter = async (orgId: string, scheme: NumberScheme, date: Date = new Date()): Promise<number> => {
+    const { data, error } = await supabase.rpc('get_current_sequence_value', {
+        p_sequence_name: getSequenceName(scheme, date),
+        p_organization_id: orgId
+    });
+
+    if (error) {
+        throw new Error(`Could not read the counter of ${scheme.sequence_type}: ${error.message}`);
+    }
+    return (Number(data) || 0) + 1 + getStartOffset(scheme, date);
+};
+
+/**
+ * Fetches the next counter values of all saved schemes of an organization.
+ * @param orgId The UUID of the organization.
+ * @param schemes The saved schemes by sequence type.
+ * @returns The next counter value by sequence type.
+ */
+export const getNextCounters = async (orgId: string, schemes: Record<SequenceType, NumberScheme>): Promise<Record<SequenceType, number>> => {
+    const date = new Date();
+    const counters = await Promise.all(SEQUENCE_TYPES.map(type => getNextCounter(orgId, schemes[type], date)));
+    return Object.fromEntries(SEQUENCE_TYPES.map((type, index) => [type, counters[index]])) as Record<SequenceType, number>;
+};
+
+/**
+ * Renders the number a scheme will issue next, for settings. An edited start value restarts the
+ * counter once saved; otherwise the scheme continues the counter of the saved scheme.
+ * @param scheme The number scheme, possibly edited.
+ * @param saved The scheme as it is saved.
+ * @param nextCounter The next counter value of the saved scheme.
+ * @param branchCode The branch code of the organization.
+ * @returns The next number.
+ */
+export const previewNumber = (scheme: NumberScheme, saved: NumberScheme, nextCounter: number, branchCode?: string | null): string => {
+    const startValue = normalizeStartValue(scheme.start_value);
+    const counter = startValue !== Number(saved.start_value) ? startValue : nextCounter;
+    return formatDocumentNumber(scheme.pattern, { date: new Date(), counter, branchCode });
+};
+
+/**
+ * Fetches the number schemes of an organization, falling back to the defaults per sequence type.
+ * @param orgId The UUID of the organization.
+ * @returns The schemes by sequence type.
+ */
+export const getNumberSchemes = async (orgId: string): Promise<Record<SequenceType, NumberScheme>> => {
+    const { data, error } = await supabase
+        .from('number_schemes')
+        .select('*')
+        .eq('org_id', orgId);
+
+    if (error) {
+        throw new Error(error.message);
+    }
+
+    const schemes = Object.fromEntries(SEQUENCE_TYPES.map(type => [type, getDefaultNumberScheme(orgId, type)])) as Record<SequenceType, NumberScheme>;
+    for (const scheme of (data || []) as NumberScheme[]) {
+        schemes[scheme.sequence_type] = scheme;
+    }
+    return schemes;
+};
+
+/**
+ * Saves the changed number schemes of an organization. A changed start value moves the scheme to a
+ * fresh counter, so the next number of the current period is exactly the start value. A changed
+ * reset policy also moves it to a fresh counter, which continues at the next number of the old one,
+ * so no number is issued twice.
+ * @param orgId The UUID of the organization.
+ * @param schemes The edited schemes.
+ * @param previous The schemes as they were loaded.
+ */
+export const saveNumberSchemes = async (orgId: string, schemes: NumberScheme[], previous: Record<SequenceType, NumberScheme>) => {
+    const now = new Date();
+    const rows: NumberScheme[] = [];
+
+    for (const scheme of schemes) {
+        const pattern = scheme.pattern.trim();
+        const patternError = validateNumberPattern(pattern, scheme.reset_policy);
+        if (patternError) {
+            throw new Error(`${scheme.sequence_type}: ${patternError}`);
+        }
+
+        const old = previous[scheme.sequence_type];
+        const requestedStartValue = normalizeStartValue(scheme.start_value);
+        const startChanged = requestedStartValue !== Number(old.start_value);
+        const policyChanged = scheme.reset_policy !== old.reset_policy;
+        if (pattern === old.pattern && !startChanged && !policyChanged) continue;
+
+        const startValue = !startChanged && policyChanged ? await getNextCounter(orgId, old, now) : requestedStartValue;
+        rows.push({
+            ...scheme,
+            org_id: orgId,
+            pattern,
+            start_value: startValue,
+            counter_key: startChanged || policyChanged ? `${scheme.sequence_type}_${now.getTime().toString(36)}` : old.counter_key,
+            start_period: startChanged || policyChanged ? getPeriodKey(scheme.reset_policy, now) : old.start_period,
+        });
+    }
+
+    if (rows.length === 0) return;
+    const { error } = await supabase.from('number_schemes').upsert(rows, { onConflict: 'org_id,sequence_type' });
+    if (error) throw new Error(error.message);
+};
+
+/**
+ * Saves the branch code of an organization used by the {BRANCH} token.
+ * @param orgId The UUID of the organization.
+ * @param branchCode The branch code.
+ */
+export const saveBranchCode = async (orgId: string, branchCode: string) => {
+    const { error } = await supabase.from('organizations').update({ branch_code: branchCode.trim() || null }).eq('id', orgId);
+    if (error) throw new Error(error.message);
+};
+
+// Loads the number scheme of a document type and, if its pattern needs it, the branch code.
+const loadNumberScheme = async (orgId: string, type: SequenceType): Promise<{ scheme: NumberScheme; branchCode: string | null }> => {
+    const { data: schemeData, error: schemeError } = await supabase
+        .from('number_schemes')
+        .select('*')
+        .eq('org_id', orgId)
+        .eq('sequence_type', type)
+        .maybeSingle();
+
+    if (schemeError) {
+        throw new Error(`Could not load the number scheme for ${type}: ${schemeError.message}`);
+    }
+    const scheme = (schemeData as NumberScheme | null) || getDefaultNumberScheme(orgId, type);
+
+    let branchCode: string | null = null;
+    if (scheme.pattern.includes('{BRANCH}')) {
+        const { data: organization } = await supabase.from('organizations').select('branch_code').eq('id', orgId).single();
+        branchCode = organization?.branch_code || null;
+    }
+    return { scheme, branchCode };
+};
+
+/**
+ * Prepares the next number of a document type for a database function that draws the number and
+ * stores it in the same transaction, e.g. `create_collective_invoice` (supabase_billing_run.sql).
+ * @param orgId The UUID of the organization.
+ * @param type The type of document sequence.
+ * @param date The date the number is issued on.
+ * @returns The counter to draw from, the offset of the start value, and the pattern with every token
+ * except {NUMBER} rendered.
+ */
+export const getNumberDraw = async (orgId: string, type: SequenceType, date: Date = new Date()): Promise<NumberDraw> => {
+    const { scheme, branchCode } = await loadNumberScheme(orgId, type);
+    return {
+        sequenceName: getSequenceName(scheme, date),
+        pattern: scheme.pattern.replace(TOKEN_PATTERN, token =>
+            token.startsWith('{NUMBER') ? token : formatDocumentNumber(token, { date, counter: 0, branchCode })),
+        offset: getStartOffset(scheme, date),
+    };
+};
+
+/**
+ * Generates the next sequential number for a given document type according to the organization's
+ * number scheme. This relies on a backend Supabase RPC function `get_next_sequence_value`
+ * (supabase_number_sequences.sql) to ensure atomic, gap-less number generation.
  * @param orgId The UUID of the organization.
  * @param type The type of document sequence.
  * @returns A formatted number string (e.g., CUST-000001).
  */
 export const generateNextNumber = async (orgId: string, type: SequenceType): Promise<string> => {
-    const year = new Date().getFullYear();
-    let sequenceName: string = type;
-    if (['quote', 'invoice', 'task', 'appointment', 'expense', 'visit'].includes(type)) {
-        sequenceName = `${type}_${year}`;
-    }
+    const date = new Date();
+    const { scheme, branchCode } = await loadNumberScheme(orgId, type);
 
     // FIX: Use the correct parameter names that match the SQL function definition.
     const { data, error } = await supabase.rpc('get_next_sequence_value', {
-        p_sequence_name: sequenceName,
+        p_sequence_name: getSequenceName(scheme, date),
         p_organization_id: orgId
     });
 
@@ -36,15 +302,5 @@ export const generateNextNumber = async (orgId: string, type: SequenceType): Pro
          throw new Error(`Could not generate the next number for ${type}. The database function returned an unexpected value.`);
     }
 
-    switch (type) {
-        case 'customer': return `CUST-${String(nextVal).padStart(6, '0')}`;
-        case 'quote': return `QUO-${year}-${String(nextVal).padStart(4, '0')}`;
-        case 'invoice': return `INV-${year}-${String(nextVal).padStart(4, '0')}`;
-        case 'task': return `TASK-${year}-${String(nextVal).padStart(4, '0')}`;
-        case 'product': return `PROD-${String(nextVal).padStart(5, '0')}`;
-        case 'appointment': return `APP-${year}-${String(nextVal).padStart(4, '0')}`;
-        case 'expense': return `EXP-${year}-${String(nextVal).padStart(4, '0')}`;
-        case 'visit': return `VIS-${year}-${String(nextVal).padStart(4, '0')}`;
-        default: throw new Error('Unknown sequence type');
-    }
-};
\ No newline at end of file
+    return formatDocumentNumber(scheme.pattern, { date, counter: nextVal + getStartOffset(scheme, date), branchCode });
+};
@@ -0,0 +1,130 @@
+import { supabase } from '../services/supabase';
+import { Invoice, InvoiceStatus, Payment, Profile } from '../types';
+import { roundMoney, sumMoney } from './money';
+
+type PaymentPayload = Pick<Payment, 'invoice_id' | 'payment_date' | 'amount' | 'method' | 'reference'>;
+
+// Amounts are stored with two decimals, so anything below half a cent counts as settled.
+const EPSILON = 0.005;
+
+/**
+ * Sums up all payments recorded against an invoice.
+ * @param payments The payments of a single invoice.
+ * @returns The total amount received.
+ */
+export const getPaidAmount = (payments: Pick<Payment, 'amount'>[] | null | undefined): number => {
+  return sumMoney((payments || []).map(p => p.amount));
+};
+
+/**
+ * Sums up all issued (non-draft) credit notes and cancellation invoices of an invoice.
+ * @param credits The credit documents referencing the invoice.
+ * @returns The total amount credited.
+ */
+export const getCreditedAmount = (credits: Pick<Invoice, 'total_amount' | 'status'>[] | null | undefined): number => {
+  return sumMoney((credits || []).filter(c => c.status !== 'draft').map(c => c.total_amount));
+};
+
+/**
+ * Calculates the amount that is still owed on an invoice.
+ * @param invoice The invoice (only `total_amount` is used).
+ * @param payments The payments recorded against the invoice.
+ * @param credits The credit notes and cancellation invoices referencing the invoice.
+ * @returns The open balance, never below zero.
+ */
+export const getOpenBalance = (
+  invoice: Pick<Invoice, 'total_amount'>,
+  payments: Pick<Payment, 'amount'>[] | null | undefined,
+  credits?: Pick<Invoice, 'total_amount' | 'status'>[] | null
+): number => {
+  const open = roundMoney((invoice.total_amount || 0) - getCreditedAmount(credits) - getPaidAmount(payments));
+  return open > EPSILON ? open : 0;
+};
+
+/**
+ * Derives the invoice status from its payment ledger and credit notes.
+ * Drafts stay drafts; a fully credited invoice becomes 'cancelled', a fully paid one 'paid' and
+ * a partly paid one 'partially_paid' (unless it is already overdue, which the dunning run decides).
+ * Without any payments the manually set status ('sent' or 'overdue') is kept, and so is 'paid':
+ * invoices marked as paid before the payment ledger existed have no payments.
+ * @param invoice The invoice with its current status and total.
+ * @param paidAmount The total amount received so far.
+ * @param creditedAmount The total amount of issued credit notes and cancellations.
+ * @returns The status the invoice should have.
+ */
+export const deriveInvoiceStatus = (invoice: Pick<Invoice, 'status' | 'total_amount'>, paidAmount: number, creditedAmount: number = 0): InvoiceStatus => {
+  if (invoice.status === 'draft') return 'draft';
+  const total = invoice.total_amount || 0;
+  if (creditedAmount > EPSILON && creditedAmount >= total - EPSILON) return 'cancelled';
+  if (paidAmount > EPSILON && paidAmount >= total - creditedAmount - EPSILON) return 'paid';
+  if (paidAmount > EPSILON) return invoice.status === 'overdue' ? 'overdue' : 'partially_paid';
+  return ['partially_paid', 'cancelled'].includes(invoice.status) ? 'sent' : invoice.status;
+};
+
+/**
+ * Re-reads the payment ledger and credit notes of an invoice and stores the derived status.
+ * @param invoiceId The ID of the invoice to update.
+ * @returns The new status of the invoice.
+ */
+export const syncInvoiceStatus = async (invoiceId: number): Promise<InvoiceStatus> => {
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select('id, status, total_amount, document_type, payments:payments!left(amount), credit_notes:invoices!original_invoice_id(total_amount, status)')
+    .eq('id', invoiceId)
+    .single();
+
+  if (error || !invoice) {
+    throw new Error(error?.message || 'Invoice not found.');
+  }
+
+  // Credit notes and cancellation invoices are never paid themselves.
+  if (invoice.document_type !== 'invoice') return invoice.status;
+
+  const newStatus = deriveInvoiceStatus(invoice, getPaidAmount(invoice.payments), getCreditedAmount(invoice.credit_notes));
+  if (newStatus !== invoice.status) {
+    const { error: updateError } = await supabase.from('invoices').update({ status: newStatus }).eq('id', invoiceId);
+    if (updateError) throw new Error(updateError.message);
+  }
+  return newStatus;
+};
+
+/**
+ * Records a payment against an invoice and updates the invoice status accordingly.
+ * @param payment The payment details.
+ * @param profile The profile of the user recording the payment.
+ * @returns The saved payment.
+ */
+export const recordPayment = async (payment: PaymentPayload, profile: Profile): Promise<Payment> => {
+  if (!profile.org_id) {
+    throw new Error("User is not associated with an organization.");
+  }
+  if (!payment.amount || payment.amount <= 0) {
+    throw new Error("The payment amount must be greater than zero.");
+  }
+
+  const { data, error } = await supabase
+    .from('payments')
+    .insert({ ...payment, user_id: profile.id, org_id: profile.org_id })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to record payment.");
+  }
+
+  await syncInvoiceStatus(payment.invoice_id);
+  return data as Payment;
+};
+
+/**
+ * Deletes a payment and updates the status of the invoice it belonged to. A 'paid' status is derived
+ * again from the remaining payments, since without payments it would otherwise be kept.
+ * @param payment The payment to delete.
+ */
+export const deletePayment = async (payment: Pick<Payment, 'id' | 'invoice_id'>): Promise<void> => {
+  const { error } = await supabase.from('payments').delete().eq('id', payment.id);
+  if (error) throw new Error(error.message);
+  const { error: resetError } = await supabase.from('invoices').update({ status: 'sent' }).eq('id', payment.invoice_id).eq('status', 'paid');
+  if (resetError) throw new Error(resetError.message);
+  await syncInvoiceStatus(payment.invoice_id);
+};
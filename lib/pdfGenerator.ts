@@ -1,9 +1,15 @@
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
 import { supabase } from "../services/supabase";
-import { Invoice, Quote, Organization, Customer, InvoiceItem, QuoteItem } from "../types";
+import { Invoice, Quote, Organization, Customer, InvoiceItem, QuoteItem, InvoiceReminder, Payment, DocumentLanguage, PdfLayout, PdfFooterColumn, PdfItemColumn, PublicQuote, PurchaseOrder, PurchaseOrderItem, Supplier } from "../types";
 import { translations } from "../constants";
 import { format } from 'date-fns';
+import { calculateDocumentTotals, formatDiscount } from './documentTotals';
+import { fromCents, multiplyToCents, percentOfCents, toCents } from './money';
+import { getTaxNote } from './taxEngine';
+import { getOpenBalance } from './payments';
+import { generateGiroCode } from './girocode';
+import { getDefaultPdfLayout, getPdfLayout, hexToRgb } from './pdfLayout';
 
 type DocumentData = (Invoice | Quote) & {
     organizations: Organization | null;
@@ -12,7 +18,28 @@ type DocumentData = (Invoice | Quote) & {
     quote_items?: QuoteItem[];
 };
 
-type Language = 'de' | 'al';
+type Language = DocumentLanguage;
+type PdfTextKey = Extract<keyof typeof translations['de'], `pdf_${string}`>;
+type PdfText = (key: PdfTextKey, values?: Record<string, string | number>) => string;
+
+// Page layout in mm: content ends above the footer and page number, continuation pages start
+// below the repeated header and the carried-over subtotal.
+const CONTENT_BOTTOM = 40;
+const CONTINUATION_TOP = 35;
+
+// Returns a lookup of the PDF texts of a language that fills in their {placeholders}.
+const getPdfText = (language: Language): PdfText => (key, values = {}) =>
+  Object.entries(values).reduce(
+    (text, [name, value]) => text.replace(`{${name}}`, String(value)),
+    translations[language]?.[key] || translations.de[key]
+  );
+
+// Starts a new page if a block of the given height does not fit above the footer.
+const ensureSpace = (doc: jsPDF, y: number, height: number): number => {
+  if (y + height <= doc.internal.pageSize.getHeight() - CONTENT_BOTTOM) return y;
+  doc.addPage();
+  return CONTINUATION_TOP;
+};
 
 // A helper function to fetch the data, since it's almost identical for invoices and quotes
 const fetchDocumentData = async (id: number, type: 'invoice' | 'quote'): Promise<DocumentData | null> => {
@@ -43,41 +70,49 @@ const fetchDocumentData = async (id: number, type: 'invoice' | 'quote'): Promise
     (data as any).quote_items = (data as any).quote_items || (data as any)[itemsTable];
   }
 
-  return data as DocumentData;
-};
-
-// Main function to generate the PDF
-const generateDocumentPDF = async (
-  documentId: number,
-  type: 'invoice' | 'quote',
-  language: Language,
-  action: 'download' | 'blob' = 'download'
-): Promise<Blob | void> => {
-  try {
-    const docData = await fetchDocumentData(documentId, type);
-    if (!docData || !docData.organizations || !docData.customers) {
-      alert("Missing data to generate PDF.");
-      return;
-    }
+  // Credit notes and cancellation invoices reference the invoice they correct.
+  if (data && type === 'invoice' && (data as any).original_invoice_id) {
+    const { data: original } = await supabase
+      .from('invoices')
+      .select('id, invoice_number, issue_date')
+      .eq('id', (data as any).original_invoice_id)
+      .single();
+    (data as any).original_invoice = original;
+  }
 
-    const t = translations[language];
-    const organization = docData.organizations;
-    const customer = docData.customers;
-    const items = type === 'invoice' ? docData.invoice_items : docData.quote_items;
+  // Payments and credits make up the open amount printed in the GiroCode of an invoice.
+  if (data && type === 'invoice') {
+    const { data: balance } = await supabase
+      .from('invoices')
+      .select('payments:payments!left(amount), credit_notes:invoices!original_invoice_id(total_amount, status)')
+      .eq('id', id)
+      .single();
+    (data as any).payments = balance?.payments || [];
+    (data as any).credit_notes = balance?.credit_notes || [];
+  }
 
-    if (!items) {
-      alert("Document has no items to generate PDF.");
-      return;
-    }
+  return data as DocumentData;
+};
 
-    const doc = new jsPDF();
-    const pageHeight = doc.internal.pageSize.getHeight();
+// Draws the logo, the company letterhead, the sender line and the recipient's address, which is the
+// customer's except on purchase orders. The letterhead moves to the left if the logo is placed on the right.
+const drawLetterhead = async (
+  doc: jsPDF,
+  organization: Organization,
+  recipient: Pick<Customer, 'name' | 'address'>,
+  margin: number,
+  text: PdfText,
+  layout: PdfLayout,
+  recipientLabel: PdfTextKey = 'pdf_billTo'
+) => {
     const pageWidth = doc.internal.pageSize.getWidth();
-    const margin = 15;
+    const logoWidth = 30;
 
-    // --- 1. HEADER ---
     // Add Logo
-    if (organization.logo_url) {
+    if (organization.logo_url && layout.logo_position !== 'hidden') {
+      const logoX = layout.logo_position === 'right' ? pageWidth - margin - logoWidth
+        : layout.logo_position === 'center' ? (pageWidth - logoWidth) / 2
+        : margin;
       try {
         const response = await fetch(organization.logo_url);
         const blob = await response.blob();
@@ -86,7 +121,7 @@ const generateDocumentPDF = async (
             reader.onloadend = () => {
                 try {
                     const base64data = reader.result as string;
-                    doc.addImage(base64data, 'PNG', margin, margin, 30, 0); // Auto-height
+                    doc.addImage(base64data, 'PNG', logoX, margin, logoWidth, 0); // Auto-height
                 } catch (e) { console.error("Error adding image:", (e as Error).message); }
                 finally { resolve(); }
             };
@@ -95,146 +130,388 @@ const generateDocumentPDF = async (
       } catch (e) { console.error("Error fetching logo:", (e as Error).message); }
     }
 
-    // Add Company Letterhead (Top Right)
-    doc.setFontSize(10).setFont(undefined, 'bold');
-    doc.text(organization.company_name || organization.name, pageWidth - margin, margin + 5, { align: 'right' });
-    doc.setFont(undefined, 'normal');
+    // Add Company Letterhead (Top Right, or Top Left next to a logo on the right)
+    const letterheadLeft = layout.logo_position === 'right' && !!organization.logo_url;
+    const letterheadX = letterheadLeft ? margin : pageWidth - margin;
+    const letterheadAlign = letterheadLeft ? 'left' : 'right';
+    doc.setFontSize(10).setFont(layout.font, 'bold');
+    doc.text(organization.company_name || organization.name, letterheadX, margin + 5, { align: letterheadAlign });
+    doc.setFont(layout.font, 'normal');
     const companyAddressLines = doc.splitTextToSize(organization.address || '', 60);
-    doc.text(companyAddressLines, pageWidth - margin, margin + 10, { align: 'right' });
+    doc.text(companyAddressLines, letterheadX, margin + 10, { align: letterheadAlign });
 
-    // --- 2. SENDER LINE & CUSTOMER ADDRESS ---
+    // --- SENDER LINE & CUSTOMER ADDRESS ---
     doc.setFontSize(8);
     const senderLine = `${organization.company_name || organization.name} • ${organization.address || ''}`;
     doc.text(senderLine, margin, 55);
     
     doc.setFontSize(10);
-    doc.text('Bill To:', margin, 65);
-    doc.setFont(undefined, 'bold');
-    doc.text(customer.name, margin, 70);
-    doc.setFont(undefined, 'normal');
-    const customerAddressLines = doc.splitTextToSize(customer.address || '', 80);
-    doc.text(customerAddressLines, margin, 75);
-
-    // --- 3. DOCUMENT DETAILS ---
-    const docNumber = type === 'invoice' ? (docData as Invoice).invoice_number : (docData as Quote).quote_number;
-    const issueDate = format(new Date(docData.issue_date), 'dd.MM.yyyy');
-    const dueDateLabel = type === 'invoice' ? 'Fällig am:' : 'Gültig bis:';
-    const dueDateValue = type === 'invoice' ? (docData as Invoice).due_date : (docData as Quote).valid_until_date;
-    const dueDate = dueDateValue ? format(new Date(dueDateValue), 'dd.MM.yyyy') : '';
-
-    const detailX = 140;
-    doc.text(type === 'invoice' ? 'Rechnungsnummer:' : 'Angebotsnummer:', detailX, 65);
-    doc.text('Datum:', detailX, 70);
-    doc.text(dueDateLabel, detailX, 75);
-
-    doc.text(docNumber, pageWidth - margin, 65, { align: 'right' });
-    doc.text(issueDate, pageWidth - margin, 70, { align: 'right' });
-    doc.text(dueDate, pageWidth - margin, 75, { align: 'right' });
-
-
-    // --- 4. TITLE ---
-    const title = type === 'invoice' ? 'RECHNUNG' : 'ANGEBOT';
-    doc.setFontSize(22).setFont(undefined, 'bold');
-    doc.text(title, margin, 100);
-
-    // --- 5. ITEMS TABLE ---
-    const tableColumn = ["Pos.", "Beschreibung", "Menge", "Preis/Einheit", "MwSt.", "Gesamt"];
-    const tableRows: any[] = [];
-    let subtotal = 0;
-    const vatTotals: { [key: number]: number } = {};
-
-    items.forEach((item, index) => {
-      const itemTotal = (item.quantity || 0) * (item.unit_price || 0);
-      subtotal += itemTotal;
-      const vatRate = item.vat_rate || 0;
-      const vatAmount = itemTotal * (vatRate / 100);
-      vatTotals[vatRate] = (vatTotals[vatRate] || 0) + vatAmount;
-
-      const row = [
-        index + 1,
-        item.description,
-        item.quantity,
-        `€${(item.unit_price || 0).toFixed(2)}`,
-        `${item.vat_rate}%`,
-        `€${(itemTotal + vatAmount).toFixed(2)}`,
-      ];
-      tableRows.push(row);
+    doc.text(`${text(recipientLabel)}:`, margin, 65);
+    doc.setFont(layout.font, 'bold');
+    doc.text(recipient.name, margin, 70);
+    doc.setFont(layout.font, 'normal');
+    const recipientAddressLines = doc.splitTextToSize(recipient.address || '', 80);
+    doc.text(recipientAddressLines, margin, 75);
+};
+
+// Draws the company details at the bottom of the page, one column per configured footer column.
+const drawFooter = (doc: jsPDF, organization: Organization, margin: number, text: PdfText, layout: PdfLayout) => {
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const footerY = pageHeight - 30;
+    doc.line(margin, footerY, pageWidth - margin, footerY); // Horizontal line
+    doc.setFontSize(8).setFont(layout.font, 'normal');
+
+    const columnLines: Record<PdfFooterColumn, string[]> = {
+      address: [organization.company_name || organization.name, organization.address],
+      contact: [organization.phone && `${text('pdf_phone')}: ${organization.phone}`, organization.email && `${text('pdf_email')}: ${organization.email}`],
+      bank: [organization.iban && `IBAN: ${organization.iban}`, organization.bic && `BIC: ${organization.bic}`],
+      tax: [organization.ust_idnr && `${text('pdf_vatId')}: ${organization.ust_idnr}`],
+    };
+    const columns = layout.footer_columns
+      .map(column => columnLines[column].filter(Boolean) as string[])
+      .filter(lines => lines.length > 0);
+    if (columns.length === 0) return;
+
+    const columnWidth = (pageWidth - 2 * margin) / columns.length;
+    columns.forEach((lines, index) => {
+      const wrapped = lines.flatMap(line => doc.splitTextToSize(line, columnWidth - 4) as string[]).slice(0, 4);
+      doc.text(wrapped, margin + index * columnWidth, footerY + 6);
     });
+};
 
-    autoTable(doc, {
-      head: [tableColumn],
-      body: tableRows,
-      startY: 110,
-      theme: 'striped',
-      headStyles: { fillColor: [29, 78, 216] }, // primary-700 blue
-      columnStyles: {
-        0: { cellWidth: 10 },
-        2: { halign: 'right', cellWidth: 15 },
-        3: { halign: 'right', cellWidth: 25 },
-        4: { halign: 'right', cellWidth: 15 },
-        5: { halign: 'right', cellWidth: 25 },
+// Draws the footer on every page. Multi-page documents also get page numbers, a short header with
+// the document title on every following page, and the items subtotal carried over where the items
+// table continues on the next page (carryOver holds the running total in cents per page).
+const drawPageFrames = (doc: jsPDF, organization: Organization, margin: number, text: PdfText, layout: PdfLayout, heading: string, carryOver: Record<number, number> = {}) => {
+    const pageCount = doc.getNumberOfPages();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      drawFooter(doc, organization, margin, text, layout);
+      if (pageCount === 1) break;
+
+      doc.setFontSize(8).setFont(layout.font, 'normal');
+      doc.text(text('pdf_page', { page, pages: pageCount }), pageWidth - margin, pageHeight - 8, { align: 'right' });
+
+      if (page > 1) {
+        doc.setFontSize(9).setFont(layout.font, 'bold');
+        doc.text(organization.company_name || organization.name, margin, margin + 2);
+        doc.setFont(layout.font, 'normal');
+        doc.text(heading, pageWidth - margin, margin + 2, { align: 'right' });
+        doc.line(margin, margin + 5, pageWidth - margin, margin + 5);
       }
-    });
 
-    // --- 6. TOTALS ---
-    const finalY = (doc as any).lastAutoTable.finalY;
-    let currentY = finalY + 10;
-    
-    doc.setFontSize(10).setFont(undefined, 'normal');
-    const totalsXLabel = 150;
-    const totalsXValue = pageWidth - margin;
+      doc.setFontSize(9).setFont(layout.font, 'bold');
+      if (carryOver[page] !== undefined && carryOver[page + 1] !== undefined) {
+        doc.text(`${text('pdf_carryOver')}: €${fromCents(carryOver[page]).toFixed(2)}`, pageWidth - margin, pageHeight - CONTENT_BOTTOM + 5, { align: 'right' });
+      }
+      if (carryOver[page] !== undefined && carryOver[page - 1] !== undefined) {
+        doc.text(`${text('pdf_carryOver')}: €${fromCents(carryOver[page - 1]).toFixed(2)}`, pageWidth - margin, CONTINUATION_TOP - 4, { align: 'right' });
+      }
+    }
+};
+
+type RenderableDocument = DocumentData & { organizations: Organization; customers: Customer };
+
+interface ItemTableColumn {
+  key: PdfItemColumn | 'description' | 'total';
+  header: string;
+  style?: Record<string, string | number>;
+  value: (item: InvoiceItem | QuoteItem, index: number, lineCents: number) => string | number;
+}
+
+// Renders an invoice, credit note, cancellation or quote with the given layout.
+const renderDocument = async (
+  docData: RenderableDocument,
+  type: 'invoice' | 'quote',
+  language: Language,
+  layout: PdfLayout
+): Promise<{ doc: jsPDF; fileName: string }> => {
+  const organization = docData.organizations;
+  const customer = docData.customers;
+  const items = (type === 'invoice' ? docData.invoice_items : docData.quote_items) || [];
+  // Documents are written in the customer's preferred language, otherwise in the user's.
+  const documentLanguage = customer.document_language || language;
+  const text = getPdfText(documentLanguage);
+
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 15;
+
+  // --- 1. HEADER, SENDER LINE & CUSTOMER ADDRESS ---
+  await drawLetterhead(doc, organization, customer, margin, text, layout);
+
+  // --- 3. DOCUMENT DETAILS ---
+  const docNumber = type === 'invoice' ? (docData as Invoice).invoice_number : (docData as Quote).quote_number;
+  const issueDate = format(new Date(docData.issue_date), 'dd.MM.yyyy');
+  const dueDateLabel = type === 'invoice' ? text('pdf_dueDate') : text('pdf_validUntil');
+  const dueDateValue = type === 'invoice' ? (docData as Invoice).due_date : (docData as Quote).valid_until_date;
+  const dueDate = dueDateValue ? format(new Date(dueDateValue), 'dd.MM.yyyy') : '';
+
+  const documentType = type === 'invoice' ? (docData as Invoice).document_type || 'invoice' : null;
+
+  const detailX = 140;
+  doc.text(`${text(documentType ? `pdf_number_${documentType}` : 'pdf_number_quote')}:`, detailX, 65);
+  doc.text(`${text('pdf_date')}:`, detailX, 70);
+  doc.text(`${dueDateLabel}:`, detailX, 75);
+
+  doc.text(docNumber, pageWidth - margin, 65, { align: 'right' });
+  doc.text(issueDate, pageWidth - margin, 70, { align: 'right' });
+  doc.text(dueDate, pageWidth - margin, 75, { align: 'right' });
+
+
+  // --- 4. TITLE ---
+  const billingType = (docData as Invoice).billing_type;
+  const title = documentType
+    ? text(documentType === 'invoice' && (billingType === 'down_payment' || billingType === 'final') ? `pdf_title_${billingType}` : `pdf_title_${documentType}`)
+    : text('pdf_title_quote');
+  doc.setFontSize(22).setFont(layout.font, 'bold');
+  doc.text(title, margin, 100);
+
+  // Credit notes and cancellations must reference the invoice they correct.
+  const originalInvoice = (docData as Invoice).original_invoice;
+  if (documentType !== 'invoice' && originalInvoice) {
+    doc.setFontSize(10).setFont(layout.font, 'normal');
+    doc.text(text('pdf_correctsInvoice', { number: originalInvoice.invoice_number, date: format(new Date(originalInvoice.issue_date), 'dd.MM.yyyy') }), margin, 106);
+  }
+
+  // The layout's intro text goes between the title and the items.
+  let tableY = 110;
+  if (layout.intro_text) {
+    doc.setFontSize(10).setFont(layout.font, 'normal');
+    const introLines = doc.splitTextToSize(layout.intro_text, pageWidth - 2 * margin);
+    doc.text(introLines, margin, tableY + 2);
+    tableY += 2 + introLines.length * 5;
+  }
 
-    doc.text(`Zwischensumme (Netto):`, totalsXLabel, currentY, { align: 'right' });
-    doc.text(`€${subtotal.toFixed(2)}`, totalsXValue, currentY, { align: 'right' });
+  // --- 5. ITEMS TABLE ---
+  const totals = calculateDocumentTotals(items, { discount_type: docData.discount_type, discount_value: docData.discount_value });
+  const rightAligned = (cellWidth: number) => ({ halign: 'right' as const, cellWidth });
+  // Optional columns can be hidden in the layout. The discount column is only printed if at least
+  // one line is discounted.
+  const hasLineDiscounts = totals.lines.some(line => line.lineDiscount > 0);
+  const columns = ([
+    { key: 'position', header: text('pdf_position'), style: { cellWidth: 10 }, value: (_, index) => index + 1 },
+    { key: 'description', header: text('pdf_description'), value: item => item.description },
+    { key: 'quantity', header: text('pdf_quantity'), style: rightAligned(15), value: item => item.quantity },
+    { key: 'unit_price', header: text('pdf_unitPrice'), style: rightAligned(25), value: item => `€${(item.unit_price || 0).toFixed(2)}` },
+    { key: 'discount', header: text('pdf_discount'), style: rightAligned(18), value: item => formatDiscount(item) },
+    { key: 'vat', header: text('pdf_vat'), style: rightAligned(15), value: item => `${item.vat_rate}%` },
+    { key: 'total', header: text('pdf_total'), style: rightAligned(25), value: (_, __, lineCents) => `€${fromCents(lineCents).toFixed(2)}` },
+  ] as ItemTableColumn[]).filter(column =>
+    !layout.hidden_columns.includes(column.key as PdfItemColumn) && (column.key !== 'discount' || hasLineDiscounts)
+  );
+  const tableRows: any[] = [];
+  const rowCents: number[] = []; // line total of every table row, 0 for group headings
+
+  // Items of collective invoices are grouped under a heading per visit.
+  const groupLabels = items.map(item => (item as InvoiceItem).group_label || null);
+
+  // The line total includes its VAT but not the document discount, which is shown below the table.
+  const getLineCents = (index: number) => {
+    const itemCents = toCents(totals.lines[index].net);
+    return itemCents + percentOfCents(itemCents, items[index].vat_rate);
+  };
+
+  // Optional and alternative quote items that were not chosen are listed separately below the totals.
+  items.forEach((item, index) => {
+    if (!totals.lines[index].binding) return;
+    if (groupLabels[index] && groupLabels[index] !== groupLabels[index - 1]) {
+      tableRows.push([{ content: groupLabels[index], colSpan: columns.length, styles: { fontStyle: 'bold' } }]);
+      rowCents.push(0);
+    }
+    const lineCents = getLineCents(index);
+    tableRows.push(columns.map(column => column.value(item, index, lineCents)));
+    rowCents.push(lineCents);
+  });
+
+  // Running total of the line totals at the end of every page the table is drawn on.
+  const carryOver: Record<number, number> = {};
+  let runningCents = 0;
+
+  autoTable(doc, {
+    head: [columns.map(column => column.header)],
+    body: tableRows,
+    startY: tableY,
+    margin: { top: CONTINUATION_TOP, bottom: CONTENT_BOTTOM },
+    showHead: 'everyPage',
+    rowPageBreak: 'avoid',
+    theme: 'striped',
+    styles: { font: layout.font },
+    headStyles: { fillColor: hexToRgb(layout.accent_color) },
+    columnStyles: Object.fromEntries(columns.map((column, index) => [index, column.style || {}])),
+    didDrawCell: (data) => {
+      if (data.section !== 'body' || data.column.index !== 0) return;
+      runningCents += rowCents[data.row.index] || 0;
+      carryOver[data.pageNumber] = runningCents;
+    },
+  });
+
+  // --- 6. TOTALS ---
+  // Totals and notes are kept together; they move to a new page if they do not fit below the table.
+  const finalY = (doc as any).lastAutoTable.finalY;
+  const taxTreatment = docData.tax_treatment || 'standard';
+  const totalsLineCount = 2 + (totals.documentDiscount > 0 ? 2 : 0) + (taxTreatment === 'standard' ? totals.vatBreakdown.length : 0);
+  doc.setFontSize(10).setFont(layout.font, 'normal');
+  const notesLines: string[] = docData.notes ? doc.splitTextToSize(docData.notes, 100) : [];
+  const blockY = ensureSpace(doc, finalY + 10, Math.max(totalsLineCount * 7, notesLines.length ? 5 + notesLines.length * 5 : 0));
+  let currentY = blockY;
+  
+  doc.setFontSize(10).setFont(layout.font, 'normal');
+  const totalsXLabel = 150;
+  const totalsXValue = pageWidth - margin;
+
+  doc.text(`${text('pdf_subtotal')}:`, totalsXLabel, currentY, { align: 'right' });
+  doc.text(`€${totals.itemsTotal.toFixed(2)}`, totalsXValue, currentY, { align: 'right' });
+  currentY += 7;
+
+  if (totals.documentDiscount > 0) {
+    const discountLabel = docData.discount_type === 'percent' ? `${text('pdf_lessDiscount')} (${formatDiscount(docData)}):` : `${text('pdf_lessDiscount')}:`;
+    doc.text(discountLabel, totalsXLabel, currentY, { align: 'right' });
+    doc.text(`-€${totals.documentDiscount.toFixed(2)}`, totalsXValue, currentY, { align: 'right' });
+    currentY += 7;
+    doc.text(`${text('pdf_netAmount')}:`, totalsXLabel, currentY, { align: 'right' });
+    doc.text(`€${totals.subtotal.toFixed(2)}`, totalsXValue, currentY, { align: 'right' });
     currentY += 7;
+  }
 
-    Object.entries(vatTotals).forEach(([rate, amount]) => {
-      doc.text(`zzgl. MwSt. (${rate}%):`, totalsXLabel, currentY, { align: 'right' });
-      doc.text(`€${amount.toFixed(2)}`, totalsXValue, currentY, { align: 'right' });
+  // Documents without standard taxation show no VAT; the tax note below explains why.
+  if (taxTreatment === 'standard') {
+    totals.vatBreakdown.forEach(({ rate, vat }) => {
+      doc.text(`${text('pdf_plusVat', { rate })}:`, totalsXLabel, currentY, { align: 'right' });
+      doc.text(`€${vat.toFixed(2)}`, totalsXValue, currentY, { align: 'right' });
       currentY += 7;
     });
-    
-    doc.line(totalsXLabel - 25, currentY - 3, totalsXValue, currentY - 3);
-
-    doc.setFontSize(12).setFont(undefined, 'bold');
-    doc.text(`Gesamtbetrag:`, totalsXLabel, currentY + 2, { align: 'right' });
-    doc.text(`€${docData.total_amount.toFixed(2)}`, totalsXValue, currentY + 2, { align: 'right' });
-
-    // --- 7. NOTES ---
-    if (docData.notes) {
-        let notesY = finalY + 10;
-        doc.setFontSize(10).setFont(undefined, 'bold').text('Anmerkungen:', margin, notesY);
-        doc.setFont(undefined, 'normal');
-        const notesLines = doc.splitTextToSize(docData.notes, 100);
-        doc.text(notesLines, margin, notesY + 5);
+  }
+  
+  doc.line(totalsXLabel - 25, currentY - 3, totalsXValue, currentY - 3);
+
+  doc.setFontSize(12).setFont(layout.font, 'bold');
+  doc.text(`${text('pdf_grandTotal')}:`, totalsXLabel, currentY + 2, { align: 'right' });
+  doc.text(`€${totals.grandTotal.toFixed(2)}`, totalsXValue, currentY + 2, { align: 'right' });
+
+  // --- 7. NOTES ---
+  let notesBottomY = 0;
+  if (notesLines.length) {
+      doc.setFontSize(10).setFont(layout.font, 'bold').text(`${text('pdf_notes')}:`, margin, blockY);
+      doc.setFont(layout.font, 'normal');
+      doc.text(notesLines, margin, blockY + 5);
+      notesBottomY = blockY + 5 + notesLines.length * 5;
+  }
+
+  let contentBottomY = Math.max(currentY + 7, notesBottomY);
+
+  // --- 7a. OPTIONAL & ALTERNATIVE POSITIONS ---
+  // Optional items come first, then the alternatives grouped by their group.
+  const optionKey = (item: QuoteItem) => item.item_type === 'alternative' ? `1${item.alternative_group || ''}` : '0';
+  const openOptions = items
+    .map((item, index) => ({ item: item as QuoteItem, index }))
+    .filter(({ index }) => !totals.lines[index].binding)
+    .sort((a, b) => optionKey(a.item).localeCompare(optionKey(b.item)) || a.index - b.index);
+  if (openOptions.length > 0) {
+    const optionRows: any[] = [];
+    openOptions.forEach(({ item, index }, position) => {
+      if (position === 0 || optionKey(item) !== optionKey(openOptions[position - 1].item)) {
+        const heading = item.item_type === 'alternative' ? text('pdf_alternativeGroup', { group: item.alternative_group || '' }) : text('pdf_optionalItems');
+        optionRows.push([{ content: heading, colSpan: columns.length, styles: { fontStyle: 'bold' } }]);
+      }
+      optionRows.push(columns.map(column => column.value(item, index, getLineCents(index))));
+    });
+
+    const optionsY = ensureSpace(doc, contentBottomY + 8, 25);
+    doc.setFontSize(10).setFont(layout.font, 'bold');
+    doc.text(text('pdf_optionsTitle'), margin, optionsY);
+    autoTable(doc, {
+      head: [columns.map(column => column.header)],
+      body: optionRows,
+      startY: optionsY + 3,
+      margin: { top: CONTINUATION_TOP, bottom: CONTENT_BOTTOM },
+      showHead: 'everyPage',
+      rowPageBreak: 'avoid',
+      theme: 'striped',
+      styles: { font: layout.font },
+      headStyles: { fillColor: hexToRgb(layout.accent_color) },
+      columnStyles: Object.fromEntries(columns.map((column, index) => [index, column.style || {}])),
+    });
+    contentBottomY = (doc as any).lastAutoTable.finalY;
+  }
+
+  // The mandatory tax note goes below the totals, the notes and the options.
+  const taxNote = getTaxNote(taxTreatment, customer, documentLanguage);
+  if (taxNote) {
+    doc.setFontSize(9).setFont(layout.font, 'normal');
+    const taxNoteLines = doc.splitTextToSize(taxNote, pageWidth - 2 * margin);
+    const taxNoteY = ensureSpace(doc, contentBottomY + 5, taxNoteLines.length * 4);
+    doc.text(taxNoteLines, margin, taxNoteY);
+    contentBottomY = taxNoteY + taxNoteLines.length * 4;
+  }
+
+  // The layout's closing text ends the document, before the GiroCode.
+  if (layout.closing_text) {
+    doc.setFontSize(10).setFont(layout.font, 'normal');
+    const closingLines = doc.splitTextToSize(layout.closing_text, pageWidth - 2 * margin);
+    const closingY = ensureSpace(doc, contentBottomY + 6, closingLines.length * 5);
+    doc.text(closingLines, margin, closingY);
+    contentBottomY = closingY + closingLines.length * 5;
+  }
+
+  // --- 7b. GIROCODE ---
+  // Only for invoices that still have to be paid by bank transfer.
+  const invoice = docData as Invoice;
+  if (documentType === 'invoice' && organization.girocode_enabled && !['paid', 'cancelled'].includes(invoice.status)) {
+    const openAmount = getOpenBalance(invoice, invoice.payments, invoice.credit_notes);
+    const giroCode = await generateGiroCode({
+      beneficiary: organization.company_name || organization.name,
+      iban: organization.iban,
+      bic: organization.bic,
+      amount: openAmount,
+      reference: docNumber,
+    });
+    if (giroCode) {
+      const qrSize = 30;
+      const qrY = ensureSpace(doc, contentBottomY + 8, qrSize + 2);
+      doc.setFontSize(9).setFont(layout.font, 'bold');
+      doc.text(text('pdf_payByGiroCode'), margin, qrY);
+      doc.addImage(giroCode, 'PNG', margin, qrY + 2, qrSize, qrSize);
+      doc.setFont(layout.font, 'normal');
+      doc.text(doc.splitTextToSize(text('pdf_giroCodeHint', { amount: `€${openAmount.toFixed(2)}`, reference: docNumber }), 80), margin + qrSize + 5, qrY + 6);
     }
-    
-    // --- 8. FOOTER ---
-    const footerY = pageHeight - 30;
-    doc.line(margin, footerY, pageWidth - margin, footerY); // Horizontal line
-    doc.setFontSize(8).setFont(undefined, 'normal');
-    
-    let footerLine1 = organization.company_name || '';
-    if(organization.address) footerLine1 += ` | ${organization.address}`;
-    doc.text(footerLine1, pageWidth / 2, footerY + 8, { align: 'center' });
+  }
+  
+  // --- 8. FOOTER, PAGE NUMBERS & CARRY-OVER ---
+  drawPageFrames(doc, organization, margin, text, layout, `${title} ${docNumber}`, carryOver);
 
-    let footerLine2 = '';
-    if (organization.phone) footerLine2 += `Tel: ${organization.phone} | `;
-    if (organization.email) footerLine2 += `Email: ${organization.email}`;
-    if(footerLine2.endsWith(' | ')) footerLine2 = footerLine2.slice(0, -3);
-    doc.text(footerLine2, pageWidth / 2, footerY + 12, { align: 'center' });
+  return { doc, fileName: `${title}_${docNumber}.pdf` };
+};
 
-    let footerLine3 = '';
-    if(organization.iban) footerLine3 += `IBAN: ${organization.iban} | `;
-    if(organization.bic) footerLine3 += `BIC: ${organization.bic} | `;
-    if(organization.ust_idnr) footerLine3 += `USt-IdNr: ${organization.ust_idnr}`;
-    if(footerLine3.endsWith(' | ')) footerLine3 = footerLine3.slice(0, -3);
-    doc.text(footerLine3, pageWidth / 2, footerY + 16, { align: 'center' });
+// Main function to generate the PDF
+const generateDocumentPDF = async (
+  documentId: number,
+  type: 'invoice' | 'quote',
+  language: Language,
+  action: 'download' | 'blob' = 'download'
+): Promise<Blob | void> => {
+  try {
+    const docData = await fetchDocumentData(documentId, type);
+    if (!docData || !docData.organizations || !docData.customers) {
+      alert("Missing data to generate PDF.");
+      return;
+    }
+    if (!(type === 'invoice' ? docData.invoice_items : docData.quote_items)) {
+      alert("Document has no items to generate PDF.");
+      return;
+    }
 
+    const layoutType = type === 'invoice' ? (docData as Invoice).document_type || 'invoice' : 'quote';
+    const layout = await getPdfLayout(docData.organizations.id, layoutType);
+    const { doc, fileName } = await renderDocument(docData as RenderableDocument, type, language, layout);
 
     // --- 9. ACTION ---
     if (action === 'download') {
-      doc.save(`${title}_${docNumber}.pdf`);
+      doc.save(fileName);
     } else {
       return doc.output('blob');
     }
@@ -245,4 +522,396 @@ const generateDocumentPDF = async (
   }
 };
 
-export default generateDocumentPDF;
\ No newline at end of file
+type ReminderData = Pick<InvoiceReminder, 'level' | 'name' | 'open_amount' | 'sent_at'>;
+type ReminderInvoice = Invoice & {
+  organizations: Organization;
+  customers: Customer;
+  invoice_reminders: Pick<InvoiceReminder, 'level' | 'fee'>[];
+};
+
+// Renders a payment reminder with the given layout.
+const renderReminder = async (reminder: ReminderData, invoice: ReminderInvoice, layout: PdfLayout): Promise<{ doc: jsPDF; fileName: string }> => {
+  const organization = invoice.organizations;
+  const customer = invoice.customers;
+
+  // Fees of all reminders up to and including this one are added to the amount due.
+  const fees = (invoice.invoice_reminders || [])
+    .filter(r => r.level <= reminder.level)
+    .reduce((sum, r) => sum + (Number(r.fee) || 0), 0);
+  const paidAmount = (invoice.payments || []).reduce((sum: number, p: Pick<Payment, 'amount'>) => sum + (Number(p.amount) || 0), 0);
+  const amountDue = Number(reminder.open_amount) + fees;
+  const text = getPdfText(customer.document_language || 'de');
+
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 15;
+
+  // --- 1. HEADER, SENDER LINE & CUSTOMER ADDRESS ---
+  await drawLetterhead(doc, organization, customer, margin, text, layout);
+
+  // --- 2. DOCUMENT DETAILS ---
+  const detailX = 140;
+  doc.text(`${text('pdf_number_invoice')}:`, detailX, 65);
+  doc.text(`${text('pdf_invoiceDate')}:`, detailX, 70);
+  doc.text(`${text('pdf_overdueSince')}:`, detailX, 75);
+  doc.text(`${text('pdf_date')}:`, detailX, 80);
+
+  doc.text(invoice.invoice_number, pageWidth - margin, 65, { align: 'right' });
+  doc.text(format(new Date(invoice.issue_date), 'dd.MM.yyyy'), pageWidth - margin, 70, { align: 'right' });
+  doc.text(format(new Date(invoice.due_date), 'dd.MM.yyyy'), pageWidth - margin, 75, { align: 'right' });
+  doc.text(format(new Date(reminder.sent_at), 'dd.MM.yyyy'), pageWidth - margin, 80, { align: 'right' });
+
+  // --- 3. TITLE & TEXT ---
+  const title = reminder.name.toUpperCase();
+  doc.setFontSize(22).setFont(layout.font, 'bold');
+  doc.text(title, margin, 100);
+
+  doc.setFontSize(10).setFont(layout.font, 'normal');
+  const intro = text(reminder.level === 1 ? 'pdf_reminderIntroFirst' : 'pdf_reminderIntroFurther', { number: invoice.invoice_number });
+  const introLines: string[] = doc.splitTextToSize(layout.intro_text ? `${intro}\n\n${layout.intro_text}` : intro, pageWidth - 2 * margin);
+  doc.text(introLines, margin, 110);
+
+  // --- 4. AMOUNTS TABLE ---
+  const tableRows: any[] = [
+    [text('pdf_invoiceAmount'), `€${invoice.total_amount.toFixed(2)}`],
+  ];
+  if (paidAmount > 0) tableRows.push([text('pdf_alreadyPaid'), `-€${paidAmount.toFixed(2)}`]);
+  tableRows.push([text('pdf_openInvoiceAmount'), `€${Number(reminder.open_amount).toFixed(2)}`]);
+  if (fees > 0) tableRows.push([text('pdf_reminderFees'), `€${fees.toFixed(2)}`]);
+
+  autoTable(doc, {
+    body: tableRows,
+    foot: [[text('pdf_amountDue'), `€${amountDue.toFixed(2)}`]],
+    startY: Math.max(130, 110 + introLines.length * 5 + 5),
+    margin: { top: CONTINUATION_TOP, bottom: CONTENT_BOTTOM },
+    theme: 'striped',
+    styles: { font: layout.font },
+    footStyles: { fillColor: hexToRgb(layout.accent_color) },
+    columnStyles: { 1: { halign: 'right', cellWidth: 40 } },
+  });
+
+  const finalY = (doc as any).lastAutoTable.finalY;
+  doc.setFontSize(10).setFont(layout.font, 'normal');
+  const closing = layout.closing_text ? `${text('pdf_reminderClosing')}\n\n${layout.closing_text}` : text('pdf_reminderClosing');
+  const closingLines = doc.splitTextToSize(closing, pageWidth - 2 * margin);
+  doc.text(closingLines, margin, ensureSpace(doc, finalY + 12, closingLines.length * 5));
+
+  // --- 5. FOOTER & PAGE NUMBERS ---
+  drawPageFrames(doc, organization, margin, text, layout, `${title} ${invoice.invoice_number}`);
+
+  return { doc, fileName: `${reminder.name.replace(/[^a-zA-Z0-9]+/g, '_')}_${invoice.invoice_number}.pdf` };
+};
+
+// Generates the PDF for a payment reminder / dunning letter (Zahlungserinnerung / Mahnung)
+export const generateReminderPDF = async (
+  reminderId: number,
+  action: 'download' | 'blob' = 'download'
+): Promise<Blob | void> => {
+  try {
+    const { data: reminder, error } = await supabase
+      .from('invoice_reminders')
+      .select(`
+        *,
+        invoices:invoices!inner(
+          *,
+          customers:customers!left(*),
+          organizations:organizations!left(*),
+          payments:payments!left(amount, payment_date),
+          invoice_reminders:invoice_reminders!left(level, fee)
+        )
+      `)
+      .eq('id', reminderId)
+      .single();
+
+    if (error || !reminder) {
+      console.error('Error fetching reminder:', error?.message);
+      throw new Error('Could not fetch reminder data.');
+    }
+
+    const invoice = reminder.invoices as ReminderInvoice;
+    if (!invoice.organizations || !invoice.customers) {
+      alert("Missing data to generate PDF.");
+      return;
+    }
+
+    const layout = await getPdfLayout(invoice.organizations.id, 'reminder');
+    const { doc, fileName } = await renderReminder(reminder, invoice, layout);
+
+    // --- 6. ACTION ---
+    if (action === 'download') {
+      doc.save(fileName);
+    } else {
+      return doc.output('blob');
+    }
+
+  } catch (error) {
+    console.error(`Failed to generate PDF for reminder #${reminderId}`, (error as Error).message);
+    alert(`Could not generate the PDF. Please check the console for details.`);
+  }
+};
+
+type PurchaseOrderLine = PurchaseOrderItem & { products?: { product_number: string } | null };
+type PurchaseOrderData = PurchaseOrder & {
+  organizations: Organization;
+  suppliers: Supplier;
+  purchase_order_items: PurchaseOrderLine[];
+};
+
+interface PurchaseOrderColumn {
+  key: PdfItemColumn | 'product_number' | 'description' | 'total';
+  header: string;
+  style?: Record<string, string | number>;
+  value: (item: PurchaseOrderLine, index: number) => string | number;
+}
+
+// Renders a purchase order to a supplier with the given layout. Purchase prices are net, so the
+// order shows no VAT.
+const renderPurchaseOrder = async (order: PurchaseOrderData, language: Language, layout: PdfLayout): Promise<{ doc: jsPDF; fileName: string }> => {
+  const organization = order.organizations;
+  const supplier = order.suppliers;
+  const items = [...(order.purchase_order_items || [])].sort((a, b) => a.id - b.id);
+  const text = getPdfText(language);
+
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 15;
+
+  // --- 1. HEADER, SENDER LINE & SUPPLIER ADDRESS ---
+  await drawLetterhead(doc, organization, supplier, margin, text, layout, 'pdf_supplier');
+
+  // --- 2. DOCUMENT DETAILS ---
+  const details: [string, string][] = [
+    [text('pdf_number_purchase_order'), order.order_number],
+    [text('pdf_date'), format(new Date(order.order_date), 'dd.MM.yyyy')],
+  ];
+  if (order.expected_delivery_date) details.push([text('pdf_deliveryDate'), format(new Date(order.expected_delivery_date), 'dd.MM.yyyy')]);
+  if (supplier.customer_number) details.push([text('pdf_ourCustomerNumber'), supplier.customer_number]);
+
+  const detailX = 140;
+  details.forEach(([label, value], index) => {
+    doc.text(`${label}:`, detailX, 65 + index * 5);
+    doc.text(value, pageWidth - margin, 65 + index * 5, { align: 'right' });
+  });
+
+  // --- 3. TITLE & TEXT ---
+  const title = text('pdf_title_purchase_order');
+  doc.setFontSize(22).setFont(layout.font, 'bold');
+  doc.text(title, margin, 100);
+
+  doc.setFontSize(10).setFont(layout.font, 'normal');
+  const intro = text('pdf_purchaseOrderIntro');
+  const introLines: string[] = doc.splitTextToSize(layout.intro_text ? `${layout.intro_text}\n\n${intro}` : intro, pageWidth - 2 * margin);
+  doc.text(introLines, margin, 110);
+
+  // --- 4. ITEMS TABLE ---
+  const rightAligned = (cellWidth: number) => ({ halign: 'right' as const, cellWidth });
+  const lineCents = items.map(item => multiplyToCents(item.quantity, item.unit_price));
+  const columns = ([
+    { key: 'position', header: text('pdf_position'), style: { cellWidth: 10 }, value: (_, index) => index + 1 },
+    { key: 'product_number', header: text('pdf_productNumber'), style: { cellWidth: 28 }, value: item => item.products?.product_number || '' },
+    { key: 'description', header: text('pdf_description'), value: item => item.description },
+    { key: 'quantity', header: text('pdf_quantity'), style: rightAligned(15), value: item => item.quantity },
+    { key: 'unit_price', header: text('pdf_unitPrice'), style: rightAligned(25), value: item => `€${Number(item.unit_price || 0).toFixed(2)}` },
+    { key: 'total', header: text('pdf_total'), style: rightAligned(25), value: (_, index) => `€${fromCents(lineCents[index]).toFixed(2)}` },
+  ] as PurchaseOrderColumn[]).filter(column => !layout.hidden_columns.includes(column.key as PdfItemColumn));
+
+  const carryOver: Record<number, number> = {};
+  let runningCents = 0;
+
+  autoTable(doc, {
+    head: [columns.map(column => column.header)],
+    body: items.map((item, index) => columns.map(column => column.value(item, index))),
+    startY: Math.max(120, 110 + introLines.length * 5 + 5),
+    margin: { top: CONTINUATION_TOP, bottom: CONTENT_BOTTOM },
+    showHead: 'everyPage',
+    rowPageBreak: 'avoid',
+    theme: 'striped',
+    styles: { font: layout.font },
+    headStyles: { fillColor: hexToRgb(layout.accent_color) },
+    columnStyles: Object.fromEntries(columns.map((column, index) => [index, column.style || {}])),
+    didDrawCell: (data) => {
+      if (data.section !== 'body' || data.column.index !== 0) return;
+      runningCents += lineCents[data.row.index] || 0;
+      carryOver[data.pageNumber] = runningCents;
+    },
+  });
+
+  // --- 5. TOTAL, NOTES & CLOSING TEXT ---
+  const finalY = (doc as any).lastAutoTable.finalY;
+  doc.setFontSize(10).setFont(layout.font, 'normal');
+  const notesLines: string[] = order.notes ? doc.splitTextToSize(order.notes, 100) : [];
+  const blockY = ensureSpace(doc, finalY + 10, Math.max(9, notesLines.length ? 5 + notesLines.length * 5 : 0));
+
+  const totalsXLabel = 150;
+  const totalsXValue = pageWidth - margin;
+  doc.setFontSize(12).setFont(layout.font, 'bold');
+  doc.text(`${text('pdf_orderTotal')}:`, totalsXLabel, blockY + 2, { align: 'right' });
+  doc.text(`€${fromCents(lineCents.reduce((sum, cents) => sum + cents, 0)).toFixed(2)}`, totalsXValue, blockY + 2, { align: 'right' });
+
+  let contentBottomY = blockY + 9;
+  if (notesLines.length) {
+    doc.setFontSize(10).setFont(layout.font, 'bold').text(`${text('pdf_notes')}:`, margin, blockY);
+    doc.setFont(layout.font, 'normal');
+    doc.text(notesLines, margin, blockY + 5);
+    contentBottomY = Math.max(contentBottomY, blockY + 5 + notesLines.length * 5);
+  }
+
+  if (layout.closing_text) {
+    doc.setFontSize(10).setFont(layout.font, 'normal');
+    const closingLines = doc.splitTextToSize(layout.closing_text, pageWidth - 2 * margin);
+    doc.text(closingLines, margin, ensureSpace(doc, contentBottomY + 6, closingLines.length * 5));
+  }
+
+  // --- 6. FOOTER, PAGE NUMBERS & CARRY-OVER ---
+  drawPageFrames(doc, organization, margin, text, layout, `${title} ${order.order_number}`, carryOver);
+
+  return { doc, fileName: `${title}_${order.order_number}.pdf` };
+};
+
+/**
+ * Generates the PDF of a purchase order, to be sent to the supplier.
+ * @param purchaseOrderId The ID of the purchase order.
+ * @param language The language of the purchase order.
+ * @param action Whether to download the PDF or return it as a blob.
+ */
+export const generatePurchaseOrderPDF = async (
+  purchaseOrderId: number,
+  language: Language,
+  action: 'download' | 'blob' = 'download'
+): Promise<Blob | void> => {
+  try {
+    const { data: order, error } = await supabase
+      .from('purchase_orders')
+      .select(`
+        *,
+        suppliers:suppliers!left(*),
+        organizations:organizations!left(*),
+        purchase_order_items:purchase_order_items!left(*, products:products!left(product_number))
+      `)
+      .eq('id', purchaseOrderId)
+      .single();
+
+    if (error || !order) {
+      console.error('Error fetching purchase order:', error?.message);
+      throw new Error('Could not fetch purchase order data.');
+    }
+    if (!order.organizations || !order.suppliers) {
+      alert("Missing data to generate PDF.");
+      return;
+    }
+
+    const layout = await getPdfLayout(order.organizations.id, 'purchase_order');
+    const { doc, fileName } = await renderPurchaseOrder(order as PurchaseOrderData, language, layout);
+
+    if (action === 'download') {
+      doc.save(fileName);
+    } else {
+      return doc.output('blob');
+    }
+
+  } catch (error) {
+    console.error(`Failed to generate PDF for purchase order #${purchaseOrderId}`, (error as Error).message);
+    alert(`Could not generate the PDF. Please check the console for details.`);
+  }
+};
+
+/**
+ * Generates the PDF of a quote that was loaded through its acceptance link, without a session.
+ * @param quote The quote with its items, customer, organization and layout.
+ * @param language The language to use if the customer has no document language.
+ * @param action Whether to download the PDF or return it as a blob.
+ */
+export const generatePublicQuotePDF = async (
+  quote: PublicQuote,
+  language: Language,
+  action: 'download' | 'blob' = 'download'
+): Promise<Blob | void> => {
+  const layout = { ...getDefaultPdfLayout(quote.organizations.id, 'quote'), ...(quote.pdf_layout || {}) };
+  const { doc, fileName } = await renderDocument(quote, 'quote', language, layout);
+  if (action === 'download') {
+    doc.save(fileName);
+  } else {
+    return doc.output('blob');
+  }
+};
+
+/**
+ * Renders a sample document with a layout, for the live preview in the settings.
+ * @param organization The organization whose letterhead, footer and bank details are shown.
+ * @param layout The layout to preview.
+ * @param language The language of the sample document.
+ * @returns The PDF as a blob.
+ */
+export const generateLayoutPreview = async (organization: Organization, layout: PdfLayout, language: Language): Promise<Blob> => {
+  const today = new Date();
+  const issueDate = format(today, 'yyyy-MM-dd');
+  const dueDate = format(new Date(today.getTime() + 14 * 24 * 60 * 60 * 1000), 'yyyy-MM-dd');
+  const customer = {
+    id: 0,
+    name: 'Max Mustermann GmbH',
+    address: 'Musterstraße 1\n12345 Musterstadt',
+    document_language: language,
+  } as Customer;
+  const items = [
+    { id: 1, product_id: null, description: 'Wartung Heizungsanlage', quantity: 1, unit_price: 189, vat_rate: 19 },
+    { id: 2, product_id: null, description: 'Arbeitszeit Techniker', quantity: 2.5, unit_price: 68, vat_rate: 19, discount_type: 'percent' as const, discount_value: 10 },
+    { id: 3, product_id: null, description: 'Dichtungssatz', quantity: 4, unit_price: 12.9, vat_rate: 19 },
+  ];
+  const invoice = {
+    id: 0,
+    org_id: organization.id,
+    customer_id: 0,
+    invoice_number: 'RE-2026-0001',
+    issue_date: issueDate,
+    due_date: dueDate,
+    total_amount: 0,
+    status: 'sent',
+    notes: 'Sample notes',
+    document_type: ['quote', 'reminder', 'purchase_order'].includes(layout.document_type) ? 'invoice' : layout.document_type,
+    original_invoice_id: null,
+    organizations: organization,
+    customers: customer,
+    payments: [],
+    invoice_reminders: [],
+    invoice_items: items.map(item => ({ ...item, invoice_id: 0 })),
+  } as unknown as ReminderInvoice & RenderableDocument;
+  invoice.total_amount = calculateDocumentTotals(invoice.invoice_items || []).grandTotal;
+
+  let rendered: { doc: jsPDF };
+  if (layout.document_type === 'reminder') {
+    rendered = await renderReminder({ level: 1, name: 'Zahlungserinnerung', open_amount: invoice.total_amount, sent_at: issueDate }, invoice, layout);
+  } else if (layout.document_type === 'quote') {
+    const quote = {
+      ...invoice,
+      quote_number: 'AN-2026-0001',
+      valid_until_date: dueDate,
+      quote_items: items.map(item => ({ ...item, quote_id: 0 })),
+    } as unknown as RenderableDocument;
+    rendered = await renderDocument(quote, 'quote', language, layout);
+  } else if (layout.document_type === 'purchase_order') {
+    const order = {
+      id: 0,
+      org_id: organization.id,
+      supplier_id: 0,
+      order_number: 'PO-2026-0001',
+      status: 'ordered',
+      order_date: issueDate,
+      expected_delivery_date: dueDate,
+      notes: 'Sample notes',
+      organizations: organization,
+      suppliers: { id: 0, name: 'Haustechnik Großhandel GmbH', address: 'Industriestraße 5\n54321 Lieferstadt', customer_number: 'K-10442' },
+      purchase_order_items: [
+        { id: 1, product_id: 0, description: 'Umwälzpumpe', quantity: 2, unit_price: 92.5, products: { product_number: 'PROD-00012' } },
+        { id: 2, product_id: 0, description: 'Dichtungssatz', quantity: 20, unit_price: 6.2, products: { product_number: 'PROD-00031' } },
+      ],
+    } as unknown as PurchaseOrderData;
+    rendered = await renderPurchaseOrder(order, language, layout);
+  } else {
+    // Credit notes and cancellations reference the invoice they correct.
+    const original = layout.document_type === 'invoice' ? undefined : { id: 0, invoice_number: 'RE-2026-0001', issue_date: issueDate };
+    rendered = await renderDocument({ ...invoice, invoice_number: original ? 'GS-2026-0001' : invoice.invoice_number, original_invoice: original }, 'invoice', language, layout);
+  }
+  return rendered.doc.output('blob');
+};
+
+export default generateDocumentPDF;
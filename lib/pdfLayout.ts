@@ -0,0 +1,91 @@
+import { supabase } from '../services/supabase';
+import { PdfLayout, PdfLayoutDocumentType } from '../types';
+import { DEFAULT_PDF_LAYOUT } from '../constants';
+
+export const PDF_LAYOUT_DOCUMENT_TYPES: PdfLayoutDocumentType[] = ['invoice', 'credit_note', 'cancellation', 'quote', 'reminder', 'purchase_order'];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Returns the layout used for a document type until the organization configures its own.
+ * @param orgId The UUID of the organization.
+ * @param documentType The document type.
+ * @returns The default layout.
+ */
+export const getDefaultPdfLayout = (orgId: string, documentType: PdfLayoutDocumentType): PdfLayout => ({
+  org_id: orgId,
+  document_type: documentType,
+  ...DEFAULT_PDF_LAYOUT,
+});
+
+/**
+ * Converts a hex colour to the RGB values used by jsPDF.
+ * @param hex The colour, e.g. '#1d4ed8'.
+ * @returns The red, green and blue values, or the default accent colour if the value is invalid.
+ */
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const color = HEX_COLOR.test(hex) ? hex : DEFAULT_PDF_LAYOUT.accent_color;
+  return [1, 3, 5].map(index => parseInt(color.slice(index, index + 2), 16)) as [number, number, number];
+};
+
+/**
+ * Fetches the PDF layouts of an organization, falling back to the default per document type.
+ * @param orgId The UUID of the organization.
+ * @returns The layouts by document type.
+ */
+export const getPdfLayouts = async (orgId: string): Promise<Record<PdfLayoutDocumentType, PdfLayout>> => {
+  const { data, error } = await supabase
+    .from('pdf_layouts')
+    .select('*')
+    .eq('org_id', orgId);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const layouts = Object.fromEntries(PDF_LAYOUT_DOCUMENT_TYPES.map(type => [type, getDefaultPdfLayout(orgId, type)])) as Record<PdfLayoutDocumentType, PdfLayout>;
+  for (const layout of (data || []) as PdfLayout[]) {
+    layouts[layout.document_type] = { ...getDefaultPdfLayout(orgId, layout.document_type), ...layout };
+  }
+  return layouts;
+};
+
+/**
+ * Fetches the PDF layout of one document type.
+ * @param orgId The UUID of the organization.
+ * @param documentType The document type.
+ * @returns The configured layout or the default one.
+ */
+export const getPdfLayout = async (orgId: string, documentType: PdfLayoutDocumentType): Promise<PdfLayout> => {
+  const { data, error } = await supabase
+    .from('pdf_layouts')
+    .select('*')
+    .eq('org_id', orgId)
+    .eq('document_type', documentType)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return { ...getDefaultPdfLayout(orgId, documentType), ...(data || {}) };
+};
+
+/**
+ * Saves the PDF layout of one document type.
+ * @param layout The layout.
+ */
+export const savePdfLayout = async (layout: PdfLayout) => {
+  if (!HEX_COLOR.test(layout.accent_color)) {
+    throw new Error("The accent colour must be a hex colour like #1d4ed8.");
+  }
+
+  const { error } = await supabase
+    .from('pdf_layouts')
+    .upsert({
+      ...layout,
+      intro_text: layout.intro_text?.trim() || null,
+      closing_text: layout.closing_text?.trim() || null,
+    }, { onConflict: 'org_id,document_type' });
+
+  if (error) throw new Error(error.message);
+};
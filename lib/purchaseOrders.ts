@@ -0,0 +1,138 @@
+import { supabase } from '../services/supabase';
+import { PurchaseOrderItem, PurchaseOrderStatus } from '../types';
+import { fromCents, multiplyToCents } from './money';
+import { postStockMovements, roundQuantity, NewStockMovement } from './stock';
+
+export interface GoodsReceipt {
+  itemId: number;
+  quantity: number;
+}
+
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['draft', 'ordered', 'partially_received', 'received'];
+
+/**
+ * Calculates the net value of a purchase order.
+ * @param items The items of the purchase order.
+ * @returns The sum of quantity times purchase price, in euros.
+ */
+export const getPurchaseOrderTotal = (items: Pick<PurchaseOrderItem, 'quantity' | 'unit_price'>[]): number =>
+  fromCents(items.reduce((sum, item) => sum + multiplyToCents(item.quantity, item.unit_price), 0));
+
+/**
+ * Returns the quantity of an item that has not been received yet.
+ * @param item The purchase order item.
+ * @returns The open quantity, never negative.
+ */
+export const getOpenQuantity = (item: Pick<PurchaseOrderItem, 'quantity' | 'received_quantity'>): number =>
+  Math.max(0, roundQuantity(Number(item.quantity) - (Number(item.received_quantity) || 0)));
+
+/**
+ * Derives the status of a purchase order from the received quantities of its items. Orders
+ * without any goods receipt keep their status.
+ * @param status The current status.
+ * @param items The items of the purchase order.
+ * @returns 'received' once every item is complete, 'partially_received' once anything arrived.
+ */
+export const getPurchaseOrderStatus = (
+  status: PurchaseOrderStatus,
+  items: Pick<PurchaseOrderItem, 'quantity' | 'received_quantity'>[]
+): PurchaseOrderStatus => {
+  if (!items.some(item => Number(item.received_quantity) > 0)) return status === 'draft' ? 'draft' : 'ordered';
+  return items.every(item => getOpenQuantity(item) === 0) ? 'received' : 'partially_received';
+};
+
+// Sets the received quantity of items back after a failed goods receipt.
+const restoreReceivedQuantities = async (items: Pick<PurchaseOrderItem, 'id' | 'received_quantity'>[]) => {
+  for (const item of items) {
+    await supabase.from('purchase_order_items').update({ received_quantity: item.received_quantity }).eq('id', item.id);
+  }
+};
+
+/**
+ * Books a goods receipt for a purchase order: the received quantities are added to the items and
+ * posted to the stock ledger of the main warehouse, and every received product remembers the supplier and purchase price
+ * as its preferred ones. Each item is updated only if nobody received it in the meantime, so
+ * concurrent receipts are never booked twice.
+ * @param purchaseOrderId The ID of the purchase order.
+ * @param receipts The quantity received per item.
+ * @param userId The ID of the user booking the receipt.
+ * @returns The new status of the purchase order.
+ */
+export const receivePurchaseOrderItems = async (purchaseOrderId: number, receipts: GoodsReceipt[], userId: string): Promise<PurchaseOrderStatus> => {
+  const { data: order, error } = await supabase
+    .from('purchase_orders')
+    .select('id, org_id, supplier_id, order_number, status, purchase_order_items:purchase_order_items!left(id, product_id, quantity, received_quantity, unit_price)')
+    .eq('id', purchaseOrderId)
+    .single();
+
+  if (error || !order) {
+    throw new Error(error?.message || 'Purchase order not found.');
+  }
+  if (order.status === 'draft') {
+    throw new Error('The purchase order has not been ordered yet.');
+  }
+
+  const items: Pick<PurchaseOrderItem, 'id' | 'product_id' | 'quantity' | 'received_quantity' | 'unit_price'>[] = order.purchase_order_items || [];
+  const bookings = receipts
+    .filter(receipt => roundQuantity(receipt.quantity) > 0)
+    .map(receipt => {
+      const item = items.find(i => i.id === receipt.itemId);
+      if (!item) throw new Error(`Item ${receipt.itemId} does not belong to purchase order ${order.order_number}.`);
+      if (roundQuantity(receipt.quantity) > getOpenQuantity(item)) {
+        throw new Error(`Only ${getOpenQuantity(item)} of an item are still open on purchase order ${order.order_number}.`);
+      }
+      return { item, quantity: roundQuantity(receipt.quantity) };
+    });
+  if (bookings.length === 0) return order.status;
+
+  const booked: typeof items = [];
+  for (const { item, quantity } of bookings) {
+    const { data: claimed, error: claimError } = await supabase
+      .from('purchase_order_items')
+      .update({ received_quantity: roundQuantity((Number(item.received_quantity) || 0) + quantity) })
+      .eq('id', item.id)
+      .eq('received_quantity', item.received_quantity)
+      .select('id');
+    if (claimError || !claimed || claimed.length === 0) {
+      await restoreReceivedQuantities(booked);
+      throw new Error(claimError?.message || `Goods were received for purchase order ${order.order_number} in the meantime. Please reload and try again.`);
+    }
+    booked.push(item);
+  }
+
+  const movements: NewStockMovement[] = bookings.map(({ item, quantity }) => ({
+    org_id: order.org_id,
+    product_id: item.product_id,
+    movement_type: 'receipt',
+    quantity,
+    source_type: 'purchase_order',
+    source_id: order.id,
+    location_id: null,
+    note: order.order_number,
+    created_by: userId,
+  }));
+  try {
+    await postStockMovements(movements);
+  } catch (stockError) {
+    await restoreReceivedQuantities(booked);
+    throw stockError;
+  }
+
+  for (const { item } of bookings) {
+    const { error: productError } = await supabase
+      .from('products')
+      .update({ purchase_price: item.unit_price, preferred_supplier_id: order.supplier_id })
+      .eq('id', item.product_id);
+    if (productError) throw new Error(productError.message);
+  }
+
+  const receivedById = new Map(bookings.map(({ item, quantity }) => [item.id, quantity]));
+  const status = getPurchaseOrderStatus(order.status, items.map(item => ({
+    ...item,
+    received_quantity: roundQuantity((Number(item.received_quantity) || 0) + (receivedById.get(item.id) || 0)),
+  })));
+  const { error: statusError } = await supabase.from('purchase_orders').update({ status }).eq('id', order.id);
+  if (statusError) throw new Error(statusError.message);
+
+  return status;
+};
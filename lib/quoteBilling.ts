@@ -0,0 +1,260 @@
+import { supabase } from '../services/supabase';
+import { DiscountType, Invoice, InvoiceBillingType, InvoiceItem, Profile, Quote, QuoteItem } from '../types';
+import { generateNextNumber } from './numberGenerator';
+import { calculateDocumentTotals, isBindingItem, getDocumentTotal } from './documentTotals';
+import { roundMoney, sumMoney } from './money';
+import { formatEuropeanDate } from './formatting';
+import { addDays, format } from 'date-fns';
+
+export type QuoteInvoice = Pick<Invoice, 'id' | 'invoice_number' | 'issue_date' | 'total_amount' | 'status' | 'billing_type'> & {
+  invoice_items?: InvoiceItem[];
+};
+
+export interface QuoteBillingSummary {
+  invoices: QuoteInvoice[]; // All invoices of the quote, including cancelled ones
+  invoicedAmount: number; // Gross total of the invoices that are not cancelled
+  remainingAmount: number;
+  isFullyBilled: boolean; // True once the quote was converted as a whole or a final invoice exists
+}
+
+export interface DownPaymentAmount {
+  type: DiscountType; // A percentage of the quote total or a fixed gross amount
+  value: number;
+}
+
+type QuoteInvoiceItem = Omit<InvoiceItem, 'id' | 'invoice_id'>;
+
+const EPSILON = 0.005;
+
+const toISODate = (date: Date) => format(date, 'yyyy-MM-dd');
+const isActive = (invoice: QuoteInvoice) => invoice.status !== 'cancelled';
+
+/**
+ * Fetches the invoices that bill a quote.
+ * @param quoteId The ID of the quote.
+ * @returns The invoices with their items, oldest first.
+ */
+export const getQuoteInvoices = async (quoteId: number): Promise<QuoteInvoice[]> => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('id, invoice_number, issue_date, total_amount, status, billing_type, invoice_items:invoice_items!left(*)')
+    .eq('quote_id', quoteId)
+    .eq('document_type', 'invoice')
+    .order('id', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data || []) as QuoteInvoice[];
+};
+
+/**
+ * Calculates how much of a quote has been invoiced. Cancelled invoices do not count.
+ * @param quote The quote with its total.
+ * @param invoices The invoices of the quote.
+ * @returns The invoiced and remaining amounts.
+ */
+export const summarizeQuoteBilling = (quote: Pick<Quote, 'total_amount'>, invoices: QuoteInvoice[]): QuoteBillingSummary => {
+  const active = invoices.filter(isActive);
+  const invoicedAmount = sumMoney(active.map(i => i.total_amount));
+  return {
+    invoices,
+    invoicedAmount,
+    remainingAmount: roundMoney(Number(quote.total_amount) - invoicedAmount),
+    isFullyBilled: active.some(i => i.billing_type === 'full' || i.billing_type === 'final'),
+  };
+};
+
+/**
+ * Fetches the invoices of a quote and calculates how much of it has been invoiced.
+ * @param quote The quote.
+ * @returns The billing summary.
+ */
+export const getQuoteBillingSummary = async (quote: Pick<Quote, 'id' | 'total_amount'>): Promise<QuoteBillingSummary> =>
+  summarizeQuoteBilling(quote, await getQuoteInvoices(quote.id));
+
+/**
+ * Builds the items of a down payment invoice (Abschlagsrechnung): one line per VAT rate of the quote,
+ * each carrying the same share of that rate's net amount.
+ * @param quote The quote with its items and document discount.
+ * @param grossAmount The gross amount of the down payment.
+ * @param sequence The number of the down payment, counting from 1.
+ * @returns The invoice items without IDs.
+ */
+export const buildDownPaymentItems = (quote: Quote, grossAmount: number, sequence: number): QuoteInvoiceItem[] => {
+  const totals = calculateDocumentTotals(quote.quote_items || [], { discount_type: quote.discount_type, discount_value: quote.discount_value });
+  if (totals.grandTotal <= 0) return [];
+  const share = grossAmount / totals.grandTotal;
+
+  return totals.vatBreakdown
+    .filter(({ taxableAmount }) => taxableAmount !== 0)
+    .map(({ rate, taxableAmount }) => ({
+      product_id: null,
+      description: `${sequence}. Abschlag auf Angebot ${quote.quote_number}`,
+      quantity: 1,
+      unit_price: roundMoney(taxableAmount * share),
+      vat_rate: rate,
+    }));
+};
+
+/**
+ * Builds the items of a final invoice (Schlussrechnung): all chosen quote items, followed by one line per
+ * VAT rate of every down payment invoice that deducts its net amount, so its VAT is deducted as well.
+ * Deductions carry a negative quantity, since EN 16931 does not allow negative item prices (BR-27).
+ * @param quoteItems The items of the quote.
+ * @param downPayments The down payment invoices with their items.
+ * @returns The invoice items without IDs.
+ */
+export const buildFinalInvoiceItems = (quoteItems: QuoteItem[], downPayments: QuoteInvoice[]): QuoteInvoiceItem[] => {
+  const items: QuoteInvoiceItem[] = quoteItems.filter(isBindingItem).map(item => ({
+    product_id: item.product_id,
+    description: item.description,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    vat_rate: item.vat_rate,
+    discount_type: item.discount_type,
+    discount_value: item.discount_value,
+  }));
+
+  for (const downPayment of downPayments) {
+    const { vatBreakdown } = calculateDocumentTotals(downPayment.invoice_items || []);
+    for (const { rate, taxableAmount } of vatBreakdown) {
+      items.push({
+        product_id: null,
+        description: `abzgl. Abschlagsrechnung ${downPayment.invoice_number} vom ${formatEuropeanDate(downPayment.issue_date)}`,
+        quantity: -1,
+        unit_price: taxableAmount,
+        vat_rate: rate,
+        deducted_invoice_id: downPayment.id,
+      });
+    }
+  }
+
+  return items;
+};
+
+// Fetches a quote with its items, ensuring it belongs to the user's organization.
+const fetchQuote = async (quoteId: number, profile: Profile): Promise<Quote> => {
+  if (!profile.org_id) {
+    throw new Error("User is not associated with an organization.");
+  }
+
+  const { data, error } = await supabase
+    .from('quotes')
+    .select('*, quote_items:quote_items!left(*)')
+    .eq('id', quoteId)
+    .eq('org_id', profile.org_id)
+    .limit(1);
+
+  const quote = data?.[0] as Quote | undefined;
+  if (error || !quote) {
+    throw new Error(error?.message || "Quote not found or you do not have permission to access it.");
+  }
+  if (quote.status !== 'accepted') {
+    throw new Error(`Quote #${quote.quote_number} has not been accepted yet.`);
+  }
+  return quote;
+};
+
+// Creates a draft invoice for a quote with the given items.
+const createQuoteInvoice = async (quote: Quote, profile: Profile, billingType: InvoiceBillingType, items: QuoteInvoiceItem[], notes: string): Promise<Invoice> => {
+  const orgId = profile.org_id!;
+  const invoiceNumber = await generateNextNumber(orgId, 'invoice');
+  const documentDiscount = billingType === 'final' ? { discount_type: quote.discount_type, discount_value: quote.discount_value } : {};
+  const today = new Date();
+
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .insert({
+      user_id: profile.id,
+      org_id: orgId,
+      customer_id: quote.customer_id,
+      invoice_number: invoiceNumber,
+      issue_date: toISODate(today),
+      due_date: toISODate(addDays(today, 14)),
+      total_amount: calculateDocumentTotals(items, documentDiscount).grandTotal,
+      status: 'draft',
+      notes,
+      document_type: 'invoice',
+      original_invoice_id: null,
+      tax_treatment: quote.tax_treatment,
+      quote_id: quote.id,
+      billing_type: billingType,
+      ...documentDiscount,
+    })
+    .select()
+    .single();
+
+  if (error || !invoice) {
+    throw new Error(error?.message || "Failed to create invoice.");
+  }
+
+  const { error: itemsError } = await supabase
+    .from('invoice_items')
+    .insert(items.map(item => ({ ...item, invoice_id: invoice.id })));
+
+  if (itemsError) {
+    await supabase.from('invoices').delete().eq('id', invoice.id);
+    throw new Error(itemsError.message);
+  }
+
+  invoice.total_amount = await getDocumentTotal('invoice', invoice.id);
+  return invoice as Invoice;
+};
+
+/**
+ * Creates a down payment invoice (Abschlagsrechnung) for an accepted quote.
+ * @param quoteId The ID of the quote.
+ * @param amount The down payment as a percentage of the quote total or as a gross amount.
+ * @param profile The profile of the user performing the action.
+ * @returns The newly created invoice.
+ */
+export const createDownPaymentInvoice = async (quoteId: number, amount: DownPaymentAmount, profile: Profile): Promise<Invoice> => {
+  const quote = await fetchQuote(quoteId, profile);
+  const summary = summarizeQuoteBilling(quote, await getQuoteInvoices(quoteId));
+
+  if (summary.isFullyBilled) {
+    throw new Error(`Quote #${quote.quote_number} has already been billed in full.`);
+  }
+
+  const grossAmount = roundMoney(amount.type === 'percent' ? Number(quote.total_amount) * amount.value / 100 : amount.value);
+  if (grossAmount <= 0) {
+    throw new Error("The down payment must be greater than zero.");
+  }
+  if (grossAmount > summary.remainingAmount + EPSILON) {
+    throw new Error(`The down payment exceeds the remaining amount of €${summary.remainingAmount.toFixed(2)}.`);
+  }
+
+  const sequence = summary.invoices.filter(i => isActive(i) && i.billing_type === 'down_payment').length + 1;
+  const items = buildDownPaymentItems(quote, grossAmount, sequence);
+  if (items.length === 0) {
+    throw new Error(`Quote #${quote.quote_number} has no amount to bill.`);
+  }
+
+  return createQuoteInvoice(quote, profile, 'down_payment', items, `${sequence}. Abschlagsrechnung zu Angebot ${quote.quote_number}`);
+};
+
+/**
+ * Creates the final invoice (Schlussrechnung) for an accepted quote. It lists all quote items and
+ * deducts the down payment invoices issued so far with their VAT.
+ * @param quoteId The ID of the quote.
+ * @param profile The profile of the user performing the action.
+ * @returns The newly created invoice.
+ */
+export const createFinalInvoice = async (quoteId: number, profile: Profile): Promise<Invoice> => {
+  const quote = await fetchQuote(quoteId, profile);
+  const invoices = await getQuoteInvoices(quoteId);
+
+  if (summarizeQuoteBilling(quote, invoices).isFullyBilled) {
+    throw new Error(`Quote #${quote.quote_number} has already been billed in full.`);
+  }
+
+  const downPayments = invoices.filter(i => isActive(i) && i.billing_type === 'down_payment');
+  const draft = downPayments.find(i => i.status === 'draft');
+  if (draft) {
+    throw new Error(`Down payment invoice #${draft.invoice_number} is still a draft. Issue or delete it first.`);
+  }
+
+  const items = buildFinalInvoiceItems(quote.quote_items || [], downPayments);
+  return createQuoteInvoice(quote, profile, 'final', items, `Schlussrechnung zu Angebot ${quote.quote_number}`);
+};
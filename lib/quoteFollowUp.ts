@@ -0,0 +1,192 @@
+import { supabase } from '../services/supabase';
+import { Quote, QuoteFollowUpSettings, Task } from '../types';
+import { createNotification } from './notifications';
+import { formatEuropeanDate, parseAsLocalDate } from './formatting';
+import { addDays, format, startOfDay } from 'date-fns';
+
+export type QuoteFollowUpKind = 'follow_up' | 'expiry_reminder';
+
+export interface QuoteFollowUpDates {
+  followUpDate: Date | null;
+  expiryReminderDate: Date | null;
+}
+
+type FollowUpQuote = Pick<Quote, 'id' | 'user_id' | 'org_id' | 'customer_id' | 'quote_number' | 'issue_date' | 'valid_until_date' | 'sent_at' | 'follow_up_created_at' | 'expiry_reminder_created_at'> & {
+  customers?: { name: string } | null;
+};
+
+const toISODate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Returns the follow-up settings used when an organization has not saved any.
+ * @param orgId The UUID of the organization.
+ * @returns A follow-up a week after sending and a reminder three days before expiry.
+ */
+export const getDefaultQuoteFollowUpSettings = (orgId: string): QuoteFollowUpSettings => ({
+  org_id: orgId,
+  follow_up_days: 7,
+  expiry_reminder_days: 3,
+});
+
+/**
+ * Fetches the follow-up settings of an organization, falling back to the defaults.
+ * @param orgId The UUID of the organization.
+ * @returns The settings.
+ */
+export const getQuoteFollowUpSettings = async (orgId: string): Promise<QuoteFollowUpSettings> => {
+  const { data, error } = await supabase
+    .from('quote_follow_up_settings')
+    .select('*')
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return { ...getDefaultQuoteFollowUpSettings(orgId), ...(data || {}) };
+};
+
+/**
+ * Saves the follow-up settings of an organization.
+ * @param settings The settings.
+ */
+export const saveQuoteFollowUpSettings = async (settings: QuoteFollowUpSettings) => {
+  const { error } = await supabase.from('quote_follow_up_settings').upsert(settings, { onConflict: 'org_id' });
+  if (error) throw new Error(error.message);
+};
+
+/**
+ * Flips all sent quotes of an organization whose valid until date has passed to 'expired'.
+ * @param orgId The UUID of the organization.
+ */
+export const markExpiredQuotes = async (orgId: string) => {
+  const { error } = await supabase
+    .from('quotes')
+    .update({ status: 'expired' })
+    .eq('org_id', orgId)
+    .eq('status', 'sent')
+    .lt('valid_until_date', toISODate(new Date()));
+
+  if (error) throw new Error(error.message);
+};
+
+/**
+ * Determines when the follow-up tasks of a sent quote are due. Quotes sent before sending was
+ * recorded count from their issue date.
+ * @param quote The quote.
+ * @param settings The follow-up settings.
+ * @returns The dates, null for disabled tasks.
+ */
+export const getQuoteFollowUpDates = (
+  quote: Pick<Quote, 'issue_date' | 'valid_until_date' | 'sent_at'>,
+  settings: QuoteFollowUpSettings
+): QuoteFollowUpDates => {
+  const sentAt = parseAsLocalDate(quote.sent_at || quote.issue_date);
+  const validUntil = parseAsLocalDate(quote.valid_until_date);
+  return {
+    followUpDate: sentAt && settings.follow_up_days != null ? startOfDay(addDays(sentAt, settings.follow_up_days)) : null,
+    expiryReminderDate: validUntil && settings.expiry_reminder_days != null ? addDays(validUntil, -settings.expiry_reminder_days) : null,
+  };
+};
+
+// The task to create for a quote today, if any. Once the reminder before expiry is due, the
+// follow-up after sending is no longer created separately.
+const getDueFollowUp = (quote: FollowUpQuote, settings: QuoteFollowUpSettings, today: Date): { kind: QuoteFollowUpKind; dueDate: Date } | null => {
+  const { followUpDate, expiryReminderDate } = getQuoteFollowUpDates(quote, settings);
+  if (expiryReminderDate && expiryReminderDate <= today && !quote.expiry_reminder_created_at) {
+    return { kind: 'expiry_reminder', dueDate: expiryReminderDate };
+  }
+  if (followUpDate && followUpDate <= today && !quote.follow_up_created_at && !quote.expiry_reminder_created_at) {
+    return { kind: 'follow_up', dueDate: followUpDate };
+  }
+  return null;
+};
+
+const getTaskTitle = (quote: FollowUpQuote, kind: QuoteFollowUpKind): string => {
+  const customer = quote.customers?.name ? ` (${quote.customers.name})` : '';
+  return kind === 'follow_up'
+    ? `Follow up on quote ${quote.quote_number}${customer}`
+    : `Quote ${quote.quote_number}${customer} expires on ${formatEuropeanDate(quote.valid_until_date)}`;
+};
+
+/**
+ * Creates the follow-up tasks of all sent quotes of an organization that are due: one a number of
+ * days after sending and one shortly before the quote expires. The tasks are assigned to the owner
+ * of the quote, who is notified. Each task is claimed on the quote first, so concurrent callers
+ * never create it twice.
+ * @param orgId The UUID of the organization.
+ * @returns The created tasks.
+ */
+export const createDueQuoteFollowUps = async (orgId: string): Promise<Task[]> => {
+  const settings = await getQuoteFollowUpSettings(orgId);
+  if (settings.follow_up_days == null && settings.expiry_reminder_days == null) return [];
+
+  const today = startOfDay(new Date());
+  const { data: quotes, error } = await supabase
+    .from('quotes')
+    .select('id, user_id, org_id, customer_id, quote_number, issue_date, valid_until_date, sent_at, follow_up_created_at, expiry_reminder_created_at, customers:customers!left(name)')
+    .eq('org_id', orgId)
+    .eq('status', 'sent')
+    .gte('valid_until_date', toISODate(today))
+    .is('expiry_reminder_created_at', null);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const created: Task[] = [];
+  const createdByOwner = new Map<string, Task[]>();
+
+  for (const quote of (quotes || []) as unknown as FollowUpQuote[]) {
+    const due = getDueFollowUp(quote, settings, today);
+    if (!due) continue;
+
+    const column = due.kind === 'follow_up' ? 'follow_up_created_at' : 'expiry_reminder_created_at';
+    const claimedAt = new Date().toISOString();
+    const { data: claimed, error: claimError } = await supabase
+      .from('quotes')
+      .update({ [column]: claimedAt })
+      .eq('id', quote.id)
+      .eq('status', 'sent')
+      .is(column, null)
+      .select('id');
+    if (claimError) throw new Error(claimError.message);
+    if (!claimed || claimed.length === 0) continue; // Another session already created this task.
+
+    const { data: task, error: taskError } = await supabase
+      .from('tasks')
+      .insert({
+        user_id: quote.user_id,
+        org_id: quote.org_id,
+        customer_id: quote.customer_id,
+        title: getTaskTitle(quote, due.kind),
+        due_date: due.dueDate.toISOString(),
+        is_complete: false,
+      })
+      .select()
+      .single();
+
+    if (taskError || !task) {
+      // Release the claim so the task is created next time.
+      await supabase.from('quotes').update({ [column]: null }).eq('id', quote.id);
+      throw new Error(taskError?.message || `Could not create the follow-up task for quote ${quote.quote_number}.`);
+    }
+
+    created.push(task);
+    createdByOwner.set(quote.user_id, [...(createdByOwner.get(quote.user_id) || []), task]);
+  }
+
+  for (const [ownerId, tasks] of createdByOwner) {
+    await createNotification({
+      user_id: ownerId,
+      org_id: orgId,
+      title: 'Quote Follow-ups',
+      body: tasks.length === 1 ? `New task: ${tasks[0].title}.` : `${tasks.length} follow-up tasks were created for your sent quotes.`,
+      type: 'new_task',
+      related_entity_path: '/tasks',
+      related_entity_id: tasks.length === 1 ? tasks[0].id : null,
+    });
+  }
+
+  return created;
+};
@@ -0,0 +1,147 @@
+import { supabase } from '../services/supabase';
+import { PublicQuote, Quote, QuoteLink } from '../types';
+import { parseAsLocalDate } from './formatting';
+import { endOfDay } from 'date-fns';
+
+export type QuoteLinkState = 'active' | 'expired' | 'revoked';
+
+export interface QuoteResponse {
+  accepted: boolean;
+  signerName: string;
+  signature: string | null; // PNG data URL of the drawn signature
+  selectedItemIds: number[]; // Optional and alternative items the customer chose
+}
+
+// Row returned by `respond_to_quote` for the quote that was answered.
+type RespondedQuote = Pick<Quote, 'status' | 'responded_at' | 'total_amount'>;
+
+// 32 random bytes as hex, so tokens cannot be guessed.
+const generateToken = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Returns the public URL of an acceptance link.
+ * @param token The token of the link.
+ * @returns The URL to send to the customer.
+ */
+export const getQuoteLinkUrl = (token: string): string =>
+  `${window.location.origin}${window.location.pathname}#/quote-response/${token}`;
+
+/**
+ * Determines whether an acceptance link can still be used. Links expire at the end of the quote's
+ * valid_until_date, so extending the quote extends its links.
+ * @param link The acceptance link.
+ * @param validUntilDate The valid_until_date of the quote.
+ * @returns The state of the link.
+ */
+export const getQuoteLinkState = (link: Pick<QuoteLink, 'revoked_at'>, validUntilDate: string | null | undefined): QuoteLinkState => {
+  if (link.revoked_at) return 'revoked';
+  const validUntil = parseAsLocalDate(validUntilDate);
+  return validUntil && endOfDay(validUntil) < new Date() ? 'expired' : 'active';
+};
+
+/**
+ * Fetches the acceptance links of a quote, newest first.
+ * @param quoteId The ID of the quote.
+ * @returns The links.
+ */
+export const getQuoteLinks = async (quoteId: number): Promise<QuoteLink[]> => {
+  const { data, error } = await supabase
+    .from('quote_links')
+    .select('*')
+    .eq('quote_id', quoteId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data || [];
+};
+
+/**
+ * Creates a new acceptance link for a quote.
+ * @param quote The quote.
+ * @param userId The ID of the user creating the link.
+ * @returns The created link.
+ */
+export const createQuoteLink = async (quote: Pick<Quote, 'id' | 'org_id' | 'valid_until_date'>, userId: string): Promise<QuoteLink> => {
+  if (getQuoteLinkState({ revoked_at: null }, quote.valid_until_date) === 'expired') {
+    throw new Error("The quote is no longer valid. Extend its valid until date before sharing it.");
+  }
+
+  const { data, error } = await supabase
+    .from('quote_links')
+    .insert({ org_id: quote.org_id, quote_id: quote.id, token: generateToken(), created_by: userId })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Could not create the acceptance link.");
+  }
+  return data;
+};
+
+/**
+ * Revokes an acceptance link, so the customer can no longer open it.
+ * @param linkId The ID of the link.
+ */
+export const revokeQuoteLink = async (linkId: number) => {
+  const { error } = await supabase
+    .from('quote_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', linkId);
+
+  if (error) throw new Error(error.message);
+};
+
+/**
+ * Loads a quote through its acceptance link. Customers are not signed in, so this goes through the
+ * `get_quote_by_token` RPC (supabase_quote_links.sql), which only returns quotes whose link is
+ * neither revoked nor expired.
+ * @param token The token of the link.
+ * @returns The quote, or null if the link is invalid, revoked or expired.
+ */
+export const getQuoteByToken = async (token: string): Promise<PublicQuote | null> => {
+  const { data, error } = await supabase.rpc('get_quote_by_token', { p_token: token });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data as PublicQuote | null) || null;
+};
+
+/**
+ * Accepts or declines a quote through its acceptance link. The `respond_to_quote` RPC
+ * (supabase_quote_links.sql) checks the link again, stores the status, the signature, the time and
+ * the IP address the request came from, and rejects quotes that were already answered. On acceptance
+ * it also marks the chosen optional and alternative items as selected, which recalculates the total.
+ * In the same transaction it notifies the creator of the quote; the customer answering the link has
+ * no session in the organization, so the notification cannot be created from here.
+ * @param token The token of the link.
+ * @param response The decision, the typed name, the drawn signature and the chosen options.
+ * @returns The updated status, response time and total.
+ */
+export const respondToQuote = async (token: string, response: QuoteResponse): Promise<Pick<Quote, 'status' | 'responded_at' | 'total_amount'>> => {
+  const signerName = response.signerName.trim();
+  if (!signerName) {
+    throw new Error("Please enter your name.");
+  }
+  if (response.accepted && !response.signature) {
+    throw new Error("Please sign to accept the quote.");
+  }
+
+  const { data, error } = await supabase.rpc('respond_to_quote', {
+    p_token: token,
+    p_accepted: response.accepted,
+    p_signer_name: signerName,
+    p_signature: response.signature,
+    p_selected_item_ids: response.accepted ? response.selectedItemIds : [],
+  });
+
+  if (error || !data) {
+    throw new Error(error?.message || "Your response could not be saved.");
+  }
+
+  const quote = data as RespondedQuote;
+  return { status: quote.status, responded_at: quote.responded_at, total_amount: quote.total_amount };
+};
@@ -0,0 +1,76 @@
+import { Quote, QuoteStatus } from '../types';
+import { sumMoney } from './money';
+import { parseAsLocalDate } from './formatting';
+import { differenceInCalendarDays } from 'date-fns';
+
+export type QuoteAgeBucketKey = 'age_0_7' | 'age_8_14' | 'age_15_30' | 'age_31_plus';
+
+export interface QuoteStatusSummary {
+  status: QuoteStatus;
+  count: number;
+  value: number;
+}
+
+export interface QuoteAgeBucket {
+  key: QuoteAgeBucketKey;
+  count: number;
+  value: number;
+}
+
+export interface OpenQuote {
+  quote: Quote;
+  ageDays: number; // Days since the quote was sent
+  daysUntilExpiry: number | null; // Negative once the valid until date has passed
+}
+
+export interface QuotePipeline {
+  statuses: QuoteStatusSummary[];
+  ageing: QuoteAgeBucket[];
+  openQuotes: OpenQuote[];
+}
+
+export const PIPELINE_STATUSES: QuoteStatus[] = ['draft', 'sent', 'accepted', 'declined', 'expired'];
+
+// Upper bound of each age bucket in days, inclusive.
+const AGE_BUCKETS: { key: QuoteAgeBucketKey; maxDays: number }[] = [
+  { key: 'age_0_7', maxDays: 7 },
+  { key: 'age_8_14', maxDays: 14 },
+  { key: 'age_15_30', maxDays: 30 },
+  { key: 'age_31_plus', maxDays: Infinity },
+];
+
+/**
+ * Summarizes quotes for the pipeline view: count and value per status, and how long the open
+ * (sent) quotes have been waiting for an answer. Quotes sent before sending was recorded count
+ * from their issue date.
+ * @param quotes The quotes.
+ * @param today The reference date, today if not given.
+ * @returns The pipeline, with the open quotes oldest first.
+ */
+export const buildQuotePipeline = (quotes: Quote[], today: Date = new Date()): QuotePipeline => {
+  const openQuotes: OpenQuote[] = quotes
+    .filter(quote => quote.status === 'sent')
+    .map(quote => {
+      const sentAt = parseAsLocalDate(quote.sent_at || quote.issue_date);
+      const validUntil = parseAsLocalDate(quote.valid_until_date);
+      return {
+        quote,
+        ageDays: sentAt ? Math.max(0, differenceInCalendarDays(today, sentAt)) : 0,
+        daysUntilExpiry: validUntil ? differenceInCalendarDays(validUntil, today) : null,
+      };
+    })
+    .sort((a, b) => b.ageDays - a.ageDays);
+
+  const statuses = PIPELINE_STATUSES.map(status => {
+    const matching = quotes.filter(quote => quote.status === status);
+    return { status, count: matching.length, value: sumMoney(matching.map(quote => quote.total_amount)) };
+  });
+
+  const ageing = AGE_BUCKETS.map(({ key, maxDays }, index) => {
+    const minDays = index === 0 ? 0 : AGE_BUCKETS[index - 1].maxDays + 1;
+    const matching = openQuotes.filter(open => open.ageDays >= minDays && open.ageDays <= maxDays);
+    return { key, count: matching.length, value: sumMoney(matching.map(open => open.quote.total_amount)) };
+  });
+
+  return { statuses, ageing, openQuotes };
+};
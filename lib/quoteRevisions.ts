@@ -0,0 +1,206 @@
+import { supabase } from '../services/supabase';
+import { Quote, QuoteItem, QuoteRevision, QuoteRevisionItem } from '../types';
+import { calculateDocumentTotals } from './documentTotals';
+import { toCents } from './money';
+import { parseAsLocalDate } from './formatting';
+import { format } from 'date-fns';
+
+// The content of one version of a quote, whether preserved in quote_revisions or current.
+export type QuoteVersion = Pick<QuoteRevision, 'version' | 'customer_id' | 'issue_date' | 'valid_until_date' | 'status' | 'notes' | 'discount_type' | 'discount_value' | 'tax_treatment' | 'total_amount' | 'items'>;
+
+export type StoredQuote = Quote & { quote_items: QuoteItem[] };
+
+export type LineChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface LineComparison {
+  change: LineChange;
+  before: QuoteRevisionItem | null;
+  after: QuoteRevisionItem | null;
+  changedFields: ('description' | 'quantity' | 'unit_price' | 'vat_rate' | 'discount' | 'item_type')[];
+  beforeNet: number;
+  afterNet: number;
+}
+
+export interface TotalComparison {
+  key: 'itemsTotal' | 'documentDiscount' | 'subtotal' | 'totalVat' | 'grandTotal';
+  before: number;
+  after: number;
+}
+
+export interface QuoteComparison {
+  lines: LineComparison[];
+  totals: TotalComparison[];
+}
+
+const TOTAL_KEYS: TotalComparison['key'][] = ['itemsTotal', 'documentDiscount', 'subtotal', 'totalVat', 'grandTotal'];
+
+// Strips the database fields of an item, keeping what is printed on the quote.
+const toRevisionItem = (item: Partial<QuoteItem>): QuoteRevisionItem => ({
+  product_id: item.product_id ?? null,
+  description: item.description || '',
+  quantity: Number(item.quantity) || 0,
+  unit_price: Number(item.unit_price) || 0,
+  vat_rate: Number(item.vat_rate) || 0,
+  discount_type: Number(item.discount_value) > 0 ? item.discount_type || 'percent' : null,
+  discount_value: Number(item.discount_value) > 0 ? Number(item.discount_value) : null,
+  item_type: item.item_type || 'standard',
+  alternative_group: item.item_type === 'alternative' ? item.alternative_group || null : null,
+  is_selected: item.item_type === 'optional' || item.item_type === 'alternative' ? !!item.is_selected : null,
+});
+
+// Dates are stored as 'yyyy-MM-dd' but held as ISO timestamps in the editor.
+const toDateKey = (date: string | null | undefined) => {
+  const parsed = parseAsLocalDate(date);
+  return parsed ? format(parsed, 'yyyy-MM-dd') : '';
+};
+
+// Everything a customer sees on the quote, to tell content changes from status changes. Choosing
+// options is not a change of the offer either.
+const getContentKey = (quote: Partial<Quote>, items: Partial<QuoteItem>[]) => JSON.stringify({
+  customer_id: Number(quote.customer_id),
+  issue_date: toDateKey(quote.issue_date),
+  valid_until_date: toDateKey(quote.valid_until_date),
+  notes: quote.notes || '',
+  discount_type: Number(quote.discount_value) > 0 ? quote.discount_type || 'percent' : null,
+  discount_value: Number(quote.discount_value) > 0 ? Number(quote.discount_value) : null,
+  items: items.map(item => ({ ...toRevisionItem(item), is_selected: null })),
+});
+
+// Lines are matched by product, free-text lines by description.
+const getLineKey = (item: QuoteRevisionItem) =>
+  item.product_id ? `product:${item.product_id}` : `text:${item.description.trim().toLowerCase()}`;
+
+/**
+ * Builds the version of a quote as it is currently stored.
+ * @param quote The quote.
+ * @param items The items of the quote.
+ * @returns The current version.
+ */
+export const toQuoteVersion = (quote: Quote, items: Partial<QuoteItem>[]): QuoteVersion => ({
+  version: quote.version || 1,
+  customer_id: quote.customer_id,
+  issue_date: quote.issue_date,
+  valid_until_date: quote.valid_until_date,
+  status: quote.status,
+  notes: quote.notes,
+  discount_type: quote.discount_type ?? null,
+  discount_value: quote.discount_value ?? null,
+  tax_treatment: quote.tax_treatment ?? null,
+  total_amount: quote.total_amount,
+  items: items.map(toRevisionItem),
+});
+
+/**
+ * Fetches the stored state of a quote with its items in their original order.
+ * @param quoteId The ID of the quote.
+ * @returns The quote with its items.
+ */
+export const getStoredQuote = async (quoteId: number): Promise<StoredQuote> => {
+  const { data, error } = await supabase
+    .from('quotes')
+    .select('*, quote_items:quote_items!left(*)')
+    .eq('id', quoteId)
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Quote not found.");
+  }
+  const quote = data as StoredQuote;
+  return { ...quote, quote_items: [...(quote.quote_items || [])].sort((a, b) => a.id - b.id) };
+};
+
+/**
+ * Determines whether saving the edited quote creates a new version. Only quotes that left the
+ * draft stage are revised, and only when something the customer sees changes, not for status changes.
+ * @param stored The quote as stored.
+ * @param edited The edited quote.
+ * @param items The edited items.
+ * @returns True if the stored version has to be preserved first.
+ */
+export const needsQuoteRevision = (stored: StoredQuote, edited: Partial<Quote>, items: Partial<QuoteItem>[]): boolean =>
+  stored.status !== 'draft' && getContentKey(stored, stored.quote_items) !== getContentKey(edited, items);
+
+/**
+ * Preserves the stored version of a quote before it is overwritten by the next version.
+ * @param stored The quote as stored, with its items.
+ * @param userId The ID of the user revising the quote.
+ * @returns The number of the next version.
+ */
+export const createQuoteRevision = async (stored: StoredQuote, userId: string): Promise<number> => {
+  const version = toQuoteVersion(stored, stored.quote_items);
+  const { error } = await supabase.from('quote_revisions').insert({
+    ...version,
+    org_id: stored.org_id,
+    quote_id: stored.id,
+    created_by: userId,
+  });
+
+  if (error) {
+    throw new Error(`Could not preserve version ${version.version} of the quote: ${error.message}`);
+  }
+  return version.version + 1;
+};
+
+/**
+ * Fetches the preserved versions of a quote, newest first.
+ * @param quoteId The ID of the quote.
+ * @returns The revisions.
+ */
+export const getQuoteRevisions = async (quoteId: number): Promise<QuoteRevision[]> => {
+  const { data, error } = await supabase
+    .from('quote_revisions')
+    .select('*')
+    .eq('quote_id', quoteId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data || [];
+};
+
+/**
+ * Compares two versions of a quote line by line and by their totals.
+ * @param before The older version.
+ * @param after The newer version.
+ * @returns The compared lines in the order of the newer version, followed by removed lines, and the compared totals.
+ */
+export const compareQuoteVersions = (before: QuoteVersion, after: QuoteVersion): QuoteComparison => {
+  const beforeTotals = calculateDocumentTotals(before.items, before);
+  const afterTotals = calculateDocumentTotals(after.items, after);
+  const unmatched = before.items.map((item, index) => ({ item, index }));
+
+  const lines: LineComparison[] = after.items.map((item, index) => {
+    const afterNet = afterTotals.lines[index].net;
+    const matchIndex = unmatched.findIndex(candidate => getLineKey(candidate.item) === getLineKey(item));
+    if (matchIndex === -1) {
+      return { change: 'added', before: null, after: item, changedFields: [], beforeNet: 0, afterNet };
+    }
+
+    const [match] = unmatched.splice(matchIndex, 1);
+    const changedFields: LineComparison['changedFields'] = [];
+    if (match.item.description !== item.description) changedFields.push('description');
+    if (match.item.quantity !== item.quantity) changedFields.push('quantity');
+    if (toCents(match.item.unit_price) !== toCents(item.unit_price)) changedFields.push('unit_price');
+    if (match.item.vat_rate !== item.vat_rate) changedFields.push('vat_rate');
+    if (match.item.discount_type !== item.discount_type || match.item.discount_value !== item.discount_value) changedFields.push('discount');
+    if ((match.item.item_type || 'standard') !== (item.item_type || 'standard') || (match.item.alternative_group || null) !== (item.alternative_group || null)) changedFields.push('item_type');
+    return {
+      change: changedFields.length > 0 ? 'changed' : 'unchanged',
+      before: match.item,
+      after: item,
+      changedFields,
+      beforeNet: beforeTotals.lines[match.index].net,
+      afterNet,
+    };
+  });
+
+  for (const { item, index } of unmatched) {
+    lines.push({ change: 'removed', before: item, after: null, changedFields: [], beforeNet: beforeTotals.lines[index].net, afterNet: 0 });
+  }
+
+  return {
+    lines,
+    totals: TOTAL_KEYS.map(key => ({ key, before: beforeTotals[key], after: afterTotals[key] })),
+  };
+};
@@ -0,0 +1,342 @@
+import { supabase } from '../services/supabase';
+import { Invoice, Profile, RecurrenceInterval, RecurringInvoiceItem, RecurringInvoiceTemplate } from '../types';
+import { generateNextNumber } from './numberGenerator';
+import { createNotification } from './notifications';
+import { formatEuropeanDate, parseAsLocalDate } from './formatting';
+import { calculateDocumentTotals, getDocumentTotal } from './documentTotals';
+import { syncInvoiceStock } from './stock';
+import { getOrganizationTaxSettings, getTaxRules, applyTaxRules, OrganizationTaxSettings } from './taxEngine';
+import { addDays, addMonths, format, startOfDay } from 'date-fns';
+
+export type RecurringTemplatePayload = Omit<RecurringInvoiceTemplate, 'id' | 'user_id' | 'org_id' | 'customers' | 'recurring_invoice_items'>;
+export type RecurringItemPayload = Omit<RecurringInvoiceItem, 'id' | 'template_id'>;
+
+export interface RecurringInvoiceRunResult {
+  invoices: Invoice[];
+  failed: { template: RecurringInvoiceTemplate; runDate: string; error: string }[];
+}
+
+const INTERVAL_MONTHS: Record<RecurrenceInterval, number> = {
+  monthly: 1,
+  quarterly: 3,
+  half_yearly: 6,
+  yearly: 12,
+};
+
+const toISODate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Calculates the scheduled run dates of a template. Dates are always derived from the start date,
+ * so a template starting on the 31st runs on the last day of shorter months without drifting.
+ * @param template The template with its schedule.
+ * @param after Only dates strictly after this date are returned.
+ * @param count The maximum number of dates to return.
+ * @returns The run dates as 'yyyy-MM-dd' strings, ending at the template's end date.
+ */
+export const getRunDatesAfter = (
+  template: Pick<RecurringInvoiceTemplate, 'interval' | 'start_date' | 'end_date'>,
+  after: Date,
+  count: number
+): string[] => {
+  const start = parseAsLocalDate(template.start_date);
+  if (!start) return [];
+  const end = parseAsLocalDate(template.end_date);
+  const months = INTERVAL_MONTHS[template.interval];
+
+  const dates: string[] = [];
+  for (let n = 0; dates.length < count; n++) {
+    const runDate = addMonths(start, n * months);
+    if (end && runDate > end) break;
+    if (runDate > after) dates.push(toISODate(runDate));
+  }
+  return dates;
+};
+
+/**
+ * Lists the next scheduled runs of an active template, starting with its next run date.
+ * @param template The template.
+ * @param count The number of runs to list.
+ * @returns The upcoming run dates, or an empty list if the template is paused or ended.
+ */
+export const getUpcomingRuns = (template: RecurringInvoiceTemplate, count: number = 3): string[] => {
+  if (template.status !== 'active') return [];
+  const nextRun = parseAsLocalDate(template.next_run_date);
+  if (!nextRun) return [];
+  return [template.next_run_date, ...getRunDatesAfter(template, nextRun, count - 1)];
+};
+
+// Returns the schedule state after the run on `runDate`: the following run date, or 'ended' if there is none.
+const getScheduleAfterRun = (template: RecurringInvoiceTemplate, runDate: string): Pick<RecurringInvoiceTemplate, 'next_run_date' | 'status'> => {
+  const [following] = getRunDatesAfter(template, parseAsLocalDate(runDate)!, 1);
+  return following ? { next_run_date: following, status: template.status } : { next_run_date: runDate, status: 'ended' };
+};
+
+/**
+ * Fetches all recurring invoice templates of an organization.
+ * @param orgId The UUID of the organization.
+ * @returns The templates with customer and items, ordered by next run date.
+ */
+export const getRecurringTemplates = async (orgId: string): Promise<RecurringInvoiceTemplate[]> => {
+  const { data, error } = await supabase
+    .from('recurring_invoice_templates')
+    .select('*, customers:customers!left(name, email), recurring_invoice_items:recurring_invoice_items!left(*)')
+    .eq('org_id', orgId)
+    .order('next_run_date');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data || []) as RecurringInvoiceTemplate[];
+};
+
+/**
+ * Creates or updates a recurring invoice template and replaces its items.
+ * @param templateId The ID of the template to update, or null to create one.
+ * @param payload The template fields.
+ * @param items The items that every generated invoice receives.
+ * @param profile The profile of the user saving the template; becomes the owner of a new template.
+ * @returns The saved template.
+ */
+export const saveRecurringTemplate = async (
+  templateId: number | null,
+  payload: RecurringTemplatePayload,
+  items: RecurringItemPayload[],
+  profile: Profile
+): Promise<RecurringInvoiceTemplate> => {
+  if (!profile.org_id) {
+    throw new Error("User is not associated with an organization.");
+  }
+
+  const query = templateId
+    ? supabase.from('recurring_invoice_templates').update(payload).eq('id', templateId)
+    : supabase.from('recurring_invoice_templates').insert({ ...payload, user_id: profile.id, org_id: profile.org_id });
+  const { data: template, error } = await query.select().single();
+
+  if (error || !template) {
+    throw new Error(error?.message || "Failed to save recurring invoice.");
+  }
+
+  const { error: deleteError } = await supabase.from('recurring_invoice_items').delete().eq('template_id', template.id);
+  if (deleteError) throw new Error(deleteError.message);
+
+  if (items.length > 0) {
+    const { error: itemsError } = await supabase
+      .from('recurring_invoice_items')
+      .insert(items.map(item => ({ ...item, template_id: template.id })));
+    if (itemsError) throw new Error(itemsError.message);
+  }
+
+  return template as RecurringInvoiceTemplate;
+};
+
+/**
+ * Deletes a recurring invoice template. Invoices generated from it are kept.
+ * @param templateId The ID of the template.
+ */
+export const deleteRecurringTemplate = async (templateId: number) => {
+  const { error: itemsError } = await supabase.from('recurring_invoice_items').delete().eq('template_id', templateId);
+  if (itemsError) throw new Error(itemsError.message);
+
+  const { error } = await supabase.from('recurring_invoice_templates').delete().eq('id', templateId);
+  if (error) throw new Error(error.message);
+};
+
+/**
+ * Skips the next run of a template without generating an invoice.
+ * @param template The template.
+ */
+export const skipNextRun = async (template: RecurringInvoiceTemplate) => {
+  const { error } = await supabase
+    .from('recurring_invoice_templates')
+    .update(getScheduleAfterRun(template, template.next_run_date))
+    .eq('id', template.id);
+
+  if (error) throw new Error(error.message);
+};
+
+/**
+ * Pauses or resumes a template. Runs that fell into the paused period are not generated afterwards;
+ * on resume the next run moves to the first scheduled date from today on.
+ * @param template The template.
+ * @param paused True to pause, false to resume.
+ */
+export const setTemplatePaused = async (template: RecurringInvoiceTemplate, paused: boolean) => {
+  let update: Pick<RecurringInvoiceTemplate, 'status'> & Partial<Pick<RecurringInvoiceTemplate, 'next_run_date'>> = { status: paused ? 'paused' : 'active' };
+
+  if (!paused && template.next_run_date < toISODate(new Date())) {
+    const [nextRun] = getRunDatesAfter(template, addDays(startOfDay(new Date()), -1), 1);
+    update = nextRun ? { status: 'active', next_run_date: nextRun } : { status: 'ended' };
+  }
+
+  const { error } = await supabase.from('recurring_invoice_templates').update(update).eq('id', template.id);
+  if (error) throw new Error(error.message);
+};
+
+// Creates one invoice from a template for the given run date. VAT rates follow the current tax rules,
+// so a change of the customer's country or VAT status is reflected in the next invoice.
+const createInvoiceFromTemplate = async (template: RecurringInvoiceTemplate, runDate: string, taxSettings: OrganizationTaxSettings): Promise<Invoice> => {
+  const taxRules = getTaxRules(taxSettings, template.customers);
+  const items = applyTaxRules(template.recurring_invoice_items || [], taxRules);
+  const totalAmount = calculateDocumentTotals(items).grandTotal;
+  const invoiceNumber = await generateNextNumber(template.org_id, 'invoice');
+
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .insert({
+      user_id: template.user_id,
+      org_id: template.org_id,
+      customer_id: template.customer_id,
+      invoice_number: invoiceNumber,
+      issue_date: runDate,
+      due_date: toISODate(addDays(parseAsLocalDate(runDate)!, template.payment_terms_days)),
+      total_amount: totalAmount,
+      // Issued invoices are locked together with their items, so the invoice is issued below.
+      status: 'draft',
+      notes: template.notes,
+      tax_treatment: taxRules.treatment,
+      document_type: 'invoice',
+      original_invoice_id: null,
+      recurring_template_id: template.id,
+    })
+    .select()
+    .single();
+
+  if (error || !invoice) {
+    throw new Error(error?.message || "Failed to create invoice.");
+  }
+
+  try {
+    if (items.length > 0) {
+      const { error: itemsError } = await supabase
+        .from('invoice_items')
+        .insert(items.map(({ id, template_id, ...item }) => ({ ...item, invoice_id: invoice.id })));
+      if (itemsError) throw new Error(itemsError.message);
+    }
+    invoice.total_amount = await getDocumentTotal('invoice', invoice.id);
+    if (template.issue_as !== 'draft') {
+      const { error: issueError } = await supabase.from('invoices').update({ status: template.issue_as }).eq('id', invoice.id);
+      if (issueError) throw new Error(issueError.message);
+      invoice.status = template.issue_as;
+    }
+  } catch (itemsError: any) {
+    try {
+      await rollbackTemplateInvoice(invoice.id);
+    } catch (rollbackError: any) {
+      throw new Error(`${itemsError.message} The draft invoice ${invoice.invoice_number} could not be removed and has to be deleted by hand: ${rollbackError.message}`);
+    }
+    throw itemsError;
+  }
+
+  // An issued invoice can no longer be removed, so a failed stock posting is logged instead of
+  // failing the run.
+  if (invoice.status !== 'draft') {
+    try {
+      await syncInvoiceStock(invoice.id, template.user_id);
+    } catch (stockError: any) {
+      console.error(`Error posting the stock of recurring invoice ${invoice.invoice_number}:`, stockError.message);
+    }
+  }
+
+  return invoice as Invoice;
+};
+
+// Removes the draft invoice of a run whose items could not be saved or which could not be issued.
+const rollbackTemplateInvoice = async (invoiceId: number) => {
+  const { error: itemsError } = await supabase.from('invoice_items').delete().eq('invoice_id', invoiceId);
+  if (itemsError) throw new Error(itemsError.message);
+  const { error: invoiceError } = await supabase.from('invoices').delete().eq('id', invoiceId);
+  if (invoiceError) throw new Error(invoiceError.message);
+};
+
+/**
+ * Generates the invoices of all active templates whose next run date has been reached, catching up
+ * on missed runs, and notifies the owner of each template about the generated and failed invoices.
+ * Each run is claimed by moving the template's next run date first, so concurrent callers never
+ * generate the same run twice. A template whose invoice fails is retried on the next call, but its
+ * owner is notified only once per failed run date; the other templates are still generated.
+ * @param orgId The UUID of the organization.
+ * @returns The generated invoices and the templates that failed.
+ */
+export const generateDueInvoices = async (orgId: string): Promise<RecurringInvoiceRunResult> => {
+  const todayStr = toISODate(new Date());
+  const { data: templates, error } = await supabase
+    .from('recurring_invoice_templates')
+    .select('*, customers:customers!left(*), recurring_invoice_items:recurring_invoice_items!left(*)')
+    .eq('org_id', orgId)
+    .eq('status', 'active')
+    .lte('next_run_date', todayStr);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const result: RecurringInvoiceRunResult = { invoices: [], failed: [] };
+  if (!templates || templates.length === 0) return result;
+  const taxSettings = await getOrganizationTaxSettings(orgId);
+
+  const generatedByOwner = new Map<string, Invoice[]>();
+
+  for (const template of templates as RecurringInvoiceTemplate[]) {
+    let current = template;
+    while (current.status === 'active' && current.next_run_date <= todayStr) {
+      const runDate = current.next_run_date;
+      const schedule = getScheduleAfterRun(current, runDate);
+
+      const { data: claimed, error: claimError } = await supabase
+        .from('recurring_invoice_templates')
+        .update(schedule)
+        .eq('id', current.id)
+        .eq('next_run_date', runDate)
+        .eq('status', 'active')
+        .select('id');
+      if (claimError) {
+        result.failed.push({ template: current, runDate, error: claimError.message });
+        break;
+      }
+      if (!claimed || claimed.length === 0) break; // Another session is already generating this template.
+
+      try {
+        const invoice = await createInvoiceFromTemplate(current, runDate, taxSettings);
+        result.invoices.push(invoice);
+        generatedByOwner.set(current.user_id, [...(generatedByOwner.get(current.user_id) || []), invoice]);
+      } catch (createError: any) {
+        // Release the claim so the run is retried next time.
+        await supabase.from('recurring_invoice_templates').update({ next_run_date: runDate, status: 'active' }).eq('id', current.id);
+        result.failed.push({ template: current, runDate, error: createError.message });
+        break;
+      }
+
+      current = { ...current, ...schedule };
+    }
+  }
+
+  for (const [ownerId, invoices] of generatedByOwner) {
+    await createNotification({
+      user_id: ownerId,
+      org_id: orgId,
+      title: 'Recurring Invoices Generated',
+      body: `${invoices.length} invoice(s) were generated from recurring templates: ${invoices.map(i => i.invoice_number).join(', ')}.`,
+      type: 'recurring_invoices',
+      related_entity_path: invoices.length === 1 ? `/invoices/edit/${invoices[0].id}` : '/invoices',
+      related_entity_id: invoices.length === 1 ? invoices[0].id.toString() : null,
+    });
+  }
+
+  // A run that keeps failing is retried on every call, but its owner is notified only once.
+  for (const { template, runDate, error: failure } of result.failed) {
+    if (template.failed_run_date === runDate) continue;
+    const { error: markError } = await supabase.from('recurring_invoice_templates').update({ failed_run_date: runDate }).eq('id', template.id);
+    if (markError) console.error('Error marking a failed recurring invoice run:', markError.message);
+    await createNotification({
+      user_id: template.user_id,
+      org_id: orgId,
+      title: 'Recurring Invoice Failed',
+      body: `The invoice of ${template.customers?.name || 'a recurring template'} for ${formatEuropeanDate(runDate)} could not be generated and will be retried: ${failure}`,
+      type: 'recurring_invoices',
+      related_entity_path: '/invoices/recurring',
+      related_entity_id: null,
+    });
+  }
+
+  return result;
+};
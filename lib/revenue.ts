@@ -0,0 +1,86 @@
+import { supabase } from '../services/supabase';
+import { Customer, Invoice, Payment } from '../types';
+import { getCreditedAmount, getPaidAmount } from './payments';
+import { roundMoney } from './money';
+
+// The invoice a payment or refund is attributed to.
+export type RevenueInvoice = Pick<Invoice, 'id' | 'total_amount' | 'user_id'> & { customers: Pick<Customer, 'name'> | null };
+
+export interface ReceivedPayment {
+  amount: number; // Negative for refunds
+  invoice: RevenueInvoice;
+}
+
+type CreditedInvoiceRow = Pick<Invoice, 'total_amount'> & {
+  payments: Pick<Payment, 'amount'>[] | null;
+  credit_notes: Pick<Invoice, 'total_amount' | 'status'>[] | null;
+};
+type PaymentRow = Pick<Payment, 'amount'> & { invoices: RevenueInvoice };
+type CreditDocumentRow = RevenueInvoice & { original_invoice: CreditedInvoiceRow | null };
+type LegacyPaidInvoiceRow = RevenueInvoice & { payments: Pick<Payment, 'id'>[] | null };
+
+/**
+ * Fetches the cash revenue of a period: every payment received in it, including partial payments,
+ * invoices marked as paid before the payment ledger existed (counted on their issue date), and,
+ * as negative amounts, the refunds of credit notes and cancellations issued in it.
+ * @param orgId The UUID of the organization, or null for all organizations the user can see.
+ * @param startDate The first day of the period (YYYY-MM-DD).
+ * @param endDate The last day of the period (YYYY-MM-DD).
+ * @returns The received amounts, each with the invoice it is attributed to.
+ */
+export const getReceivedPayments = async (orgId: string | null, startDate: string, endDate: string): Promise<ReceivedPayment[]> => {
+  // Inner joins, so `invoices` and `customers` are objects and not arrays.
+  let paymentsQuery = supabase
+    .from('payments')
+    .select('amount, invoices!inner(id, total_amount, user_id, customers!inner(name))')
+    .gte('payment_date', startDate)
+    .lte('payment_date', endDate);
+  let creditsQuery = supabase
+    .from('invoices')
+    .select('id, total_amount, user_id, customers!inner(name), original_invoice:original_invoice_id(total_amount, payments:payments!left(amount), credit_notes:invoices!original_invoice_id(total_amount, status))')
+    .neq('document_type', 'invoice')
+    .neq('status', 'draft')
+    .gte('issue_date', startDate)
+    .lte('issue_date', endDate);
+  let legacyQuery = supabase
+    .from('invoices')
+    .select('id, total_amount, user_id, customers!inner(name), payments:payments!left(id)')
+    .eq('document_type', 'invoice')
+    .eq('status', 'paid')
+    .gte('issue_date', startDate)
+    .lte('issue_date', endDate);
+  if (orgId) {
+    paymentsQuery = paymentsQuery.eq('org_id', orgId);
+    creditsQuery = creditsQuery.eq('org_id', orgId);
+    legacyQuery = legacyQuery.eq('org_id', orgId);
+  }
+
+  const [
+    { data: payments, error: paymentsError },
+    { data: creditDocuments, error: creditsError },
+    { data: legacyPaidInvoices, error: legacyError },
+  ] = await Promise.all([
+    paymentsQuery.overrideTypes<PaymentRow[], { merge: false }>(),
+    creditsQuery.overrideTypes<CreditDocumentRow[], { merge: false }>(),
+    legacyQuery.overrideTypes<LegacyPaidInvoiceRow[], { merge: false }>(),
+  ]);
+  const error = paymentsError || creditsError || legacyError;
+  if (error) throw new Error(error.message);
+
+  const received: ReceivedPayment[] = (payments || []).map(p => ({ amount: Number(p.amount) || 0, invoice: p.invoices }));
+  (legacyPaidInvoices || [])
+    .filter(invoice => (invoice.payments || []).length === 0)
+    .forEach(({ payments: _payments, ...invoice }) => received.push({ amount: Number(invoice.total_amount) || 0, invoice }));
+  // Credit notes and cancellations only reduce cash revenue for the part that has to be refunded,
+  // i.e. what exceeds the amount that was still open on the original invoice.
+  (creditDocuments || []).forEach(({ original_invoice: original, ...credit }) => {
+    if (!original || !credit.total_amount) return;
+    const creditedAmount = getCreditedAmount(original.credit_notes);
+    const excess = getPaidAmount(original.payments) + creditedAmount - original.total_amount;
+    if (excess <= 0 || creditedAmount <= 0) return;
+    const refund = roundMoney(Math.min(credit.total_amount, excess * (credit.total_amount / creditedAmount)));
+    received.push({ amount: -refund, invoice: credit });
+  });
+
+  return received;
+};
@@ -0,0 +1,345 @@
+import { supabase } from '../services/supabase';
+import { Product, StockMovement, StockMovementSource, StockMovementType } from '../types';
+
+export type NewStockMovement = Omit<StockMovement, 'id' | 'created_at'>;
+
+// Stock per storage location and product; the main warehouse has the key null.
+export type LocationStock = Map<number | null, Map<number, number>>;
+
+/**
+ * Rounds a stock quantity to three decimals. Quantities may be fractional (e.g. metres of pipe), and
+ * sums are kept free of floating point noise.
+ * @param quantity The quantity.
+ * @returns The rounded quantity.
+ */
+export const roundQuantity = (quantity: number): number => Math.round(quantity * 1000) / 1000;
+
+// Sums quantities per product.
+const sumByProduct = (rows: { product_id: number | null; quantity: number | string | null }[]): Map<number, number> => {
+  const sums = new Map<number, number>();
+  for (const row of rows) {
+    if (!row.product_id) continue;
+    sums.set(row.product_id, roundQuantity((sums.get(row.product_id) || 0) + (Number(row.quantity) || 0)));
+  }
+  return sums;
+};
+
+export const MANUAL_MOVEMENT_TYPES: StockMovementType[] = ['receipt', 'consumption', 'correction', 'return'];
+
+/**
+ * Converts a quantity entered for a manual movement into the quantity booked on the ledger.
+ * Receipts and returns add to the stock, consumption takes from it, and a correction is entered
+ * as the counted stock and books the difference to the current stock.
+ * @param type The type of the movement.
+ * @param quantity The entered quantity, or the counted stock for corrections.
+ * @param currentStock The current stock level of the product.
+ * @returns The signed quantity.
+ */
+export const getBookedQuantity = (type: StockMovementType, quantity: number, currentStock: number): number => {
+  if (type === 'correction') return roundQuantity(quantity - currentStock);
+  return type === 'consumption' ? -Math.abs(quantity) : Math.abs(quantity);
+};
+
+/**
+ * Fetches the stock movements of a product, newest first.
+ * @param productId The ID of the product.
+ * @returns The movements.
+ */
+export const getStockMovements = async (productId: number): Promise<StockMovement[]> => {
+  const { data, error } = await supabase
+    .from('stock_movements')
+    .select('*')
+    .eq('product_id', productId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data || [];
+};
+
+/**
+ * Recalculates the stored stock level of products from their movements. Products without any
+ * movements keep their stock level.
+ * @param productIds The IDs of the products.
+ */
+export const syncStockLevels = async (productIds: number[]) => {
+  const ids = [...new Set(productIds)];
+  if (ids.length === 0) return;
+
+  const { data, error } = await supabase.from('stock_movements').select('product_id, quantity').in('product_id', ids);
+  if (error) throw new Error(error.message);
+
+  for (const [productId, stockLevel] of sumByProduct(data || [])) {
+    const { error: updateError } = await supabase.from('products').update({ stock_level: stockLevel }).eq('id', productId);
+    if (updateError) throw new Error(updateError.message);
+  }
+};
+
+/**
+ * Posts movements to the stock ledger and updates the stock levels of the affected products.
+ * Products whose stock was maintained by hand before the ledger existed get their last stock
+ * level booked as opening balance with their first movement.
+ * @param movements The movements.
+ */
+export const postStockMovements = async (movements: NewStockMovement[]) => {
+  const entries = movements.filter(m => roundQuantity(m.quantity) !== 0);
+  if (entries.length === 0) return;
+  const productIds = [...new Set(entries.map(m => m.product_id))];
+
+  const [{ data: products, error: productsError }, { data: existing, error: existingError }] = await Promise.all([
+    supabase.from('products').select('id, stock_level').in('id', productIds),
+    supabase.from('stock_movements').select('product_id').in('product_id', productIds),
+  ]);
+  if (productsError || existingError) throw new Error((productsError || existingError)!.message);
+
+  const withLedger = new Set((existing || []).map(m => m.product_id));
+  const openingBalances: NewStockMovement[] = (products || [])
+    .filter(p => !withLedger.has(p.id) && Number(p.stock_level) !== 0 && p.stock_level !== null)
+    .map(p => {
+      const first = entries.find(m => m.product_id === p.id)!;
+      return { ...first, movement_type: 'correction', quantity: Number(p.stock_level), source_type: null, source_id: null, location_id: null, note: 'Opening balance' };
+    });
+
+  const { error } = await supabase.from('stock_movements').insert(
+    [...openingBalances, ...entries].map(m => ({ ...m, quantity: roundQuantity(m.quantity) }))
+  );
+  if (error) throw new Error(error.message);
+
+  await syncStockLevels(productIds);
+};
+
+/**
+ * Fetches the stock of an organization per storage location. Products without any movements are
+ * missing; their whole stock level lies in the main warehouse (see getLocationQuantity).
+ * @param orgId The UUID of the organization.
+ * @returns The stock per location and product.
+ */
+export const getStockByLocation = async (orgId: string): Promise<LocationStock> => {
+  const { data, error } = await supabase.from('stock_movements').select('product_id, location_id, quantity').eq('org_id', orgId);
+  if (error) throw new Error(error.message);
+
+  const stock: LocationStock = new Map();
+  for (const row of data || []) {
+    const locationId = row.location_id ?? null;
+    if (!stock.has(locationId)) stock.set(locationId, new Map());
+    const quantities = stock.get(locationId)!;
+    quantities.set(row.product_id, roundQuantity((quantities.get(row.product_id) || 0) + (Number(row.quantity) || 0)));
+  }
+  return stock;
+};
+
+/**
+ * Returns the stock of a product at a storage location.
+ * @param stock The stock per location, from getStockByLocation.
+ * @param locationId The ID of the location, or null for the main warehouse.
+ * @param product The product.
+ * @returns The quantity at the location.
+ */
+export const getLocationQuantity = (stock: LocationStock, locationId: number | null, product: Pick<Product, 'id' | 'stock_level'>): number => {
+  const quantity = stock.get(locationId)?.get(product.id);
+  if (quantity !== undefined) return quantity;
+  const hasLedger = [...stock.values()].some(quantities => quantities.has(product.id));
+  return locationId === null && !hasLedger ? Number(product.stock_level) || 0 : 0;
+};
+
+/**
+ * Moves stock of a product from one storage location to another. The transfer is booked as a pair
+ * of movements, so the total stock level stays the same.
+ * @param transfer The product, the source and destination (null for the main warehouse), the quantity and a note.
+ * @param userId The ID of the user booking the transfer.
+ */
+export const transferStock = async (
+  transfer: { orgId: string; productId: number; fromLocationId: number | null; toLocationId: number | null; quantity: number; note: string | null },
+  userId: string
+) => {
+  const quantity = roundQuantity(transfer.quantity);
+  if (quantity <= 0) throw new Error('The quantity to transfer must be positive.');
+  if (transfer.fromLocationId === transfer.toLocationId) throw new Error('Source and destination must differ.');
+
+  const [{ data: product, error: productError }, { data: movements, error: movementsError }] = await Promise.all([
+    supabase.from('products').select('id, stock_level').eq('id', transfer.productId).single(),
+    supabase.from('stock_movements').select('product_id, location_id, quantity').eq('product_id', transfer.productId),
+  ]);
+  if (productError || !product) throw new Error(productError?.message || 'Product not found.');
+  if (movementsError) throw new Error(movementsError.message);
+
+  const available = (movements || []).length === 0
+    ? (transfer.fromLocationId === null ? Number(product.stock_level) || 0 : 0)
+    : sumByProduct((movements || []).filter(m => (m.location_id ?? null) === transfer.fromLocationId)).get(product.id) || 0;
+  if (quantity > available) {
+    throw new Error(`Only ${available} of this product are in stock at the source location.`);
+  }
+
+  const base = { org_id: transfer.orgId, product_id: transfer.productId, movement_type: 'transfer' as const, source_type: null, source_id: null, note: transfer.note, created_by: userId };
+  await postStockMovements([
+    { ...base, quantity: -quantity, location_id: transfer.fromLocationId },
+    { ...base, quantity, location_id: transfer.toLocationId },
+  ]);
+};
+
+// Brings the movements posted by a document in line with the quantities it should have moved, so
+// posting is idempotent and later changes or reversals are booked as corrections. The target is
+// booked at one location; what the document posted elsewhere, e.g. before a visit was reassigned
+// to another technician, is reversed there.
+const reconcileSourceMovements = async (
+  source: { type: StockMovementSource; id: number; orgId: string | null; note: string },
+  target: Map<number, number>,
+  locationId: number | null,
+  movementType: StockMovementType,
+  userId: string
+) => {
+  const { data: posted, error } = await supabase
+    .from('stock_movements')
+    .select('org_id, product_id, location_id, quantity')
+    .eq('source_type', source.type)
+    .eq('source_id', source.id);
+  if (error) throw new Error(error.message);
+
+  const postedByProduct = sumByProduct(posted || []);
+  const postedAtTarget = sumByProduct((posted || []).filter(m => (m.location_id ?? null) === locationId));
+  const postedElsewhere = (posted || []).filter(m => (m.location_id ?? null) !== locationId);
+  const orgId = source.orgId || posted?.[0]?.org_id;
+  if (!orgId) return;
+
+  // Automatic postings only apply to products whose stock is tracked.
+  const candidates = [...target.keys()].filter(id => !postedByProduct.has(id));
+  let tracked = new Set<number>(postedByProduct.keys());
+  if (candidates.length > 0) {
+    const { data: products, error: productsError } = await supabase.from('products').select('id, stock_level').in('id', candidates);
+    if (productsError) throw new Error(productsError.message);
+    tracked = new Set([...tracked, ...(products || []).filter(p => p.stock_level !== null).map(p => p.id)]);
+  }
+
+  const movements: NewStockMovement[] = [...tracked].map(productId => {
+    const postedQuantity = postedAtTarget.get(productId) || 0;
+    return {
+      org_id: orgId,
+      product_id: productId,
+      movement_type: postedQuantity === 0 ? movementType : 'correction',
+      quantity: roundQuantity((target.get(productId) || 0) - postedQuantity),
+      source_type: source.type,
+      source_id: source.id,
+      location_id: locationId,
+      note: source.note,
+      created_by: userId,
+    };
+  });
+
+  const reversedLocations = new Set(postedElsewhere.map(m => m.location_id as number));
+  for (const reversedLocationId of reversedLocations) {
+    sumByProduct(postedElsewhere.filter(m => m.location_id === reversedLocationId)).forEach((quantity, productId) => movements.push({
+      org_id: orgId,
+      product_id: productId,
+      movement_type: 'correction',
+      quantity: -quantity,
+      source_type: source.type,
+      source_id: source.id,
+      location_id: reversedLocationId,
+      note: source.note,
+      created_by: userId,
+    }));
+  }
+
+  await postStockMovements(movements);
+};
+
+/**
+ * Posts the stock movements of an invoice, credit note or cancellation once it has been issued.
+ * Invoices consume the products they sell, except what the linked visits already consumed; credit
+ * notes return their products and cancellations return what the cancelled invoice consumed.
+ * Documents back in draft, or deleted, have their movements reversed.
+ * @param invoiceId The ID of the document.
+ * @param userId The ID of the user issuing the document.
+ */
+export const syncInvoiceStock = async (invoiceId: number, userId: string) => {
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select('id, org_id, invoice_number, document_type, status, original_invoice_id, invoice_items:invoice_items!left(product_id, quantity)')
+    .eq('id', invoiceId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+
+  const target = new Map<number, number>();
+  let movementType: StockMovementType = 'consumption';
+
+  if (invoice && invoice.status !== 'draft') {
+    if (invoice.document_type === 'cancellation' && invoice.original_invoice_id) {
+      const { data: consumed, error: consumedError } = await supabase
+        .from('stock_movements')
+        .select('product_id, quantity')
+        .eq('source_type', 'invoice')
+        .eq('source_id', invoice.original_invoice_id);
+      if (consumedError) throw new Error(consumedError.message);
+      sumByProduct(consumed || []).forEach((quantity, productId) => target.set(productId, -quantity));
+      movementType = 'return';
+    } else if (invoice.document_type === 'credit_note') {
+      sumByProduct(invoice.invoice_items || []).forEach((quantity, productId) => target.set(productId, quantity));
+      movementType = 'return';
+    } else {
+      const { data: visits, error: visitsError } = await supabase
+        .from('visits')
+        .select('visit_products:visit_products!left(product_id, quantity)')
+        .eq('invoice_id', invoice.id);
+      if (visitsError) throw new Error(visitsError.message);
+
+      const consumedByVisits = sumByProduct((visits || []).flatMap(v => v.visit_products || []));
+      sumByProduct(invoice.invoice_items || []).forEach((quantity, productId) => {
+        const remaining = roundQuantity(quantity - (consumedByVisits.get(productId) || 0));
+        if (remaining > 0) target.set(productId, -remaining);
+      });
+    }
+  }
+
+  await reconcileSourceMovements(
+    { type: 'invoice', id: invoiceId, orgId: invoice?.org_id || null, note: invoice?.invoice_number || `#${invoiceId}` },
+    target,
+    null,
+    movementType,
+    userId
+  );
+};
+
+/**
+ * Posts the consumption of the products used on a visit once it is completed. The products are
+ * taken from the vehicle of the assigned employee, or from the main warehouse if they have none.
+ * Visits that are reopened, cancelled or deleted have their consumption reversed.
+ * @param visitId The ID of the visit.
+ * @param userId The ID of the user completing the visit.
+ */
+export const syncVisitStock = async (visitId: number, userId: string) => {
+  const { data: visit, error } = await supabase
+    .from('visits')
+    .select('id, org_id, visit_number, status, assigned_employee_id, visit_products:visit_products!left(product_id, quantity)')
+    .eq('id', visitId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+
+  const target = new Map<number, number>();
+  let locationId: number | null = null;
+  if (visit?.status === 'completed') {
+    sumByProduct(visit.visit_products || []).forEach((quantity, productId) => target.set(productId, -quantity));
+    if (visit.assigned_employee_id) {
+      const { data: vehicle, error: vehicleError } = await supabase
+        .from('storage_locations')
+        .select('id')
+        .eq('org_id', visit.org_id)
+        .eq('location_type', 'vehicle')
+        .eq('employee_id', visit.assigned_employee_id)
+        .order('id')
+        .limit(1)
+        .maybeSingle();
+      if (vehicleError) throw new Error(vehicleError.message);
+      locationId = vehicle?.id ?? null;
+    }
+  }
+
+  await reconcileSourceMovements(
+    { type: 'visit', id: visitId, orgId: visit?.org_id || null, note: visit?.visit_number || `#${visitId}` },
+    target,
+    locationId,
+    'consumption',
+    userId
+  );
+};
@@ -0,0 +1,91 @@
+import { supabase } from '../services/supabase';
+import { StorageLocation } from '../types';
+import { roundQuantity } from './stock';
+
+export type EditableStorageLocation = Omit<StorageLocation, 'id' | 'org_id' | 'created_at'> & { id?: number };
+
+/**
+ * Fetches the storage locations of an organization. The main warehouse is implicit and not part
+ * of the list.
+ * @param orgId The UUID of the organization.
+ * @returns The locations, sorted by name.
+ */
+export const getStorageLocations = async (orgId: string): Promise<StorageLocation[]> => {
+  const { data, error } = await supabase
+    .from('storage_locations')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('name');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data || [];
+};
+
+/**
+ * Returns the vehicle assigned to an employee.
+ * @param locations The storage locations of the organization.
+ * @param employeeId The ID of the employee.
+ * @returns The vehicle, or null if the employee has none.
+ */
+export const getEmployeeVehicle = (locations: StorageLocation[], employeeId: string): StorageLocation | null =>
+  locations.find(l => l.location_type === 'vehicle' && l.employee_id === employeeId) || null;
+
+/**
+ * Saves the storage locations of an organization. Existing locations are updated in place, so
+ * their movements stay attached; locations missing from the list are deleted, which is refused
+ * while they still hold stock.
+ * @param orgId The UUID of the organization.
+ * @param locations The complete list of locations.
+ */
+export const saveStorageLocations = async (orgId: string, locations: EditableStorageLocation[]) => {
+  const employees = locations.filter(l => l.location_type === 'vehicle' && l.employee_id).map(l => l.employee_id);
+  if (new Set(employees).size !== employees.length) {
+    throw new Error('Each employee can be assigned to one vehicle only.');
+  }
+
+  const existing = await getStorageLocations(orgId);
+  const keptIds = new Set(locations.filter(l => l.id).map(l => l.id));
+  const removed = existing.filter(l => !keptIds.has(l.id));
+
+  if (removed.length > 0) {
+    const { data: movements, error: movementsError } = await supabase
+      .from('stock_movements')
+      .select('location_id, product_id, quantity')
+      .in('location_id', removed.map(l => l.id));
+    if (movementsError) throw new Error(movementsError.message);
+
+    for (const location of removed) {
+      const stock = new Map<number, number>();
+      for (const m of (movements || []).filter(m => m.location_id === location.id)) {
+        stock.set(m.product_id, roundQuantity((stock.get(m.product_id) || 0) + Number(m.quantity)));
+      }
+      if ([...stock.values()].some(quantity => quantity !== 0)) {
+        throw new Error(`${location.name} still holds stock. Transfer it to another location before deleting it.`);
+      }
+    }
+
+    const { error: deleteError } = await supabase.from('storage_locations').delete().in('id', removed.map(l => l.id));
+    if (deleteError) throw new Error(deleteError.message);
+  }
+
+  const rows = locations.map(({ id, ...l }) => ({
+    ...(id ? { id } : {}),
+    ...l,
+    name: l.name.trim(),
+    employee_id: l.location_type === 'vehicle' ? l.employee_id || null : null,
+    org_id: orgId,
+  }));
+  const updates = rows.filter(r => 'id' in r);
+  const inserts = rows.filter(r => !('id' in r));
+
+  if (updates.length > 0) {
+    const { error } = await supabase.from('storage_locations').upsert(updates);
+    if (error) throw new Error(error.message);
+  }
+  if (inserts.length > 0) {
+    const { error } = await supabase.from('storage_locations').insert(inserts);
+    if (error) throw new Error(error.message);
+  }
+};
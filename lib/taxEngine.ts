@@ -0,0 +1,150 @@
+import { supabase } from '../services/supabase';
+import { Customer, DocumentLanguage, Organization, TaxTreatment } from '../types';
+import { VAT_RATES_BY_COUNTRY, DEFAULT_COUNTRY, EU_COUNTRIES, translations } from '../constants';
+
+export type OrganizationTaxSettings = Pick<Organization, 'country' | 'small_business'>;
+export type CustomerTaxSettings = Pick<Customer, 'country' | 'vat_id' | 'reverse_charge'>;
+
+// EN 16931 VAT category codes (UNTDID 5305).
+export type TaxCategoryCode = 'S' | 'Z' | 'E' | 'AE' | 'K' | 'G';
+
+export interface TaxRules {
+  treatment: TaxTreatment;
+  rates: number[]; // Selectable rates, highest first
+  defaultRate: number;
+  note: string | null; // Mandatory note on the document, if the treatment requires one
+}
+
+const TAX_CATEGORY_CODES: Record<Exclude<TaxTreatment, 'standard'>, TaxCategoryCode> = {
+  reverse_charge: 'AE',
+  intra_community: 'K',
+  export: 'G',
+  small_business: 'E',
+};
+
+/**
+ * Returns the VAT rates of a country, falling back to the German rates for unknown countries.
+ * @param country The ISO country code.
+ * @returns The rates, highest first.
+ */
+export const getVatRates = (country: string | null | undefined): number[] =>
+  VAT_RATES_BY_COUNTRY[country || DEFAULT_COUNTRY] || VAT_RATES_BY_COUNTRY[DEFAULT_COUNTRY];
+
+/**
+ * Determines how a document from the organization to the customer is taxed.
+ * A customer without a country is treated as domestic.
+ * @param organization The tax settings of the issuing organization.
+ * @param customer The tax settings of the customer, if one is selected.
+ * @returns The tax treatment.
+ */
+export const determineTaxTreatment = (
+  organization: OrganizationTaxSettings | null | undefined,
+  customer: CustomerTaxSettings | null | undefined
+): TaxTreatment => {
+  if (organization?.small_business) return 'small_business';
+  if (!customer) return 'standard';
+
+  const sellerCountry = organization?.country || DEFAULT_COUNTRY;
+  const buyerCountry = customer.country || sellerCountry;
+
+  if (buyerCountry === sellerCountry) {
+    return customer.reverse_charge ? 'reverse_charge' : 'standard';
+  }
+  if (EU_COUNTRIES.includes(sellerCountry) && EU_COUNTRIES.includes(buyerCountry)) {
+    // Private customers in other EU countries are charged the seller's VAT.
+    return customer.vat_id ? 'intra_community' : 'standard';
+  }
+  return 'export';
+};
+
+/**
+ * Returns the note a document with the given tax treatment must carry.
+ * @param treatment The tax treatment.
+ * @param customer The customer; its VAT ID is part of the note for intra-community supplies.
+ * @param language The language of the document.
+ * @returns The note, or null for standard taxation.
+ */
+export const getTaxNote = (treatment: TaxTreatment, customer?: CustomerTaxSettings | null, language: DocumentLanguage = 'de'): string | null => {
+  if (treatment === 'standard') return null;
+  const t = translations[language];
+  const note = t[`taxNote_${treatment}`];
+  return treatment === 'intra_community' && customer?.vat_id
+    ? `${note} ${t.taxNote_customerVatId.replace('{vatId}', customer.vat_id)}`
+    : note;
+};
+
+/**
+ * Returns the selectable VAT rates, the default rate and the mandatory note for a document.
+ * @param organization The tax settings of the issuing organization.
+ * @param customer The tax settings of the customer, if one is selected.
+ * @param storedTreatment The treatment saved on an issued document; determined anew if not given.
+ * @returns The tax rules of the document.
+ */
+export const getTaxRules = (
+  organization: OrganizationTaxSettings | null | undefined,
+  customer: CustomerTaxSettings | null | undefined,
+  storedTreatment?: TaxTreatment | null
+): TaxRules => {
+  const treatment = storedTreatment || determineTaxTreatment(organization, customer);
+  const rates = treatment === 'standard' ? getVatRates(organization?.country) : [0];
+  return { treatment, rates, defaultRate: rates[0], note: getTaxNote(treatment, customer) };
+};
+
+/**
+ * Returns the VAT rate of an item that carries its own rate, such as a product or an expense.
+ * @param rate The rate of the item; the default rate applies if it is not set.
+ * @param rules The tax rules of the document.
+ * @returns The rate, or the default rate if it is not set or not allowed under the rules.
+ */
+export const getItemVatRate = (rate: number | null | undefined, rules: TaxRules): number =>
+  rate != null && rules.rates.includes(Number(rate)) ? Number(rate) : rules.defaultRate;
+
+/**
+ * Replaces VAT rates that are not allowed under the given rules with the default rate.
+ * @param items The document items.
+ * @param rules The tax rules of the document.
+ * @returns The corrected items, or the same array if all rates were allowed.
+ */
+export const applyTaxRules = <T extends { vat_rate?: number | null }>(items: T[], rules: TaxRules): T[] => {
+  if (items.every(item => rules.rates.includes(Number(item.vat_rate)))) return items;
+  return items.map(item => rules.rates.includes(Number(item.vat_rate)) ? item : { ...item, vat_rate: rules.defaultRate });
+};
+
+/**
+ * Returns the EN 16931 VAT category of an item.
+ * @param treatment The tax treatment of the document.
+ * @param rate The VAT rate of the item.
+ * @returns The category code.
+ */
+export const getTaxCategoryCode = (treatment: TaxTreatment | null | undefined, rate: number): TaxCategoryCode => {
+  if (treatment && treatment !== 'standard') return TAX_CATEGORY_CODES[treatment];
+  return rate > 0 ? 'S' : 'Z';
+};
+
+/**
+ * Fetches the tax settings of an organization.
+ * @param orgId The UUID of the organization.
+ * @returns The country and small business status.
+ */
+export const getOrganizationTaxSettings = async (orgId: string): Promise<OrganizationTaxSettings> => {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('country, small_business')
+    .eq('id', orgId)
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data as OrganizationTaxSettings;
+};
+
+/**
+ * Saves the tax settings of an organization.
+ * @param orgId The UUID of the organization.
+ * @param settings The country and small business status.
+ */
+export const saveOrganizationTaxSettings = async (orgId: string, settings: OrganizationTaxSettings) => {
+  const { error } = await supabase.from('organizations').update(settings).eq('id', orgId);
+  if (error) throw new Error(error.message);
+};
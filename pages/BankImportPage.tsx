@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { ArrowUpTrayIcon, CheckIcon, XMarkIcon, PlusIcon, TrashIcon, BanknotesIcon } from '@heroicons/react/24/outline';
+import { formatEuropeanDate } from '../lib/formatting';
+import {
+  readBankStatement, getProcessedImportHashes, getOpenInvoices, matchTransactions,
+  confirmTransactionMatch, createExpenseFromTransaction, ignoreTransaction,
+  OpenInvoice, TransactionMatch, MatchAllocation,
+} from '../lib/bankImport';
+
+const reasonColors = {
+  reference: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300 border border-green-300/50',
+  amount: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300 border border-blue-300/50',
+  customer: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300 border border-yellow-300/50',
+};
+
+const getAllocatedAmount = (allocations: MatchAllocation[]) => allocations.reduce((sum, a) => sum + (Number(a.amount) || 0), 0);
+
+const BankImportPage: React.FC = () => {
+  const { profile } = useAuth();
+  const { t } = useLanguage();
+
+  const [rows, setRows] = useState<TransactionMatch[]>([]);
+  const [openInvoices, setOpenInvoices] = useState<OpenInvoice[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [skippedCount, setSkippedCount] = useState(0);
+  const [isImporting, setIsImporting] = useState(false);
+  const [busyHash, setBusyHash] = useState<string | null>(null);
+
+  const canManage = profile?.role !== 'field_service_employee' && profile?.role !== 'super_admin';
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !profile?.org_id) return;
+
+    setIsImporting(true);
+    try {
+      const { transactions } = await readBankStatement(file);
+      const processed = await getProcessedImportHashes(profile.org_id, transactions.map(tx => tx.import_hash));
+      const newTransactions = transactions.filter(tx => !processed.has(tx.import_hash));
+      const invoices = await getOpenInvoices(profile.org_id);
+      setOpenInvoices(invoices);
+      setRows(matchTransactions(newTransactions, invoices));
+      setSkippedCount(transactions.length - newTransactions.length);
+      setFileName(file.name);
+    } catch (error: any) {
+      alert('Error importing bank statement: ' + error.message);
+    }
+    setIsImporting(false);
+  };
+
+  const updateAllocations = (importHash: string, update: (allocations: MatchAllocation[]) => MatchAllocation[]) => {
+    setRows(prev => prev.map(row => row.transaction.import_hash === importHash ? { ...row, allocations: update(row.allocations) } : row));
+  };
+
+  const addAllocation = (row: TransactionMatch) => {
+    const rest = Math.max(0, Math.round((row.transaction.amount - getAllocatedAmount(row.allocations)) * 100) / 100);
+    updateAllocations(row.transaction.import_hash, allocations => [...allocations, { invoice_id: 0, amount: rest }]);
+  };
+
+  // Runs an action for one transaction and removes it from the review list once it is processed.
+  const processRow = async (row: TransactionMatch, action: () => Promise<unknown>, errorLabel: string) => {
+    const importHash = row.transaction.import_hash;
+    setBusyHash(importHash);
+    try {
+      await action();
+      setRows(prev => prev.filter(r => r.transaction.import_hash !== importHash));
+    } catch (error: any) {
+      alert(`Error ${errorLabel}: ` + error.message);
+    }
+    setBusyHash(null);
+  };
+
+  const refreshOpenInvoices = async () => {
+    if (!profile?.org_id) return;
+    try {
+      setOpenInvoices(await getOpenInvoices(profile.org_id));
+    } catch (error: any) {
+      console.error('Error fetching open invoices:', error.message);
+    }
+  };
+
+  const handleConfirm = async (row: TransactionMatch) => {
+    if (!profile) return;
+    await processRow(row, () => confirmTransactionMatch(row.transaction, row.allocations, profile), 'posting payment');
+    refreshOpenInvoices();
+  };
+
+  const handleConfirmAll = async () => {
+    if (!profile) return;
+    const matched = rows.filter(row => row.allocations.length > 0);
+    if (!window.confirm(`Post the payments of ${matched.length} matched transaction(s)?`)) return;
+    setIsImporting(true);
+    const failed: string[] = [];
+    for (const row of matched) {
+      try {
+        await confirmTransactionMatch(row.transaction, row.allocations, profile);
+        setRows(prev => prev.filter(r => r.transaction.import_hash !== row.transaction.import_hash));
+      } catch (error: any) {
+        failed.push(`${row.transaction.counterparty_name || row.transaction.reference}: ${error.message}`);
+      }
+    }
+    setIsImporting(false);
+    refreshOpenInvoices();
+    if (failed.length > 0) alert(`Some payments could not be posted:\n${failed.join('\n')}`);
+  };
+
+  const handleCreateExpense = (row: TransactionMatch) => {
+    if (!profile) return;
+    processRow(row, () => createExpenseFromTransaction(row.transaction, profile), 'creating expense');
+  };
+
+  const handleIgnore = (row: TransactionMatch) => {
+    if (!profile) return;
+    processRow(row, () => ignoreTransaction(row.transaction, profile), 'ignoring transaction');
+  };
+
+  const matchedCount = rows.filter(row => row.allocations.length > 0).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-center">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('bankImport')}</h1>
+        {canManage && (
+          <div className="mt-4 sm:mt-0 flex gap-x-2">
+            {matchedCount > 0 && (
+              <button onClick={handleConfirmAll} disabled={isImporting} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md shadow-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50">
+                <CheckIcon className="w-5 h-5 mr-2" /> {t('confirmAllMatched')} ({matchedCount})
+              </button>
+            )}
+            <label className={`inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700 cursor-pointer ${isImporting ? 'opacity-50 pointer-events-none' : ''}`}>
+              <ArrowUpTrayIcon className="w-5 h-5 mr-2" /> {isImporting ? 'Importing...' : t('bankImport')}
+              <input type="file" accept=".xml,.sta,.mt940,.txt,.csv" onChange={handleFileChange} className="hidden" />
+            </label>
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 bg-white rounded-lg shadow-md dark:bg-gray-800 text-sm text-gray-600 dark:text-gray-400">
+        {t('bankImportHint')}
+        {fileName && <span className="block mt-1 font-medium text-gray-900 dark:text-white">{fileName}{skippedCount > 0 && <span className="font-normal text-gray-500"> – {skippedCount} transaction(s) were already processed in an earlier import.</span>}</span>}
+      </div>
+
+      {fileName && (
+        <div className="bg-white rounded-lg shadow-md dark:bg-gray-800 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="border-b-2 border-gray-200 dark:border-gray-700">
+                <tr className="text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  <th className="px-6 py-3">Date</th>
+                  <th className="px-6 py-3">{t('counterparty')}</th>
+                  <th className="px-6 py-3">{t('reference')}</th>
+                  <th className="px-6 py-3 text-right">Amount</th>
+                  <th className="px-6 py-3">{t('match')}</th>
+                  <th className="px-6 py-3 text-right">{t('actions')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length > 0 ? rows.map(row => {
+                  const { transaction, allocations, reason } = row;
+                  const isCredit = transaction.amount > 0;
+                  const isBusy = busyHash === transaction.import_hash || isImporting;
+                  const exceedsAmount = getAllocatedAmount(allocations) > transaction.amount + 0.005;
+                  return (
+                    <tr key={transaction.import_hash} className="align-top border-b border-gray-200 dark:border-gray-700 text-sm">
+                      <td className="px-6 py-3 whitespace-nowrap">{formatEuropeanDate(transaction.booking_date)}</td>
+                      <td className="px-6 py-3">
+                        <div className="font-medium">{transaction.counterparty_name || '-'}</div>
+                        {transaction.counterparty_iban && <div className="text-xs text-gray-500">{transaction.counterparty_iban}</div>}
+                      </td>
+                      <td className="px-6 py-3 max-w-xs break-words text-gray-600 dark:text-gray-400">{transaction.reference}</td>
+                      <td className={`px-6 py-3 whitespace-nowrap text-right font-medium ${isCredit ? 'text-green-600' : 'text-red-600'}`}>
+                        {transaction.amount < 0 ? '-' : ''}€{Math.abs(transaction.amount).toFixed(2)}{transaction.currency !== 'EUR' ? ` ${transaction.currency}` : ''}
+                      </td>
+                      <td className="px-6 py-3 min-w-[22rem]">
+                        {isCredit && (
+                          <div className="space-y-2">
+                            {reason && <span className={`inline-block px-2 py-0.5 text-xs font-semibold rounded-full ${reasonColors[reason]}`}>{t(`match_${reason}`)}</span>}
+                            {allocations.map((allocation, index) => (
+                              <div key={index} className="flex items-center gap-x-2">
+                                <select
+                                  value={allocation.invoice_id}
+                                  onChange={(e) => updateAllocations(transaction.import_hash, list => list.map((a, i) => i === index ? { ...a, invoice_id: Number(e.target.value) } : a))}
+                                  disabled={!canManage}
+                                  className="flex-grow p-1 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                >
+                                  <option value={0}>-</option>
+                                  {openInvoices.map(invoice => (
+                                    <option key={invoice.id} value={invoice.id}>{invoice.invoice_number} – {invoice.customers?.name || 'N/A'} (€{invoice.openAmount.toFixed(2)})</option>
+                                  ))}
+                                </select>
+                                <input
+                                  type="number"
+                                  step="0.01"
+                                  value={allocation.amount}
+                                  onChange={(e) => updateAllocations(transaction.import_hash, list => list.map((a, i) => i === index ? { ...a, amount: parseFloat(e.target.value) || 0 } : a))}
+                                  disabled={!canManage}
+                                  className="w-24 p-1 border rounded text-right dark:bg-gray-700 dark:border-gray-600"
+                                />
+                                {canManage && <button onClick={() => updateAllocations(transaction.import_hash, list => list.filter((_, i) => i !== index))} title="Remove"><TrashIcon className="w-4 h-4 text-red-600 hover:text-red-800"/></button>}
+                              </div>
+                            ))}
+                            {exceedsAmount && <p className="text-xs text-red-600">The allocations exceed the transferred amount.</p>}
+                            {canManage && (
+                              <button onClick={() => addAllocation(row)} className="inline-flex items-center text-xs text-primary-600 hover:underline">
+                                <PlusIcon className="w-4 h-4 mr-1"/> {allocations.length > 0 ? t('split') : t('match')}
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-right space-x-2">
+                        {canManage && (
+                          <>
+                            {isCredit
+                              ? <button onClick={() => handleConfirm(row)} disabled={isBusy || allocations.length === 0 || exceedsAmount} title={t('confirm')}><CheckIcon className="w-5 h-5 inline-block text-green-600 hover:text-green-800"/></button>
+                              : <button onClick={() => handleCreateExpense(row)} disabled={isBusy} title={t('createExpense')}><BanknotesIcon className="w-5 h-5 inline-block text-primary-600 hover:text-primary-800"/></button>}
+                            <button onClick={() => handleIgnore(row)} disabled={isBusy} title={t('ignore')}><XMarkIcon className="w-5 h-5 inline-block text-gray-500 hover:text-gray-700"/></button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                }) : (
+                  <tr><td colSpan={6} className="p-4 text-center text-gray-500">{t('noOpenTransactions')}</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BankImportPage;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useTabs } from '../contexts/TabContext';
+import { useRefresh } from '../contexts/RefreshContext';
+import { MagnifyingGlassIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import { endOfMonth, startOfMonth, subMonths } from 'date-fns';
+import DatePicker from '../components/ui/DatePicker';
+import { formatEuropeanDate } from '../lib/formatting';
+import { getBillingRunPreview, executeBillingRun, BillingRunGroup, BillingRunResult } from '../lib/billingRun';
+
+const BillingRunPage: React.FC = () => {
+  const { profile } = useAuth();
+  const { t } = useLanguage();
+  const { openTab } = useTabs();
+  const { triggerRefresh } = useRefresh();
+
+  // Collective invoices are usually created at the start of a month for the previous one.
+  const [startDate, setStartDate] = useState<Date | null>(startOfMonth(subMonths(new Date(), 1)));
+  const [endDate, setEndDate] = useState<Date | null>(endOfMonth(subMonths(new Date(), 1)));
+  const [groups, setGroups] = useState<BillingRunGroup[] | null>(null);
+  const [selectedCustomerIds, setSelectedCustomerIds] = useState<Set<number>>(new Set());
+  const [result, setResult] = useState<BillingRunResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const canManage = profile?.role !== 'field_service_employee' && profile?.role !== 'super_admin';
+
+  const handlePreview = async () => {
+    if (!profile?.org_id || !startDate || !endDate) return;
+    if (startDate > endDate) {
+      alert('The start date must not be after the end date.');
+      return;
+    }
+    setIsLoading(true);
+    setResult(null);
+    try {
+      const preview = await getBillingRunPreview(profile.org_id, { start: startDate, end: endDate });
+      setGroups(preview);
+      setSelectedCustomerIds(new Set(preview.map(g => g.customer.id)));
+    } catch (error: any) {
+      alert('Error loading visits: ' + error.message);
+    }
+    setIsLoading(false);
+  };
+
+  const toggleCustomer = (customerId: number) => {
+    setSelectedCustomerIds(prev => {
+      const next = new Set(prev);
+      if (next.has(customerId)) next.delete(customerId);
+      else next.add(customerId);
+      return next;
+    });
+  };
+
+  const selectedGroups = (groups || []).filter(g => selectedCustomerIds.has(g.customer.id));
+  const selectedTotal = selectedGroups.reduce((sum, g) => sum + g.totalAmount, 0);
+
+  const handleRun = async () => {
+    if (!profile || !startDate || !endDate || selectedGroups.length === 0) return;
+    if (!window.confirm(`Create ${selectedGroups.length} collective invoice(s) over €${selectedTotal.toFixed(2)} and mark their visits as billed?`)) return;
+    setIsRunning(true);
+    try {
+      const runResult = await executeBillingRun(selectedGroups, { start: startDate, end: endDate }, profile);
+      setResult(runResult);
+      setGroups(null);
+      triggerRefresh();
+    } catch (error: any) {
+      alert('Error running billing: ' + error.message);
+    }
+    setIsRunning(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('billingRun')}</h1>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{t('billingRunHint')}</p>
+      </div>
+
+      <div className="p-4 bg-white rounded-lg shadow-md dark:bg-gray-800 flex flex-col sm:flex-row sm:items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('startDate')}</label>
+          <DatePicker selected={startDate} onChange={setStartDate} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">{t('endDate')}</label>
+          <DatePicker selected={endDate} onChange={setEndDate} />
+        </div>
+        <button onClick={handlePreview} disabled={isLoading || isRunning || !startDate || !endDate} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md shadow-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50">
+          <MagnifyingGlassIcon className="w-5 h-5 mr-2" /> {isLoading ? 'Loading...' : t('preview')}
+        </button>
+      </div>
+
+      {result && (
+        <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800 space-y-3">
+          <h2 className="text-xl font-bold">{t('invoicesCreated')}: {result.invoices.length}</h2>
+          <div className="flex flex-wrap gap-2">
+            {result.invoices.map(invoice => (
+              <button key={invoice.id} onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} className="px-3 py-1 text-sm font-medium text-primary-600 bg-primary-50 rounded-md hover:underline dark:bg-gray-700">
+                {invoice.invoice_number}
+              </button>
+            ))}
+          </div>
+          {result.failed.map(({ customer, error }) => (
+            <p key={customer.id} className="text-sm text-red-600">{customer.name}: {error}</p>
+          ))}
+        </div>
+      )}
+
+      {groups && (
+        <div className="bg-white rounded-lg shadow-md dark:bg-gray-800 overflow-hidden">
+          <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700">
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              {selectedGroups.length} / {groups.length} {t('customers')} · €{selectedTotal.toFixed(2)}
+            </span>
+            {canManage && (
+              <button onClick={handleRun} disabled={isRunning || selectedGroups.length === 0} className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700 disabled:bg-primary-300">
+                <DocumentDuplicateIcon className="w-5 h-5 mr-2" /> {isRunning ? 'Creating...' : t('createInvoices')}
+              </button>
+            )}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="border-b-2 border-gray-200 dark:border-gray-700">
+                <tr className="text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  <th className="px-6 py-3 w-10"></th>
+                  <th className="px-6 py-3">Visit #</th>
+                  <th className="px-6 py-3">{t('visit_date')}</th>
+                  <th className="px-6 py-3">{t('location')}</th>
+                  <th className="px-6 py-3 text-right">{t('positions')}</th>
+                  <th className="px-6 py-3 text-right">{t('net')}</th>
+                </tr>
+              </thead>
+              {groups.length > 0 ? groups.map(group => (
+                <tbody key={group.customer.id} className="border-b-2 border-gray-200 dark:border-gray-700">
+                  <tr className="bg-gray-50 dark:bg-gray-700/50 text-sm font-semibold">
+                    <td className="px-6 py-2"><input type="checkbox" checked={selectedCustomerIds.has(group.customer.id)} onChange={() => toggleCustomer(group.customer.id)} disabled={!canManage}/></td>
+                    <td colSpan={4} className="px-6 py-2">{group.customer.name} <span className="font-normal text-gray-500">({group.visits.length})</span></td>
+                    <td className="px-6 py-2 text-right">€{group.totalAmount.toFixed(2)}</td>
+                  </tr>
+                  {group.visits.map(({ visit, items, netAmount }) => (
+                    <tr key={visit.id} className="text-sm border-t border-gray-100 dark:border-gray-700">
+                      <td></td>
+                      <td className="px-6 py-2"><button onClick={() => openTab({ path: `/visits/edit/${visit.id}`, label: visit.visit_number })} className="font-medium text-primary-600 hover:underline">{visit.visit_number}</button></td>
+                      <td className="px-6 py-2 whitespace-nowrap">{formatEuropeanDate(visit.visit_date)}</td>
+                      <td className="px-6 py-2 text-gray-600 dark:text-gray-400">{visit.location}</td>
+                      <td className="px-6 py-2 text-right">{items.length}</td>
+                      <td className="px-6 py-2 text-right">€{netAmount.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              )) : (
+                <tbody><tr><td colSpan={6} className="p-4 text-center text-gray-500">{t('noUnbilledVisits')}</td></tr></tbody>
+              )}
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BillingRunPage;
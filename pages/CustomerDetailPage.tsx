@@ -5,14 +5,14 @@ import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useRefresh } from '../contexts/RefreshContext';
 import { useTabs } from '../contexts/TabContext';
-import { Customer, Visit, VisitStatus, Invoice, Quote, Appointment } from '../types';
-import { ArrowLeftIcon, BuildingOffice2Icon, EnvelopeIcon, PhoneIcon, DocumentTextIcon, DocumentPlusIcon, BriefcaseIcon, CalendarDaysIcon, PencilIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { Customer, Visit, VisitStatus, Invoice, Quote, Appointment, InvoiceReminder } from '../types';
+import { ArrowLeftIcon, BuildingOffice2Icon, EnvelopeIcon, PhoneIcon, DocumentTextIcon, DocumentPlusIcon, BriefcaseIcon, CalendarDaysIcon, PencilIcon, PlusIcon, BellAlertIcon } from '@heroicons/react/24/outline';
 import { formatEuropeanDate, formatEuropeanTime, parseAsLocalDate } from '../lib/formatting';
 import CustomerModal from '../components/modals/CustomerModal';
 
 type TimelineItem = {
     id: string;
-    type: 'invoice' | 'quote' | 'visit' | 'appointment';
+    type: 'invoice' | 'quote' | 'visit' | 'appointment' | 'reminder';
     date: Date;
     title: string;
     details: string | React.ReactNode;
@@ -24,7 +24,7 @@ type TimelineItem = {
     icon: React.ElementType;
 };
 
-type ActiveTab = 'all' | 'invoices' | 'quotes' | 'visits' | 'appointments';
+type ActiveTab = 'all' | 'invoices' | 'quotes' | 'visits' | 'appointments' | 'reminders';
 
 const CustomerDetailPage: React.FC = () => {
   const location = useLocation();
@@ -112,12 +112,14 @@ const CustomerDetailPage: React.FC = () => {
         { data: visitsData }, 
         { data: invoicesData },
         { data: quotesData },
-        { data: appointmentsData }
+        { data: appointmentsData },
+        { data: remindersData }
     ] = await Promise.all([
         supabase.from('visits').select('*').eq('customer_id', customerId),
         supabase.from('invoices').select('*').eq('customer_id', customerId),
         supabase.from('quotes').select('*').eq('customer_id', customerId),
-        supabase.from('appointments').select('*').eq('customer_id', customerId)
+        supabase.from('appointments').select('*').eq('customer_id', customerId),
+        supabase.from('invoice_reminders').select('*, invoices:invoices!inner(id, invoice_number, customer_id)').eq('invoices.customer_id', customerId)
     ]);
 
     const combinedItems: TimelineItem[] = [];
@@ -136,13 +138,13 @@ const CustomerDetailPage: React.FC = () => {
         }
     });
 
-    const docStatusColors = { draft: 'yellow', sent: 'blue', accepted: 'green', declined: 'red', paid: 'green', overdue: 'red' };
+    const docStatusColors = { draft: 'yellow', sent: 'blue', accepted: 'green', declined: 'red', expired: 'gray', partially_paid: 'teal', paid: 'green', overdue: 'red', cancelled: 'gray' };
     (invoicesData as Invoice[] | null)?.forEach(i => {
         const parsedDate = parseAsLocalDate(i.issue_date);
         if (parsedDate) {
             combinedItems.push({
                 id: `inv-${i.id}`, type: 'invoice', date: parsedDate,
-                title: `Invoice #${i.invoice_number}`,
+                title: `${i.document_type === 'invoice' ? 'Invoice' : t(i.document_type)} #${i.invoice_number}`,
                 details: `Total: €${i.total_amount.toFixed(2)}`,
                 path: `/invoices/edit/${i.id}`, label: i.invoice_number, status: t(i.status as any),
                 statusColor: docStatusColors[i.status], icon: DocumentTextIcon
@@ -176,6 +178,18 @@ const CustomerDetailPage: React.FC = () => {
         }
     });
     
+    (remindersData as InvoiceReminder[] | null)?.forEach(r => {
+        const parsedDate = parseAsLocalDate(r.sent_at);
+        if (parsedDate && r.invoices) {
+            combinedItems.push({
+                id: `rem-${r.id}`, type: 'reminder', date: parsedDate,
+                title: `${r.name}: Invoice #${r.invoices.invoice_number}`,
+                details: `Open: €${Number(r.open_amount).toFixed(2)}${r.fee > 0 ? ` + €${Number(r.fee).toFixed(2)} fee` : ''}`,
+                path: `/invoices/edit/${r.invoices.id}`, label: r.invoices.invoice_number, status: undefined, icon: BellAlertIcon
+            });
+        }
+    });
+    
     combinedItems.sort((a, b) => b.date.getTime() - a.date.getTime());
     setTimelineItems(combinedItems);
 
@@ -244,6 +258,7 @@ const CustomerDetailPage: React.FC = () => {
     { id: 'quotes', label: t('quotes') },
     { id: 'visits', label: t('visits') },
     { id: 'appointments', label: t('appointments') },
+    { id: 'reminders', label: t('reminders') },
   ];
 
   const typeColors: Record<TimelineItem['type'], string> = {
@@ -251,6 +266,7 @@ const CustomerDetailPage: React.FC = () => {
     invoice: 'bg-green-100 dark:bg-green-900/50',
     quote: 'bg-sky-100 dark:bg-sky-900/50',
     appointment: 'bg-teal-100 dark:bg-teal-900/50',
+    reminder: 'bg-red-100 dark:bg-red-900/50',
   };
 
   return (
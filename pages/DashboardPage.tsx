@@ -11,8 +11,14 @@ import { useNavigate } from 'react-router-dom';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import generateDocumentPDF from '../lib/pdfGenerator';
 import UpgradeBanner from '../components/ui/UpgradeBanner';
+import SendDocumentModal from '../components/modals/SendDocumentModal';
 import { CubeIcon } from '@heroicons/react/24/solid';
 import { formatEuropeanDate, formatEuropeanTime, parseAsLocalDate } from '../lib/formatting';
+import { getReceivedPayments } from '../lib/revenue';
+import { sumMoney } from '../lib/money';
+import { markOverdueInvoices } from '../lib/dunning';
+import { generateDueInvoices } from '../lib/recurringInvoices';
+import { markExpiredQuotes, createDueQuoteFollowUps } from '../lib/quoteFollowUp';
 import { format } from 'date-fns';
 
 
@@ -61,6 +67,7 @@ const DashboardPage: React.FC = () => {
   // General Dashboard State
   const [stats, setStats] = useState({ totalRevenue: 0, unpaidInvoices: 0, pendingQuotes: 0 });
   const [recentInvoices, setRecentInvoices] = useState<Invoice[]>([]);
+  const [sendingInvoice, setSendingInvoice] = useState<Invoice | null>(null);
   const [salesData, setSalesData] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [invoiceCount, setInvoiceCount] = useState(0);
@@ -134,6 +141,28 @@ const DashboardPage: React.FC = () => {
     }
 
     // --- Data Fetching for Admin / Key User Dashboard ---
+    // Generate due recurring invoices, flip invoices past their due date to 'overdue' and quotes past their
+    // valid until date to 'expired', and create due quote follow-ups so the Action Center counts are current.
+    if (profile.role !== 'super_admin' && profile.org_id) {
+      try {
+        const { failed } = await generateDueInvoices(profile.org_id);
+        failed.forEach(f => console.error(`Error generating recurring invoice of template #${f.template.id}:`, f.error));
+      } catch (error: any) {
+        console.error('Error generating recurring invoices:', error.message);
+      }
+      try {
+        await markOverdueInvoices(profile.org_id);
+      } catch (error: any) {
+        console.error('Error marking overdue invoices:', error.message);
+      }
+      try {
+        await markExpiredQuotes(profile.org_id);
+        await createDueQuoteFollowUps(profile.org_id);
+      } catch (error: any) {
+        console.error('Error updating quote follow-ups:', error.message);
+      }
+    }
+
     const today = new Date();
     const todayStr = today.toISOString().split('T')[0];
     const aWeekFromNow = new Date(today);
@@ -153,8 +182,9 @@ const DashboardPage: React.FC = () => {
       { data: appointmentsToday }, // Dispatch Hub
       { data: recentInvoicesData }, // Recent Invoices Table
       { data: pendingQuotesData }, // For Stat Card
+      receivedPayments, // For Stat Card
     ] = await Promise.all([
-      applyOrgFilter(supabase.from('invoices').select('total_amount, issue_date, status').gte('issue_date', `${currentYear}-01-01`).lte('issue_date', `${currentYear}-12-31`)),
+      applyOrgFilter(supabase.from('invoices').select('total_amount, issue_date, status').eq('document_type', 'invoice').gte('issue_date', `${currentYear}-01-01`).lte('issue_date', `${currentYear}-12-31`)),
       applyOrgFilter(supabase.from('invoices').select('id', { count: 'exact', head: true }).eq('status', 'overdue')),
       applyOrgFilter(supabase.from('quotes').select('id', { count: 'exact', head: true }).eq('status', 'sent').gte('valid_until_date', todayStr).lte('valid_until_date', aWeekFromNowStr)),
       applyOrgFilter(supabase.from('visits').select('id', { count: 'exact', head: true }).is('assigned_employee_id', null).eq('status', 'planned')),
@@ -165,21 +195,26 @@ const DashboardPage: React.FC = () => {
       applyOrgFilter(supabase.from('appointments').select('id, user_id, status').gte('start_time', `${todayStr}T00:00:00`).lte('start_time', `${todayStr}T23:59:59`)),
       applyOrgFilter(supabase.from('invoices').select('*, customers:customers!left(name, email), organizations:organizations!left(name)').order('issue_date', { ascending: false }).limit(5)),
       applyOrgFilter(supabase.from('quotes').select('id').eq('status', 'sent')),
+      getReceivedPayments(profile.role !== 'super_admin' ? profile.org_id || null : null, `${currentYear}-01-01`, `${currentYear}-12-31`).catch((error: Error) => {
+        console.error('Error loading the revenue:', error.message);
+        return [];
+      }),
     ]);
 
     // Process stats and sales chart data
     if (invoicesData) {
-      const totalRevenue = invoicesData.filter(inv => inv.status === 'paid').reduce((acc, inv) => acc + inv.total_amount, 0);
-      const unpaidInvoices = invoicesData.filter(inv => ['sent', 'overdue'].includes(inv.status)).length;
+      // Revenue is what was actually received this year, the same as in the reports.
+      const totalRevenue = sumMoney(receivedPayments.map(p => p.amount));
+      const unpaidInvoices = invoicesData.filter(inv => ['sent', 'partially_paid', 'overdue'].includes(inv.status)).length;
       setStats({ totalRevenue, unpaidInvoices, pendingQuotes: pendingQuotesData?.length || 0 });
 
-      const monthlySales = Array(12).fill(0).map((_, i) => ({ name: new Date(0, i).toLocaleString(language, { month: 'short' }), paid: 0, sent: 0, overdue: 0, draft: 0 }));
+      const monthlySales = Array(12).fill(0).map((_, i) => ({ name: new Date(0, i).toLocaleString(language, { month: 'short' }), paid: 0, partially_paid: 0, sent: 0, overdue: 0, draft: 0 }));
       invoicesData.forEach(inv => {
           const issueDate = parseAsLocalDate(inv.issue_date);
           if (issueDate) {
               const month = issueDate.getMonth();
-              if (['paid', 'sent', 'overdue', 'draft'].includes(inv.status)) {
-                  monthlySales[month][inv.status as InvoiceStatus] += inv.total_amount;
+              if (['paid', 'partially_paid', 'sent', 'overdue', 'draft'].includes(inv.status)) {
+                  monthlySales[month][inv.status as Exclude<InvoiceStatus, 'cancelled'>] += inv.total_amount;
               }
           }
       });
@@ -223,16 +258,6 @@ const DashboardPage: React.FC = () => {
     await generateDocumentPDF(invoiceId, 'invoice', language);
   };
 
-  const handleSendEmail = async (invoice: Invoice) => {
-    if (!invoice.customers?.email) {
-      alert("This customer does not have an email address saved.");
-      return;
-    }
-    await generateDocumentPDF(invoice.id, 'invoice', language);
-    const subject = `Invoice ${invoice.invoice_number} from your company`;
-    const body = `Dear ${invoice.customers?.name},\n\nPlease find attached the invoice for your recent transaction.\n\n(Remember to attach the PDF you just downloaded!)\n\nBest regards,\nYour Company`;
-    window.location.href = `mailto:${invoice.customers.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
-  };
   
   // --- Quick Create Logic ---
   const handleNewInvoiceClick = () => {
@@ -329,7 +354,7 @@ const DashboardPage: React.FC = () => {
 
     const agendaItems = useMemo(() => {
         const visitStatusColors: { [key in VisitStatus]: string } = { planned: 'blue', completed: 'green', cancelled: 'red' };
-        const quoteStatusColors: { [key in QuoteStatus]: string } = { draft: 'yellow', sent: 'blue', accepted: 'green', declined: 'red' };
+        const quoteStatusColors: { [key in QuoteStatus]: string } = { draft: 'yellow', sent: 'blue', accepted: 'green', declined: 'red', expired: 'gray' };
 
         const combined = [
             ...(activeFilters.visits ? visits.map(v => ({ id: `visit-${v.id}`, type: 'visit' as const, date: new Date(v.visit_date), title: v.purpose || v.category, customerDetails: `Customer: ${v.customers?.name || 'N/A'}`, locationDetails: v.location || v.customers?.address, link: `/visits/edit/${v.id}`, label: v.visit_number, icon: BriefcaseIcon, status: v.status, statusColor: visitStatusColors[v.status] })) : []),
@@ -398,8 +423,8 @@ const DashboardPage: React.FC = () => {
   if (profile?.role === 'field_service_employee') return renderFieldServiceDashboard();
   if (loading) return <div className="text-center p-8 text-gray-500">Loading dashboard...</div>;
 
-  const hasChartData = salesData.some(month => month.paid > 0 || month.sent > 0 || month.overdue > 0 || month.draft > 0);
-  const statusColors: { [key in InvoiceStatus]: string } = { draft: 'bg-yellow-100 text-yellow-800', sent: 'bg-blue-100 text-blue-800', paid: 'bg-green-100 text-green-800', overdue: 'bg-red-100 text-red-800' };
+  const hasChartData = salesData.some(month => month.paid > 0 || month.partially_paid > 0 || month.sent > 0 || month.overdue > 0 || month.draft > 0);
+  const statusColors: { [key in InvoiceStatus]: string } = { draft: 'bg-yellow-100 text-yellow-800', sent: 'bg-blue-100 text-blue-800', partially_paid: 'bg-teal-100 text-teal-800', paid: 'bg-green-100 text-green-800', overdue: 'bg-red-100 text-red-800', cancelled: 'bg-gray-100 text-gray-800' };
 
   return (
     <div className="space-y-8">
@@ -431,11 +456,13 @@ const DashboardPage: React.FC = () => {
       <ActionCenter />
 
       <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-        <div className="lg:col-span-3 bg-white dark:bg-slate-800 p-6 rounded-xl shadow-md"><h2 className="text-lg font-semibold mb-4">{t('sales_overview')}</h2>{hasChartData ? <ResponsiveContainer width="100%" height={300}><BarChart data={salesData} margin={{ top: 5, right: 20, left: -5, bottom: 5 }}><CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(200, 200, 200, 0.2)"/><XAxis dataKey="name" tick={{ fontSize: 12 }} stroke="#9ca3af" axisLine={false} tickLine={false} /><YAxis tickFormatter={yAxisTickFormatter} tick={{ fontSize: 12 }} stroke="#9ca3af" axisLine={false} tickLine={false} /><Tooltip content={<CustomTooltip />} cursor={{ fill: 'rgba(107, 114, 128, 0.1)' }} /><Legend iconType="circle" iconSize={10} wrapperStyle={{ paddingTop: '20px' }} /><Bar dataKey="paid" stackId="sales" name={t('paid')} fill="#22c55e" radius={[4, 4, 0, 0]} /><Bar dataKey="draft" stackId="sales" name={t('draft')} fill="#eab308" radius={[4, 4, 0, 0]} /><Bar dataKey="sent" stackId="sales" name={t('sent')} fill="#3b82f6" radius={[4, 4, 0, 0]} /><Bar dataKey="overdue" stackId="sales" name={t('overdue')} fill="#ef4444" radius={[4, 4, 0, 0]} /></BarChart></ResponsiveContainer> : <div className="flex items-center justify-center h-[300px] text-gray-500 dark:text-gray-400">No sales data for this year.</div>}</div>
+        <div className="lg:col-span-3 bg-white dark:bg-slate-800 p-6 rounded-xl shadow-md"><h2 className="text-lg font-semibold mb-4">{t('sales_overview')}</h2>{hasChartData ? <ResponsiveContainer width="100%" height={300}><BarChart data={salesData} margin={{ top: 5, right: 20, left: -5, bottom: 5 }}><CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(200, 200, 200, 0.2)"/><XAxis dataKey="name" tick={{ fontSize: 12 }} stroke="#9ca3af" axisLine={false} tickLine={false} /><YAxis tickFormatter={yAxisTickFormatter} tick={{ fontSize: 12 }} stroke="#9ca3af" axisLine={false} tickLine={false} /><Tooltip content={<CustomTooltip />} cursor={{ fill: 'rgba(107, 114, 128, 0.1)' }} /><Legend iconType="circle" iconSize={10} wrapperStyle={{ paddingTop: '20px' }} /><Bar dataKey="paid" stackId="sales" name={t('paid')} fill="#22c55e" radius={[4, 4, 0, 0]} /><Bar dataKey="partially_paid" stackId="sales" name={t('partially_paid')} fill="#14b8a6" radius={[4, 4, 0, 0]} /><Bar dataKey="draft" stackId="sales" name={t('draft')} fill="#eab308" radius={[4, 4, 0, 0]} /><Bar dataKey="sent" stackId="sales" name={t('sent')} fill="#3b82f6" radius={[4, 4, 0, 0]} /><Bar dataKey="overdue" stackId="sales" name={t('overdue')} fill="#ef4444" radius={[4, 4, 0, 0]} /></BarChart></ResponsiveContainer> : <div className="flex items-center justify-center h-[300px] text-gray-500 dark:text-gray-400">No sales data for this year.</div>}</div>
         <div className="lg:col-span-2"><DispatchHub /></div>
       </div>
 
-      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md overflow-hidden"><h2 className="p-6 text-lg font-semibold border-b dark:border-slate-700">{t('recent_invoices')}</h2><div className="overflow-x-auto"><table className="min-w-full"><thead className="bg-gray-50/50 dark:bg-slate-800/50"><tr className="text-left"><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Invoice #</th><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Customer</th>{profile?.role === 'super_admin' && <th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Organization</th>}<th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Date</th><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Total</th><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th><th className="px-6 py-3 text-right text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('actions')}</th></tr></thead><tbody className="divide-y divide-gray-200 dark:divide-slate-700">{recentInvoices.length > 0 ? recentInvoices.map(invoice => (<tr key={invoice.id} className="hover:bg-gray-50 dark:hover:bg-slate-700/50"><td className="px-6 py-4"><button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} className="font-medium text-primary-600 hover:underline">{invoice.invoice_number}</button></td><td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-200">{invoice.customers?.name || 'N/A'}</td>{profile?.role === 'super_admin' && <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{((invoice as any).organizations as any)?.name || 'N/A'}</td>}<td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{formatEuropeanDate(invoice.issue_date)}</td><td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-200">€{invoice.total_amount.toFixed(2)}</td><td className="px-6 py-4"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[invoice.status]} capitalize`}>{t(invoice.status as any)}</span></td><td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2"><button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} title="Edit / View"><PencilIcon className="w-5 h-5 inline-block text-primary-600 hover:text-primary-800"/></button><button onClick={() => handleSendEmail(invoice)} title="Send Email"><EnvelopeIcon className="w-5 h-5 inline-block text-gray-500 dark:text-gray-400 hover:text-primary-600"/></button><button onClick={() => handleDownloadPDF(invoice.id)} title="Download PDF"><ArrowDownTrayIcon className="w-5 h-5 inline-block text-gray-500 dark:text-gray-400 hover:text-primary-600"/></button></td></tr>)) : (<tr><td colSpan={profile?.role === 'super_admin' ? 7 : 6} className="p-4 text-center text-gray-500">No recent invoices.</td></tr>)}</tbody></table></div></div>
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md overflow-hidden"><h2 className="p-6 text-lg font-semibold border-b dark:border-slate-700">{t('recent_invoices')}</h2><div className="overflow-x-auto"><table className="min-w-full"><thead className="bg-gray-50/50 dark:bg-slate-800/50"><tr className="text-left"><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Invoice #</th><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Customer</th>{profile?.role === 'super_admin' && <th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Organization</th>}<th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Date</th><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Total</th><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th><th className="px-6 py-3 text-right text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('actions')}</th></tr></thead><tbody className="divide-y divide-gray-200 dark:divide-slate-700">{recentInvoices.length > 0 ? recentInvoices.map(invoice => (<tr key={invoice.id} className="hover:bg-gray-50 dark:hover:bg-slate-700/50"><td className="px-6 py-4"><button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} className="font-medium text-primary-600 hover:underline">{invoice.invoice_number}</button></td><td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-200">{invoice.customers?.name || 'N/A'}</td>{profile?.role === 'super_admin' && <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{((invoice as any).organizations as any)?.name || 'N/A'}</td>}<td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{formatEuropeanDate(invoice.issue_date)}</td><td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-200">€{invoice.total_amount.toFixed(2)}</td><td className="px-6 py-4"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[invoice.status]} capitalize`}>{t(invoice.status as any)}</span></td><td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2"><button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} title="Edit / View"><PencilIcon className="w-5 h-5 inline-block text-primary-600 hover:text-primary-800"/></button><button onClick={() => setSendingInvoice(invoice)} title="Send Email"><EnvelopeIcon className="w-5 h-5 inline-block text-gray-500 dark:text-gray-400 hover:text-primary-600"/></button><button onClick={() => handleDownloadPDF(invoice.id)} title="Download PDF"><ArrowDownTrayIcon className="w-5 h-5 inline-block text-gray-500 dark:text-gray-400 hover:text-primary-600"/></button></td></tr>)) : (<tr><td colSpan={profile?.role === 'super_admin' ? 7 : 6} className="p-4 text-center text-gray-500">No recent invoices.</td></tr>)}</tbody></table></div></div>
+
+      {sendingInvoice && <SendDocumentModal documentType="invoice" documentId={sendingInvoice.id} documentNumber={sendingInvoice.invoice_number} closeModal={() => setSendingInvoice(null)} onSent={() => { setSendingInvoice(null); fetchDashboardData(); }} />}
     </div>
   );
 };
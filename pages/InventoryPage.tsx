@@ -3,9 +3,14 @@ import { supabase } from '../services/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useRefresh } from '../contexts/RefreshContext';
-import { Product } from '../types';
-import { PlusIcon, PencilIcon, TrashIcon, ChevronUpIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+import { useTabs } from '../contexts/TabContext';
+import { Product, StorageLocation } from '../types';
+import { PlusIcon, PencilIcon, TrashIcon, ChevronUpIcon, ChevronDownIcon, ClockIcon, TruckIcon, ShoppingCartIcon, ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
 import ProductModal from '../components/modals/ProductModal';
+import StockHistoryModal from '../components/modals/StockHistoryModal';
+import StockTransferModal from '../components/modals/StockTransferModal';
+import { postStockMovements, getStockByLocation, getLocationQuantity, LocationStock } from '../lib/stock';
+import { getStorageLocations, getEmployeeVehicle } from '../lib/storageLocations';
 
 type SortConfig = { key: string; direction: 'asc' | 'desc' };
 
@@ -13,10 +18,17 @@ const InventoryPage: React.FC = () => {
   const { user, profile } = useAuth();
   const { t } = useLanguage();
   const { refreshKey } = useRefresh();
+  const { openTab } = useTabs();
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+  const [transferProduct, setTransferProduct] = useState<Product | null>(null);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [locationStock, setLocationStock] = useState<LocationStock>(new Map());
+  const [locationFilter, setLocationFilter] = useState<string>('all'); // 'all', '' for the main warehouse, or a location ID
+  const [showVanOnly, setShowVanOnly] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'name', direction: 'asc' });
 
@@ -28,7 +40,7 @@ const InventoryPage: React.FC = () => {
     if (!user || !profile) return;
     setLoading(true);
 
-    let query = supabase.from('products').select('*, organizations(name)');
+    let query = supabase.from('products').select('*, organizations(name), suppliers:preferred_supplier_id(id, name)');
 
     if (profile.role !== 'super_admin') {
       query = query.eq('org_id', profile.org_id);
@@ -46,10 +58,44 @@ const InventoryPage: React.FC = () => {
     setLoading(false);
   }, [user, profile, searchTerm, sortConfig]);
 
+  // Locations belong to one organization, so super admins only see the total stock.
+  const fetchLocationStock = useCallback(async () => {
+    if (!profile?.org_id || profile.role === 'super_admin') return;
+    try {
+      const [locationsData, stockData] = await Promise.all([getStorageLocations(profile.org_id), getStockByLocation(profile.org_id)]);
+      setLocations(locationsData);
+      setLocationStock(stockData);
+    } catch (error: any) {
+      console.error('Error fetching stock per location:', error.message);
+    }
+  }, [profile]);
+
   useEffect(() => {
     fetchProducts();
   }, [fetchProducts, refreshKey]);
 
+  useEffect(() => {
+    fetchLocationStock();
+  }, [fetchLocationStock, refreshKey]);
+
+  const handleStockChange = () => {
+    fetchProducts();
+    fetchLocationStock();
+  };
+
+  const myVan = user ? getEmployeeVehicle(locations, user.id) : null;
+  const selectedLocationId = locationFilter === 'all' || locationFilter === '' ? null : Number(locationFilter);
+
+  // Stock shown in the table: the total, or the quantity at the selected location.
+  const getDisplayedStock = (product: Product) => {
+    if (product.stock_level == null) return 'N/A';
+    return locationFilter === 'all' ? product.stock_level : getLocationQuantity(locationStock, selectedLocationId, product);
+  };
+
+  const visibleProducts = isFieldServiceEmployee && myVan && showVanOnly
+    ? products.filter(p => p.stock_level != null && getLocationQuantity(locationStock, myVan.id, p) !== 0)
+    : products;
+
   const handleSort = (key: string) => {
     setSortConfig(prevConfig => ({
       key,
@@ -68,12 +114,24 @@ const InventoryPage: React.FC = () => {
   };
 
   const handleSaveProduct = async (productData: Partial<Product>) => {
-    const { data, error } = await supabase.from('products').upsert(productData).select().single();
-    if (error) alert('Error saving product: ' + error.message);
-    else {
-      fetchProducts();
-      handleCloseModal();
+    // The opening stock of a new product is booked as its first receipt; an empty value means the stock is not tracked.
+    const { stock_level: openingStock, ...fields } = productData;
+    const isNewProduct = !productData.id;
+    const row: Partial<Product> = isNewProduct ? { ...fields, stock_level: openingStock == null ? null : 0 } : fields;
+    const { data, error } = await supabase.from('products').upsert(row).select().single();
+    if (error) {
+      alert('Error saving product: ' + error.message);
+      return;
+    }
+    if (isNewProduct && data && user && openingStock) {
+      try {
+        await postStockMovements([{ org_id: data.org_id, product_id: data.id, movement_type: 'receipt', quantity: openingStock, source_type: null, source_id: null, location_id: null, note: 'Opening stock', created_by: user.id }]);
+      } catch (stockError: any) {
+        alert('Product saved, but the opening stock could not be booked: ' + stockError.message);
+      }
     }
+    fetchProducts();
+    handleCloseModal();
   };
 
   const handleDeleteProduct = async (id: number) => {
@@ -110,6 +168,17 @@ const InventoryPage: React.FC = () => {
         <p className="text-sm text-gray-500 dark:text-gray-400">
             Stock: {product.stock_level ?? 'N/A'}
         </p>
+        {myVan && product.stock_level != null && (
+            <div className="flex justify-between items-center pt-2 border-t border-gray-200 dark:border-gray-700">
+                <p className="text-sm">
+                    {t('myVan')}: <span className="font-bold">{getLocationQuantity(locationStock, myVan.id, product)}</span>
+                    <span className="text-gray-500 dark:text-gray-400"> · {t('mainWarehouse')}: {getLocationQuantity(locationStock, null, product)}</span>
+                </p>
+                <button onClick={() => setTransferProduct(product)} className="inline-flex items-center px-3 py-1 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700">
+                    <TruckIcon className="w-4 h-4 mr-1" /> {t('restock')}
+                </button>
+            </div>
+        )}
     </div>
   );
 
@@ -118,14 +187,26 @@ const InventoryPage: React.FC = () => {
       <div className="space-y-6">
         <div className="flex flex-col sm:flex-row justify-between items-center">
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('inventory')}</h1>
-          {canCreate && (
-            <button onClick={() => handleOpenModal()} className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700">
-              <PlusIcon className="w-5 h-5 mr-2" /> New Product
-            </button>
-          )}
+          <div className="flex flex-wrap gap-2 mt-4 sm:mt-0">
+            {canManageInventory && (
+              <>
+                <button onClick={() => openTab({ path: '/inventory/suppliers', label: t('suppliers') })} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md shadow-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600">
+                  <TruckIcon className="w-5 h-5 mr-2" /> {t('suppliers')}
+                </button>
+                <button onClick={() => openTab({ path: '/inventory/purchase-orders', label: t('purchaseOrders') })} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md shadow-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600">
+                  <ShoppingCartIcon className="w-5 h-5 mr-2" /> {t('purchaseOrders')}
+                </button>
+              </>
+            )}
+            {canCreate && (
+              <button onClick={() => handleOpenModal()} className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700">
+                <PlusIcon className="w-5 h-5 mr-2" /> New Product
+              </button>
+            )}
+          </div>
         </div>
 
-        <div className="p-4 bg-white rounded-lg shadow-md dark:bg-gray-800">
+        <div className="p-4 bg-white rounded-lg shadow-md dark:bg-gray-800 flex flex-col sm:flex-row gap-4">
           <input 
             type="text"
             placeholder="Search by name or product number..."
@@ -133,12 +214,35 @@ const InventoryPage: React.FC = () => {
             onChange={(e) => setSearchTerm(e.target.value)}
             className="w-full p-2 border border-gray-300 rounded-md shadow-sm dark:bg-gray-700 dark:border-gray-600"
           />
+          {!isFieldServiceEmployee && locations.length > 0 && (
+            <select
+              value={locationFilter}
+              onChange={(e) => setLocationFilter(e.target.value)}
+              className="p-2 border border-gray-300 rounded-md shadow-sm dark:bg-gray-700 dark:border-gray-600"
+            >
+              <option value="all">{t('allLocations')}</option>
+              <option value="">{t('mainWarehouse')}</option>
+              {locations.map(location => <option key={location.id} value={location.id}>{location.name}</option>)}
+            </select>
+          )}
+          {isFieldServiceEmployee && myVan && (
+            <label className="flex items-center gap-2 text-sm whitespace-nowrap">
+              <input type="checkbox" checked={showVanOnly} onChange={(e) => setShowVanOnly(e.target.checked)} className="rounded" />
+              {t('onlyMyVan')}
+            </label>
+          )}
         </div>
 
+        {isFieldServiceEmployee && !loading && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {myVan ? <><TruckIcon className="w-4 h-4 inline-block mr-1" />{t('myVan')}: <span className="font-medium">{myVan.name}</span></> : t('noVanAssigned')}
+          </p>
+        )}
+
         {loading ? <div className="p-6 text-center text-gray-500">Loading...</div> : (
           isFieldServiceEmployee ? (
             <div className="space-y-4">
-                 {products.length > 0 ? products.map(product => (
+                 {visibleProducts.length > 0 ? visibleProducts.map(product => (
                     <MobileProductCard key={product.id} product={product} />
                   )) : <p className="p-6 text-center text-gray-500">No products found.</p>}
             </div>
@@ -152,7 +256,9 @@ const InventoryPage: React.FC = () => {
                         <SortableHeader sortKey="name" label="Name" />
                         {profile?.role === 'super_admin' && <SortableHeader sortKey="organizations.name" label="Organization" />}
                         <SortableHeader sortKey="selling_price" label="Price" />
-                        <SortableHeader sortKey="stock_level" label="Stock" />
+                        <SortableHeader sortKey="purchase_price" label={t('purchasePrice')} />
+                        <th className="px-6 py-3 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider border-b-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">{t('preferredSupplier')}</th>
+                        <SortableHeader sortKey="stock_level" label={locationFilter === 'all' ? 'Stock' : `Stock (${locationFilter === '' ? t('mainWarehouse') : locations.find(l => String(l.id) === locationFilter)?.name})`} />
                         <th className="px-6 py-3 text-right text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider border-b-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">{t('actions')}</th>
                     </tr>
                     </thead>
@@ -163,8 +269,14 @@ const InventoryPage: React.FC = () => {
                         <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">{product.name}</td>
                         {profile?.role === 'super_admin' && <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{product.organizations?.name || 'N/A'}</td>}
                         <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">€{product.selling_price.toFixed(2)}</td>
-                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{product.stock_level ?? 'N/A'}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{product.purchase_price != null ? `€${Number(product.purchase_price).toFixed(2)}` : '-'}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{product.suppliers?.name || '-'}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{getDisplayedStock(product)}</td>
                         <td className="px-6 py-3 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                            <button onClick={() => setHistoryProduct(product)} title={t('stockHistory')} className="text-gray-500 hover:text-gray-700"><ClockIcon className="w-5 h-5"/></button>
+                            {canManageInventory && locations.length > 0 && product.stock_level != null && (
+                                <button onClick={() => setTransferProduct(product)} title={t('transferStock')} className="text-gray-500 hover:text-gray-700"><ArrowsRightLeftIcon className="w-5 h-5"/></button>
+                            )}
                             {canManageInventory && (
                             <>
                                 <button onClick={() => handleOpenModal(product)} className="text-primary-600 hover:text-primary-800"><PencilIcon className="w-5 h-5"/></button>
@@ -182,6 +294,17 @@ const InventoryPage: React.FC = () => {
         )}
       </div>
       {isModalOpen && <ProductModal product={selectedProduct} closeModal={handleCloseModal} onSave={handleSaveProduct} />}
+      {historyProduct && <StockHistoryModal product={historyProduct} canManage={canManageInventory} closeModal={() => setHistoryProduct(null)} onChange={handleStockChange} />}
+      {transferProduct && (
+        <StockTransferModal
+          product={transferProduct}
+          locations={locations}
+          stock={locationStock}
+          destinationId={isFieldServiceEmployee && myVan ? myVan.id : undefined}
+          closeModal={() => setTransferProduct(null)}
+          onChange={handleStockChange}
+        />
+      )}
     </>
   );
 };
@@ -4,16 +4,26 @@ import { supabase } from '../services/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useTabs } from '../contexts/TabContext';
-import { Customer, Product, Invoice, InvoiceItem, InvoiceStatus } from '../types';
-import { GERMAN_VAT_RATES } from '../constants';
+import { Customer, Product, Invoice, InvoiceItem, InvoiceStatus, Payment, InvoiceReminder, InvoiceDocumentType, DiscountType, DocumentEmail } from '../types';
 import { generateNextNumber } from '../lib/numberGenerator';
-import generateDocumentPDF from '../lib/pdfGenerator';
-import { PlusIcon, TrashIcon, ArrowDownTrayIcon, EllipsisVerticalIcon, ArrowLeftIcon, EnvelopeIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import generateDocumentPDF, { generateReminderPDF } from '../lib/pdfGenerator';
+import { getPaidAmount, getOpenBalance, getCreditedAmount, deriveInvoiceStatus, deletePayment, syncInvoiceStatus } from '../lib/payments';
+import { createCreditDocument, getRemainingCreditAmount, isInvoiceLocked } from '../lib/creditNotes';
+import { getDocumentEmails } from '../lib/email';
+import { syncInvoiceStock } from '../lib/stock';
+import { PlusIcon, TrashIcon, ArrowDownTrayIcon, EllipsisVerticalIcon, ArrowLeftIcon, EnvelopeIcon, DocumentDuplicateIcon, ReceiptRefundIcon, XCircleIcon, LockClosedIcon, CodeBracketIcon } from '@heroicons/react/24/outline';
 import CustomerModal from '../components/modals/CustomerModal';
 import ProductSelectionModal from '../components/modals/ProductSelectionModal';
+import PaymentModal from '../components/modals/PaymentModal';
+import EInvoiceExportModal from '../components/modals/EInvoiceExportModal';
+import SendDocumentModal from '../components/modals/SendDocumentModal';
 import DatePicker from '../components/ui/DatePicker';
+import DiscountInput from '../components/ui/DiscountInput';
 import { format } from 'date-fns';
-import { parseAsLocalDate } from '../lib/formatting';
+import { calculateDocumentTotals } from '../lib/documentTotals';
+import { getOrganizationTaxSettings, getTaxRules, getVatRates, getItemVatRate, applyTaxRules, OrganizationTaxSettings } from '../lib/taxEngine';
+import { parseAsLocalDate, formatEuropeanDate } from '../lib/formatting';
+import { toCents } from '../lib/money';
 
 const InvoiceEditor: React.FC = () => {
   const location = useLocation();
@@ -21,7 +31,7 @@ const InvoiceEditor: React.FC = () => {
   const navigate = useNavigate();
   const { user, profile } = useAuth();
   const { t, language } = useLanguage();
-  const { closeTab, updateTabLabel, replaceTab } = useTabs();
+  const { openTab, closeTab, updateTabLabel, replaceTab } = useTabs();
 
   const { current: instance } = useRef({ path: location.pathname, id: params.id });
   const { id, path: instancePath } = instance;
@@ -31,18 +41,31 @@ const InvoiceEditor: React.FC = () => {
     due_date: new Date(new Date().setDate(new Date().getDate() + 14)).toISOString(),
     status: 'draft',
     customer_id: undefined,
+    document_type: 'invoice',
+    original_invoice_id: null,
   });
-  const [items, setItems] = useState<Partial<InvoiceItem>[]>([{ description: '', quantity: 1, unit_price: 0, vat_rate: 19 }]);
+  const [items, setItems] = useState<Partial<InvoiceItem>[]>([{ description: '', quantity: 1, unit_price: 0, vat_rate: getVatRates(null)[0] }]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [reminders, setReminders] = useState<InvoiceReminder[]>([]);
+  const [emails, setEmails] = useState<DocumentEmail[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [taxSettings, setTaxSettings] = useState<OrganizationTaxSettings | null>(null);
   const [loading, setLoading] = useState(!!id);
   const [isSaving, setIsSaving] = useState(false);
   const [isCustomerModalOpen, setIsCustomerModalOpen] = useState(false);
   const [isProductModalOpen, setIsProductModalOpen] = useState(false);
+  const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isEInvoiceModalOpen, setIsEInvoiceModalOpen] = useState(false);
+  const [isSendModalOpen, setIsSendModalOpen] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
   const isReadOnly = profile?.role === 'field_service_employee';
   const canSave = !isReadOnly;
+  // Issued documents can no longer be changed; only their status may still be updated.
+  const isEditable = !isReadOnly && !isLocked;
+  const documentType: InvoiceDocumentType = invoice.document_type || 'invoice';
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -67,7 +90,7 @@ const InvoiceEditor: React.FC = () => {
 
     let query = supabase
       .from('invoices')
-      .select('*, invoice_items:invoice_items!left(*), customers:customers!left(*)')
+      .select('*, invoice_items:invoice_items!left(*), customers:customers!left(*), payments:payments!left(*), invoice_reminders:invoice_reminders!left(*), original_invoice:original_invoice_id(id, invoice_number, issue_date), credit_notes:invoices!original_invoice_id(id, invoice_number, document_type, total_amount, status)')
       .eq('id', invoiceId);
       
     if (profile.role !== 'super_admin' && profile.org_id) {
@@ -82,10 +105,18 @@ const InvoiceEditor: React.FC = () => {
       return;
     }
 
-    const { invoice_items, customers, ...invoiceData } = data;
+    const { invoice_items, customers, payments, invoice_reminders, ...invoiceData } = data;
     setInvoice({ ...invoiceData, customers });
+    setIsLocked(isInvoiceLocked(invoiceData));
     setItems(invoice_items || []);
+    setPayments((payments || []).sort((a: Payment, b: Payment) => a.payment_date.localeCompare(b.payment_date)));
+    setReminders((invoice_reminders || []).sort((a: InvoiceReminder, b: InvoiceReminder) => a.level - b.level));
     updateTabLabel(instancePath, invoiceData.invoice_number);
+    try {
+      setEmails(await getDocumentEmails('invoice', invoiceId));
+    } catch (emailError: any) {
+      console.error('Error fetching email log:', emailError.message);
+    }
     setLoading(false);
   }, [id, profile, navigate, instancePath, updateTabLabel]);
 
@@ -100,6 +131,14 @@ const InvoiceEditor: React.FC = () => {
 
     const { data: customerData } = await query;
     setCustomers(customerData || []);
+
+    if (profile.org_id) {
+      try {
+        setTaxSettings(await getOrganizationTaxSettings(profile.org_id));
+      } catch (error: any) {
+        console.error('Error fetching tax settings:', error.message);
+      }
+    }
   }, [profile]);
 
   useEffect(() => {
@@ -115,16 +154,25 @@ const InvoiceEditor: React.FC = () => {
     }
   }, [id, fetchCustomersAndProducts, fetchData, location.state]);
 
+  const selectedCustomer = useMemo(() => customers.find(c => c.id === Number(invoice.customer_id)), [customers, invoice.customer_id]);
+  // Issued documents keep the tax treatment they were saved with.
+  const taxRules = useMemo(
+    () => getTaxRules(taxSettings, selectedCustomer, isEditable ? null : invoice.tax_treatment),
+    [taxSettings, selectedCustomer, isEditable, invoice.tax_treatment]
+  );
+
   useEffect(() => {
-    if (!isReadOnly) {
-        const newTotal = items.reduce((acc, item) => {
-            const itemTotal = (item.quantity || 0) * (item.unit_price || 0);
-            const vatAmount = itemTotal * ((item.vat_rate || 0) / 100);
-            return acc + itemTotal + vatAmount;
-        }, 0);
-        setInvoice(inv => ({...inv, total_amount: newTotal }));
+    if (isEditable && taxSettings) {
+      setItems(prev => applyTaxRules(prev, taxRules));
     }
-  }, [items, isReadOnly]);
+  }, [taxRules, taxSettings, isEditable]);
+
+  useEffect(() => {
+    if (isEditable) {
+        const { grandTotal } = calculateDocumentTotals(items, { discount_type: invoice.discount_type, discount_value: invoice.discount_value });
+        setInvoice(inv => ({...inv, total_amount: grandTotal }));
+    }
+  }, [items, invoice.discount_type, invoice.discount_value, isEditable]);
 
 
   const handleInvoiceChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
@@ -132,7 +180,7 @@ const InvoiceEditor: React.FC = () => {
   };
   
   const handleDateChange = (name: 'issue_date' | 'due_date', date: Date | null) => {
-    if (date) {
+    if (date && isEditable) {
         setInvoice({ ...invoice, [name]: date.toISOString() });
     }
   };
@@ -145,12 +193,16 @@ const InvoiceEditor: React.FC = () => {
     setItems(newItems);
   };
 
-  const addItem = () => setItems([...items, { description: '', quantity: 1, unit_price: 0, vat_rate: 19 }]);
+  const handleItemDiscountChange = (index: number, discount_type: DiscountType, discount_value: number | null) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, discount_type, discount_value } : item));
+  };
+
+  const addItem = () => setItems([...items, { description: '', quantity: 1, unit_price: 0, vat_rate: taxRules.defaultRate }]);
   const removeItem = (index: number) => setItems(items.filter((_, i) => i !== index));
   
   const addProductsFromModal = (selectedProducts: Product[]) => {
     const newItems = selectedProducts.map(p => ({
-      product_id: p.id, description: p.name, quantity: 1, unit_price: p.selling_price, vat_rate: 19,
+      product_id: p.id, description: p.name, quantity: 1, unit_price: p.selling_price, vat_rate: getItemVatRate(p.vat_rate, taxRules),
     }));
     setItems(prev => [...prev.filter(i => i.description), ...newItems]);
     setIsProductModalOpen(false);
@@ -167,7 +219,7 @@ const InvoiceEditor: React.FC = () => {
     }
     setIsSaving(true);
     
-    const { customers, invoice_items, organizations, ...invoiceDataToSave } = invoice;
+    const { customers, invoice_items, organizations, payments: _payments, invoice_reminders: _reminders, original_invoice, credit_notes, ...invoiceDataToSave } = invoice;
     const isNewInvoice = !id || id === 'new';
 
     const issueDate = parseAsLocalDate(invoiceDataToSave.issue_date);
@@ -181,14 +233,39 @@ const InvoiceEditor: React.FC = () => {
 
     const issueDateISO = format(issueDate, 'yyyy-MM-dd');
     const dueDateISO = format(dueDate, 'yyyy-MM-dd');
+    // The total may have changed, so the payment-based status is re-derived before saving.
+    const status = documentType === 'invoice'
+      ? deriveInvoiceStatus({ status: invoiceDataToSave.status || 'draft', total_amount: invoiceDataToSave.total_amount || 0 }, paidAmount, creditedAmount)
+      : invoiceDataToSave.status || 'draft';
 
     try {
       let savedInvoice: Invoice;
 
+      if (!isNewInvoice && isLocked) {
+        const { error } = await supabase.from('invoices').update({ status }).eq('id', parseInt(id));
+        if (error) throw error;
+        alert('Invoice saved successfully!');
+        fetchData();
+        return;
+      }
+
+      // A draft credit note can still be edited, but never credit more than is left of its invoice.
+      if (documentType === 'credit_note' && invoiceDataToSave.original_invoice_id) {
+        const remainingAmount = await getRemainingCreditAmount(invoiceDataToSave.original_invoice_id, isNewInvoice ? null : parseInt(id));
+        if (toCents(invoiceDataToSave.total_amount) > toCents(remainingAmount)) {
+          alert(`This credit note exceeds the remaining €${remainingAmount.toFixed(2)} of invoice ${original_invoice?.invoice_number || ''}.`);
+          return;
+        }
+      }
+
+      // Issued documents are locked together with their items, so the document is saved as a draft
+      // and issued once its items are saved.
       if (isNewInvoice) {
         const invoiceNumber = await generateNextNumber(profile.org_id, 'invoice');
         const { data, error } = await supabase.from('invoices').insert({
           ...invoiceDataToSave, 
+          tax_treatment: taxRules.treatment,
+          status: 'draft',
           issue_date: issueDateISO,
           due_date: dueDateISO,
           user_id: user.id, 
@@ -200,6 +277,8 @@ const InvoiceEditor: React.FC = () => {
       } else {
         const { data, error } = await supabase.from('invoices').update({
           ...invoiceDataToSave,
+          tax_treatment: taxRules.treatment,
+          status: 'draft',
           issue_date: issueDateISO,
           due_date: dueDateISO,
         }).eq('id', parseInt(id)).select().single();
@@ -213,6 +292,20 @@ const InvoiceEditor: React.FC = () => {
         const { error: itemsError } = await supabase.from('invoice_items').insert(itemsToSave.map(({ id, ...rest }) => rest));
         if (itemsError) throw itemsError;
       }
+      if (status !== 'draft') {
+        const { error: issueError } = await supabase.from('invoices').update({ status }).eq('id', savedInvoice.id);
+        if (issueError) throw issueError;
+      }
+      // The database recalculates the stored total from the saved items instead of trusting the
+      // editor's value, so the payment-based status is derived again from that total.
+      await syncInvoiceStatus(savedInvoice.id);
+      // Issuing the document posts its stock movements.
+      await syncInvoiceStock(savedInvoice.id, user.id);
+
+      // Issuing a credit note changes the open balance and status of the original invoice.
+      if (savedInvoice.original_invoice_id) {
+        await syncInvoiceStatus(savedInvoice.original_invoice_id);
+      }
 
       alert('Invoice saved successfully!');
 
@@ -231,20 +324,43 @@ const InvoiceEditor: React.FC = () => {
     }
   };
 
-  const totals = useMemo(() => {
-    let subtotal = 0;
-    const vatTotals: { [key: number]: number } = {};
-    items.forEach(item => {
-      const itemTotal = (item.quantity || 0) * (item.unit_price || 0);
-      subtotal += itemTotal;
-      const vatRate = item.vat_rate || 0;
-      const vatAmount = itemTotal * (vatRate / 100);
-      vatTotals[vatRate] = (vatTotals[vatRate] || 0) + vatAmount;
-    });
-    const totalVat = Object.values(vatTotals).reduce((a, b) => a + b, 0);
-    const grandTotal = subtotal + totalVat;
-    return { subtotal, vatTotals, totalVat, grandTotal };
-  }, [items]);
+  const totals = useMemo(
+    () => calculateDocumentTotals(items, { discount_type: invoice.discount_type, discount_value: invoice.discount_value }),
+    [items, invoice.discount_type, invoice.discount_value]
+  );
+
+  const paidAmount = useMemo(() => getPaidAmount(payments), [payments]);
+  const creditedAmount = getCreditedAmount(invoice.credit_notes);
+  const openBalance = getOpenBalance({ total_amount: invoice.total_amount || 0 }, payments, invoice.credit_notes);
+  const isDerivedStatus = invoice.status === 'paid' || invoice.status === 'partially_paid' || invoice.status === 'cancelled';
+  const statusOptions: InvoiceStatus[] = documentType === 'invoice' ? ['draft', 'sent', 'overdue'] : ['draft', 'sent'];
+  const canCreateCredit = !isReadOnly && isLocked && documentType === 'invoice' && invoice.status !== 'cancelled';
+
+  const handleCreateCreditDocument = async (type: 'credit_note' | 'cancellation') => {
+    if (!profile || !invoice.id) return;
+    setIsMenuOpen(false);
+    const question = type === 'cancellation'
+      ? 'This will cancel the whole invoice with a cancellation invoice. Continue?'
+      : 'Create a credit note for this invoice?';
+    if (!window.confirm(question)) return;
+    try {
+      const creditDocument = await createCreditDocument(invoice.id, type, profile);
+      fetchData();
+      openTab({ path: `/invoices/edit/${creditDocument.id}`, label: creditDocument.invoice_number });
+    } catch (error: any) {
+      alert('Error creating document: ' + error.message);
+    }
+  };
+
+  const handleDeletePayment = async (payment: Payment) => {
+    if (!window.confirm('Are you sure you want to delete this payment?')) return;
+    try {
+      await deletePayment(payment);
+      fetchData();
+    } catch (error: any) {
+      alert('Error deleting payment: ' + error.message);
+    }
+  };
 
   const handleDownloadPdf = async () => {
     if (!id || id === 'new') return;
@@ -255,7 +371,13 @@ const InvoiceEditor: React.FC = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-start">
         <div>
-          <h1 className="text-3xl font-bold">{id && id !== 'new' ? `${isReadOnly ? 'View' : 'Edit'} Invoice ${invoice.invoice_number || ''}` : t('newInvoice')}</h1>
+          <h1 className="text-3xl font-bold">{id && id !== 'new' ? `${isEditable ? 'Edit' : 'View'} ${documentType === 'invoice' ? 'Invoice' : t(documentType)} ${invoice.invoice_number || ''}` : t('newInvoice')}</h1>
+          {invoice.original_invoice && (
+            <p className="text-sm text-gray-500 mt-1">
+              {t('refersToInvoice')}{' '}
+              <button onClick={() => openTab({ path: `/invoices/edit/${invoice.original_invoice!.id}`, label: invoice.original_invoice!.invoice_number })} className="font-medium text-primary-600 hover:underline">{invoice.original_invoice.invoice_number}</button>
+            </p>
+          )}
         </div>
         <div className="flex items-center gap-x-2">
             {!isReadOnly && <button onClick={handleSave} disabled={isSaving} className="px-6 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
@@ -272,6 +394,12 @@ const InvoiceEditor: React.FC = () => {
                   {isMenuOpen && (
                       <div className="absolute right-0 mt-2 w-56 bg-white dark:bg-gray-800 rounded-md shadow-lg z-10">
                          <button onClick={handleDownloadPdf} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"><ArrowDownTrayIcon className="w-5 h-5"/> Download PDF</button>
+                         {canSave && <button onClick={() => { setIsMenuOpen(false); setIsSendModalOpen(true); }} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"><EnvelopeIcon className="w-5 h-5"/> {t('sendDocument')}</button>}
+                         <button onClick={() => { setIsMenuOpen(false); setIsEInvoiceModalOpen(true); }} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"><CodeBracketIcon className="w-5 h-5"/> {t('eInvoiceExport')}</button>
+                         {canCreateCredit && <>
+                           <button onClick={() => handleCreateCreditDocument('credit_note')} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"><ReceiptRefundIcon className="w-5 h-5"/> {t('createCreditNote')}</button>
+                           <button onClick={() => handleCreateCreditDocument('cancellation')} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700"><XCircleIcon className="w-5 h-5"/> {t('cancelInvoice')}</button>
+                         </>}
                       </div>
                   )}
               </div>
@@ -279,15 +407,22 @@ const InvoiceEditor: React.FC = () => {
         </div>
       </div>
 
+      {isLocked && (
+        <div className="flex items-center gap-x-3 p-4 text-sm text-yellow-800 bg-yellow-50 rounded-lg dark:bg-yellow-900/20 dark:text-yellow-300">
+          <LockClosedIcon className="w-5 h-5 flex-shrink-0"/>
+          <span>{documentType === 'invoice' ? t('invoiceLockedNotice') : t('creditDocumentLockedNotice')}</span>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
         <div>
           <label className="block text-sm font-medium">{t('customers')}</label>
           <div className="flex items-center space-x-2">
-            <select name="customer_id" value={invoice.customer_id || ''} onChange={handleInvoiceChange} required disabled={isReadOnly} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
+            <select name="customer_id" value={invoice.customer_id || ''} onChange={handleInvoiceChange} required disabled={!isEditable} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
               <option value="">Select a customer</option>
               {customers.map(c => <option key={c.id} value={c.id}>{c.name} ({c.customer_number})</option>)}
             </select>
-             {!isReadOnly && <button onClick={() => setIsCustomerModalOpen(true)} className="mt-1 p-2 bg-gray-200 rounded-md dark:bg-gray-600"><PlusIcon className="w-5 h-5"/></button>}
+             {isEditable && <button onClick={() => setIsCustomerModalOpen(true)} className="mt-1 p-2 bg-gray-200 rounded-md dark:bg-gray-600"><PlusIcon className="w-5 h-5"/></button>}
           </div>
         </div>
         <div className="mt-1">
@@ -300,8 +435,9 @@ const InvoiceEditor: React.FC = () => {
         </div>
         <div>
           <label className="block text-sm font-medium">Status</label>
-          <select name="status" value={invoice.status} onChange={handleInvoiceChange} disabled={isReadOnly} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 capitalize disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
-            {(['draft', 'sent', 'paid', 'overdue'] as InvoiceStatus[]).map(s => <option key={s} value={s}>{t(s as any)}</option>)}
+          {/* 'paid', 'partially_paid' and 'cancelled' are derived from payments and credit notes and cannot be picked manually. */}
+          <select name="status" value={invoice.status} onChange={handleInvoiceChange} disabled={isReadOnly || isDerivedStatus || (isLocked && documentType !== 'invoice')} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 capitalize disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
+            {(isDerivedStatus ? [invoice.status!] : statusOptions.filter(s => !isLocked || s !== 'draft')).map(s => <option key={s} value={s}>{t(s as any)}</option>)}
           </select>
         </div>
       </div>
@@ -311,40 +447,138 @@ const InvoiceEditor: React.FC = () => {
         <div className="overflow-x-auto -mx-6">
             <table className="min-w-full">
             <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
-                <th className="px-6 py-2">Description</th><th className="px-6 py-2 w-24">Qty</th><th className="px-6 py-2 w-32">Unit Price</th><th className="px-6 py-2 w-28">VAT %</th><th className="px-6 py-2 w-32">Total</th><th className="w-10 px-6"></th>
+                <th className="px-6 py-2">Description</th><th className="px-6 py-2 w-24">Qty</th><th className="px-6 py-2 w-32">Unit Price</th><th className="px-6 py-2 w-28">VAT %</th><th className="px-6 py-2 w-36">{t('discount')}</th><th className="px-6 py-2 w-32">Total</th><th className="w-10 px-6"></th>
             </tr></thead>
             <tbody>{items.map((item, index) => {
-                const itemTotal = (item.quantity || 0) * (item.unit_price || 0);
-                const vatAmount = itemTotal * ((item.vat_rate || 0) / 100);
+                const startsGroup = !!item.group_label && item.group_label !== items[index - 1]?.group_label;
                 return (
-                    <tr key={index} className="border-b dark:border-gray-700">
-                        <td className="px-6 py-2"><input type="text" value={item.description || ''} onChange={(e) => handleItemChange(index, 'description', e.target.value)} readOnly={isReadOnly} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
-                        <td className="px-6 py-2"><input type="number" value={item.quantity || ''} onChange={(e) => handleItemChange(index, 'quantity', parseFloat(e.target.value))} readOnly={isReadOnly} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
-                        <td className="px-6 py-2"><input type="number" step="0.01" value={item.unit_price || ''} onChange={(e) => handleItemChange(index, 'unit_price', parseFloat(e.target.value))} readOnly={isReadOnly} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
-                        <td className="px-6 py-2"><select value={item.vat_rate} onChange={(e) => handleItemChange(index, 'vat_rate', parseInt(e.target.value))} disabled={isReadOnly} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">{GERMAN_VAT_RATES.map(rate => <option key={rate} value={rate}>{rate}%</option>)}</select></td>
-                        <td className="px-6 py-2 text-right font-medium">€{(itemTotal + vatAmount).toFixed(2)}</td>
-                        <td className="px-6">{!isReadOnly && <button onClick={() => removeItem(index)}><TrashIcon className="w-5 h-5 text-red-500"/></button>}</td>
+                    <React.Fragment key={index}>
+                    {startsGroup && <tr className="border-b dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50"><td colSpan={7} className="px-6 py-2 text-sm font-semibold">{item.group_label}</td></tr>}
+                    <tr className="border-b dark:border-gray-700">
+                        <td className="px-6 py-2"><input type="text" value={item.description || ''} onChange={(e) => handleItemChange(index, 'description', e.target.value)} readOnly={!isEditable} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
+                        <td className="px-6 py-2"><input type="number" value={item.quantity || ''} onChange={(e) => handleItemChange(index, 'quantity', parseFloat(e.target.value))} readOnly={!isEditable} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
+                        <td className="px-6 py-2"><input type="number" step="0.01" value={item.unit_price || ''} onChange={(e) => handleItemChange(index, 'unit_price', parseFloat(e.target.value))} readOnly={!isEditable} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
+                        <td className="px-6 py-2"><select value={item.vat_rate} onChange={(e) => handleItemChange(index, 'vat_rate', parseInt(e.target.value))} disabled={!isEditable} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">{taxRules.rates.map(rate => <option key={rate} value={rate}>{rate}%</option>)}</select></td>
+                        <td className="px-6 py-2"><DiscountInput type={item.discount_type} value={item.discount_value} onChange={(type, value) => handleItemDiscountChange(index, type, value)} disabled={!isEditable} /></td>
+                        <td className="px-6 py-2 text-right font-medium">€{(totals.lines[index]?.total || 0).toFixed(2)}</td>
+                        <td className="px-6">{isEditable && <button onClick={() => removeItem(index)}><TrashIcon className="w-5 h-5 text-red-500"/></button>}</td>
                     </tr>
+                    </React.Fragment>
                 );
             })}</tbody>
             </table>
         </div>
-        {!isReadOnly && <div className="flex space-x-2 mt-4">
+        {isEditable && <div className="flex space-x-2 mt-4">
             <button onClick={addItem} className="px-4 py-2 bg-gray-200 rounded-md dark:bg-gray-600 text-sm">Add Item</button>
             <button onClick={() => setIsProductModalOpen(true)} className="px-4 py-2 bg-blue-200 text-blue-800 rounded-md dark:bg-blue-900 dark:text-blue-200 text-sm">Add Product</button>
         </div>}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800"><h3 className="font-bold mb-2">Notes</h3><textarea name="notes" value={invoice.notes || ''} onChange={handleInvoiceChange} rows={4} readOnly={isReadOnly} className="w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"></textarea></div>
-          <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800 space-y-2"><div className="flex justify-between"><span>Subtotal:</span><span>€{totals.subtotal.toFixed(2)}</span></div>
-              {Object.entries(totals.vatTotals).map(([rate, amount]) => (<div key={rate} className="flex justify-between text-sm text-gray-600 dark:text-gray-400"><span>VAT ({rate}%):</span><span>€{(amount as number).toFixed(2)}</span></div>))}
+          <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800"><h3 className="font-bold mb-2">Notes</h3><textarea name="notes" value={invoice.notes || ''} onChange={handleInvoiceChange} rows={4} readOnly={!isEditable} className="w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"></textarea></div>
+          <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800 space-y-2"><div className="flex justify-between"><span>Subtotal:</span><span>€{totals.itemsTotal.toFixed(2)}</span></div>
+              <div className="flex justify-between items-center text-sm text-gray-600 dark:text-gray-400">
+                <span>{t('documentDiscount')}:</span>
+                <div className="w-36"><DiscountInput type={invoice.discount_type} value={invoice.discount_value} onChange={(discount_type, discount_value) => setInvoice(d => ({ ...d, discount_type, discount_value }))} disabled={!isEditable} /></div>
+              </div>
+              {totals.documentDiscount > 0 && <>
+                <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400"><span>{t('discount')}:</span><span>-€{totals.documentDiscount.toFixed(2)}</span></div>
+                <div className="flex justify-between"><span>{t('netAmount')}:</span><span>€{totals.subtotal.toFixed(2)}</span></div>
+              </>}
+              {totals.vatBreakdown.map(({ rate, vat }) => (<div key={rate} className="flex justify-between text-sm text-gray-600 dark:text-gray-400"><span>VAT ({rate}%):</span><span>€{vat.toFixed(2)}</span></div>))}
               <hr className="dark:border-gray-600"/><div className="flex justify-between text-xl font-bold"><span >Total:</span><span>€{invoice.total_amount?.toFixed(2) || '0.00'}</span></div>
+              {taxRules.treatment !== 'standard' && <p className="text-xs text-gray-500 dark:text-gray-400">{t(`tax_${taxRules.treatment}`)}: {taxRules.note}</p>}
+              {(invoice.credit_notes || []).filter(c => c.status !== 'draft').map(c => (
+                <div key={c.id} className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+                  <button onClick={() => openTab({ path: `/invoices/edit/${c.id}`, label: c.invoice_number })} className="hover:underline">{t(c.document_type)} {c.invoice_number}:</button>
+                  <span>-€{Number(c.total_amount).toFixed(2)}</span>
+                </div>
+              ))}
+              {(payments.length > 0 || creditedAmount > 0) && <>
+                <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400"><span>{t('paidAmount')}:</span><span>€{paidAmount.toFixed(2)}</span></div>
+                <div className="flex justify-between font-semibold"><span>{t('openBalance')}:</span><span>€{openBalance.toFixed(2)}</span></div>
+              </>}
           </div>
       </div>
+
+      {id && id !== 'new' && documentType === 'invoice' && (
+        <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold">{t('payments')}</h2>
+            {!isReadOnly && invoice.status !== 'draft' && openBalance > 0 && (
+              <button onClick={() => setIsPaymentModalOpen(true)} className="flex items-center gap-x-2 px-4 py-2 bg-green-100 text-green-800 rounded-md dark:bg-green-900 dark:text-green-200 text-sm"><PlusIcon className="w-4 h-4"/> {t('recordPayment')}</button>
+            )}
+          </div>
+          {payments.length > 0 ? (
+            <div className="overflow-x-auto -mx-6">
+              <table className="min-w-full">
+                <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                  <th className="px-6 py-2">{t('paymentDate')}</th><th className="px-6 py-2">{t('paymentMethod')}</th><th className="px-6 py-2">{t('reference')}</th><th className="px-6 py-2 text-right">Amount</th><th className="w-10 px-6"></th>
+                </tr></thead>
+                <tbody>{payments.map(payment => (
+                  <tr key={payment.id} className="border-b dark:border-gray-700 text-sm">
+                    <td className="px-6 py-2">{formatEuropeanDate(payment.payment_date)}</td>
+                    <td className="px-6 py-2">{t(payment.method as any)}</td>
+                    <td className="px-6 py-2">{payment.reference || '-'}</td>
+                    <td className="px-6 py-2 text-right font-medium">€{Number(payment.amount).toFixed(2)}</td>
+                    <td className="px-6">{!isReadOnly && <button onClick={() => handleDeletePayment(payment)}><TrashIcon className="w-5 h-5 text-red-500"/></button>}</td>
+                  </tr>
+                ))}</tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">{t('noPaymentsYet')}</p>
+          )}
+        </div>
+      )}
+
+      {reminders.length > 0 && (
+        <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+          <h2 className="text-xl font-bold mb-4">{t('reminders')}</h2>
+          <div className="overflow-x-auto -mx-6">
+            <table className="min-w-full">
+              <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                <th className="px-6 py-2">Date</th><th className="px-6 py-2">{t('dunningLevel')}</th><th className="px-6 py-2 text-right">{t('openBalance')}</th><th className="px-6 py-2 text-right">{t('dunningFee')}</th><th className="w-10 px-6"></th>
+              </tr></thead>
+              <tbody>{reminders.map(reminder => (
+                <tr key={reminder.id} className="border-b dark:border-gray-700 text-sm">
+                  <td className="px-6 py-2">{formatEuropeanDate(reminder.sent_at)}</td>
+                  <td className="px-6 py-2">{reminder.name}</td>
+                  <td className="px-6 py-2 text-right">€{Number(reminder.open_amount).toFixed(2)}</td>
+                  <td className="px-6 py-2 text-right">€{Number(reminder.fee).toFixed(2)}</td>
+                  <td className="px-6"><button onClick={() => generateReminderPDF(reminder.id)} title="Download PDF"><ArrowDownTrayIcon className="w-5 h-5 text-gray-500 hover:text-gray-700"/></button></td>
+                </tr>
+              ))}</tbody>
+            </table>
+          </div>
+        </div>
+      )}
       
       {isCustomerModalOpen && <CustomerModal customer={null} closeModal={() => setIsCustomerModalOpen(false)} onSave={() => { fetchCustomersAndProducts(); setIsCustomerModalOpen(false); }} />}
       {isProductModalOpen && <ProductSelectionModal isOpen={isProductModalOpen} onClose={() => setIsProductModalOpen(false)} onAdd={addProductsFromModal} />}
+      {emails.length > 0 && (
+        <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+          <h2 className="text-xl font-bold mb-4">{t('emailLog')}</h2>
+          <div className="overflow-x-auto -mx-6">
+            <table className="min-w-full">
+              <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                <th className="px-6 py-2">Date</th><th className="px-6 py-2">{t('recipients')}</th><th className="px-6 py-2">{t('subject')}</th>
+              </tr></thead>
+              <tbody>{emails.map(email => (
+                <tr key={email.id} className="border-b dark:border-gray-700 text-sm">
+                  <td className="px-6 py-2 whitespace-nowrap">{formatEuropeanDate(email.sent_at)} {format(new Date(email.sent_at), 'HH:mm')}</td>
+                  <td className="px-6 py-2">{[...email.recipients, ...email.cc].join(', ')}</td>
+                  <td className="px-6 py-2">{email.subject}</td>
+                </tr>
+              ))}</tbody>
+            </table>
+          </div>
+        </div>
+      )}
+      
+      {isSendModalOpen && invoice.id && <SendDocumentModal documentType="invoice" documentId={invoice.id} documentNumber={invoice.invoice_number || ''} closeModal={() => setIsSendModalOpen(false)} onSent={() => { setIsSendModalOpen(false); fetchData(); }} />}
+      {isEInvoiceModalOpen && invoice.id && <EInvoiceExportModal invoiceId={invoice.id} closeModal={() => setIsEInvoiceModalOpen(false)} />}
+      {isPaymentModalOpen && invoice.id && <PaymentModal invoice={{ id: invoice.id, invoice_number: invoice.invoice_number || '' }} openBalance={openBalance} closeModal={() => setIsPaymentModalOpen(false)} onSave={() => { setIsPaymentModalOpen(false); fetchData(); }} />}
     </div>
   );
 };
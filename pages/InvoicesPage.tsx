@@ -5,9 +5,15 @@ import { useLanguage } from '../contexts/LanguageContext';
 import { useRefresh } from '../contexts/RefreshContext';
 import { useTabs } from '../contexts/TabContext';
 import { Invoice, InvoiceStatus } from '../types';
-import { PlusIcon, PencilIcon, TrashIcon, EnvelopeIcon, ArrowDownTrayIcon, EyeIcon, ChevronUpIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+import { PlusIcon, PencilIcon, TrashIcon, EnvelopeIcon, ArrowDownTrayIcon, EyeIcon, ChevronUpIcon, ChevronDownIcon, BellAlertIcon, ArrowPathIcon, BuildingLibraryIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline';
 import generateDocumentPDF from '../lib/pdfGenerator';
 import { formatEuropeanDate } from '../lib/formatting';
+import { getOpenBalance } from '../lib/payments';
+import { markOverdueInvoices } from '../lib/dunning';
+import { generateDueInvoices } from '../lib/recurringInvoices';
+import { isInvoiceLocked } from '../lib/creditNotes';
+import DunningModal from '../components/modals/DunningModal';
+import SendDocumentModal from '../components/modals/SendDocumentModal';
 
 type SortConfig = { key: string; direction: 'asc' | 'desc' };
 
@@ -22,6 +28,8 @@ const InvoicesPage: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<InvoiceStatus | 'all'>('all');
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'issue_date', direction: 'desc' });
+  const [isDunningModalOpen, setIsDunningModalOpen] = useState(false);
+  const [sendingInvoice, setSendingInvoice] = useState<Invoice | null>(null);
   
   const canCreate = profile?.role !== 'field_service_employee' && profile?.role !== 'super_admin';
   const canManage = profile?.role !== 'field_service_employee';
@@ -31,9 +39,23 @@ const InvoicesPage: React.FC = () => {
     if (!user || !profile) return;
     setLoading(true);
 
+    if (profile.role !== 'super_admin' && profile.org_id) {
+      try {
+        const { failed } = await generateDueInvoices(profile.org_id);
+        failed.forEach(f => console.error(`Error generating recurring invoice of template #${f.template.id}:`, f.error));
+      } catch (error: any) {
+        console.error('Error generating recurring invoices:', error.message);
+      }
+      try {
+        await markOverdueInvoices(profile.org_id);
+      } catch (error: any) {
+        console.error('Error marking overdue invoices:', error.message);
+      }
+    }
+
     let query = supabase
       .from('invoices')
-      .select('*, customers:customers!left(name, email), organizations:organizations!left(name)');
+      .select('*, customers:customers!left(name, email), organizations:organizations!left(name), payments:payments!left(amount), credit_notes:invoices!original_invoice_id(total_amount, status)');
 
     if (profile.role !== 'super_admin') {
       query = query.eq('org_id', profile.org_id);
@@ -120,6 +142,8 @@ const InvoicesPage: React.FC = () => {
   const handleDelete = async (id: number) => {
     if (window.confirm('Are you sure you want to delete this invoice?')) {
       await supabase.from('invoice_items').delete().eq('invoice_id', id);
+      await supabase.from('payments').delete().eq('invoice_id', id);
+      await supabase.from('invoice_reminders').delete().eq('invoice_id', id);
       const { error } = await supabase.from('invoices').delete().eq('id', id);
       if (error) alert('Error deleting invoice: ' + error.message);
       else fetchInvoices();
@@ -130,25 +154,17 @@ const InvoicesPage: React.FC = () => {
     await generateDocumentPDF(invoiceId, 'invoice', language);
   };
 
-  const handleSendEmail = async (invoice: Invoice) => {
-    if (!invoice.customers?.email) {
-      alert("This customer does not have an email address saved.");
-      return;
-    }
-    await generateDocumentPDF(invoice.id, 'invoice', language);
-    const subject = `Invoice ${invoice.invoice_number} from your company`;
-    const body = `Dear ${invoice.customers?.name},\n\nPlease find attached the invoice for your recent transaction.\n\n(Remember to attach the PDF you just downloaded!)\n\nBest regards,\nYour Company`;
-    window.location.href = `mailto:${invoice.customers.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
-  };
   
   const statusColors: { [key in InvoiceStatus]: string } = {
     draft: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300 border border-yellow-300/50',
     sent: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300 border border-blue-300/50',
+    partially_paid: 'bg-teal-100 text-teal-800 dark:bg-teal-900/20 dark:text-teal-300 border border-teal-300/50',
     paid: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300 border border-green-300/50',
     overdue: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300 border border-red-300/50',
+    cancelled: 'bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-300 border border-gray-300/50',
   };
   
-  const invoiceStatuses: InvoiceStatus[] = ['draft', 'sent', 'paid', 'overdue'];
+  const invoiceStatuses: InvoiceStatus[] = ['draft', 'sent', 'partially_paid', 'paid', 'overdue', 'cancelled'];
 
   const SortableHeader: React.FC<{ sortKey: string; label: string; }> = ({ sortKey, label }) => (
     <th 
@@ -169,13 +185,16 @@ const InvoicesPage: React.FC = () => {
         <div className="flex justify-between items-start">
             <div>
                 <p className="font-bold">{invoice.customers?.name || 'N/A'}</p>
-                <p className="text-sm font-mono text-gray-500">{invoice.invoice_number}</p>
+                <p className="text-sm font-mono text-gray-500">{invoice.invoice_number}{invoice.document_type !== 'invoice' && <span className="ml-2 font-sans text-xs">({t(invoice.document_type)})</span>}</p>
             </div>
             <span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[invoice.status]} capitalize`}>{t(invoice.status as any)}</span>
         </div>
         <div className="flex justify-between items-end text-sm">
             <span className="text-gray-500">{formatEuropeanDate(invoice.issue_date)}</span>
-            <span className="font-bold text-lg">€{invoice.total_amount.toFixed(2)}</span>
+            <div className="text-right">
+                <span className="font-bold text-lg">€{invoice.total_amount.toFixed(2)}</span>
+                {invoice.status === 'partially_paid' && <p className="text-xs text-gray-500">{t('openBalance')}: €{getOpenBalance(invoice, invoice.payments, invoice.credit_notes).toFixed(2)}</p>}
+            </div>
         </div>
     </div>
   );
@@ -185,9 +204,23 @@ const InvoicesPage: React.FC = () => {
       <div className="flex flex-col sm:flex-row justify-between items-center">
         <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('invoices')}</h1>
         {canCreate && (
-          <button onClick={() => openTab({ path: '/invoices/new', label: t('newInvoice') })} className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700">
-            <PlusIcon className="w-5 h-5 mr-2" /> {t('newInvoice')}
-          </button>
+          <div className="mt-4 sm:mt-0 flex gap-x-2">
+            <button onClick={() => openTab({ path: '/invoices/recurring', label: t('recurringInvoices') })} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md shadow-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600">
+              <ArrowPathIcon className="w-5 h-5 mr-2" /> {t('recurringInvoices')}
+            </button>
+            <button onClick={() => openTab({ path: '/invoices/bank-import', label: t('bankImport') })} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md shadow-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600">
+              <BuildingLibraryIcon className="w-5 h-5 mr-2" /> {t('bankImport')}
+            </button>
+            <button onClick={() => openTab({ path: '/invoices/billing-run', label: t('billingRun') })} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md shadow-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600">
+              <DocumentDuplicateIcon className="w-5 h-5 mr-2" /> {t('billingRun')}
+            </button>
+            <button onClick={() => setIsDunningModalOpen(true)} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md shadow-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600">
+              <BellAlertIcon className="w-5 h-5 mr-2" /> {t('dunningRun')}
+            </button>
+            <button onClick={() => openTab({ path: '/invoices/new', label: t('newInvoice') })} className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700">
+              <PlusIcon className="w-5 h-5 mr-2" /> {t('newInvoice')}
+            </button>
+          </div>
         )}
       </div>
 
@@ -229,6 +262,7 @@ const InvoicesPage: React.FC = () => {
                     {profile?.role === 'super_admin' && <SortableHeader sortKey="organizations.name" label="Organization" />}
                     <SortableHeader sortKey="issue_date" label="Issue Date" />
                     <SortableHeader sortKey="total_amount" label="Total" />
+                    <th className="px-6 py-3 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider border-b-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">{t('openBalance')}</th>
                     <SortableHeader sortKey="status" label="Status" />
                     <th className="px-6 py-3 text-right text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider border-b-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">{t('actions')}</th>
                     </tr>
@@ -236,25 +270,26 @@ const InvoicesPage: React.FC = () => {
                 <tbody className="bg-white dark:bg-gray-800">
                     {invoices.length > 0 ? invoices.map(invoice => (
                     <tr key={invoice.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
-                        <td className="px-6 py-3 whitespace-nowrap"><button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} className="font-medium text-primary-600 hover:underline">{invoice.invoice_number}</button></td>
+                        <td className="px-6 py-3 whitespace-nowrap"><button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} className="font-medium text-primary-600 hover:underline">{invoice.invoice_number}</button>{invoice.document_type !== 'invoice' && <span className="block text-xs text-gray-500">{t(invoice.document_type)}</span>}</td>
                         <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">{invoice.customers?.name || 'N/A'}</td>
                         {profile?.role === 'super_admin' && <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{invoice.organizations?.name || 'N/A'}</td>}
                         <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{formatEuropeanDate(invoice.issue_date)}</td>
                         <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">€{invoice.total_amount.toFixed(2)}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{invoice.status === 'draft' || invoice.document_type !== 'invoice' ? '-' : `€${getOpenBalance(invoice, invoice.payments, invoice.credit_notes).toFixed(2)}`}</td>
                         <td className="px-6 py-3 whitespace-nowrap"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[invoice.status]} capitalize`}>{t(invoice.status as any)}</span></td>
                         <td className="px-6 py-3 whitespace-nowrap text-right text-sm font-medium space-x-2">
                         <button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} title="Edit / View"><PencilIcon className="w-5 h-5 inline-block text-primary-600 hover:text-primary-800"/></button>
                         {canManage && (
                             <>
-                            <button onClick={() => handleSendEmail(invoice)} title="Send Email"><EnvelopeIcon className="w-5 h-5 inline-block text-gray-500 hover:text-gray-700"/></button>
+                            <button onClick={() => setSendingInvoice(invoice)} title="Send Email"><EnvelopeIcon className="w-5 h-5 inline-block text-gray-500 hover:text-gray-700"/></button>
                             <button onClick={() => handleDownloadPDF(invoice.id)} title="Download PDF"><ArrowDownTrayIcon className="w-5 h-5 inline-block text-gray-500 hover:text-gray-700"/></button>
-                            <button onClick={() => handleDelete(invoice.id)} title="Delete"><TrashIcon className="w-5 h-5 inline-block text-red-600 hover:text-red-800"/></button>
+                            {!isInvoiceLocked(invoice) && <button onClick={() => handleDelete(invoice.id)} title="Delete"><TrashIcon className="w-5 h-5 inline-block text-red-600 hover:text-red-800"/></button>}
                             </>
                         )}
                         </td>
                     </tr>
                     )) : (
-                    <tr><td colSpan={profile?.role === 'super_admin' ? 7 : 6} className="p-4 text-center text-gray-500">No invoices found.</td></tr>
+                    <tr><td colSpan={profile?.role === 'super_admin' ? 8 : 7} className="p-4 text-center text-gray-500">No invoices found.</td></tr>
                     )}
                 </tbody>
                 </table>
@@ -262,6 +297,8 @@ const InvoicesPage: React.FC = () => {
             </div>
             )
         )}
+      {isDunningModalOpen && <DunningModal closeModal={() => setIsDunningModalOpen(false)} onSave={() => { setIsDunningModalOpen(false); fetchInvoices(); }} />}
+      {sendingInvoice && <SendDocumentModal documentType="invoice" documentId={sendingInvoice.id} documentNumber={sendingInvoice.invoice_number} closeModal={() => setSendingInvoice(null)} onSent={() => { setSendingInvoice(null); fetchInvoices(); }} />}
     </div>
   );
 };
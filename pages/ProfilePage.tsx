@@ -170,6 +170,10 @@ const ProfilePage: React.FC = () => {
                 <input type="text" name="bic" value={organization.bic || ''} onChange={handleCompanyChange} disabled={!canEditCompany} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50" />
               </div>
             </div>
+            <label className="flex items-center gap-x-2">
+              <input type="checkbox" checked={!!organization.girocode_enabled} onChange={(e) => setOrganization({ ...organization, girocode_enabled: e.target.checked })} disabled={!canEditCompany} className="h-4 w-4 rounded border-gray-300 text-primary-600" />
+              <span className="text-sm font-medium">{t('girocodeOnInvoices')}</span>
+            </label>
           </div>
         </div>
 
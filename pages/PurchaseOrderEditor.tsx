@@ -0,0 +1,354 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { supabase } from '../services/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useTabs } from '../contexts/TabContext';
+import { useRefresh } from '../contexts/RefreshContext';
+import { Product, PurchaseOrder, PurchaseOrderItem, Supplier } from '../types';
+import { generateNextNumber } from '../lib/numberGenerator';
+import { getOpenQuantity, getPurchaseOrderTotal, receivePurchaseOrderItems } from '../lib/purchaseOrders';
+import { generatePurchaseOrderPDF } from '../lib/pdfGenerator';
+import { multiplyToCents, fromCents } from '../lib/money';
+import { parseAsLocalDate } from '../lib/formatting';
+import { ArrowLeftIcon, ArrowDownTrayIcon, TrashIcon, PaperAirplaneIcon, InboxArrowDownIcon } from '@heroicons/react/24/outline';
+import ProductSelectionModal from '../components/modals/ProductSelectionModal';
+import DatePicker from '../components/ui/DatePicker';
+import { format } from 'date-fns';
+
+const PurchaseOrderEditor: React.FC = () => {
+  const location = useLocation();
+  const params = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user, profile } = useAuth();
+  const { t, language } = useLanguage();
+  const { replaceTab, closeTab } = useTabs();
+  const { triggerRefresh } = useRefresh();
+
+  const { current: instance } = useRef({ path: location.pathname, id: params.id });
+  const { id, path: instancePath } = instance;
+  const isNewOrder = !id || id === 'new';
+
+  const [order, setOrder] = useState<Partial<PurchaseOrder>>({
+    status: 'draft',
+    order_date: format(new Date(), 'yyyy-MM-dd'),
+  });
+  const [items, setItems] = useState<Partial<PurchaseOrderItem>[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [receiptQuantities, setReceiptQuantities] = useState<Record<number, number | ''>>({});
+  const [loading, setLoading] = useState(!isNewOrder);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isReceiving, setIsReceiving] = useState(false);
+  const [isProductModalOpen, setIsProductModalOpen] = useState(false);
+
+  // Items can only be changed until the order is placed with the supplier.
+  const isEditable = order.status === 'draft' && profile?.role !== 'super_admin';
+  const canReceive = (order.status === 'ordered' || order.status === 'partially_received') && profile?.role !== 'super_admin';
+
+  const fetchOrder = useCallback(async () => {
+    if (isNewOrder || !profile) return;
+    setLoading(true);
+
+    const orderId = parseInt(id!, 10);
+    if (isNaN(orderId)) {
+      navigate('/inventory/purchase-orders');
+      return;
+    }
+
+    let query = supabase
+      .from('purchase_orders')
+      .select('*, purchase_order_items:purchase_order_items!left(*, products:products!left(*))')
+      .eq('id', orderId);
+    if (profile.role !== 'super_admin') {
+      query = query.eq('org_id', profile.org_id);
+    }
+    const { data, error } = await query.single();
+
+    if (error || !data) {
+      alert('Error fetching purchase order. ' + (error?.message || 'Not found'));
+      navigate('/inventory/purchase-orders');
+      return;
+    }
+
+    const { purchase_order_items, ...baseOrder } = data;
+    setOrder(baseOrder);
+    setItems([...(purchase_order_items || [])].sort((a, b) => a.id - b.id));
+    setReceiptQuantities({});
+    setLoading(false);
+  }, [id, isNewOrder, profile, navigate]);
+
+  useEffect(() => {
+    if (!profile) return;
+    let query = supabase.from('suppliers').select('*');
+    if (profile.role !== 'super_admin') {
+      query = query.eq('org_id', profile.org_id);
+    }
+    query.order('name').then(({ data }) => setSuppliers(data || []));
+
+    if (isNewOrder) {
+      const state = location.state as { supplierId?: number } | null;
+      if (state?.supplierId) setOrder(o => ({ ...o, supplier_id: state.supplierId }));
+    } else {
+      fetchOrder();
+    }
+  }, [profile, isNewOrder, fetchOrder, location.state]);
+
+  const handleOrderChange = (e: React.ChangeEvent<HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setOrder(o => ({ ...o, [name]: name === 'supplier_id' ? (value ? parseInt(value, 10) : undefined) : value }));
+  };
+
+  const handleDateChange = (field: 'order_date' | 'expected_delivery_date', date: Date | null) => {
+    setOrder(o => ({ ...o, [field]: date ? format(date, 'yyyy-MM-dd') : null }));
+  };
+
+  // New items are ordered at the product's last purchase price. An order without a supplier takes
+  // the preferred supplier of the first product added.
+  const addProductsFromModal = (selectedProducts: Product[]) => {
+    const existingProductIds = new Set(items.map(item => item.product_id));
+    const newItems: Partial<PurchaseOrderItem>[] = selectedProducts
+      .filter(product => !existingProductIds.has(product.id))
+      .map(product => ({
+        product_id: product.id,
+        description: product.name,
+        quantity: 1,
+        received_quantity: 0,
+        unit_price: Number(product.purchase_price) || 0,
+        products: product,
+      }));
+    setItems(prev => [...prev, ...newItems]);
+    const preferredSupplierId = selectedProducts.find(product => product.preferred_supplier_id)?.preferred_supplier_id;
+    if (!order.supplier_id && preferredSupplierId) setOrder(o => ({ ...o, supplier_id: preferredSupplierId }));
+    setIsProductModalOpen(false);
+  };
+
+  const handleItemChange = (index: number, field: 'description' | 'quantity' | 'unit_price', value: string | number) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, [field]: value } : item));
+  };
+
+  const removeItem = (index: number) => setItems(items.filter((_, i) => i !== index));
+
+  // Saves the order and its items, or returns null if it is incomplete.
+  const saveOrder = async (): Promise<PurchaseOrder | null> => {
+    if (!user || !profile?.org_id) return null;
+    if (!order.supplier_id) {
+      alert('Please select a supplier.');
+      return null;
+    }
+    if (isEditable && items.some(item => !item.description || !(Number(item.quantity) > 0))) {
+      alert('Every item needs a description and a quantity above zero.');
+      return null;
+    }
+
+    // The status only changes by placing the order and by goods receipts.
+    const { suppliers: _supplier, purchase_order_items: _items, status: _status, ordered_at: _orderedAt, ...baseOrder } = order;
+    const dataToSave = { ...baseOrder, total_amount: isEditable ? getPurchaseOrderTotal(items as PurchaseOrderItem[]) : order.total_amount };
+
+    let savedOrder: PurchaseOrder;
+    if (isNewOrder) {
+      const orderNumber = await generateNextNumber(profile.org_id, 'purchase_order');
+      const { data, error } = await supabase.from('purchase_orders').insert({ ...dataToSave, status: 'draft', user_id: user.id, org_id: profile.org_id, order_number: orderNumber }).select().single();
+      if (error) throw error;
+      savedOrder = data;
+    } else {
+      const { data, error } = await supabase.from('purchase_orders').update(dataToSave).eq('id', order.id!).select().single();
+      if (error) throw error;
+      savedOrder = data;
+    }
+
+    if (isEditable) {
+      await supabase.from('purchase_order_items').delete().eq('purchase_order_id', savedOrder.id);
+      if (items.length > 0) {
+        const itemsToSave = items.map(item => ({
+          purchase_order_id: savedOrder.id,
+          product_id: item.product_id,
+          description: item.description,
+          quantity: item.quantity,
+          received_quantity: 0,
+          unit_price: item.unit_price || 0,
+        }));
+        const { error } = await supabase.from('purchase_order_items').insert(itemsToSave);
+        if (error) throw new Error('Failed to save items: ' + error.message);
+      }
+    }
+    return savedOrder;
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const savedOrder = await saveOrder();
+      if (!savedOrder) return;
+      alert('Purchase order saved successfully!');
+      triggerRefresh();
+      if (isNewOrder) {
+        replaceTab(instancePath, { path: `/inventory/purchase-orders/edit/${savedOrder.id}`, label: savedOrder.order_number });
+      } else {
+        fetchOrder();
+      }
+    } catch (error: any) {
+      alert('Error saving purchase order: ' + error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMarkOrdered = async () => {
+    if (items.length === 0) {
+      alert('Please add at least one product.');
+      return;
+    }
+    if (!window.confirm('Mark the purchase order as ordered? Its items can no longer be changed afterwards.')) return;
+    setIsSaving(true);
+    try {
+      const savedOrder = await saveOrder();
+      if (!savedOrder) return;
+      const { error } = await supabase
+        .from('purchase_orders')
+        .update({ status: 'ordered', ordered_at: new Date().toISOString() })
+        .eq('id', savedOrder.id)
+        .eq('status', 'draft');
+      if (error) throw error;
+      triggerRefresh();
+      fetchOrder();
+    } catch (error: any) {
+      alert('Error placing purchase order: ' + error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReceiveAllOpen = () => {
+    setReceiptQuantities(Object.fromEntries(items.map(item => [item.id!, getOpenQuantity(item as PurchaseOrderItem)])));
+  };
+
+  const handleReceive = async () => {
+    if (!user || !order.id) return;
+    const receipts = Object.entries(receiptQuantities)
+      .filter(([, quantity]) => quantity !== '' && quantity > 0)
+      .map(([itemId, quantity]) => ({ itemId: Number(itemId), quantity: Number(quantity) }));
+    if (receipts.length === 0) {
+      alert('Please enter the received quantities.');
+      return;
+    }
+    setIsReceiving(true);
+    try {
+      await receivePurchaseOrderItems(order.id, receipts, user.id);
+      triggerRefresh();
+      fetchOrder();
+    } catch (error: any) {
+      alert('Error booking goods receipt: ' + error.message);
+    } finally {
+      setIsReceiving(false);
+    }
+  };
+
+  if (loading) return <div className="text-center p-8">Loading...</div>;
+
+  const total = isEditable ? getPurchaseOrderTotal(items as PurchaseOrderItem[]) : Number(order.total_amount) || 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <button onClick={() => closeTab(instancePath)} className="flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2">
+            <ArrowLeftIcon className="w-4 h-4 mr-2" /> Back
+          </button>
+          <h1 className="text-3xl font-bold">{isNewOrder ? t('newPurchaseOrder') : `${t('purchaseOrder')} ${order.order_number || ''}`}</h1>
+          {!isNewOrder && order.status && <p className="text-sm text-gray-500 dark:text-gray-400">{t(`purchaseOrderStatus_${order.status}`)}</p>}
+        </div>
+        <div className="flex gap-x-2">
+          {order.id && (
+            <button onClick={() => generatePurchaseOrderPDF(order.id!, language)} className="inline-flex items-center px-4 py-2 bg-gray-200 rounded-md font-medium hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500">
+              <ArrowDownTrayIcon className="w-5 h-5 mr-2" /> PDF
+            </button>
+          )}
+          {isEditable && order.id && (
+            <button onClick={handleMarkOrdered} disabled={isSaving} className="inline-flex items-center px-4 py-2 bg-gray-200 rounded-md font-medium hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500 disabled:opacity-50">
+              <PaperAirplaneIcon className="w-5 h-5 mr-2" /> {t('markAsOrdered')}
+            </button>
+          )}
+          {profile?.role !== 'super_admin' && order.status !== 'received' && (
+            <button onClick={handleSave} disabled={isSaving} className="px-6 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
+              {isSaving ? 'Saving...' : t('save')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+        <div>
+          <label className="block text-sm font-medium">{t('supplier')}</label>
+          <select name="supplier_id" value={order.supplier_id || ''} onChange={handleOrderChange} required disabled={!isEditable} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
+            <option value="">Select a supplier</option>
+            {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        </div>
+        <div className="mt-1">
+          <label className="block text-sm font-medium">{t('orderDate')}</label>
+          <DatePicker selected={parseAsLocalDate(order.order_date)} onChange={(date) => handleDateChange('order_date', date)} />
+        </div>
+        <div className="mt-1">
+          <label className="block text-sm font-medium">{t('expectedDelivery')}</label>
+          <DatePicker selected={parseAsLocalDate(order.expected_delivery_date)} onChange={(date) => handleDateChange('expected_delivery_date', date)} />
+        </div>
+      </div>
+
+      <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Items</h2>
+          {canReceive && (
+            <div className="flex gap-x-2">
+              <button onClick={handleReceiveAllOpen} className="px-3 py-1.5 bg-gray-200 rounded-md dark:bg-gray-600 text-sm">{t('receiveAllOpen')}</button>
+              <button onClick={handleReceive} disabled={isReceiving} className="inline-flex items-center px-3 py-1.5 bg-green-100 text-green-800 rounded-md dark:bg-green-900 dark:text-green-200 text-sm disabled:opacity-50">
+                <InboxArrowDownIcon className="w-4 h-4 mr-1" /> {isReceiving ? 'Saving...' : t('bookGoodsReceipt')}
+              </button>
+            </div>
+          )}
+        </div>
+        <div className="overflow-x-auto -mx-6">
+          <table className="min-w-full">
+            <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+              <th className="px-6 py-2 w-32">Product #</th><th className="px-6 py-2">Description</th><th className="px-6 py-2 w-24">Qty</th><th className="px-6 py-2 w-32">{t('purchasePrice')}</th><th className="px-6 py-2 w-32">Total</th>
+              {!isEditable && <th className="px-6 py-2 w-28">{t('receivedQuantity')}</th>}
+              {canReceive && <th className="px-6 py-2 w-32">{t('goodsReceipt')}</th>}
+              <th className="w-10 px-6"></th>
+            </tr></thead>
+            <tbody>{items.map((item, index) => (
+              <tr key={item.id ?? `new-${index}`} className="border-b dark:border-gray-700">
+                <td className="px-6 py-2 text-sm font-mono text-gray-500 dark:text-gray-400">{item.products?.product_number}</td>
+                <td className="px-6 py-2"><input type="text" value={item.description || ''} onChange={(e) => handleItemChange(index, 'description', e.target.value)} readOnly={!isEditable} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
+                <td className="px-6 py-2"><input type="number" min="0" step="any" value={item.quantity ?? ''} onChange={(e) => handleItemChange(index, 'quantity', parseFloat(e.target.value) || 0)} readOnly={!isEditable} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
+                <td className="px-6 py-2"><input type="number" min="0" step="0.01" value={item.unit_price ?? ''} onChange={(e) => handleItemChange(index, 'unit_price', parseFloat(e.target.value) || 0)} readOnly={!isEditable} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
+                <td className="px-6 py-2 text-right font-medium">€{fromCents(multiplyToCents(item.quantity, item.unit_price)).toFixed(2)}</td>
+                {!isEditable && <td className="px-6 py-2 text-right">{Number(item.received_quantity) || 0}</td>}
+                {canReceive && (
+                  <td className="px-6 py-2">
+                    {getOpenQuantity(item as PurchaseOrderItem) > 0 ? (
+                      <input type="number" min="0" max={getOpenQuantity(item as PurchaseOrderItem)} step="any" value={receiptQuantities[item.id!] ?? ''} onChange={(e) => setReceiptQuantities(prev => ({ ...prev, [item.id!]: e.target.value === '' ? '' : parseFloat(e.target.value) }))} placeholder={`${t('openQuantity')}: ${getOpenQuantity(item as PurchaseOrderItem)}`} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"/>
+                    ) : <span className="text-sm text-green-600">✓</span>}
+                  </td>
+                )}
+                <td className="px-6">{isEditable && <button onClick={() => removeItem(index)}><TrashIcon className="w-5 h-5 text-red-500"/></button>}</td>
+              </tr>
+            ))}</tbody>
+          </table>
+        </div>
+        {isEditable && <div className="flex space-x-2 mt-4">
+          <button onClick={() => setIsProductModalOpen(true)} className="px-4 py-2 bg-blue-200 text-blue-800 rounded-md dark:bg-blue-900 dark:text-blue-200 text-sm">{t('addProducts')}</button>
+        </div>}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800"><h3 className="font-bold mb-2">Notes</h3><textarea name="notes" value={order.notes || ''} onChange={handleOrderChange} rows={4} className="w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600"></textarea></div>
+        <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+          <div className="flex justify-between text-xl font-bold"><span>{t('orderTotal')}:</span><span>€{total.toFixed(2)}</span></div>
+        </div>
+      </div>
+
+      {isProductModalOpen && <ProductSelectionModal isOpen={isProductModalOpen} onClose={() => setIsProductModalOpen(false)} onAdd={addProductsFromModal} />}
+    </div>
+  );
+};
+
+export default PurchaseOrderEditor;
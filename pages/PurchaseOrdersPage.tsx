@@ -0,0 +1,150 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../services/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useRefresh } from '../contexts/RefreshContext';
+import { useTabs } from '../contexts/TabContext';
+import { PurchaseOrder, PurchaseOrderStatus } from '../types';
+import { PlusIcon, PencilIcon, TrashIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { formatEuropeanDate } from '../lib/formatting';
+import { generatePurchaseOrderPDF } from '../lib/pdfGenerator';
+import { PURCHASE_ORDER_STATUSES } from '../lib/purchaseOrders';
+
+const statusColors: { [key in PurchaseOrderStatus]: string } = {
+  draft: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300 border border-yellow-300/50',
+  ordered: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300 border border-blue-300/50',
+  partially_received: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-300 border border-orange-300/50',
+  received: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300 border border-green-300/50',
+};
+
+const PurchaseOrdersPage: React.FC = () => {
+  const { profile } = useAuth();
+  const { t, language } = useLanguage();
+  const { refreshKey } = useRefresh();
+  const { openTab } = useTabs();
+
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | 'all'>('all');
+
+  const canManage = profile?.role !== 'field_service_employee' && profile?.role !== 'super_admin';
+
+  const fetchOrders = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+
+    let query = supabase.from('purchase_orders').select('*, suppliers:suppliers!left(id, name)');
+    if (profile.role !== 'super_admin') {
+      query = query.eq('org_id', profile.org_id);
+    }
+    if (statusFilter !== 'all') {
+      query = query.eq('status', statusFilter);
+    }
+
+    const { data, error } = await query.order('order_date', { ascending: false }).order('id', { ascending: false });
+    if (error) {
+      console.error('Error fetching purchase orders:', error.message);
+      alert(`Error fetching purchase orders: ${error.message}`);
+    } else {
+      setOrders(data as any || []);
+    }
+    setLoading(false);
+  }, [profile, statusFilter]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders, refreshKey]);
+
+  // Searching by number or supplier happens on the loaded orders.
+  const visibleOrders = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return orders;
+    return orders.filter(order => order.order_number.toLowerCase().includes(term) || order.suppliers?.name.toLowerCase().includes(term));
+  }, [orders, searchTerm]);
+
+  const handleDelete = async (order: PurchaseOrder) => {
+    if (!window.confirm(`Are you sure you want to delete purchase order ${order.order_number}?`)) return;
+    const { error } = await supabase.from('purchase_orders').delete().eq('id', order.id).eq('status', 'draft');
+    if (error) alert('Error deleting purchase order: ' + error.message);
+    else setOrders(orders.filter(o => o.id !== order.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-center">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('purchaseOrders')}</h1>
+        {canManage && (
+          <button onClick={() => openTab({ path: '/inventory/purchase-orders/new', label: t('newPurchaseOrder') })} className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700">
+            <PlusIcon className="w-5 h-5 mr-2" /> {t('newPurchaseOrder')}
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 bg-white rounded-lg shadow-md dark:bg-gray-800 flex flex-col sm:flex-row gap-4">
+        <input
+          type="text"
+          placeholder="Search by order number or supplier..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="w-full p-2 border border-gray-300 rounded-md shadow-sm dark:bg-gray-700 dark:border-gray-600"
+        />
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as PurchaseOrderStatus | 'all')}
+          className="p-2 border border-gray-300 rounded-md shadow-sm dark:bg-gray-700 dark:border-gray-600"
+        >
+          <option value="all">All Statuses</option>
+          {PURCHASE_ORDER_STATUSES.map(status => <option key={status} value={status}>{t(`purchaseOrderStatus_${status}`)}</option>)}
+        </select>
+      </div>
+
+      {loading ? <div className="p-6 text-center text-gray-500">Loading...</div> : (
+        <div className="bg-white rounded-lg shadow-md dark:bg-gray-800 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="border-b-2 border-gray-200 dark:border-gray-700">
+                <tr className="text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  <th className="px-6 py-3">{t('orderNumber')}</th>
+                  <th className="px-6 py-3">{t('supplier')}</th>
+                  <th className="px-6 py-3">{t('orderDate')}</th>
+                  <th className="px-6 py-3">{t('expectedDelivery')}</th>
+                  <th className="px-6 py-3">{t('orderTotal')}</th>
+                  <th className="px-6 py-3">Status</th>
+                  <th className="px-6 py-3 text-right">{t('actions')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleOrders.length > 0 ? visibleOrders.map(order => (
+                  <tr key={order.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
+                    <td className="px-6 py-3 whitespace-nowrap font-mono text-sm">
+                      <button onClick={() => openTab({ path: `/inventory/purchase-orders/edit/${order.id}`, label: order.order_number })} className="text-primary-600 hover:underline">{order.order_number}</button>
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm">{order.suppliers?.name || 'N/A'}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm">{formatEuropeanDate(order.order_date)}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm">{order.expected_delivery_date ? formatEuropeanDate(order.expected_delivery_date) : '-'}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm font-medium">€{Number(order.total_amount || 0).toFixed(2)}</td>
+                    <td className="px-6 py-3 whitespace-nowrap"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[order.status]}`}>{t(`purchaseOrderStatus_${order.status}`)}</span></td>
+                    <td className="px-6 py-3 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                      <button onClick={() => generatePurchaseOrderPDF(order.id, language)} title="Download PDF"><ArrowDownTrayIcon className="w-5 h-5 inline-block text-gray-500 hover:text-gray-700"/></button>
+                      {canManage && (
+                        <>
+                          <button onClick={() => openTab({ path: `/inventory/purchase-orders/edit/${order.id}`, label: order.order_number })} title="Edit"><PencilIcon className="w-5 h-5 inline-block text-primary-600 hover:text-primary-800"/></button>
+                          {order.status === 'draft' && <button onClick={() => handleDelete(order)} title="Delete"><TrashIcon className="w-5 h-5 inline-block text-red-600 hover:text-red-800"/></button>}
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                )) : (
+                  <tr><td colSpan={7} className="p-4 text-center text-gray-500">{t('noPurchaseOrders')}</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PurchaseOrdersPage;
@@ -4,16 +4,25 @@ import { supabase } from '../services/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useTabs } from '../contexts/TabContext';
-import { Customer, Product, Quote, QuoteItem, QuoteStatus, UserRole } from '../types';
-import { GERMAN_VAT_RATES } from '../constants';
+import { Customer, Product, Quote, QuoteItem, QuoteItemType, QuoteStatus, UserRole, DiscountType, DocumentEmail, QuoteLink, QuoteRevision } from '../types';
 import { generateNextNumber } from '../lib/numberGenerator';
 import generateDocumentPDF from '../lib/pdfGenerator';
-import { PlusIcon, TrashIcon, ArrowDownTrayIcon, EllipsisVerticalIcon, ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { getDocumentEmails } from '../lib/email';
+import { getQuoteBillingSummary, createFinalInvoice, QuoteBillingSummary } from '../lib/quoteBilling';
+import { getStoredQuote, needsQuoteRevision, createQuoteRevision, getQuoteRevisions, toQuoteVersion, QuoteVersion } from '../lib/quoteRevisions';
+import { getQuoteLinks, createQuoteLink, revokeQuoteLink, getQuoteLinkUrl, getQuoteLinkState } from '../lib/quoteLinks';
+import { PlusIcon, TrashIcon, ArrowDownTrayIcon, EllipsisVerticalIcon, ArrowLeftIcon, EnvelopeIcon, ClipboardDocumentIcon } from '@heroicons/react/24/outline';
 import CustomerModal from '../components/modals/CustomerModal';
 import ProductSelectionModal from '../components/modals/ProductSelectionModal';
+import SendDocumentModal from '../components/modals/SendDocumentModal';
+import DownPaymentModal from '../components/modals/DownPaymentModal';
+import QuoteComparisonModal from '../components/modals/QuoteComparisonModal';
 import DatePicker from '../components/ui/DatePicker';
+import DiscountInput from '../components/ui/DiscountInput';
 import { format } from 'date-fns';
-import { parseAsLocalDate } from '../lib/formatting';
+import { calculateDocumentTotals } from '../lib/documentTotals';
+import { getOrganizationTaxSettings, getTaxRules, getVatRates, getItemVatRate, applyTaxRules, OrganizationTaxSettings } from '../lib/taxEngine';
+import { parseAsLocalDate, formatEuropeanDate } from '../lib/formatting';
 
 const QuoteEditor: React.FC = () => {
   const location = useLocation();
@@ -21,7 +30,7 @@ const QuoteEditor: React.FC = () => {
   const navigate = useNavigate();
   const { user, profile } = useAuth();
   const { t, language } = useLanguage();
-  const { closeTab, updateTabLabel, replaceTab } = useTabs();
+  const { closeTab, updateTabLabel, replaceTab, openTab } = useTabs();
 
   const { current: instance } = useRef({ path: location.pathname, id: params.id });
   const { id, path: instancePath } = instance;
@@ -32,13 +41,24 @@ const QuoteEditor: React.FC = () => {
     status: 'draft',
     customer_id: undefined,
   });
-  const [items, setItems] = useState<Partial<QuoteItem>[]>([{ description: '', quantity: 1, unit_price: 0, vat_rate: 19 }]);
+  const [items, setItems] = useState<Partial<QuoteItem>[]>([{ description: '', quantity: 1, unit_price: 0, vat_rate: getVatRates(null)[0] }]);
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [emails, setEmails] = useState<DocumentEmail[]>([]);
+  const [taxSettings, setTaxSettings] = useState<OrganizationTaxSettings | null>(null);
   const [loading, setLoading] = useState(!!id);
   const [isSaving, setIsSaving] = useState(false);
   const [isCustomerModalOpen, setIsCustomerModalOpen] = useState(false);
   const [isProductModalOpen, setIsProductModalOpen] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isSendModalOpen, setIsSendModalOpen] = useState(false);
+  const [billingSummary, setBillingSummary] = useState<QuoteBillingSummary | null>(null);
+  const [isDownPaymentModalOpen, setIsDownPaymentModalOpen] = useState(false);
+  const [isCreatingFinal, setIsCreatingFinal] = useState(false);
+  const [links, setLinks] = useState<QuoteLink[]>([]);
+  const [isCreatingLink, setIsCreatingLink] = useState(false);
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
+  const [savedVersion, setSavedVersion] = useState<QuoteVersion | null>(null);
+  const [comparedVersion, setComparedVersion] = useState<number | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
 
   const canSave = useMemo(() => {
@@ -51,6 +71,7 @@ const QuoteEditor: React.FC = () => {
   }, [profile, quote?.status]);
 
   const isReadOnly = !canSave;
+  const canBill = !!profile && profile.role !== 'super_admin' && profile.role !== 'field_service_employee';
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -94,7 +115,28 @@ const QuoteEditor: React.FC = () => {
     const { quote_items, customers, ...quoteData } = data;
     setQuote({ ...quoteData, customers });
     setItems(quote_items || []);
+    setSavedVersion(toQuoteVersion(quoteData, quote_items || []));
     updateTabLabel(instancePath, quoteData.quote_number);
+    try {
+      setEmails(await getDocumentEmails('quote', quoteId));
+    } catch (emailError: any) {
+      console.error('Error fetching email log:', emailError.message);
+    }
+    try {
+      setBillingSummary(await getQuoteBillingSummary(quoteData));
+    } catch (billingError: any) {
+      console.error('Error fetching quote invoices:', billingError.message);
+    }
+    try {
+      setRevisions(await getQuoteRevisions(quoteId));
+    } catch (revisionError: any) {
+      console.error('Error fetching quote versions:', revisionError.message);
+    }
+    try {
+      setLinks(await getQuoteLinks(quoteId));
+    } catch (linkError: any) {
+      console.error('Error fetching acceptance links:', linkError.message);
+    }
     setLoading(false);
   }, [id, profile, navigate, instancePath, updateTabLabel]);
 
@@ -107,6 +149,14 @@ const QuoteEditor: React.FC = () => {
     }
     const { data: customerData } = await query;
     setCustomers(customerData || []);
+
+    if (profile.org_id) {
+      try {
+        setTaxSettings(await getOrganizationTaxSettings(profile.org_id));
+      } catch (error: any) {
+        console.error('Error fetching tax settings:', error.message);
+      }
+    }
   }, [profile]);
 
   useEffect(() => {
@@ -122,16 +172,24 @@ const QuoteEditor: React.FC = () => {
     }
   }, [id, fetchCustomersAndProducts, fetchData, location.state]);
 
+  const selectedCustomer = useMemo(() => customers.find(c => c.id === Number(quote.customer_id)), [customers, quote.customer_id]);
+  const taxRules = useMemo(
+    () => getTaxRules(taxSettings, selectedCustomer, isReadOnly ? quote.tax_treatment : null),
+    [taxSettings, selectedCustomer, isReadOnly, quote.tax_treatment]
+  );
+
+  useEffect(() => {
+    if (!isReadOnly && taxSettings) {
+      setItems(prev => applyTaxRules(prev, taxRules));
+    }
+  }, [taxRules, taxSettings, isReadOnly]);
+
   useEffect(() => {
     if (!isReadOnly) {
-        const newTotal = items.reduce((acc, item) => {
-            const itemTotal = (item.quantity || 0) * (item.unit_price || 0);
-            const vatAmount = itemTotal * ((item.vat_rate || 0) / 100);
-            return acc + itemTotal + vatAmount;
-        }, 0);
-        setQuote(q => ({...q, total_amount: newTotal }));
+        const { grandTotal } = calculateDocumentTotals(items, { discount_type: quote.discount_type, discount_value: quote.discount_value });
+        setQuote(q => ({...q, total_amount: grandTotal }));
     }
-  }, [items, isReadOnly]);
+  }, [items, quote.discount_type, quote.discount_value, isReadOnly]);
 
   const handleQuoteChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     setQuote({ ...quote, [e.target.name]: e.target.value });
@@ -156,12 +214,36 @@ const QuoteEditor: React.FC = () => {
     setItems(newItems);
   };
 
-  const addItem = () => setItems([...items, { description: '', quantity: 1, unit_price: 0, vat_rate: 19 }]);
+  const handleItemDiscountChange = (index: number, discount_type: DiscountType, discount_value: number | null) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, discount_type, discount_value } : item));
+  };
+
+  const handleItemTypeChange = (index: number, item_type: QuoteItemType) => {
+    setItems(prev => prev.map((item, i) => i === index ? {
+      ...item,
+      item_type,
+      alternative_group: item_type === 'alternative' ? item.alternative_group || '' : null,
+      is_selected: item_type === 'standard' ? null : false,
+    } : item));
+  };
+
+  // Choosing an alternative replaces the one chosen before in the same group.
+  const handleItemSelectedChange = (index: number, is_selected: boolean) => {
+    const changed = items[index];
+    setItems(prev => prev.map((item, i) => {
+      if (i === index) return { ...item, is_selected };
+      const isSameGroup = is_selected && changed.item_type === 'alternative' && item.item_type === 'alternative'
+        && (item.alternative_group || '').trim() === (changed.alternative_group || '').trim();
+      return isSameGroup ? { ...item, is_selected: false } : item;
+    }));
+  };
+
+  const addItem = () => setItems([...items, { description: '', quantity: 1, unit_price: 0, vat_rate: taxRules.defaultRate }]);
   const removeItem = (index: number) => setItems(items.filter((_, i) => i !== index));
   
   const addProductsFromModal = (selectedProducts: Product[]) => {
     const newItems = selectedProducts.map(p => ({
-      product_id: p.id, description: p.name, quantity: 1, unit_price: p.selling_price, vat_rate: 19,
+      product_id: p.id, description: p.name, quantity: 1, unit_price: p.selling_price, vat_rate: getItemVatRate(p.vat_rate, taxRules),
     }));
     setItems(prev => [...prev.filter(i => i.description), ...newItems]);
     setIsProductModalOpen(false);
@@ -178,7 +260,8 @@ const QuoteEditor: React.FC = () => {
     }
     setIsSaving(true);
     
-    const { customers, quote_items, organizations, ...quoteDataToSave } = quote;
+    // The follow-up fields are maintained by the follow-up automation and never written back from the editor.
+    const { customers, quote_items, organizations, sent_at, follow_up_created_at, expiry_reminder_created_at, ...quoteDataToSave } = quote;
     const isNewQuote = !id || id === 'new';
 
     const issueDate = parseAsLocalDate(quoteDataToSave.issue_date);
@@ -189,6 +272,12 @@ const QuoteEditor: React.FC = () => {
         setIsSaving(false);
         return;
     }
+
+    if (items.some(item => item.item_type === 'alternative' && !(item.alternative_group || '').trim())) {
+        alert('Please enter a group for each alternative item.');
+        setIsSaving(false);
+        return;
+    }
     
     const issueDateISO = format(issueDate, 'yyyy-MM-dd');
     const validUntilDateISO = format(validUntilDate, 'yyyy-MM-dd');
@@ -200,17 +289,36 @@ const QuoteEditor: React.FC = () => {
         const quoteNumber = await generateNextNumber(profile.org_id, 'quote');
         const { data, error } = await supabase.from('quotes').insert({
           ...quoteDataToSave,
+          tax_treatment: taxRules.treatment,
           issue_date: issueDateISO,
           valid_until_date: validUntilDateISO,
           user_id: user.id, 
           org_id: profile.org_id, 
           quote_number: quoteNumber,
+          sent_at: quoteDataToSave.status === 'sent' ? new Date().toISOString() : null,
         }).select().single();
         if (error) throw error;
         savedQuote = data;
       } else {
+        // Editing the content of a sent quote creates the next version; the sent one is preserved read-only.
+        const stored = await getStoredQuote(parseInt(id));
+        const isRevision = needsQuoteRevision(stored, quoteDataToSave, items);
+        if (isRevision && !window.confirm(`Quote #${stored.quote_number} has already been sent. Saving creates version ${(stored.version || 1) + 1}; version ${stored.version || 1} is kept read-only. Continue?`)) {
+          return;
+        }
+        const revision = isRevision
+          ? { version: await createQuoteRevision(stored, user.id), status: 'draft' as const, responded_at: null, response_ip: null, signer_name: null, signature: null, sent_at: null, follow_up_created_at: null, expiry_reminder_created_at: null }
+          : {};
+        // Sending starts the follow-ups; a new valid until date gets its own reminder before expiry.
+        const followUp = {
+          ...(!isRevision && quoteDataToSave.status === 'sent' && !stored.sent_at ? { sent_at: new Date().toISOString() } : {}),
+          ...(!isRevision && stored.valid_until_date !== validUntilDateISO ? { expiry_reminder_created_at: null } : {}),
+        };
         const { data, error } = await supabase.from('quotes').update({
           ...quoteDataToSave,
+          ...revision,
+          ...followUp,
+          tax_treatment: taxRules.treatment,
           issue_date: issueDateISO,
           valid_until_date: validUntilDateISO,
         }).eq('id', parseInt(id)).select().single();
@@ -242,20 +350,58 @@ const QuoteEditor: React.FC = () => {
     }
   };
 
-  const totals = useMemo(() => {
-    let subtotal = 0;
-    const vatTotals: { [key: number]: number } = {};
-    items.forEach(item => {
-      const itemTotal = (item.quantity || 0) * (item.unit_price || 0);
-      subtotal += itemTotal;
-      const vatRate = item.vat_rate || 0;
-      const vatAmount = itemTotal * (vatRate / 100);
-      vatTotals[vatRate] = (vatTotals[vatRate] || 0) + vatAmount;
-    });
-    const totalVat = Object.values(vatTotals).reduce((a, b) => a + b, 0);
-    const grandTotal = subtotal + totalVat;
-    return { subtotal, vatTotals, totalVat, grandTotal };
-  }, [items]);
+  const totals = useMemo(
+    () => calculateDocumentTotals(items, { discount_type: quote.discount_type, discount_value: quote.discount_value }),
+    [items, quote.discount_type, quote.discount_value]
+  );
+
+  const openInvoice = (invoice: { id: number; invoice_number: string }) =>
+    openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number });
+
+  const handleCreateFinalInvoice = async () => {
+    if (!profile || !quote.id) return;
+    if (!window.confirm(`Create the final invoice for quote #${quote.quote_number}? Down payment invoices issued so far are deducted.`)) return;
+    setIsCreatingFinal(true);
+    try {
+      const invoice = await createFinalInvoice(quote.id, profile);
+      fetchData();
+      openInvoice(invoice);
+    } catch (error: any) {
+      alert('Error creating final invoice: ' + error.message);
+    } finally {
+      setIsCreatingFinal(false);
+    }
+  };
+
+  const handleCreateLink = async () => {
+    if (!user || !quote.id || !quote.org_id || !quote.valid_until_date) return;
+    setIsCreatingLink(true);
+    try {
+      const link = await createQuoteLink({ id: quote.id, org_id: quote.org_id, valid_until_date: quote.valid_until_date }, user.id);
+      setLinks(prev => [link, ...prev]);
+      await navigator.clipboard?.writeText(getQuoteLinkUrl(link.token));
+      alert('Acceptance link created and copied to the clipboard.');
+    } catch (error: any) {
+      alert('Error creating acceptance link: ' + error.message);
+    } finally {
+      setIsCreatingLink(false);
+    }
+  };
+
+  const handleRevokeLink = async (link: QuoteLink) => {
+    if (!window.confirm('Revoke this link? The customer will no longer be able to open it.')) return;
+    try {
+      await revokeQuoteLink(link.id);
+      setLinks(await getQuoteLinks(link.quote_id));
+    } catch (error: any) {
+      alert('Error revoking acceptance link: ' + error.message);
+    }
+  };
+
+  const handleCopyLink = async (link: QuoteLink) => {
+    await navigator.clipboard?.writeText(getQuoteLinkUrl(link.token));
+    alert('Link copied to the clipboard.');
+  };
 
   const handleDownloadPdf = async () => {
     if (!id || id === 'new') return;
@@ -266,7 +412,7 @@ const QuoteEditor: React.FC = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-start">
         <div>
-          <h1 className="text-3xl font-bold">{id && id !== 'new' ? `${isReadOnly ? 'View' : 'Edit'} Quote ${quote.quote_number || ''}` : t('newQuote')}</h1>
+          <h1 className="text-3xl font-bold">{id && id !== 'new' ? `${isReadOnly ? 'View' : 'Edit'} Quote ${quote.quote_number || ''}${(quote.version || 1) > 1 ? ` (${t('version')} ${quote.version})` : ''}` : t('newQuote')}</h1>
         </div>
         <div className="flex items-center gap-x-2">
             {canSave && <button onClick={handleSave} disabled={isSaving} className="px-6 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
@@ -283,6 +429,7 @@ const QuoteEditor: React.FC = () => {
                   {isMenuOpen && (
                       <div className="absolute right-0 mt-2 w-56 bg-white dark:bg-gray-800 rounded-md shadow-lg z-10">
                          <button onClick={handleDownloadPdf} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"><ArrowDownTrayIcon className="w-5 h-5"/> Download PDF</button>
+                         {canSave && <button onClick={() => { setIsMenuOpen(false); setIsSendModalOpen(true); }} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"><EnvelopeIcon className="w-5 h-5"/> {t('sendDocument')}</button>}
                       </div>
                   )}
               </div>
@@ -312,7 +459,7 @@ const QuoteEditor: React.FC = () => {
         <div>
           <label className="block text-sm font-medium">Status</label>
           <select name="status" value={quote.status} onChange={handleQuoteChange} disabled={isReadOnly} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 capitalize disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
-            {(['draft', 'sent', 'accepted', 'declined'] as QuoteStatus[]).map(s => <option key={s} value={s}>{t(s as any)}</option>)}
+            {(['draft', 'sent', 'accepted', 'declined', 'expired'] as QuoteStatus[]).map(s => <option key={s} value={s}>{t(s as any)}</option>)}
           </select>
         </div>
       </div>
@@ -322,20 +469,29 @@ const QuoteEditor: React.FC = () => {
         <div className="overflow-x-auto -mx-6">
             <table className="min-w-full">
             <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
-                <th className="px-6 py-2">Description</th><th className="px-6 py-2 w-24">Qty</th><th className="px-6 py-2 w-32">Unit Price</th><th className="px-6 py-2 w-28">VAT %</th><th className="px-6 py-2 w-32">Total</th><th className="w-10 px-6"></th>
+                <th className="px-6 py-2">Description</th><th className="px-6 py-2 w-24">Qty</th><th className="px-6 py-2 w-32">Unit Price</th><th className="px-6 py-2 w-28">VAT %</th><th className="px-6 py-2 w-36">{t('discount')}</th><th className="px-6 py-2 w-32">Total</th><th className="w-10 px-6"></th>
             </tr></thead>
             <tbody>{items.map((item, index) => {
-                const itemTotal = (item.quantity || 0) * (item.unit_price || 0);
-                const vatAmount = itemTotal * ((item.vat_rate || 0) / 100);
                 const isPriceLocked = profile?.role === 'field_service_employee' && !!item.product_id;
+                const itemType = item.item_type || 'standard';
                 
                 return (
                     <tr key={index} className="border-b dark:border-gray-700">
-                        <td className="px-6 py-2"><input type="text" value={item.description || ''} onChange={(e) => handleItemChange(index, 'description', e.target.value)} readOnly={isReadOnly} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
+                        <td className="px-6 py-2">
+                            <input type="text" value={item.description || ''} onChange={(e) => handleItemChange(index, 'description', e.target.value)} readOnly={isReadOnly} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/>
+                            <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+                                <select value={itemType} onChange={(e) => handleItemTypeChange(index, e.target.value as QuoteItemType)} disabled={isReadOnly} aria-label={t('itemType')} className="p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
+                                    {(['standard', 'optional', 'alternative'] as QuoteItemType[]).map(type => <option key={type} value={type}>{t(`itemType_${type}`)}</option>)}
+                                </select>
+                                {itemType === 'alternative' && <input type="text" value={item.alternative_group || ''} onChange={(e) => handleItemChange(index, 'alternative_group', e.target.value)} readOnly={isReadOnly} placeholder={t('alternativeGroup')} className="w-32 p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/>}
+                                {itemType !== 'standard' && <label className="inline-flex items-center gap-x-1"><input type="checkbox" checked={!!item.is_selected} onChange={(e) => handleItemSelectedChange(index, e.target.checked)} disabled={isReadOnly} className="rounded"/> {t('optionChosen')}</label>}
+                            </div>
+                        </td>
                         <td className="px-6 py-2"><input type="number" value={item.quantity || ''} onChange={(e) => handleItemChange(index, 'quantity', parseFloat(e.target.value))} readOnly={isReadOnly} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
                         <td className="px-6 py-2"><input type="number" step="0.01" value={item.unit_price || ''} onChange={(e) => handleItemChange(index, 'unit_price', parseFloat(e.target.value))} readOnly={isReadOnly || isPriceLocked} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
-                        <td className="px-6 py-2"><select value={item.vat_rate} onChange={(e) => handleItemChange(index, 'vat_rate', parseInt(e.target.value))} disabled={isReadOnly} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">{GERMAN_VAT_RATES.map(rate => <option key={rate} value={rate}>{rate}%</option>)}</select></td>
-                        <td className="px-6 py-2 text-right font-medium">€{(itemTotal + vatAmount).toFixed(2)}</td>
+                        <td className="px-6 py-2"><select value={item.vat_rate} onChange={(e) => handleItemChange(index, 'vat_rate', parseInt(e.target.value))} disabled={isReadOnly} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">{taxRules.rates.map(rate => <option key={rate} value={rate}>{rate}%</option>)}</select></td>
+                        <td className="px-6 py-2"><DiscountInput type={item.discount_type} value={item.discount_value} onChange={(type, value) => handleItemDiscountChange(index, type, value)} disabled={isReadOnly || isPriceLocked} /></td>
+                        <td className={`px-6 py-2 text-right font-medium ${totals.lines[index]?.binding === false ? 'text-gray-400' : ''}`}>€{(totals.lines[index]?.total || 0).toFixed(2)}</td>
                         <td className="px-6">{!isReadOnly && <button onClick={() => removeItem(index)}><TrashIcon className="w-5 h-5 text-red-500"/></button>}</td>
                     </tr>
                 );
@@ -350,12 +506,156 @@ const QuoteEditor: React.FC = () => {
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800"><h3 className="font-bold mb-2">Notes</h3><textarea name="notes" value={quote.notes || ''} onChange={handleQuoteChange} rows={4} readOnly={isReadOnly} className="w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"></textarea></div>
-          <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800 space-y-2"><div className="flex justify-between"><span>Subtotal:</span><span>€{totals.subtotal.toFixed(2)}</span></div>
-              {Object.entries(totals.vatTotals).map(([rate, amount]) => (<div key={rate} className="flex justify-between text-sm text-gray-600 dark:text-gray-400"><span>VAT ({rate}%):</span><span>€{(amount as number).toFixed(2)}</span></div>))}
+          <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800 space-y-2"><div className="flex justify-between"><span>Subtotal:</span><span>€{totals.itemsTotal.toFixed(2)}</span></div>
+              <div className="flex justify-between items-center text-sm text-gray-600 dark:text-gray-400">
+                <span>{t('documentDiscount')}:</span>
+                <div className="w-36"><DiscountInput type={quote.discount_type} value={quote.discount_value} onChange={(discount_type, discount_value) => setQuote(d => ({ ...d, discount_type, discount_value }))} disabled={isReadOnly || profile?.role === 'field_service_employee'} /></div>
+              </div>
+              {totals.documentDiscount > 0 && <>
+                <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400"><span>{t('discount')}:</span><span>-€{totals.documentDiscount.toFixed(2)}</span></div>
+                <div className="flex justify-between"><span>{t('netAmount')}:</span><span>€{totals.subtotal.toFixed(2)}</span></div>
+              </>}
+              {totals.vatBreakdown.map(({ rate, vat }) => (<div key={rate} className="flex justify-between text-sm text-gray-600 dark:text-gray-400"><span>VAT ({rate}%):</span><span>€{vat.toFixed(2)}</span></div>))}
               <hr className="dark:border-gray-600"/><div className="flex justify-between text-xl font-bold"><span >Total:</span><span>€{quote.total_amount?.toFixed(2) || '0.00'}</span></div>
+              {taxRules.treatment !== 'standard' && <p className="text-xs text-gray-500 dark:text-gray-400">{t(`tax_${taxRules.treatment}`)}: {taxRules.note}</p>}
           </div>
       </div>
       
+      {billingSummary && (quote.status === 'accepted' || billingSummary.invoices.length > 0) && (
+        <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold">{t('quoteInvoicing')}</h2>
+            {canBill && quote.status === 'accepted' && !billingSummary.isFullyBilled && (
+              <div className="flex gap-x-2">
+                <button onClick={() => setIsDownPaymentModalOpen(true)} disabled={billingSummary.remainingAmount <= 0} className="px-4 py-2 bg-gray-200 rounded-md text-sm font-medium hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500 disabled:opacity-50">{t('downPaymentInvoice')}</button>
+                <button onClick={handleCreateFinalInvoice} disabled={isCreatingFinal} className="px-4 py-2 text-white bg-primary-600 rounded-md text-sm font-medium hover:bg-primary-700 disabled:bg-primary-300">{isCreatingFinal ? 'Creating...' : t('finalInvoice')}</button>
+              </div>
+            )}
+          </div>
+          {billingSummary.invoices.length > 0 && (
+            <div className="overflow-x-auto -mx-6 mb-4">
+              <table className="min-w-full">
+                <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                  <th className="px-6 py-2">{t('invoice')}</th><th className="px-6 py-2">Date</th><th className="px-6 py-2">Type</th><th className="px-6 py-2">{t('status')}</th><th className="px-6 py-2 text-right">Amount</th>
+                </tr></thead>
+                <tbody>{billingSummary.invoices.map(invoice => (
+                  <tr key={invoice.id} className={`border-b dark:border-gray-700 text-sm ${invoice.status === 'cancelled' ? 'line-through text-gray-400' : ''}`}>
+                    <td className="px-6 py-2"><button onClick={() => openInvoice(invoice)} className="font-medium text-primary-600 hover:underline">{invoice.invoice_number}</button></td>
+                    <td className="px-6 py-2 whitespace-nowrap">{formatEuropeanDate(invoice.issue_date)}</td>
+                    <td className="px-6 py-2">{t(`billing_${invoice.billing_type || 'full'}`)}</td>
+                    <td className="px-6 py-2 capitalize">{t(invoice.status as any)}</td>
+                    <td className="px-6 py-2 text-right">€{Number(invoice.total_amount).toFixed(2)}</td>
+                  </tr>
+                ))}</tbody>
+              </table>
+            </div>
+          )}
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div><span className="block text-gray-500 dark:text-gray-400">Total</span><span className="text-lg font-semibold">€{Number(quote.total_amount || 0).toFixed(2)}</span></div>
+            <div><span className="block text-gray-500 dark:text-gray-400">{t('invoicedAmount')}</span><span className="text-lg font-semibold">€{billingSummary.invoicedAmount.toFixed(2)}</span></div>
+            <div><span className="block text-gray-500 dark:text-gray-400">{t('remainingAmount')}</span><span className="text-lg font-semibold">€{(billingSummary.isFullyBilled ? 0 : billingSummary.remainingAmount).toFixed(2)}</span></div>
+          </div>
+        </div>
+      )}
+
+      {revisions.length > 0 && savedVersion && (
+        <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+          <h2 className="text-xl font-bold mb-4">{t('quoteVersions')}</h2>
+          <div className="overflow-x-auto -mx-6">
+            <table className="min-w-full">
+              <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                <th className="px-6 py-2">{t('version')}</th><th className="px-6 py-2">Date</th><th className="px-6 py-2">{t('status')}</th><th className="px-6 py-2 text-right">Amount</th><th className="px-6 py-2"></th>
+              </tr></thead>
+              <tbody>
+                <tr className="border-b dark:border-gray-700 text-sm font-medium">
+                  <td className="px-6 py-2">{savedVersion.version} ({t('currentVersion')})</td>
+                  <td className="px-6 py-2 whitespace-nowrap">{formatEuropeanDate(savedVersion.issue_date)}</td>
+                  <td className="px-6 py-2 capitalize">{t(savedVersion.status as any)}</td>
+                  <td className="px-6 py-2 text-right">€{Number(savedVersion.total_amount).toFixed(2)}</td>
+                  <td className="px-6 py-2"></td>
+                </tr>
+                {revisions.map(revision => (
+                  <tr key={revision.id} className="border-b dark:border-gray-700 text-sm text-gray-600 dark:text-gray-400">
+                    <td className="px-6 py-2">{revision.version}</td>
+                    <td className="px-6 py-2 whitespace-nowrap">{formatEuropeanDate(revision.issue_date)}</td>
+                    <td className="px-6 py-2 capitalize">{t(revision.status as any)}</td>
+                    <td className="px-6 py-2 text-right">€{Number(revision.total_amount).toFixed(2)}</td>
+                    <td className="px-6 py-2 text-right"><button onClick={() => setComparedVersion(revision.version)} className="text-primary-600 hover:underline">{t('compareVersions')}</button></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {id && id !== 'new' && (quote.responded_at || (canSave && (quote.status === 'draft' || quote.status === 'sent' || links.length > 0))) && (
+        <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold">{t('acceptanceLinks')}</h2>
+            {canSave && !quote.responded_at && (
+              <button onClick={handleCreateLink} disabled={isCreatingLink} className="px-4 py-2 text-white bg-primary-600 rounded-md text-sm font-medium hover:bg-primary-700 disabled:bg-primary-300">{isCreatingLink ? 'Creating...' : t('createLink')}</button>
+            )}
+          </div>
+          {quote.responded_at && (
+            <div className="flex flex-col sm:flex-row gap-4 mb-4 text-sm">
+              <div>
+                <p className="font-medium">{t(quote.status === 'accepted' ? 'quoteAcceptedOn' : 'quoteDeclinedOn')} {formatEuropeanDate(quote.responded_at)} {format(new Date(quote.responded_at), 'HH:mm')}</p>
+                <p className="text-gray-600 dark:text-gray-400">{quote.signer_name}{quote.response_ip && ` · IP ${quote.response_ip}`}</p>
+              </div>
+              {quote.signature && <img src={quote.signature} alt={t('signature')} className="h-20 bg-white border rounded dark:border-gray-600" />}
+            </div>
+          )}
+          {links.length > 0 && (
+            <div className="overflow-x-auto -mx-6">
+              <table className="min-w-full">
+                <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                  <th className="px-6 py-2">Created</th><th className="px-6 py-2">{t('status')}</th><th className="px-6 py-2"></th>
+                </tr></thead>
+                <tbody>{links.map(link => {
+                  const state = getQuoteLinkState(link, quote.valid_until_date);
+                  return (
+                    <tr key={link.id} className="border-b dark:border-gray-700 text-sm">
+                      <td className="px-6 py-2 whitespace-nowrap">{formatEuropeanDate(link.created_at)} {format(new Date(link.created_at), 'HH:mm')}</td>
+                      <td className="px-6 py-2">{t(`link_${state}`)}</td>
+                      <td className="px-6 py-2 text-right whitespace-nowrap">
+                        {state === 'active' && <>
+                          <button onClick={() => handleCopyLink(link)} className="inline-flex items-center gap-x-1 text-primary-600 hover:underline"><ClipboardDocumentIcon className="w-4 h-4"/> {t('copyLink')}</button>
+                          {canSave && <button onClick={() => handleRevokeLink(link)} className="ml-4 text-red-600 hover:underline">{t('revokeLink')}</button>}
+                        </>}
+                      </td>
+                    </tr>
+                  );
+                })}</tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {emails.length > 0 && (
+        <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+          <h2 className="text-xl font-bold mb-4">{t('emailLog')}</h2>
+          <div className="overflow-x-auto -mx-6">
+            <table className="min-w-full">
+              <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                <th className="px-6 py-2">Date</th><th className="px-6 py-2">{t('recipients')}</th><th className="px-6 py-2">{t('subject')}</th>
+              </tr></thead>
+              <tbody>{emails.map(email => (
+                <tr key={email.id} className="border-b dark:border-gray-700 text-sm">
+                  <td className="px-6 py-2 whitespace-nowrap">{formatEuropeanDate(email.sent_at)} {format(new Date(email.sent_at), 'HH:mm')}</td>
+                  <td className="px-6 py-2">{[...email.recipients, ...email.cc].join(', ')}</td>
+                  <td className="px-6 py-2">{email.subject}</td>
+                </tr>
+              ))}</tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {comparedVersion !== null && savedVersion && <QuoteComparisonModal quoteNumber={quote.quote_number || ''} versions={[savedVersion, ...revisions]} initialVersion={comparedVersion} closeModal={() => setComparedVersion(null)} />}
+      {isSendModalOpen && quote.id && <SendDocumentModal documentType="quote" documentId={quote.id} documentNumber={quote.quote_number || ''} closeModal={() => setIsSendModalOpen(false)} onSent={() => { setIsSendModalOpen(false); fetchData(); }} />}
+      {isDownPaymentModalOpen && quote.id && billingSummary && <DownPaymentModal quote={{ id: quote.id, quote_number: quote.quote_number || '', total_amount: quote.total_amount || 0 }} remainingAmount={billingSummary.remainingAmount} closeModal={() => setIsDownPaymentModalOpen(false)} onSave={(invoice) => { setIsDownPaymentModalOpen(false); fetchData(); openInvoice(invoice); }} />}
       {isCustomerModalOpen && <CustomerModal customer={null} closeModal={() => setIsCustomerModalOpen(false)} onSave={() => { fetchCustomersAndProducts(); setIsCustomerModalOpen(false); }} />}
       {isProductModalOpen && <ProductSelectionModal isOpen={isProductModalOpen} onClose={() => setIsProductModalOpen(false)} onAdd={addProductsFromModal} />}
     </div>
@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import { useLanguage } from '../contexts/LanguageContext';
+import { PublicQuote, QuoteItem } from '../types';
+import { getQuoteByToken, respondToQuote } from '../lib/quoteLinks';
+import { generatePublicQuotePDF } from '../lib/pdfGenerator';
+import { calculateDocumentTotals } from '../lib/documentTotals';
+import { formatEuropeanDate } from '../lib/formatting';
+import SignaturePad from '../components/ui/SignaturePad';
+import LanguageSwitcher from '../components/ui/LanguageSwitcher';
+import { ArrowDownTrayIcon, CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+
+// Public page of an acceptance link: customers view the quote and accept or decline it without an account.
+const QuoteResponsePage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const { t, language, setLanguage } = useLanguage();
+  const [quote, setQuote] = useState<PublicQuote | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [signerName, setSignerName] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [selectedItemIds, setSelectedItemIds] = useState<number[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    setLoading(true);
+    getQuoteByToken(token)
+      .then(data => {
+        setQuote(data);
+        setSelectedItemIds((data?.quote_items || []).filter(item => item.is_selected).map(item => item.id));
+        if (data?.customers.document_language) {
+          setLanguage(data.customers.document_language);
+        }
+      })
+      .catch(fetchError => {
+        console.error('Error fetching quote:', fetchError.message);
+        setQuote(null);
+      })
+      .finally(() => setLoading(false));
+  }, [token, setLanguage]);
+
+  // The totals follow the options the customer currently has chosen.
+  const items = useMemo(
+    () => (quote?.quote_items || []).map(item => item.item_type === 'optional' || item.item_type === 'alternative' ? { ...item, is_selected: selectedItemIds.includes(item.id) } : item),
+    [quote, selectedItemIds]
+  );
+  const totals = useMemo(
+    () => calculateDocumentTotals(items, { discount_type: quote?.discount_type, discount_value: quote?.discount_value }),
+    [items, quote?.discount_type, quote?.discount_value]
+  );
+
+  // Choosing an alternative replaces the one chosen before in the same group.
+  const toggleOption = (item: QuoteItem, selected: boolean) => {
+    setSelectedItemIds(prev => {
+      const others = item.item_type === 'alternative'
+        ? prev.filter(id => !items.some(other => other.id === id && other.item_type === 'alternative' && other.alternative_group === item.alternative_group))
+        : prev.filter(id => id !== item.id);
+      return selected ? [...others, item.id] : others;
+    });
+  };
+
+  const handleRespond = async (accepted: boolean) => {
+    if (!token || !quote) return;
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const result = await respondToQuote(token, { accepted, signerName, signature, selectedItemIds });
+      setQuote({ ...quote, ...result, signer_name: signerName.trim(), quote_items: accepted ? items : quote.quote_items });
+    } catch (respondError: any) {
+      setError(respondError.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!quote) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900">
+        <div className="w-full max-w-md p-8 mx-4 text-center bg-white rounded-lg shadow-2xl dark:bg-gray-800">
+          <XCircleIcon className="w-12 h-12 mx-auto text-red-500" />
+          <p className="mt-4 text-gray-700 dark:text-gray-300">{t('quoteLinkInvalid')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const organization = quote.organizations;
+  const isAnswered = !!quote.responded_at || quote.status === 'accepted' || quote.status === 'declined';
+  const hasOptions = items.some(item => item.item_type === 'optional' || item.item_type === 'alternative');
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-white">
+      <div className="max-w-4xl p-4 mx-auto space-y-6 sm:p-8">
+        <div className="flex items-start justify-between">
+          <div>
+            {organization.logo_url && <img src={organization.logo_url} alt="" className="h-12 mb-2" />}
+            <p className="font-bold">{organization.company_name || organization.name}</p>
+            <p className="text-sm text-gray-600 whitespace-pre-line dark:text-gray-400">{organization.address}</p>
+          </div>
+          <LanguageSwitcher />
+        </div>
+
+        <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+          <div className="flex flex-col gap-4 mb-6 sm:flex-row sm:justify-between sm:items-start">
+            <div>
+              <h1 className="text-2xl font-bold">{t('pdf_title_quote')} {quote.quote_number}</h1>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{quote.customers.name}</p>
+            </div>
+            <div className="text-sm text-gray-600 dark:text-gray-400 sm:text-right">
+              <p>{t('pdf_date')}: {formatEuropeanDate(quote.issue_date)}</p>
+              <p>{t('pdf_validUntil')}: {formatEuropeanDate(quote.valid_until_date)}</p>
+              <button onClick={() => generatePublicQuotePDF({ ...quote, quote_items: items }, language)} className="inline-flex items-center mt-2 gap-x-2 text-primary-600 hover:underline">
+                <ArrowDownTrayIcon className="w-5 h-5" /> {t('downloadPdf')}
+              </button>
+            </div>
+          </div>
+
+          {hasOptions && !isAnswered && <p className="mb-2 text-sm text-gray-600 dark:text-gray-400">{t('chooseOptions')}</p>}
+          <div className="-mx-6 overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="border-b dark:border-gray-700"><tr className="text-sm text-left text-gray-500 dark:text-gray-400">
+                <th className="px-6 py-2">{t('pdf_description')}</th><th className="px-6 py-2 text-right">{t('pdf_quantity')}</th><th className="px-6 py-2 text-right">{t('pdf_unitPrice')}</th><th className="px-6 py-2 text-right">{t('pdf_vat')}</th><th className="px-6 py-2 text-right">{t('pdf_total')}</th>
+              </tr></thead>
+              <tbody>{items.map((item, index) => (
+                <tr key={item.id} className={`text-sm border-b dark:border-gray-700 ${totals.lines[index].binding ? '' : 'text-gray-400'}`}>
+                  <td className="px-6 py-2">
+                    {item.item_type === 'optional' || item.item_type === 'alternative' ? (
+                      <label className="flex items-start gap-x-2">
+                        <input
+                          type={item.item_type === 'alternative' ? 'radio' : 'checkbox'}
+                          name={item.item_type === 'alternative' ? `alternative-${item.alternative_group}` : undefined}
+                          checked={!!item.is_selected}
+                          onChange={(e) => toggleOption(item, e.target.checked)}
+                          disabled={isAnswered || isSubmitting}
+                          className="mt-0.5"
+                        />
+                        <span>
+                          {item.description}
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">{item.item_type === 'alternative' ? `${t('itemType_alternative')}: ${item.alternative_group}` : t('itemType_optional')}</span>
+                        </span>
+                      </label>
+                    ) : item.description}
+                  </td>
+                  <td className="px-6 py-2 text-right">{item.quantity}</td>
+                  <td className="px-6 py-2 text-right">€{Number(item.unit_price).toFixed(2)}</td>
+                  <td className="px-6 py-2 text-right">{item.vat_rate}%</td>
+                  <td className="px-6 py-2 text-right">€{totals.lines[index].net.toFixed(2)}</td>
+                </tr>
+              ))}</tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 ml-auto space-y-1 text-sm sm:w-72">
+            <div className="flex justify-between"><span>{t('pdf_subtotal')}:</span><span>€{totals.subtotal.toFixed(2)}</span></div>
+            {totals.vatBreakdown.map(({ rate, vat }) => (
+              <div key={rate} className="flex justify-between text-gray-600 dark:text-gray-400"><span>{t('pdf_vat')} ({rate}%):</span><span>€{vat.toFixed(2)}</span></div>
+            ))}
+            <div className="flex justify-between pt-1 text-lg font-bold border-t dark:border-gray-600"><span>{t('pdf_grandTotal')}:</span><span>€{totals.grandTotal.toFixed(2)}</span></div>
+          </div>
+          {quote.notes && <p className="mt-4 text-sm text-gray-600 whitespace-pre-line dark:text-gray-400">{quote.notes}</p>}
+        </div>
+
+        <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+          {isAnswered ? (
+            <div className="flex items-center gap-x-3">
+              {quote.status === 'accepted' ? <CheckCircleIcon className="w-8 h-8 text-green-500" /> : <XCircleIcon className="w-8 h-8 text-red-500" />}
+              <p>
+                {t(quote.status === 'accepted' ? 'quoteAcceptedOn' : 'quoteDeclinedOn')} {quote.responded_at ? `${formatEuropeanDate(quote.responded_at)} ${format(new Date(quote.responded_at), 'HH:mm')}` : ''}
+                {quote.signer_name && ` (${quote.signer_name})`}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <h2 className="text-xl font-bold">{t('yourResponse')}</h2>
+              <div>
+                <label className="block text-sm font-medium">{t('yourName')}</label>
+                <input value={signerName} onChange={(e) => setSignerName(e.target.value)} className="w-full p-2 mt-1 border rounded-md dark:bg-gray-700 dark:border-gray-600" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium">{t('signature')}</label>
+                <SignaturePad onChange={setSignature} clearLabel={t('clearSignature')} disabled={isSubmitting} />
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{t('acceptQuoteConfirmation')}</p>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+                <button onClick={() => handleRespond(false)} disabled={isSubmitting} className="px-6 py-2 bg-gray-200 rounded-md font-medium hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50">{t('declineQuote')}</button>
+                <button onClick={() => handleRespond(true)} disabled={isSubmitting} className="px-6 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">{t('acceptQuote')}</button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuoteResponsePage;
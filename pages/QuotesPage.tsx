@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '../services/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
@@ -6,13 +6,16 @@ import { useRefresh } from '../contexts/RefreshContext';
 import { useTabs } from '../contexts/TabContext';
 import { Quote, QuoteStatus } from '../types';
 import { useNavigate } from 'react-router-dom';
-import { PlusIcon, PencilIcon, TrashIcon, DocumentDuplicateIcon, ChevronUpIcon, ChevronDownIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { PlusIcon, PencilIcon, TrashIcon, DocumentDuplicateIcon, ChevronUpIcon, ChevronDownIcon, ArrowDownTrayIcon, ListBulletIcon, ChartBarIcon } from '@heroicons/react/24/outline';
 import { convertQuoteToInvoice } from '../lib/conversion';
 import generateDocumentPDF from '../lib/pdfGenerator';
 import ConfirmModal from '../components/modals/ConfirmModal';
 import { formatEuropeanDate } from '../lib/formatting';
+import { markExpiredQuotes, createDueQuoteFollowUps } from '../lib/quoteFollowUp';
+import { buildQuotePipeline, PIPELINE_STATUSES } from '../lib/quotePipeline';
 
 type SortConfig = { key: string; direction: 'asc' | 'desc' };
+type QuotesView = 'list' | 'pipeline';
 
 const QuotesPage: React.FC = () => {
   const { user, profile } = useAuth();
@@ -28,6 +31,7 @@ const QuotesPage: React.FC = () => {
   const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
   const [quoteToConvert, setQuoteToConvert] = useState<Quote | null>(null);
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'issue_date', direction: 'desc' });
+  const [view, setView] = useState<QuotesView>('list');
 
   const canCreate = profile?.role !== 'super_admin';
   const isFieldServiceEmployee = profile?.role === 'field_service_employee';
@@ -36,6 +40,15 @@ const QuotesPage: React.FC = () => {
     if (!user || !profile) return;
     setLoading(true);
 
+    if (profile.role !== 'super_admin' && profile.org_id) {
+      try {
+        await markExpiredQuotes(profile.org_id);
+        await createDueQuoteFollowUps(profile.org_id);
+      } catch (error: any) {
+        console.error('Error updating quote follow-ups:', error.message);
+      }
+    }
+
     let query = supabase
       .from('quotes')
       .select('*, customers:customers!left(name), organizations:organizations!left(name)');
@@ -130,7 +143,7 @@ const QuotesPage: React.FC = () => {
     if (!quoteToConvert || !profile) return;
     try {
       setLoading(true);
-      const newInvoice = await convertQuoteToInvoice(quoteToConvert.id, profile);
+      const newInvoice = await convertQuoteToInvoice(quoteToConvert.id, profile, quoteToConvert.version || 1);
       setIsConfirmModalOpen(false);
       setQuoteToConvert(null);
       alert(`Successfully converted quote to invoice #${newInvoice.invoice_number}.`);
@@ -146,6 +159,7 @@ const QuotesPage: React.FC = () => {
   const handleDelete = async (id: number) => {
     if (window.confirm('Are you sure you want to delete this quote?')) {
       await supabase.from('quote_items').delete().eq('quote_id', id);
+      await supabase.from('quote_revisions').delete().eq('quote_id', id);
       const { error } = await supabase.from('quotes').delete().eq('id', id);
       if (error) alert('Error deleting quote: ' + error.message);
       else fetchQuotes();
@@ -161,9 +175,11 @@ const QuotesPage: React.FC = () => {
     sent: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300 border border-blue-300/50',
     accepted: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300 border border-green-300/50',
     declined: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300 border border-red-300/50',
+    expired: 'bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-300 border border-gray-300/50',
   };
   
-  const quoteStatuses: QuoteStatus[] = ['draft', 'sent', 'accepted', 'declined'];
+  const quoteStatuses: QuoteStatus[] = PIPELINE_STATUSES;
+  const pipeline = useMemo(() => buildQuotePipeline(quotes), [quotes]);
 
   const SortableHeader: React.FC<{ sortKey: string; label: string; }> = ({ sortKey, label }) => (
     <th 
@@ -225,10 +241,61 @@ const QuotesPage: React.FC = () => {
               <option key={status} value={status} className="capitalize">{t(status as any)}</option>
             ))}
           </select>
+          {!isFieldServiceEmployee && (
+            <div className="flex rounded-md shadow-sm border dark:border-gray-600 overflow-hidden shrink-0">
+              {([['list', ListBulletIcon], ['pipeline', ChartBarIcon]] as const).map(([option, Icon]) => (
+                <button key={option} onClick={() => setView(option)} title={t(option === 'list' ? 'listView' : 'pipelineView')} className={`px-3 py-2 ${view === option ? 'bg-primary-600 text-white' : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300'}`}>
+                  <Icon className="w-5 h-5" />
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {loading ? <div className="p-6 text-center text-gray-500">Loading quotes...</div> : (
-          isFieldServiceEmployee ? (
+          !isFieldServiceEmployee && view === 'pipeline' ? (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {pipeline.statuses.map(({ status, count, value }) => (
+                  <button key={status} onClick={() => setStatusFilter(statusFilter === status ? 'all' : status)} className={`p-4 text-left bg-white rounded-lg shadow-md dark:bg-gray-800 ${statusFilter === status ? 'ring-2 ring-primary-500' : ''}`}>
+                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[status]} capitalize`}>{t(status as any)}</span>
+                    <p className="mt-3 text-2xl font-bold">€{value.toFixed(2)}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{count} {t('quotes')}</p>
+                  </button>
+                ))}
+              </div>
+              <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+                <h2 className="text-xl font-bold mb-4">{t('openQuotesAgeing')}</h2>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                  {pipeline.ageing.map(({ key, count, value }) => (
+                    <div key={key} className="p-3 rounded-md bg-gray-50 dark:bg-gray-700/50">
+                      <p className="text-sm text-gray-500 dark:text-gray-400">{t(key)}</p>
+                      <p className="text-lg font-bold">€{value.toFixed(2)}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{count} {t('quotes')}</p>
+                    </div>
+                  ))}
+                </div>
+                <div className="overflow-x-auto -mx-6">
+                  <table className="min-w-full">
+                    <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                      <th className="px-6 py-2">Quote #</th><th className="px-6 py-2">Customer</th><th className="px-6 py-2 text-right">Total</th><th className="px-6 py-2 text-right">{t('sentDaysAgo')}</th><th className="px-6 py-2 text-right">{t('valid_until')}</th>
+                    </tr></thead>
+                    <tbody>{pipeline.openQuotes.length > 0 ? pipeline.openQuotes.map(({ quote, ageDays, daysUntilExpiry }) => (
+                      <tr key={quote.id} className="border-b dark:border-gray-700 text-sm">
+                        <td className="px-6 py-2"><button onClick={() => openTab({ path: `/quotes/edit/${quote.id}`, label: quote.quote_number })} className="font-medium text-primary-600 hover:underline">{quote.quote_number}</button></td>
+                        <td className="px-6 py-2">{quote.customers?.name || 'N/A'}</td>
+                        <td className="px-6 py-2 text-right font-medium">€{quote.total_amount.toFixed(2)}</td>
+                        <td className="px-6 py-2 text-right">{ageDays}</td>
+                        <td className={`px-6 py-2 text-right ${daysUntilExpiry !== null && daysUntilExpiry <= 7 ? 'text-red-600 font-medium' : ''}`}>{formatEuropeanDate(quote.valid_until_date)}</td>
+                      </tr>
+                    )) : (
+                      <tr><td colSpan={5} className="p-4 text-center text-gray-500">No quotes found.</td></tr>
+                    )}</tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          ) : isFieldServiceEmployee ? (
               <div className="space-y-4">
                  {quotes.length > 0 ? quotes.map(quote => (
                     <MobileQuoteCard key={quote.id} quote={quote} />
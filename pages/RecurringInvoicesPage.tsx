@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useRefresh } from '../contexts/RefreshContext';
+import { RecurringInvoiceTemplate, RecurringTemplateStatus } from '../types';
+import { PlusIcon, PencilIcon, TrashIcon, PauseIcon, PlayIcon, ForwardIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { formatEuropeanDate } from '../lib/formatting';
+import { calculateDocumentTotals } from '../lib/documentTotals';
+import { getRecurringTemplates, getUpcomingRuns, generateDueInvoices, setTemplatePaused, skipNextRun, deleteRecurringTemplate } from '../lib/recurringInvoices';
+import RecurringInvoiceModal from '../components/modals/RecurringInvoiceModal';
+
+const statusColors: { [key in RecurringTemplateStatus]: string } = {
+  active: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300 border border-green-300/50',
+  paused: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300 border border-yellow-300/50',
+  ended: 'bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-300 border border-gray-300/50',
+};
+
+const getTemplateTotal = (template: RecurringInvoiceTemplate) =>
+  calculateDocumentTotals(template.recurring_invoice_items || []).grandTotal;
+
+const RecurringInvoicesPage: React.FC = () => {
+  const { profile } = useAuth();
+  const { t } = useLanguage();
+  const { refreshKey } = useRefresh();
+
+  const [templates, setTemplates] = useState<RecurringInvoiceTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedTemplate, setSelectedTemplate] = useState<RecurringInvoiceTemplate | null>(null);
+
+  const canManage = profile?.role !== 'field_service_employee' && profile?.role !== 'super_admin';
+
+  const fetchTemplates = useCallback(async () => {
+    if (!profile?.org_id) return;
+    setLoading(true);
+    try {
+      setTemplates(await getRecurringTemplates(profile.org_id));
+    } catch (error: any) {
+      console.error('Error fetching recurring invoices:', error.message);
+      alert(`Error fetching recurring invoices: ${error.message}`);
+    }
+    setLoading(false);
+  }, [profile]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates, refreshKey]);
+
+  // Wraps a template action so that errors are reported and the list is reloaded afterwards.
+  const runAction = async (action: () => Promise<void>, errorLabel: string) => {
+    try {
+      await action();
+    } catch (error: any) {
+      alert(`Error ${errorLabel}: ` + error.message);
+    }
+    fetchTemplates();
+  };
+
+  const handleGenerate = async () => {
+    if (!profile?.org_id) return;
+    setIsGenerating(true);
+    try {
+      const { invoices, failed } = await generateDueInvoices(profile.org_id);
+      const summary = invoices.length > 0 || failed.length > 0 ? `${invoices.length} invoice(s) generated.` : 'No recurring invoices are due.';
+      const failures = failed.map(f => `\n${f.template.customers?.name || `#${f.template.id}`} (${formatEuropeanDate(f.runDate)}): ${f.error}`).join('');
+      alert(failed.length > 0 ? `${summary}\n\n${failed.length} invoice(s) failed and will be retried:${failures}` : summary);
+    } catch (error: any) {
+      alert('Error generating invoices: ' + error.message);
+    }
+    setIsGenerating(false);
+    fetchTemplates();
+  };
+
+  const handleSkip = (template: RecurringInvoiceTemplate) => {
+    if (!window.confirm(`Skip the run on ${formatEuropeanDate(template.next_run_date)}? No invoice will be generated for it.`)) return;
+    runAction(() => skipNextRun(template), 'skipping run');
+  };
+
+  const handleDelete = (template: RecurringInvoiceTemplate) => {
+    if (!window.confirm('Are you sure you want to delete this recurring invoice? Invoices already generated are kept.')) return;
+    runAction(() => deleteRecurringTemplate(template.id), 'deleting recurring invoice');
+  };
+
+  const openModal = (template: RecurringInvoiceTemplate | null) => {
+    setSelectedTemplate(template);
+    setIsModalOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-center">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('recurringInvoices')}</h1>
+        {canManage && (
+          <div className="mt-4 sm:mt-0 flex gap-x-2">
+            <button onClick={handleGenerate} disabled={isGenerating} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md shadow-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50">
+              <ArrowPathIcon className="w-5 h-5 mr-2" /> {t('generateDueInvoices')}
+            </button>
+            <button onClick={() => openModal(null)} className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700">
+              <PlusIcon className="w-5 h-5 mr-2" /> {t('newRecurringInvoice')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {loading ? <div className="p-6 text-center text-gray-500">Loading recurring invoices...</div> : (
+        <div className="bg-white rounded-lg shadow-md dark:bg-gray-800 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="border-b-2 border-gray-200 dark:border-gray-700">
+                <tr className="text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  <th className="px-6 py-3">{t('title')}</th>
+                  <th className="px-6 py-3">Customer</th>
+                  <th className="px-6 py-3">{t('interval')}</th>
+                  <th className="px-6 py-3">Total</th>
+                  <th className="px-6 py-3">{t('upcomingRuns')}</th>
+                  <th className="px-6 py-3">Status</th>
+                  <th className="px-6 py-3 text-right">{t('actions')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {templates.length > 0 ? templates.map(template => {
+                  const upcomingRuns = getUpcomingRuns(template);
+                  return (
+                    <tr key={template.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
+                      <td className="px-6 py-3 whitespace-nowrap font-medium">{template.name}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm">{template.customers?.name || 'N/A'}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm">{t(template.interval)}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm font-medium">€{getTemplateTotal(template).toFixed(2)}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{upcomingRuns.length > 0 ? upcomingRuns.map(formatEuropeanDate).join(', ') : '-'}</td>
+                      <td className="px-6 py-3 whitespace-nowrap"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[template.status]}`}>{t(template.status)}</span></td>
+                      <td className="px-6 py-3 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                        {canManage && (
+                          <>
+                            <button onClick={() => openModal(template)} title="Edit"><PencilIcon className="w-5 h-5 inline-block text-primary-600 hover:text-primary-800"/></button>
+                            {template.status === 'active' && <button onClick={() => handleSkip(template)} title={t('skipNextRun')}><ForwardIcon className="w-5 h-5 inline-block text-gray-500 hover:text-gray-700"/></button>}
+                            {template.status === 'active' && <button onClick={() => runAction(() => setTemplatePaused(template, true), 'pausing recurring invoice')} title={t('pause')}><PauseIcon className="w-5 h-5 inline-block text-gray-500 hover:text-gray-700"/></button>}
+                            {template.status === 'paused' && <button onClick={() => runAction(() => setTemplatePaused(template, false), 'resuming recurring invoice')} title={t('resume')}><PlayIcon className="w-5 h-5 inline-block text-gray-500 hover:text-gray-700"/></button>}
+                            <button onClick={() => handleDelete(template)} title="Delete"><TrashIcon className="w-5 h-5 inline-block text-red-600 hover:text-red-800"/></button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                }) : (
+                  <tr><td colSpan={7} className="p-4 text-center text-gray-500">{t('noRecurringInvoices')}</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+      {isModalOpen && <RecurringInvoiceModal template={selectedTemplate} closeModal={() => setIsModalOpen(false)} onSave={() => { setIsModalOpen(false); fetchTemplates(); }} />}
+    </div>
+  );
+};
+
+export default RecurringInvoicesPage;
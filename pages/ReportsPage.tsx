@@ -3,12 +3,16 @@ import { supabase } from '../services/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useRefresh } from '../contexts/RefreshContext';
-import { Customer, Visit, Invoice, Quote, Profile, Organization } from '../types';
+import { Visit, Invoice, InvoiceItem, Quote, Profile, Organization, Product } from '../types';
 import DatePicker from '../components/ui/DatePicker';
 import { format } from 'date-fns';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LabelList } from 'recharts';
 import { downloadCsv, generateReportPdf } from '../lib/export';
-import { ArrowDownTrayIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+import { ArrowDownTrayIcon, ChevronDownIcon, DocumentArrowDownIcon } from '@heroicons/react/24/outline';
+import { calculateDocumentTotals } from '../lib/documentTotals';
+import { roundMoney, sumMoney } from '../lib/money';
+import { getReceivedPayments } from '../lib/revenue';
+import { exportDatev } from '../lib/datev';
 
 interface SalesByCustomer {
   customerName: string;
@@ -19,6 +23,9 @@ interface TopSellingProduct {
     totalQuantity: number;
     totalRevenue: number;
 }
+// The items of a paid invoice, as needed for the tax summary and the top selling products.
+type PaidInvoiceItemRow = Pick<InvoiceItem, 'quantity' | 'unit_price' | 'vat_rate' | 'discount_type' | 'discount_value'> & { products: Pick<Product, 'name'> | null };
+type PaidInvoiceRow = Pick<Invoice, 'id' | 'discount_type' | 'discount_value'> & { invoice_items: PaidInvoiceItemRow[] | null };
 interface TeamPerformance {
     employeeName: string;
     totalRevenue: number;
@@ -54,6 +61,7 @@ const ReportsPage: React.FC = () => {
   const [organizations, setOrganizations] = useState<Organization[]>([]);
   const [selectedOrgId, setSelectedOrgId] = useState<string>('');
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isDatevExporting, setIsDatevExporting] = useState(false);
   const exportMenuRef = useRef<HTMLDivElement>(null);
 
   const today = new Date();
@@ -103,15 +111,14 @@ const ReportsPage: React.FC = () => {
     const endDateString = format(endDate, 'yyyy-MM-dd');
 
     const [
-        { data: invoices },
+        receivedPayments,
         { data: expenses },
         { data: quotes },
         { data: customers },
         { data: visits },
         { data: employees }
     ] = await Promise.all([
-        // Fix: Use an inner join to ensure `customers` is an object, not an array.
-        supabase.from('invoices').select('id, total_amount, customer_id, user_id, customers!inner(name)').eq('org_id', targetOrgId).eq('status', 'paid').gte('issue_date', startDateString).lte('issue_date', endDateString),
+        getReceivedPayments(targetOrgId, startDateString, endDateString).catch((error: Error) => error),
         supabase.from('expenses').select('amount').eq('org_id', targetOrgId).gte('expense_date', startDateString).lte('expense_date', endDateString),
         supabase.from('quotes').select('status').eq('org_id', targetOrgId).gte('issue_date', startDateString).lte('issue_date', endDateString),
         supabase.from('customers').select('created_at').eq('org_id', targetOrgId).gte('created_at', startDateString).lte('created_at', endDateString),
@@ -119,59 +126,71 @@ const ReportsPage: React.FC = () => {
         supabase.from('profiles').select('id, full_name, email').eq('org_id', targetOrgId),
     ]);
 
+    if (receivedPayments instanceof Error) {
+        alert('Error generating report: ' + receivedPayments.message);
+        setLoading(false);
+        return;
+    }
+
     const employeeMap = new Map((employees || []).map(e => [e.id, e.full_name || e.email]));
 
+    // Share of each invoice that was paid within the period, used to pro-rate VAT and product revenue.
+    const paidShareByInvoice = new Map<number, number>();
+    receivedPayments.forEach(({ amount, invoice }) => {
+        const share = invoice.total_amount > 0 ? amount / invoice.total_amount : 0;
+        paidShareByInvoice.set(invoice.id, (paidShareByInvoice.get(invoice.id) || 0) + share);
+    });
+    const paidInvoiceIds = Array.from(paidShareByInvoice.keys());
+    const paidInvoiceCount = paidInvoiceIds.filter(id => (paidShareByInvoice.get(id) || 0) > 0).length;
+
     // KPIs
-    const paidInvoices = invoices || [];
-    const totalRevenue = paidInvoices.reduce((sum, inv) => sum + inv.total_amount, 0);
-    const avgInvoiceValue = paidInvoices.length > 0 ? totalRevenue / paidInvoices.length : 0;
+    const totalRevenue = sumMoney(receivedPayments.map(p => p.amount));
+    const avgInvoiceValue = paidInvoiceCount > 0 ? roundMoney(totalRevenue / paidInvoiceCount) : 0;
     const acceptedQuotes = (quotes || []).filter(q => q.status === 'accepted').length;
-    const relevantQuotes = (quotes || []).filter(q => ['sent', 'accepted', 'declined'].includes(q.status)).length;
+    const relevantQuotes = (quotes || []).filter(q => ['sent', 'accepted', 'declined', 'expired'].includes(q.status)).length;
     const quoteConversionRate = relevantQuotes > 0 ? (acceptedQuotes / relevantQuotes) * 100 : 0;
 
     // Profit/Loss
-    const totalExpenses = (expenses || []).reduce((sum, exp) => sum + exp.amount, 0);
-    const profit = totalRevenue - totalExpenses;
+    const totalExpenses = sumMoney((expenses || []).map(exp => exp.amount));
+    const profit = roundMoney(totalRevenue - totalExpenses);
 
     // Sales by Customer
     const customerSales: { [key: string]: number } = {};
-    paidInvoices.forEach(inv => {
+    receivedPayments.forEach(({ amount, invoice }) => {
       // FIX: The type system indicates inv.customers is an object, not an array.
-      const customerName = (inv.customers as any)?.name || 'Unknown Customer';
-      customerSales[customerName] = (customerSales[customerName] || 0) + inv.total_amount;
+      const customerName = invoice.customers?.name || 'Unknown Customer';
+      customerSales[customerName] = roundMoney((customerSales[customerName] || 0) + amount);
     });
     const salesByCustomer = Object.entries(customerSales).map(([customerName, totalSales]) => ({ customerName, totalSales })).sort((a, b) => a.totalSales - b.totalSales);
     
-    // Tax Summary
+    // Tax Summary & Top Selling Products
+    // Both are based on the taxable amounts after line and document discounts. The paid share of
+    // every invoice is rounded to cents before adding it up.
     let totalVatCollected = 0;
-    if (paidInvoices.length > 0) {
-      const { data: items } = await supabase.from('invoice_items').select('quantity, unit_price, vat_rate').in('invoice_id', paidInvoices.map(i => i.id));
-      totalVatCollected = (items || []).reduce((sum, item) => sum + (item.quantity * item.unit_price * (item.vat_rate / 100)), 0);
-    }
-    
-    // Top Selling Products & Team Performance
     let topSellingProducts: TopSellingProduct[] = [];
-    if (paidInvoices.length > 0) {
-        // Fix: Use a left join to ensure `products` is an object, not an array.
-        const { data: items } = await supabase.from('invoice_items').select('quantity, unit_price, products!left(name)').in('invoice_id', paidInvoices.map(i => i.id));
+    if (paidInvoiceIds.length > 0) {
+        const { data: paidInvoices } = await supabase.from('invoices').select('id, discount_type, discount_value, invoice_items:invoice_items!left(quantity, unit_price, vat_rate, discount_type, discount_value, products!left(name))').in('id', paidInvoiceIds).overrideTypes<PaidInvoiceRow[], { merge: false }>();
         const productMap: { [key: string]: { totalQuantity: number, totalRevenue: number } } = {};
-        (items || []).forEach(item => {
-            if (item.products) {
-                // FIX: The type system indicates item.products is an array. Access the first element.
-                const name = (item.products as any)?.name;
+        (paidInvoices || []).forEach(invoice => {
+            const share = paidShareByInvoice.get(invoice.id) || 0;
+            const items = invoice.invoice_items || [];
+            const totals = calculateDocumentTotals(items, { discount_type: invoice.discount_type, discount_value: invoice.discount_value });
+            totalVatCollected = roundMoney(totalVatCollected + roundMoney(totals.totalVat * share));
+            items.forEach((item, index) => {
+                const name = item.products?.name;
                 if (name) {
                     if (!productMap[name]) productMap[name] = { totalQuantity: 0, totalRevenue: 0 };
                     productMap[name].totalQuantity += item.quantity;
-                    productMap[name].totalRevenue += item.quantity * item.unit_price;
+                    productMap[name].totalRevenue = roundMoney(productMap[name].totalRevenue + roundMoney(totals.lines[index].taxableAmount * share));
                 }
-            }
+            });
         });
         topSellingProducts = Object.entries(productMap).map(([productName, data]) => ({ productName, ...data })).sort((a, b) => b.totalRevenue - a.totalRevenue).slice(0, 10);
     }
     
     const teamRevenueMap: { [key: string]: number } = {};
-    paidInvoices.forEach(inv => {
-        if (inv.user_id) teamRevenueMap[inv.user_id] = (teamRevenueMap[inv.user_id] || 0) + inv.total_amount;
+    receivedPayments.forEach(({ amount, invoice }) => {
+        if (invoice.user_id) teamRevenueMap[invoice.user_id] = roundMoney((teamRevenueMap[invoice.user_id] || 0) + amount);
     });
 
     const teamVisitsMap: { [key: string]: number } = {};
@@ -222,6 +241,18 @@ const ReportsPage: React.FC = () => {
     setIsExportMenuOpen(false); // Close menu after action
   };
 
+  const handleDatevExport = async () => {
+    if (!startDate || !endDate || !selectedOrgId) return;
+    setIsDatevExporting(true);
+    try {
+      const bookingCount = await exportDatev(selectedOrgId, { start: startDate, end: endDate });
+      alert(`DATEV export created with ${bookingCount} booking(s).`);
+    } catch (error: any) {
+      alert('Error creating DATEV export: ' + error.message);
+    }
+    setIsDatevExporting(false);
+  };
+
   const ReportCard: React.FC<{ title: string; children: React.ReactNode; className?: string }> = ({ title, children, className }) => (
     <div className={`bg-white dark:bg-slate-800 rounded-lg shadow-md p-6 ${className}`}>
       <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">{title}</h2>
@@ -240,6 +271,12 @@ const ReportsPage: React.FC = () => {
     <div className="space-y-8">
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
             <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('reports')}</h1>
+            <div className="flex gap-x-2">
+            {selectedOrgId && (
+                <button onClick={handleDatevExport} disabled={isDatevExporting || !startDate || !endDate} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md shadow-sm hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50">
+                    <DocumentArrowDownIcon className="w-5 h-5 mr-2" /> {isDatevExporting ? 'Exporting...' : t('datevExport')}
+                </button>
+            )}
             {reportData && (
                 <div className="relative" ref={exportMenuRef}>
                     <button onClick={() => setIsExportMenuOpen(prev => !prev)} className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md shadow-sm hover:bg-gray-700">
@@ -254,6 +291,7 @@ const ReportsPage: React.FC = () => {
                     )}
                 </div>
             )}
+            </div>
         </div>
       
       <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800 flex flex-col md:flex-row items-center gap-4">
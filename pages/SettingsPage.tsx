@@ -5,6 +5,14 @@ import { useLanguage } from '../contexts/LanguageContext';
 import { UserRole, Organization } from '../types';
 import { defaultPermissions } from '../constants';
 import { saveRolePermissions } from '../lib/permissions';
+import DunningSettings from '../components/settings/DunningSettings';
+import QuoteFollowUpSettings from '../components/settings/QuoteFollowUpSettings';
+import TaxSettings from '../components/settings/TaxSettings';
+import EmailSettings from '../components/settings/EmailSettings';
+import DatevSettings from '../components/settings/DatevSettings';
+import NumberingSettings from '../components/settings/NumberingSettings';
+import PdfLayoutSettings from '../components/settings/PdfLayoutSettings';
+import StorageLocationSettings from '../components/settings/StorageLocationSettings';
 
 const ALL_MODULES = [
     { id: 'dashboard', label: 'dashboard' },
@@ -135,6 +143,8 @@ const SettingsPage: React.FC = () => {
         return ALL_MODULES;
     }, [profile?.role, currentUserPermissions]);
     
+    const targetOrgId = profile?.role === 'admin' ? profile.org_id : selectedOrgId;
+
     const handleOrgChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
         setSelectedOrgId(e.target.value || null);
     };
@@ -212,6 +222,15 @@ const SettingsPage: React.FC = () => {
                 
                 {renderContent()}
             </div>
+
+            {targetOrgId && <TaxSettings orgId={targetOrgId} />}
+            {targetOrgId && <DunningSettings orgId={targetOrgId} />}
+            {targetOrgId && <QuoteFollowUpSettings orgId={targetOrgId} />}
+            {targetOrgId && <EmailSettings orgId={targetOrgId} />}
+            {targetOrgId && <DatevSettings orgId={targetOrgId} />}
+            {targetOrgId && <NumberingSettings orgId={targetOrgId} />}
+            {targetOrgId && <PdfLayoutSettings orgId={targetOrgId} />}
+            {targetOrgId && <StorageLocationSettings orgId={targetOrgId} />}
         </div>
     );
 };
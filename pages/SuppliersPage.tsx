@@ -0,0 +1,140 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../services/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useRefresh } from '../contexts/RefreshContext';
+import { Supplier } from '../types';
+import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import SupplierModal from '../components/modals/SupplierModal';
+
+const SuppliersPage: React.FC = () => {
+  const { user, profile } = useAuth();
+  const { t } = useLanguage();
+  const { refreshKey } = useRefresh();
+
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
+
+  const canManage = profile?.role !== 'field_service_employee' && profile?.role !== 'super_admin';
+
+  const fetchSuppliers = useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+
+    let query = supabase.from('suppliers').select('*');
+    if (profile.role !== 'super_admin') {
+      query = query.eq('org_id', profile.org_id);
+    }
+    if (searchTerm) {
+      query = query.or(`name.ilike.%${searchTerm}%,contact_person.ilike.%${searchTerm}%`);
+    }
+
+    const { data, error } = await query.order('name', { ascending: true });
+    if (error) console.error('Error fetching suppliers:', error.message);
+    else setSuppliers(data || []);
+
+    setLoading(false);
+  }, [profile, searchTerm]);
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, [fetchSuppliers, refreshKey]);
+
+  const openModal = (supplier: Supplier | null) => {
+    setSelectedSupplier(supplier);
+    setIsModalOpen(true);
+  };
+
+  const handleSave = async (supplierData: Partial<Supplier>) => {
+    if (!user || !profile?.org_id) return;
+    const row = supplierData.id ? supplierData : { ...supplierData, user_id: user.id, org_id: profile.org_id };
+    const { error } = await supabase.from('suppliers').upsert(row);
+    if (error) {
+      alert('Error saving supplier: ' + error.message);
+      return;
+    }
+    setIsModalOpen(false);
+    fetchSuppliers();
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    const { count } = await supabase.from('purchase_orders').select('id', { count: 'exact', head: true }).eq('supplier_id', supplier.id);
+    if (count) {
+      alert(`${supplier.name} cannot be deleted because it has ${count} purchase order(s).`);
+      return;
+    }
+    if (!window.confirm(`Are you sure you want to delete ${supplier.name}?`)) return;
+    const { error } = await supabase.from('suppliers').delete().eq('id', supplier.id);
+    if (error) alert('Error deleting supplier: ' + error.message);
+    else setSuppliers(suppliers.filter(s => s.id !== supplier.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-center">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('suppliers')}</h1>
+        {canManage && (
+          <button onClick={() => openModal(null)} className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700">
+            <PlusIcon className="w-5 h-5 mr-2" /> {t('newSupplier')}
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 bg-white rounded-lg shadow-md dark:bg-gray-800">
+        <input
+          type="text"
+          placeholder="Search by name or contact person..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="w-full p-2 border border-gray-300 rounded-md shadow-sm dark:bg-gray-700 dark:border-gray-600"
+        />
+      </div>
+
+      {loading ? <div className="p-6 text-center text-gray-500">Loading...</div> : (
+        <div className="bg-white rounded-lg shadow-md dark:bg-gray-800 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="border-b-2 border-gray-200 dark:border-gray-700">
+                <tr className="text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  <th className="px-6 py-3">Name</th>
+                  <th className="px-6 py-3">{t('contactPerson')}</th>
+                  <th className="px-6 py-3">Email</th>
+                  <th className="px-6 py-3">{t('phone')}</th>
+                  <th className="px-6 py-3">{t('ourCustomerNumber')}</th>
+                  <th className="px-6 py-3 text-right">{t('actions')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {suppliers.length > 0 ? suppliers.map(supplier => (
+                  <tr key={supplier.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
+                    <td className="px-6 py-3 whitespace-nowrap font-medium">{supplier.name}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm">{supplier.contact_person || '-'}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm">{supplier.email ? <a href={`mailto:${supplier.email}`} className="text-primary-600 hover:underline">{supplier.email}</a> : '-'}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm">{supplier.phone || '-'}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm font-mono text-gray-500 dark:text-gray-400">{supplier.customer_number || '-'}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                      {canManage && (
+                        <>
+                          <button onClick={() => openModal(supplier)} title="Edit"><PencilIcon className="w-5 h-5 inline-block text-primary-600 hover:text-primary-800"/></button>
+                          <button onClick={() => handleDelete(supplier)} title="Delete"><TrashIcon className="w-5 h-5 inline-block text-red-600 hover:text-red-800"/></button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                )) : (
+                  <tr><td colSpan={6} className="p-4 text-center text-gray-500">{t('noSuppliers')}</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+      {isModalOpen && <SupplierModal supplier={selectedSupplier} closeModal={() => setIsModalOpen(false)} onSave={handleSave} />}
+    </div>
+  );
+};
+
+export default SuppliersPage;
@@ -8,7 +8,9 @@ import { useRefresh } from '../contexts/RefreshContext';
 import { Customer, Product, Expense, Profile, Visit, VisitCategory, VisitStatus, VisitProduct, VisitExpense } from '../types';
 import { generateNextNumber } from '../lib/numberGenerator';
 import { createNotification } from '../lib/notifications';
-import { PlusIcon, TrashIcon, ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { convertVisitToInvoice, isVisitBilled } from '../lib/conversion';
+import { syncVisitStock } from '../lib/stock';
+import { PlusIcon, TrashIcon, ArrowLeftIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
 import ProductSelectionModal from '../components/modals/ProductSelectionModal';
 import ExpenseSelectionModal from '../components/modals/ExpenseSelectionModal';
 import DatePicker from '../components/ui/DatePicker';
@@ -20,7 +22,7 @@ const VisitEditor: React.FC = () => {
   const navigate = useNavigate();
   const { user, profile } = useAuth();
   const { t } = useLanguage();
-  const { replaceTab, closeTab } = useTabs();
+  const { replaceTab, closeTab, openTab } = useTabs();
   const { triggerRefresh } = useRefresh();
 
   const { current: instance } = useRef({ path: location.pathname, id: params.id });
@@ -38,6 +40,7 @@ const VisitEditor: React.FC = () => {
   const [employees, setEmployees] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(!!id);
   const [isSaving, setIsSaving] = useState(false);
+  const [isInvoicing, setIsInvoicing] = useState(false);
   const [isProductModalOpen, setIsProductModalOpen] = useState(false);
   const [isExpenseModalOpen, setIsExpenseModalOpen] = useState(false);
 
@@ -53,7 +56,7 @@ const VisitEditor: React.FC = () => {
         return;
     }
 
-    let query = supabase.from('visits').select('*, customers:customers!left(*), profiles:profiles!left(id, full_name, email)').eq('id', visitId);
+    let query = supabase.from('visits').select('*, customers:customers!left(*), profiles:profiles!left(id, full_name, email), invoices:invoice_id(id, invoice_number, status)').eq('id', visitId);
     
     if (profile.role !== 'super_admin' && profile.org_id) {
         query = query.eq('org_id', profile.org_id);
@@ -67,9 +70,9 @@ const VisitEditor: React.FC = () => {
       return;
     }
 
-    const { customers, profiles, ...baseVisitData } = visitData;
+    const { customers, profiles, invoices, ...baseVisitData } = visitData;
     
-    setVisit({ ...baseVisitData, customers, profiles });
+    setVisit({ ...baseVisitData, customers, profiles, invoices });
     setVisitDateTime(baseVisitData.visit_date ? new Date(baseVisitData.visit_date) : null);
 
     const { data: productsData } = await supabase.from('visit_products').select('*, products(*)').eq('visit_id', id);
@@ -138,7 +141,7 @@ const VisitEditor: React.FC = () => {
   const removeProduct = (index: number) => setProductsUsed(productsUsed.filter((_, i) => i !== index));
   
   const addExpensesFromModal = (selectedExpenses: Expense[]) => {
-    const newItems: Partial<VisitExpense>[] = selectedExpenses.map(e => ({ expense_id: e.id, expenses: e }));
+    const newItems: Partial<VisitExpense>[] = selectedExpenses.map(e => ({ expense_id: e.id, billable: false, expenses: e }));
     const existingExpenseIds = new Set(relatedExpenses.map(e => e.expense_id));
     const uniqueNewItems = newItems.filter(item => !existingExpenseIds.has(item.expense_id));
     setRelatedExpenses(prev => [...prev, ...uniqueNewItems]);
@@ -147,6 +150,12 @@ const VisitEditor: React.FC = () => {
   
   const removeExpense = (index: number) => setRelatedExpenses(relatedExpenses.filter((_, i) => i !== index));
 
+  const handleProductQuantityChange = (index: number, quantity: number) =>
+    setProductsUsed(productsUsed.map((p, i) => i === index ? { ...p, quantity } : p));
+
+  const handleExpenseBillableChange = (index: number, billable: boolean) =>
+    setRelatedExpenses(relatedExpenses.map((e, i) => i === index ? { ...e, billable } : e));
+
   const handleSave = async () => {
     if (!user || !profile?.org_id || !visit.customer_id) {
       alert("Please select a customer.");
@@ -154,7 +163,7 @@ const VisitEditor: React.FC = () => {
     }
     setIsSaving(true);
     
-    const { customers, profiles, visit_products, visit_expenses, ...baseVisitData } = visit;
+    const { customers, profiles, invoices, visit_products, visit_expenses, ...baseVisitData } = visit;
     const isNewVisit = !id || id === 'new';
 
     if (!visitDateTime) {
@@ -191,10 +200,13 @@ const VisitEditor: React.FC = () => {
       
       await supabase.from('visit_expenses').delete().eq('visit_id', savedVisit.id);
       if (relatedExpenses.length > 0) {
-          const expensesToSave = relatedExpenses.map(e => ({ visit_id: savedVisit.id, expense_id: e.expense_id }));
+          const expensesToSave = relatedExpenses.map(e => ({ visit_id: savedVisit.id, expense_id: e.expense_id, billable: !!e.billable }));
           const { error } = await supabase.from('visit_expenses').insert(expensesToSave);
           if (error) throw new Error('Failed to save expenses: ' + error.message);
       }
+
+      // Completing the visit consumes the products used; reopening it reverses that.
+      await syncVisitStock(savedVisit.id, user.id);
       
       if (savedVisit.assigned_employee_id && savedVisit.assigned_employee_id !== user.id) {
         await createNotification({
@@ -220,8 +232,27 @@ const VisitEditor: React.FC = () => {
     }
   };
   
+  const handleCreateInvoice = async () => {
+    if (!profile || !visit.id) return;
+    if (!window.confirm(`Create an invoice for visit #${visit.visit_number}? The invoice is created from the saved visit, so save your changes first.`)) return;
+    setIsInvoicing(true);
+    try {
+      const newInvoice = await convertVisitToInvoice(visit.id, profile);
+      triggerRefresh();
+      fetchVisitData();
+      openTab({ path: `/invoices/edit/${newInvoice.id}`, label: newInvoice.invoice_number });
+    } catch (error: any) {
+      alert('Error creating invoice: ' + error.message);
+    } finally {
+      setIsInvoicing(false);
+    }
+  };
+
   if (loading) return <div className="text-center p-8">Loading...</div>;
   
+  const isBilled = isVisitBilled(visit);
+  const canCreateInvoice = !!visit.id && visit.status === 'completed' && !isBilled && canManageAssignee && profile?.role !== 'super_admin';
+
   const visitCategories: VisitCategory[] = ['Maintenance', 'Repair', 'Consulting', 'Training'];
   const visitStatuses: VisitStatus[] = ['planned', 'completed', 'cancelled'];
 
@@ -234,11 +265,25 @@ const VisitEditor: React.FC = () => {
           </button>
           <h1 className="text-3xl font-bold">{id && id !== 'new' ? `${t('visitDetails')} ${visit.visit_number || ''}` : t('newVisit')}</h1>
         </div>
-        <button onClick={handleSave} disabled={isSaving} className="px-6 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
-          {isSaving ? 'Saving...' : t('save')}
-        </button>
+        <div className="flex gap-x-2">
+          {canCreateInvoice && (
+            <button onClick={handleCreateInvoice} disabled={isInvoicing || isSaving} className="inline-flex items-center px-4 py-2 bg-gray-200 rounded-md font-medium hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500 disabled:opacity-50">
+              <DocumentTextIcon className="w-5 h-5 mr-2" /> {isInvoicing ? 'Creating...' : t('createInvoiceFromVisit')}
+            </button>
+          )}
+          <button onClick={handleSave} disabled={isSaving} className="px-6 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
+            {isSaving ? 'Saving...' : t('save')}
+          </button>
+        </div>
       </div>
 
+      {isBilled && visit.invoices && (
+        <div className="p-4 text-sm text-blue-800 bg-blue-50 rounded-lg dark:bg-blue-900/20 dark:text-blue-300">
+          {t('billedOnInvoice')}{' '}
+          <button onClick={() => openTab({ path: `/invoices/edit/${visit.invoices!.id}`, label: visit.invoices!.invoice_number })} className="font-medium underline">{visit.invoices.invoice_number}</button>
+        </div>
+      )}
+
       <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800 space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
              <div>
@@ -274,6 +319,14 @@ const VisitEditor: React.FC = () => {
                 <select name="status" value={visit.status} onChange={handleVisitChange} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 capitalize">
                     {visitStatuses.map(s => <option key={s} value={s}>{t(s)}</option>)}
                 </select>
+            </div>
+            <div>
+                <label className="block text-sm font-medium">{t('laborHours')}</label>
+                <input type="number" name="labor_hours" min="0" step="0.25" value={visit.labor_hours ?? ''} onChange={(e) => setVisit({ ...visit, labor_hours: e.target.value === '' ? null : parseFloat(e.target.value) })} disabled={isBilled} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50"/>
+            </div>
+            <div>
+                <label className="block text-sm font-medium">{t('hourlyRate')}</label>
+                <input type="number" name="hourly_rate" min="0" step="0.01" value={visit.hourly_rate ?? ''} onChange={(e) => setVisit({ ...visit, hourly_rate: e.target.value === '' ? null : parseFloat(e.target.value) })} disabled={isBilled} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50"/>
             </div>
              <div className="md:col-span-2 lg:col-span-3">
                 <label className="block text-sm font-medium">{t('purpose')}</label>
@@ -286,16 +339,28 @@ const VisitEditor: React.FC = () => {
         <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
             <div className="flex justify-between items-center mb-4">
                 <h2 className="text-xl font-bold">{t('productsUsed')}</h2>
-                <button onClick={() => setIsProductModalOpen(true)} className="px-3 py-1.5 bg-blue-200 text-blue-800 rounded-md dark:bg-blue-900 dark:text-blue-200 text-sm">{t('addProducts')}</button>
+                {!isBilled && <button onClick={() => setIsProductModalOpen(true)} className="px-3 py-1.5 bg-blue-200 text-blue-800 rounded-md dark:bg-blue-900 dark:text-blue-200 text-sm">{t('addProducts')}</button>}
             </div>
-            <div className="space-y-2">{productsUsed.map((p, i) => (<div key={i} className="flex justify-between items-center p-2 bg-gray-50 dark:bg-gray-700 rounded-md"><p>{p.products?.name} ({p.products?.product_number})</p><button onClick={() => removeProduct(i)}><TrashIcon className="w-5 h-5 text-red-500"/></button></div>))}</div>
+            <div className="space-y-2">{productsUsed.map((p, i) => (
+              <div key={i} className="flex justify-between items-center gap-x-2 p-2 bg-gray-50 dark:bg-gray-700 rounded-md">
+                <p className="flex-grow">{p.products?.name} ({p.products?.product_number})</p>
+                <input type="number" min="0" step="any" value={p.quantity ?? ''} onChange={(e) => handleProductQuantityChange(i, parseFloat(e.target.value) || 0)} disabled={isBilled} className="w-20 p-1 border rounded-md text-right dark:bg-gray-600 dark:border-gray-500"/>
+                {!isBilled && <button onClick={() => removeProduct(i)}><TrashIcon className="w-5 h-5 text-red-500"/></button>}
+              </div>
+            ))}</div>
         </div>
         <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
             <div className="flex justify-between items-center mb-4">
                 <h2 className="text-xl font-bold">{t('relatedExpenses')}</h2>
-                <button onClick={() => setIsExpenseModalOpen(true)} className="px-3 py-1.5 bg-yellow-200 text-yellow-800 rounded-md dark:bg-yellow-900 dark:text-yellow-200 text-sm">{t('addExpenses')}</button>
+                {!isBilled && <button onClick={() => setIsExpenseModalOpen(true)} className="px-3 py-1.5 bg-yellow-200 text-yellow-800 rounded-md dark:bg-yellow-900 dark:text-yellow-200 text-sm">{t('addExpenses')}</button>}
             </div>
-            <div className="space-y-2">{relatedExpenses.map((e, i) => (<div key={i} className="flex justify-between items-center p-2 bg-gray-50 dark:bg-gray-700 rounded-md"><p>{e.expenses?.description} - €{e.expenses?.amount?.toFixed(2)}</p><button onClick={() => removeExpense(i)}><TrashIcon className="w-5 h-5 text-red-500"/></button></div>))}</div>
+            <div className="space-y-2">{relatedExpenses.map((e, i) => (
+              <div key={i} className="flex justify-between items-center gap-x-2 p-2 bg-gray-50 dark:bg-gray-700 rounded-md">
+                <p className="flex-grow">{e.expenses?.description} - €{e.expenses?.amount?.toFixed(2)}</p>
+                <label className="flex items-center gap-x-1 text-sm"><input type="checkbox" checked={!!e.billable} onChange={(ev) => handleExpenseBillableChange(i, ev.target.checked)} disabled={isBilled}/> {t('billable')}</label>
+                {!isBilled && <button onClick={() => removeExpense(i)}><TrashIcon className="w-5 h-5 text-red-500"/></button>}
+              </div>
+            ))}</div>
         </div>
       </div>
       
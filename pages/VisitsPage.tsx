@@ -5,8 +5,10 @@ import { useLanguage } from '../contexts/LanguageContext';
 import { useRefresh } from '../contexts/RefreshContext';
 import { useTabs } from '../contexts/TabContext';
 import { Visit, VisitStatus } from '../types';
-import { PlusIcon, PencilIcon, TrashIcon, ChevronUpIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+import { PlusIcon, PencilIcon, TrashIcon, ChevronUpIcon, ChevronDownIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
 import { formatEuropeanDate } from '../lib/formatting';
+import { convertVisitToInvoice, isVisitBilled } from '../lib/conversion';
+import { syncVisitStock } from '../lib/stock';
 
 type SortConfig = { key: string; direction: 'asc' | 'desc' };
 
@@ -31,7 +33,7 @@ const VisitsPage: React.FC = () => {
 
     let query = supabase
       .from('visits')
-      .select('*, customers:customers!left(name), profiles:profiles!left(full_name)');
+      .select('*, customers:customers!left(name), profiles:profiles!left(full_name), invoices:invoice_id(id, invoice_number, status)');
 
     if (profile.role === 'field_service_employee') {
       query = query.eq('assigned_employee_id', profile.id);
@@ -124,10 +126,28 @@ const VisitsPage: React.FC = () => {
       await supabase.from('visit_expenses').delete().eq('visit_id', id);
       const { error } = await supabase.from('visits').delete().eq('id', id);
       if (error) alert('Error deleting visit: ' + error.message);
-      else fetchVisits();
+      else {
+        if (user) {
+          // Products used on a completed visit go back to stock.
+          await syncVisitStock(id, user.id).catch(stockError => console.error('Error reversing stock movements:', stockError.message));
+        }
+        fetchVisits();
+      }
     }
   };
   
+  const handleCreateInvoice = async (visit: Visit) => {
+    if (!profile) return;
+    if (!window.confirm(`Create an invoice for visit #${visit.visit_number}?`)) return;
+    try {
+      const newInvoice = await convertVisitToInvoice(visit.id, profile);
+      fetchVisits();
+      openTab({ path: `/invoices/edit/${newInvoice.id}`, label: newInvoice.invoice_number });
+    } catch (error: any) {
+      alert('Error creating invoice: ' + error.message);
+    }
+  };
+
   const statusColors: { [key in VisitStatus]: string } = {
     planned: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300 border border-blue-300/50',
     completed: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300 border border-green-300/50',
@@ -228,8 +248,16 @@ const VisitsPage: React.FC = () => {
                       <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">{visit.customers?.name || 'N/A'}</td>
                       <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{formatEuropeanDate(visit.visit_date)}</td>
                       <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{visit.profiles?.full_name || 'Unassigned'}</td>
-                      <td className="px-6 py-3 whitespace-nowrap"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[visit.status]} capitalize`}>{t(visit.status as any)}</span></td>
+                      <td className="px-6 py-3 whitespace-nowrap">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[visit.status]} capitalize`}>{t(visit.status as any)}</span>
+                        {isVisitBilled(visit) && (
+                          <button onClick={() => openTab({ path: `/invoices/edit/${visit.invoices!.id}`, label: visit.invoices!.invoice_number })} title={`${t('billedOnInvoice')} ${visit.invoices!.invoice_number}`} className="ml-2 px-2 py-1 text-xs font-semibold rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-300 border border-purple-300/50">{t('billed')}</button>
+                        )}
+                      </td>
                       <td className="px-6 py-3 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                        {canManage && canCreate && visit.status === 'completed' && !isVisitBilled(visit) && (
+                          <button onClick={() => handleCreateInvoice(visit)} title={t('createInvoiceFromVisit')}><DocumentTextIcon className="w-5 h-5 inline-block text-green-600 hover:text-green-800"/></button>
+                        )}
                         <button onClick={() => openTab({ path: `/visits/edit/${visit.id}`, label: visit.visit_number })} title="Edit"><PencilIcon className="w-5 h-5 inline-block text-primary-600 hover:text-primary-800"/></button>
                         {canManage && (
                           <button onClick={() => handleDelete(visit.id)} title="Delete"><TrashIcon className="w-5 h-5 inline-block text-red-600 hover:text-red-800"/></button>
@@ -0,0 +1,119 @@
+// Supabase Edge Function `send-email`: delivers the documents emailed from the app through SMTP
+// (smtpTransport in lib/email.ts). The request body is the MailMessage of lib/email.ts with the
+// attachments encoded as base64.
+//
+// The SMTP account is configured as secrets of the function:
+//   SMTP_HOST      e.g. smtp.example.com
+//   SMTP_PORT      465 for implicit TLS, 587 for STARTTLS; 465 if not set
+//   SMTP_USERNAME
+//   SMTP_PASSWORD
+//   SMTP_FROM      The sender address, e.g. rechnung@example.com. Replies go to the organization's email.
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: string; // Base64
+}
+
+interface MailRequest {
+  fromName: string;
+  replyTo: string | null;
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  attachments: MailAttachment[];
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_RECIPIENTS = 20;
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const getEnv = (name: string): string => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`The secret ${name} is not set.`);
+  return value;
+};
+
+// Returns an error message, or null if the message can be sent.
+const validateMessage = (message: MailRequest): string | null => {
+  const recipients = [...(message.to || []), ...(message.cc || [])];
+  if (!Array.isArray(message.to) || message.to.length === 0) return 'Please enter at least one recipient.';
+  if (recipients.length > MAX_RECIPIENTS) return `A mail can have at most ${MAX_RECIPIENTS} recipients.`;
+  const invalid = recipients.filter(address => typeof address !== 'string' || !EMAIL_PATTERN.test(address));
+  if (invalid.length > 0) return `Invalid email address: ${invalid.join(', ')}`;
+  if (message.replyTo && !EMAIL_PATTERN.test(message.replyTo)) return `Invalid reply-to address: ${message.replyTo}`;
+  if (!message.subject?.trim()) return 'The subject is missing.';
+  return null;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return respond({ error: 'Method not allowed.' }, 405);
+
+  // Only signed-in users of the app may send mails, so the function cannot be used as an open relay.
+  const supabase = createClient(getEnv('SUPABASE_URL'), getEnv('SUPABASE_ANON_KEY'), {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return respond({ error: 'Please sign in to send emails.' }, 401);
+
+  let message: MailRequest;
+  try {
+    message = await req.json();
+  } catch {
+    return respond({ error: 'The request is not valid JSON.' }, 400);
+  }
+  const validationError = validateMessage(message);
+  if (validationError) return respond({ error: validationError }, 400);
+
+  let client: SMTPClient;
+  let from: string;
+  try {
+    const port = Number(Deno.env.get('SMTP_PORT') || 465);
+    client = new SMTPClient({
+      connection: {
+        hostname: getEnv('SMTP_HOST'),
+        port,
+        tls: port === 465,
+        auth: { username: getEnv('SMTP_USERNAME'), password: getEnv('SMTP_PASSWORD') },
+      },
+    });
+    from = getEnv('SMTP_FROM');
+  } catch (error) {
+    return respond({ error: `Email sending is not configured: ${(error as Error).message}` }, 500);
+  }
+
+  try {
+    const senderName = (message.fromName || '').replace(/["<>\r\n]/g, '').trim();
+    await client.send({
+      from: senderName ? `"${senderName}" <${from}>` : from,
+      replyTo: message.replyTo || undefined,
+      to: message.to,
+      cc: message.cc?.length ? message.cc : undefined,
+      subject: message.subject,
+      content: message.body,
+      attachments: (message.attachments || []).map(attachment => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        encoding: 'base64' as const,
+        content: attachment.content,
+      })),
+    });
+  } catch (error) {
+    return respond({ error: `The email could not be sent: ${(error as Error).message}` }, 502);
+  } finally {
+    await client.close().catch(() => undefined);
+  }
+
+  return respond({ sent: true });
+});
@@ -0,0 +1,96 @@
+-- Collective invoices of the billing run (lib/billingRun.ts).
+--
+-- create_collective_invoice creates the draft invoice of one customer with its items, marks its
+-- visits as billed and draws its invoice number, all in one transaction. If a visit was billed in the
+-- meantime, nothing is kept: no invoice, no items and no number, so the invoice number sequence has
+-- no gap and other users never see a half-created invoice.
+--
+-- The function runs with the rights of the caller, so the row level security of invoices, items and
+-- visits applies as for any other invoice.
+--
+-- Requires supabase_document_totals.sql and supabase_number_sequences.sql.
+--
+-- This script is safe to run multiple times.
+
+-- p_invoice:          The invoice row, without id and invoice_number.
+-- p_items:            The item rows, without id and invoice_id.
+-- p_visits:           The visits to bill as [{ "id": ..., "invoice_id": ... }], where invoice_id is the
+--                     invoice the visit is linked to when the run is confirmed (null if none).
+-- p_sequence_name:    The counter to draw the invoice number from.
+-- p_number_pattern:   The number pattern with every token except {NUMBER} already rendered.
+-- p_number_offset:    Added to the counter value, for start values of the number scheme.
+create or replace function public.create_collective_invoice(
+  p_invoice jsonb,
+  p_items jsonb,
+  p_visits jsonb,
+  p_sequence_name text,
+  p_number_pattern text,
+  p_number_offset integer
+)
+returns public.invoices
+language plpgsql
+volatile
+set search_path = public
+as $$
+declare
+  v_header public.invoices := jsonb_populate_record(null::public.invoices, p_invoice);
+  v_invoice public.invoices;
+  v_counter integer;
+  v_number text := p_number_pattern;
+  v_token text[];
+  v_claimed integer;
+  v_unclaimed text;
+begin
+  v_counter := public.get_next_sequence_value(p_sequence_name, v_header.org_id) + coalesce(p_number_offset, 0);
+  for v_token in select regexp_matches(p_number_pattern, '\{NUMBER(?::(\d+))?\}', 'g') loop
+    v_number := replace(
+      v_number,
+      '{NUMBER' || coalesce(':' || v_token[1], '') || '}',
+      lpad(v_counter::text, greatest(coalesce(v_token[1]::integer, 0), length(v_counter::text)), '0')
+    );
+  end loop;
+
+  insert into public.invoices (
+    user_id, org_id, customer_id, invoice_number, issue_date, due_date, total_amount, status, notes,
+    tax_treatment, document_type, original_invoice_id
+  )
+  values (
+    v_header.user_id, v_header.org_id, v_header.customer_id, v_number, v_header.issue_date, v_header.due_date,
+    v_header.total_amount, 'draft', v_header.notes, v_header.tax_treatment, 'invoice', null
+  )
+  returning * into v_invoice;
+
+  insert into public.invoice_items (
+    invoice_id, product_id, description, quantity, unit_price, vat_rate, discount_type, discount_value,
+    group_label, deducted_invoice_id
+  )
+  select v_invoice.id, item.product_id, item.description, item.quantity, item.unit_price, item.vat_rate,
+    item.discount_type, item.discount_value, item.group_label, item.deducted_invoice_id
+  from jsonb_populate_recordset(null::public.invoice_items, coalesce(p_items, '[]'::jsonb)) with ordinality as item
+  order by item.ordinality;
+
+  -- Each visit is only claimed if it is still linked to the invoice it had when the run was confirmed.
+  update public.visits as v
+  set invoice_id = v_invoice.id
+  from jsonb_to_recordset(coalesce(p_visits, '[]'::jsonb)) as claim(id bigint, invoice_id bigint)
+  where v.id = claim.id
+    and v.invoice_id is not distinct from claim.invoice_id;
+
+  get diagnostics v_claimed = row_count;
+  if v_claimed < jsonb_array_length(coalesce(p_visits, '[]'::jsonb)) then
+    select v.visit_number into v_unclaimed
+    from public.visits as v
+    where v.id in (select (claim->>'id')::bigint from jsonb_array_elements(p_visits) as claim)
+      and v.invoice_id is distinct from v_invoice.id
+    limit 1;
+    raise exception 'Visit #% has already been billed.', coalesce(v_unclaimed, '?');
+  end if;
+
+  -- The total was recalculated from the items.
+  select * into v_invoice from public.invoices where id = v_invoice.id;
+  return v_invoice;
+end;
+$$;
+
+revoke all on function public.create_collective_invoice(jsonb, jsonb, jsonb, text, text, integer) from public;
+grant execute on function public.create_collective_invoice(jsonb, jsonb, jsonb, text, text, integer) to authenticated;
@@ -0,0 +1,192 @@
+-- Stored totals of quotes and invoices (including credit notes and cancellations).
+--
+-- The total_amount of a document is recalculated in the database from its stored items whenever the
+-- items or the document discount change. A total sent by a client is overwritten, so the stored
+-- total always matches the items.
+--
+-- The calculation is the same as calculateDocumentTotals in lib/documentTotals.ts: everything is
+-- calculated in cents with halves rounded away from zero, the document discount is distributed over
+-- the discountable lines with the rounding difference on the largest line, and VAT is rounded once
+-- per VAT rate. Optional and alternative quote items only count once they were chosen; lines
+-- deducting a down payment invoice are not discounted.
+--
+-- This script is safe to run multiple times.
+
+-- Discount in cents on an amount in cents. Fixed discounts are capped at the amount.
+create or replace function public.discount_cents(p_base bigint, p_discount_type text, p_discount_value numeric)
+returns bigint
+language sql
+immutable
+as $$
+  select case
+    when coalesce(p_discount_value, 0) <= 0 or p_base <= 0 then 0
+    when p_discount_type = 'fixed' then least(round(p_discount_value * 100), p_base)
+    else least(round(p_base * least(p_discount_value, 100) / 100), p_base)
+  end::bigint;
+$$;
+
+-- Total of a document from its items (a JSON array of item rows) and its document discount.
+create or replace function public.calculate_document_total(p_items jsonb, p_discount_type text, p_discount_value numeric)
+returns numeric
+language plpgsql
+immutable
+as $$
+declare
+  v_item jsonb;
+  v_gross bigint;
+  v_net bigint;
+  v_is_binding boolean;
+  v_nets bigint[] := '{}';
+  v_weights bigint[] := '{}';
+  v_rates numeric[] := '{}';
+  v_binding boolean[] := '{}';
+  v_parts bigint[] := '{}';
+  v_items_total bigint := 0;
+  v_total_weight bigint := 0;
+  v_document_discount bigint;
+  v_allocated bigint := 0;
+  v_largest integer := 0;
+  v_vat bigint;
+begin
+  for v_item in select value from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) loop
+    v_gross := round(round(coalesce((v_item->>'quantity')::numeric, 0), 6) * round(coalesce((v_item->>'unit_price')::numeric, 0), 6) * 100);
+    v_net := v_gross - public.discount_cents(v_gross, v_item->>'discount_type', (v_item->>'discount_value')::numeric);
+    v_is_binding := coalesce(nullif(v_item->>'item_type', ''), 'standard') = 'standard' or coalesce((v_item->>'is_selected')::boolean, false);
+
+    v_nets := v_nets || v_net;
+    v_rates := v_rates || coalesce((v_item->>'vat_rate')::numeric, 0);
+    v_binding := v_binding || v_is_binding;
+    v_weights := v_weights || case when v_is_binding and v_item->>'deducted_invoice_id' is null then v_net else 0 end;
+    if v_is_binding then
+      v_items_total := v_items_total + v_net;
+    end if;
+  end loop;
+
+  for i in 1 .. coalesce(array_length(v_weights, 1), 0) loop
+    v_total_weight := v_total_weight + v_weights[i];
+  end loop;
+  v_document_discount := public.discount_cents(v_total_weight, p_discount_type, p_discount_value);
+
+  -- Distribute the document discount; the rounding difference goes to the largest line.
+  for i in 1 .. coalesce(array_length(v_weights, 1), 0) loop
+    v_parts := v_parts || case when v_total_weight > 0 then round(v_document_discount::numeric * v_weights[i] / v_total_weight)::bigint else 0 end;
+    v_allocated := v_allocated + v_parts[i];
+    if v_largest = 0 or v_weights[i] > v_weights[v_largest] then
+      v_largest := i;
+    end if;
+  end loop;
+  if v_largest > 0 then
+    v_parts[v_largest] := v_parts[v_largest] + v_document_discount - v_allocated;
+  end if;
+
+  select coalesce(sum(round(by_rate.taxable_amount * by_rate.rate / 100)), 0)::bigint
+  into v_vat
+  from (
+    select line.rate, sum(line.net - line.part) as taxable_amount
+    from unnest(v_nets, v_parts, v_rates, v_binding) as line(net, part, rate, binding)
+    where line.binding
+    group by line.rate
+  ) as by_rate;
+
+  return round((v_items_total - v_document_discount + v_vat) / 100.0, 2);
+end;
+$$;
+
+create or replace function public.calculate_invoice_total(p_invoice_id bigint, p_discount_type text, p_discount_value numeric)
+returns numeric
+language sql
+stable
+as $$
+  select public.calculate_document_total(coalesce(jsonb_agg(to_jsonb(item) order by item.id), '[]'::jsonb), p_discount_type, p_discount_value)
+  from public.invoice_items as item
+  where item.invoice_id = p_invoice_id;
+$$;
+
+create or replace function public.calculate_quote_total(p_quote_id bigint, p_discount_type text, p_discount_value numeric)
+returns numeric
+language sql
+stable
+as $$
+  select public.calculate_document_total(coalesce(jsonb_agg(to_jsonb(item) order by item.id), '[]'::jsonb), p_discount_type, p_discount_value)
+  from public.quote_items as item
+  where item.quote_id = p_quote_id;
+$$;
+
+-- Replaces the total a client sent with the one calculated from the items. Rows whose total and
+-- discount are left untouched keep their total, so status changes never rewrite old documents.
+create or replace function public.recalculate_document_total()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT'
+    or new.total_amount is distinct from old.total_amount
+    or new.discount_type is distinct from old.discount_type
+    or new.discount_value is distinct from old.discount_value then
+    new.total_amount := case tg_table_name
+      when 'invoices' then public.calculate_invoice_total(new.id, new.discount_type, new.discount_value)
+      else public.calculate_quote_total(new.id, new.discount_type, new.discount_value)
+    end;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists invoices_recalculate_total on public.invoices;
+create trigger invoices_recalculate_total
+  before insert or update on public.invoices
+  for each row execute function public.recalculate_document_total();
+
+drop trigger if exists quotes_recalculate_total on public.quotes;
+create trigger quotes_recalculate_total
+  before insert or update on public.quotes
+  for each row execute function public.recalculate_document_total();
+
+-- Recalculates the total of the document an item belongs to after the item was changed.
+create or replace function public.sync_invoice_total_from_items()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op <> 'INSERT' then
+    update public.invoices
+    set total_amount = public.calculate_invoice_total(id, discount_type, discount_value)
+    where id = old.invoice_id;
+  end if;
+  if tg_op <> 'DELETE' and (tg_op = 'INSERT' or new.invoice_id is distinct from old.invoice_id) then
+    update public.invoices
+    set total_amount = public.calculate_invoice_total(id, discount_type, discount_value)
+    where id = new.invoice_id;
+  end if;
+  return null;
+end;
+$$;
+
+create or replace function public.sync_quote_total_from_items()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op <> 'INSERT' then
+    update public.quotes
+    set total_amount = public.calculate_quote_total(id, discount_type, discount_value)
+    where id = old.quote_id;
+  end if;
+  if tg_op <> 'DELETE' and (tg_op = 'INSERT' or new.quote_id is distinct from old.quote_id) then
+    update public.quotes
+    set total_amount = public.calculate_quote_total(id, discount_type, discount_value)
+    where id = new.quote_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists invoice_items_sync_total on public.invoice_items;
+create trigger invoice_items_sync_total
+  after insert or update or delete on public.invoice_items
+  for each row execute function public.sync_invoice_total_from_items();
+
+drop trigger if exists quote_items_sync_total on public.quote_items;
+create trigger quote_items_sync_total
+  after insert or update or delete on public.quote_items
+  for each row execute function public.sync_quote_total_from_items();
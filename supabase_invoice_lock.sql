@@ -0,0 +1,68 @@
+-- Lock of issued invoices, credit notes and cancellations (GoBD).
+--
+-- Once a document has left the draft status it is a legal document: its content and items can no
+-- longer be changed and it cannot be deleted or set back to draft. It can only be corrected with a
+-- credit note or cancellation. Its status still follows payments, dunning and credit notes. This is
+-- the same rule as isInvoiceLocked in lib/creditNotes.ts, enforced for every client.
+--
+-- Documents are therefore saved as drafts with their items first and issued by a status change last.
+--
+-- This script is safe to run multiple times.
+
+create or replace function public.lock_issued_invoice()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.status = 'draft' then
+    return case when tg_op = 'DELETE' then old else new end;
+  end if;
+
+  if tg_op = 'DELETE' then
+    raise exception 'Invoice % has been issued and cannot be deleted. Please correct it with a credit note or cancellation.', old.invoice_number;
+  end if;
+  if new.status = 'draft' then
+    raise exception 'Invoice % has been issued and cannot be set back to draft.', old.invoice_number;
+  end if;
+  if (to_jsonb(new) - 'status') is distinct from (to_jsonb(old) - 'status') then
+    raise exception 'Invoice % has been issued and can no longer be changed. Please correct it with a credit note or cancellation.', old.invoice_number;
+  end if;
+  return new;
+end;
+$$;
+
+-- Named so that it runs before invoices_recalculate_total (supabase_document_totals.sql), which
+-- triggers of the same event do in alphabetical order.
+drop trigger if exists invoices_lock_issued on public.invoices;
+create trigger invoices_lock_issued
+  before update or delete on public.invoices
+  for each row execute function public.lock_issued_invoice();
+
+-- Items can only be added, changed or removed while their document is a draft. Items deleted
+-- together with a draft document find no document any more and are let through.
+create or replace function public.lock_issued_invoice_items()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_invoice record;
+begin
+  for v_invoice in
+    select invoice_number
+    from public.invoices
+    where status <> 'draft'
+      and id in (
+        case when tg_op <> 'INSERT' then old.invoice_id end,
+        case when tg_op <> 'DELETE' then new.invoice_id end
+      )
+  loop
+    raise exception 'Invoice % has been issued and its items can no longer be changed.', v_invoice.invoice_number;
+  end loop;
+  return case when tg_op = 'DELETE' then old else new end;
+end;
+$$;
+
+drop trigger if exists invoice_items_lock_issued on public.invoice_items;
+create trigger invoice_items_lock_issued
+  before insert or update or delete on public.invoice_items
+  for each row execute function public.lock_issued_invoice_items();
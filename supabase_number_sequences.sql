@@ -0,0 +1,67 @@
+-- Counters of the document numbers (lib/numberGenerator.ts).
+--
+-- Every number scheme draws from a named counter per organization, e.g. 'invoice_2026' for invoices
+-- with a yearly reset. get_next_sequence_value increments a counter atomically, so concurrent users
+-- never get the same number; get_current_sequence_value reads it without drawing a number, for the
+-- preview in the settings and for carrying a counter over when the reset policy changes.
+--
+-- Only members of an organization can read and draw its counters.
+--
+-- This script is safe to run multiple times.
+
+create table if not exists public.document_sequences (
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  sequence_name text not null,
+  current_value integer not null default 0,
+  primary key (org_id, sequence_name)
+);
+
+-- The counters are only changed through the functions below.
+alter table public.document_sequences enable row level security;
+
+create or replace function public.get_next_sequence_value(p_sequence_name text, p_organization_id uuid)
+returns integer
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_value integer;
+begin
+  if p_organization_id is distinct from (select org_id from public.profiles where id = auth.uid()) then
+    raise exception 'Not allowed to draw numbers of this organization.';
+  end if;
+
+  insert into public.document_sequences as s (org_id, sequence_name, current_value)
+  values (p_organization_id, p_sequence_name, 1)
+  on conflict (org_id, sequence_name) do update set current_value = s.current_value + 1
+  returning s.current_value into v_value;
+
+  return v_value;
+end;
+$$;
+
+create or replace function public.get_current_sequence_value(p_sequence_name text, p_organization_id uuid)
+returns integer
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if p_organization_id is distinct from (select org_id from public.profiles where id = auth.uid()) then
+    raise exception 'Not allowed to read the numbers of this organization.';
+  end if;
+
+  return coalesce(
+    (select current_value from public.document_sequences where org_id = p_organization_id and sequence_name = p_sequence_name),
+    0
+  );
+end;
+$$;
+
+revoke all on function public.get_next_sequence_value(text, uuid) from public;
+revoke all on function public.get_current_sequence_value(text, uuid) from public;
+grant execute on function public.get_next_sequence_value(text, uuid) to authenticated;
+grant execute on function public.get_current_sequence_value(text, uuid) to authenticated;
@@ -0,0 +1,200 @@
+-- Acceptance links of quotes (lib/quoteLinks.ts).
+--
+-- Members of an organization create and revoke links to its quotes. Customers open a link without
+-- an account, so they never read the tables directly: they only call get_quote_by_token and
+-- respond_to_quote, which check the link on the server and run with the rights of their owner.
+--
+-- Requires supabase_document_totals.sql, which recalculates the quote total when the customer
+-- chooses optional or alternative items.
+--
+-- This script is safe to run multiple times.
+
+create table if not exists public.quote_links (
+  id bigint generated by default as identity primary key,
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  quote_id bigint not null references public.quotes(id) on delete cascade,
+  token text not null unique check (length(token) >= 32),
+  created_by uuid not null references public.profiles(id),
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create index if not exists quote_links_quote_id_idx on public.quote_links (quote_id);
+
+alter table public.quote_links enable row level security;
+
+drop policy if exists "Members can view the quote links of their organization" on public.quote_links;
+create policy "Members can view the quote links of their organization"
+  on public.quote_links for select to authenticated
+  using (org_id = (select org_id from public.profiles where id = auth.uid()));
+
+drop policy if exists "Members can create links to the quotes of their organization" on public.quote_links;
+create policy "Members can create links to the quotes of their organization"
+  on public.quote_links for insert to authenticated
+  with check (
+    org_id = (select org_id from public.profiles where id = auth.uid())
+    and created_by = auth.uid()
+    and revoked_at is null
+    and exists (select 1 from public.quotes where quotes.id = quote_id and quotes.org_id = quote_links.org_id)
+  );
+
+-- A link can only be revoked; revoking cannot be undone and the token never changes.
+drop policy if exists "Members can revoke the quote links of their organization" on public.quote_links;
+create policy "Members can revoke the quote links of their organization"
+  on public.quote_links for update to authenticated
+  using (org_id = (select org_id from public.profiles where id = auth.uid()) and revoked_at is null)
+  with check (revoked_at is not null);
+
+revoke update on public.quote_links from authenticated;
+grant update (revoked_at) on public.quote_links to authenticated;
+
+-- The link of a token, if it is neither revoked nor expired. Links expire at the end of the quote's
+-- valid_until_date (German time), like getQuoteLinkState in lib/quoteLinks.ts.
+create or replace function public.get_active_quote_link(p_token text)
+returns public.quote_links
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select l.*
+  from public.quote_links as l
+  join public.quotes as q on q.id = l.quote_id
+  where l.token = p_token
+    and l.revoked_at is null
+    and (q.valid_until_date is null or q.valid_until_date >= (now() at time zone 'Europe/Berlin')::date);
+$$;
+
+revoke all on function public.get_active_quote_link(text) from public;
+
+-- Returns the quote of an active link with its items, customer, letterhead and PDF layout, shaped like
+-- the PublicQuote type. Internal fields such as customer notes are left out. Returns null if the link
+-- is invalid, revoked or expired.
+create or replace function public.get_quote_by_token(p_token text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_link public.quote_links;
+begin
+  v_link := public.get_active_quote_link(p_token);
+  if v_link.id is null then
+    return null;
+  end if;
+
+  return (
+    select (to_jsonb(q) - 'response_ip') || jsonb_build_object(
+      'quote_items', coalesce((select jsonb_agg(to_jsonb(i) order by i.id) from public.quote_items as i where i.quote_id = q.id), '[]'::jsonb),
+      'customers', (
+        select jsonb_build_object(
+          'id', c.id, 'org_id', c.org_id, 'customer_number', c.customer_number, 'name', c.name, 'email', c.email,
+          'phone', c.phone, 'address', c.address, 'vat_id', c.vat_id, 'buyer_reference', c.buyer_reference,
+          'country', c.country, 'reverse_charge', c.reverse_charge, 'document_language', c.document_language
+        )
+        from public.customers as c where c.id = q.customer_id
+      ),
+      'organizations', (
+        select jsonb_build_object(
+          'id', o.id, 'name', o.name, 'company_name', o.company_name, 'address', o.address, 'phone', o.phone,
+          'email', o.email, 'ust_idnr', o.ust_idnr, 'iban', o.iban, 'bic', o.bic, 'logo_url', o.logo_url,
+          'country', o.country, 'small_business', o.small_business, 'girocode_enabled', o.girocode_enabled
+        )
+        from public.organizations as o where o.id = q.org_id
+      ),
+      'pdf_layout', (select to_jsonb(p) from public.pdf_layouts as p where p.org_id = q.org_id and p.document_type = 'quote')
+    )
+    from public.quotes as q
+    where q.id = v_link.quote_id
+  );
+end;
+$$;
+
+revoke all on function public.get_quote_by_token(text) from public;
+grant execute on function public.get_quote_by_token(text) to anon, authenticated;
+
+-- Accepts or declines the quote of an active link. Stores the decision, the signer, the signature,
+-- the time and the IP address of the request, and refuses quotes that were already answered. On
+-- acceptance the chosen optional and alternative items are marked as selected, which recalculates the
+-- total. The creator of the quote is notified in the same transaction.
+create or replace function public.respond_to_quote(
+  p_token text,
+  p_accepted boolean,
+  p_signer_name text,
+  p_signature text,
+  p_selected_item_ids bigint[]
+)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_link public.quote_links;
+  v_quote public.quotes;
+  v_signer_name text := btrim(coalesce(p_signer_name, ''));
+  v_selected bigint[] := case when p_accepted then coalesce(p_selected_item_ids, '{}') else '{}' end;
+  v_ip text := btrim(split_part(coalesce(current_setting('request.headers', true)::json->>'x-forwarded-for', ''), ',', 1));
+begin
+  v_link := public.get_active_quote_link(p_token);
+  if v_link.id is null then
+    raise exception 'This link is no longer valid.';
+  end if;
+
+  select * into v_quote from public.quotes where id = v_link.quote_id for update;
+  if v_quote.responded_at is not null or v_quote.status in ('accepted', 'declined', 'expired') then
+    raise exception 'This quote has already been answered.';
+  end if;
+  if v_signer_name = '' or length(v_signer_name) > 200 then
+    raise exception 'Please enter your name.';
+  end if;
+  if p_accepted and (p_signature is null or p_signature not like 'data:image/png;base64,%') then
+    raise exception 'Please sign to accept the quote.';
+  end if;
+  if length(p_signature) > 1000000 then
+    raise exception 'The signature is too large.';
+  end if;
+  if exists (
+    select 1 from public.quote_items
+    where quote_id = v_quote.id and item_type = 'alternative' and id = any(v_selected)
+    group by alternative_group
+    having count(*) > 1
+  ) then
+    raise exception 'Only one alternative of each group can be chosen.';
+  end if;
+
+  if p_accepted then
+    update public.quote_items
+    set is_selected = (id = any(v_selected))
+    where quote_id = v_quote.id and item_type in ('optional', 'alternative');
+  end if;
+
+  update public.quotes
+  set status = case when p_accepted then 'accepted' else 'declined' end,
+      responded_at = now(),
+      response_ip = nullif(v_ip, ''),
+      signer_name = v_signer_name,
+      signature = case when p_accepted then p_signature end
+  where id = v_quote.id
+  returning * into v_quote;
+
+  insert into public.notifications (user_id, org_id, title, body, type, related_entity_id, related_entity_path)
+  values (
+    v_quote.user_id,
+    v_quote.org_id,
+    case when p_accepted then 'Quote Accepted' else 'Quote Declined' end,
+    format('%s %s quote %s online.', v_signer_name, case when p_accepted then 'accepted' else 'declined' end, v_quote.quote_number),
+    'quote_response',
+    v_quote.id::text,
+    '/quotes/edit/' || v_quote.id
+  );
+
+  return jsonb_build_object('status', v_quote.status, 'responded_at', v_quote.responded_at, 'total_amount', v_quote.total_amount);
+end;
+$$;
+
+revoke all on function public.respond_to_quote(text, boolean, text, text, bigint[]) from public;
+grant execute on function public.respond_to_quote(text, boolean, text, text, bigint[]) to anon, authenticated;
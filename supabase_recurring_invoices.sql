@@ -0,0 +1,9 @@
+-- Failed runs of recurring invoice templates (lib/recurringInvoices.ts).
+--
+-- A run whose invoice cannot be generated is retried every time due invoices are generated, e.g. on
+-- every visit of the dashboard. failed_run_date holds the run date whose failure the owner of the
+-- template was already notified about, so each failed run is reported only once.
+--
+-- This script is safe to run multiple times.
+
+alter table public.recurring_invoice_templates add column if not exists failed_run_date date;
@@ -2,12 +2,31 @@
 
 export type UserRole = 'super_admin' | 'admin' | 'key_user' | 'field_service_employee';
 export type Plan = 'free' | 'pro';
-export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue';
-export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined';
+export type InvoiceStatus = 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'cancelled';
+export type InvoiceDocumentType = 'invoice' | 'credit_note' | 'cancellation';
+export type InvoiceBillingType = 'full' | 'down_payment' | 'final';
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'expired';
+export type QuoteItemType = 'standard' | 'optional' | 'alternative';
 export type VisitStatus = 'planned' | 'completed' | 'cancelled';
 export type VisitCategory = 'Maintenance' | 'Repair' | 'Consulting' | 'Training';
-export type NotificationType = 'new_task' | 'new_visit' | 'new_appointment' | 'generic';
+export type NotificationType = 'new_task' | 'new_visit' | 'new_appointment' | 'recurring_invoices' | 'quote_response' | 'generic';
 export type AppointmentStatus = 'draft' | 'open' | 'in_progress' | 'done';
+export type PaymentMethod = 'bank_transfer' | 'cash' | 'card' | 'paypal' | 'other';
+export type DiscountType = 'percent' | 'fixed';
+export type TaxTreatment = 'standard' | 'reverse_charge' | 'intra_community' | 'export' | 'small_business';
+export type EmailDocumentType = 'invoice' | 'quote';
+export type MailTransportType = 'smtp' | 'file';
+export type BankTransactionStatus = 'matched' | 'expense' | 'ignored';
+export type DatevChart = 'SKR03' | 'SKR04';
+export type DatevRevenueKey = 'standard_19' | 'standard_7' | 'standard_0' | 'reverse_charge' | 'intra_community' | 'export' | 'small_business';
+export type RecurrenceInterval = 'monthly' | 'quarterly' | 'half_yearly' | 'yearly';
+export type RecurringTemplateStatus = 'active' | 'paused' | 'ended';
+export type SequenceType = 'customer' | 'quote' | 'invoice' | 'credit_note' | 'cancellation' | 'task' | 'product' | 'appointment' | 'expense' | 'visit' | 'purchase_order';
+export type NumberResetPolicy = 'never' | 'yearly' | 'monthly';
+export type StockMovementType = 'receipt' | 'consumption' | 'correction' | 'return' | 'transfer';
+export type StorageLocationType = 'warehouse' | 'vehicle';
+export type StockMovementSource = 'invoice' | 'visit' | 'purchase_order';
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received';
 
 
 export interface Profile {
@@ -31,8 +50,15 @@ export interface Organization {
   iban: string;
   bic: string;
   logo_url: string;
+  country?: string | null; // ISO 3166-1 alpha-2 code, Germany if not set
+  small_business?: boolean | null; // Kleinunternehmer according to § 19 UStG
+  mail_transport?: MailTransportType | null; // How documents are emailed, SMTP if not set
+  girocode_enabled?: boolean | null; // Print an EPC QR code for bank transfers on invoices
+  branch_code?: string | null; // Inserted into document numbers by the {BRANCH} token
 }
 
+export type DocumentLanguage = 'de' | 'al';
+
 export interface Customer {
   id: number;
   user_id: string;
@@ -43,6 +69,12 @@ export interface Customer {
   phone: string | null;
   address: string | null;
   notes?: string | null;
+  vat_id?: string | null; // USt-IdNr. of business customers
+  buyer_reference?: string | null; // Leitweg-ID or other reference required for XRechnung
+  country?: string | null; // ISO 3166-1 alpha-2 code, the organization's country if not set
+  reverse_charge?: boolean | null; // Recipient of § 13b UStG services (e.g. construction), owes the VAT itself
+  debtor_number?: number | null; // DATEV Debitorennummer, assigned on the first DATEV export
+  document_language?: DocumentLanguage | null; // Language of PDFs sent to the customer, the user's language if not set
   organizations?: Organization;
 }
 
@@ -54,8 +86,79 @@ export interface Product {
   name: string;
   description: string | null;
   selling_price: number;
-  stock_level: number | null;
+  stock_level: number | null; // Derived from the stock movements; null if the stock of the product is not tracked
+  purchase_price?: number | null; // Net unit price of the last goods receipt
+  vat_rate?: number | null; // VAT rate the product is sold at, e.g. a reduced rate; the document's default rate if not set
+  preferred_supplier_id?: number | null; // Supplier of the last goods receipt, proposed for new purchase orders
   organizations?: Organization;
+  suppliers?: Pick<Supplier, 'id' | 'name'> | null; // Joined preferred supplier
+}
+
+// A place where stock is kept besides the main warehouse, e.g. the van of a technician.
+export interface StorageLocation {
+  id: number;
+  org_id: string;
+  name: string;
+  location_type: StorageLocationType;
+  employee_id: string | null; // Technician whose vehicle it is; visits they complete consume from it
+  created_at?: string;
+}
+
+export interface Supplier {
+  id: number;
+  user_id: string;
+  org_id: string;
+  name: string;
+  contact_person: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  customer_number: string | null; // Our customer number at the supplier, printed on purchase orders
+  notes: string | null;
+  created_at?: string;
+}
+
+export interface PurchaseOrderItem {
+  id: number;
+  purchase_order_id: number;
+  product_id: number;
+  description: string;
+  quantity: number;
+  received_quantity: number; // Sum of all goods receipts for the item
+  unit_price: number; // Net purchase price
+  products?: Product; // Joined data
+}
+
+export interface PurchaseOrder {
+  id: number;
+  user_id: string;
+  org_id: string;
+  supplier_id: number;
+  order_number: string;
+  status: PurchaseOrderStatus;
+  order_date: string;
+  expected_delivery_date: string | null;
+  ordered_at: string | null; // When the order was placed with the supplier
+  notes: string | null;
+  total_amount: number; // Net order value
+  created_at?: string;
+  suppliers?: Supplier; // Joined data
+  purchase_order_items?: PurchaseOrderItem[];
+}
+
+// One entry of the stock ledger. The stock level of a product is the sum of its movements.
+export interface StockMovement {
+  id: number;
+  org_id: string;
+  product_id: number;
+  movement_type: StockMovementType;
+  quantity: number; // Positive for stock coming in, negative for stock going out
+  source_type: StockMovementSource | null; // The document that posted the movement, null for manual entries
+  source_id: number | null;
+  location_id: number | null; // Where the stock is stored, null for the main warehouse
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
 }
 
 export interface InvoiceItem {
@@ -66,6 +169,10 @@ export interface InvoiceItem {
   quantity: number;
   unit_price: number;
   vat_rate: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null; // Percent or euro amount, depending on discount_type
+  group_label?: string | null; // Heading of the group the item belongs to, e.g. the visit on a collective invoice
+  deducted_invoice_id?: number | null; // Set on the lines of a final invoice that deduct a down payment invoice
 }
 
 export interface Invoice {
@@ -79,9 +186,179 @@ export interface Invoice {
   total_amount: number;
   status: InvoiceStatus;
   notes: string | null;
+  document_type: InvoiceDocumentType;
+  discount_type?: DiscountType | null; // Discount on the whole document, applied after line discounts
+  discount_value?: number | null;
+  tax_treatment?: TaxTreatment | null; // Determined by the tax engine when the document is saved
+  original_invoice_id: number | null; // Set for credit notes and cancellation invoices
+  recurring_template_id?: number | null; // Set for invoices generated from a recurring template
+  quote_id?: number | null; // Set for invoices billing a quote
+  billing_type?: InvoiceBillingType | null; // How the invoice bills its quote
   customers?: Customer; // Joined data
   invoice_items?: InvoiceItem[]; // Joined data
   organizations?: Organization; // Joined data
+  payments?: Payment[]; // Joined data
+  invoice_reminders?: InvoiceReminder[]; // Joined data
+  original_invoice?: Pick<Invoice, 'id' | 'invoice_number' | 'issue_date'>; // Joined data
+  credit_notes?: Pick<Invoice, 'id' | 'invoice_number' | 'document_type' | 'total_amount' | 'status'>[]; // Joined data
+}
+
+export interface Payment {
+  id: number;
+  user_id: string;
+  org_id: string;
+  invoice_id: number;
+  payment_date: string;
+  amount: number;
+  method: PaymentMethod;
+  reference: string | null;
+  created_at?: string;
+  invoices?: Invoice; // Joined data
+}
+
+export interface DunningLevel {
+  id?: number;
+  org_id: string;
+  level: number; // 1 = payment reminder, 2 = 1st Mahnung, 3 = 2nd Mahnung, ...
+  name: string;
+  days_after: number; // Days after the due date (level 1) or after the previous reminder
+  fee: number;
+}
+
+export interface InvoiceReminder {
+  id: number;
+  user_id: string;
+  org_id: string;
+  invoice_id: number;
+  level: number;
+  name: string;
+  fee: number;
+  open_amount: number; // Open balance of the invoice when the reminder was created (without fees)
+  sent_at: string;
+  invoices?: Invoice; // Joined data
+}
+
+export interface EmailTemplate {
+  id?: number;
+  org_id: string;
+  document_type: EmailDocumentType;
+  subject: string; // May contain placeholders like {document_number}
+  body: string;
+}
+
+export interface DocumentEmail {
+  id: number;
+  user_id: string;
+  org_id: string;
+  document_type: EmailDocumentType;
+  document_id: number;
+  recipients: string[];
+  cc: string[];
+  subject: string;
+  transport: MailTransportType;
+  sent_at: string;
+}
+
+export interface BankTransaction {
+  id: number;
+  user_id: string;
+  org_id: string;
+  import_hash: string; // Identifies the transaction across repeated imports of overlapping statements
+  booking_date: string;
+  amount: number; // Positive for credits, negative for debits
+  currency: string;
+  counterparty_name: string;
+  counterparty_iban: string | null;
+  reference: string;
+  status: BankTransactionStatus;
+  expense_id: number | null;
+  created_at?: string;
+}
+
+export interface DatevAccount {
+  account: string;
+  bu_key: string; // DATEV BU-Schlüssel; empty for automatic accounts that imply the tax
+}
+
+export interface DatevExpenseAccount extends DatevAccount {
+  category: string;
+}
+
+export interface DatevSettings {
+  org_id: string;
+  consultant_number: string; // Beraternummer
+  client_number: string; // Mandantennummer
+  chart: DatevChart;
+  bank_account: string;
+  revenue_accounts: Record<DatevRevenueKey, DatevAccount>;
+  expense_accounts: DatevExpenseAccount[]; // Accounts per expense category
+  default_expense_account: string; // For expenses without a mapped category
+}
+
+// Follow-up tasks for sent quotes; null disables the respective task.
+export interface QuoteFollowUpSettings {
+  org_id: string;
+  follow_up_days: number | null; // Days after sending
+  expiry_reminder_days: number | null; // Days before valid_until_date
+}
+
+export interface NumberScheme {
+  org_id: string;
+  sequence_type: SequenceType;
+  pattern: string; // e.g. 'RE-{YYYY}-{NUMBER:4}'
+  reset_policy: NumberResetPolicy;
+  start_value: number; // First number of the period in which the scheme was restarted
+  counter_key: string; // Counter name passed to get_next_sequence_value, before the period suffix
+  start_period: string | null; // Period the start value applies to ('' for schemes that never reset)
+}
+
+export type PdfLayoutDocumentType = InvoiceDocumentType | 'quote' | 'reminder' | 'purchase_order';
+export type PdfLogoPosition = 'left' | 'center' | 'right' | 'hidden';
+export type PdfFont = 'helvetica' | 'times' | 'courier'; // The standard fonts built into every PDF viewer
+export type PdfFooterColumn = 'address' | 'contact' | 'bank' | 'tax';
+export type PdfItemColumn = 'position' | 'quantity' | 'unit_price' | 'discount' | 'vat';
+
+export interface PdfLayout {
+  org_id: string;
+  document_type: PdfLayoutDocumentType;
+  logo_position: PdfLogoPosition;
+  accent_color: string; // Hex colour of table headers, e.g. '#1d4ed8'
+  font: PdfFont;
+  intro_text: string | null; // Printed below the title
+  closing_text: string | null; // Printed below the totals
+  footer_columns: PdfFooterColumn[]; // In the order they are printed
+  hidden_columns: PdfItemColumn[]; // Item table columns that are not printed
+}
+
+export interface RecurringInvoiceItem {
+  id: number;
+  template_id: number;
+  product_id: number | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  vat_rate: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null; // Percent or euro amount, depending on discount_type
+}
+
+export interface RecurringInvoiceTemplate {
+  id: number;
+  user_id: string; // Owner, notified when invoices are generated
+  org_id: string;
+  customer_id: number;
+  name: string;
+  interval: RecurrenceInterval;
+  start_date: string;
+  end_date: string | null;
+  next_run_date: string;
+  failed_run_date?: string | null; // Last run date whose failure the owner was notified about
+  status: RecurringTemplateStatus;
+  issue_as: 'draft' | 'sent'; // Status of the generated invoices
+  payment_terms_days: number;
+  notes: string | null;
+  customers?: Customer; // Joined data
+  recurring_invoice_items?: RecurringInvoiceItem[]; // Joined data
 }
 
 export interface QuoteItem {
@@ -92,6 +369,11 @@ export interface QuoteItem {
   quantity: number;
   unit_price: number;
   vat_rate: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null; // Percent or euro amount, depending on discount_type
+  item_type?: QuoteItemType | null; // Optional and alternative items only count towards the total once chosen
+  alternative_group?: string | null; // Alternatives of the same group exclude each other
+  is_selected?: boolean | null; // Whether an optional or alternative item was chosen
 }
 
 export interface Quote {
@@ -105,11 +387,65 @@ export interface Quote {
   total_amount: number;
   status: QuoteStatus;
   notes: string | null;
+  discount_type?: DiscountType | null; // Discount on the whole document, applied after line discounts
+  discount_value?: number | null;
+  tax_treatment?: TaxTreatment | null; // Determined by the tax engine when the document is saved
+  version?: number; // Current version; earlier versions are kept in quote_revisions
+  sent_at?: string | null; // When the quote was first marked as sent, the start of follow-ups and ageing
+  follow_up_created_at?: string | null; // When the follow-up task after sending was created
+  expiry_reminder_created_at?: string | null; // When the task before expiry was created
+  responded_at?: string | null; // Set when the customer accepted or declined through an acceptance link
+  response_ip?: string | null; // IP address the response was sent from
+  signer_name?: string | null; // Name the customer typed when responding
+  signature?: string | null; // Signature drawn by the customer, as PNG data URL
   customers?: Customer; // Joined data
   quote_items?: QuoteItem[]; // Joined data
   organizations?: Organization; // Joined data
 }
 
+export type QuoteRevisionItem = Omit<QuoteItem, 'id' | 'quote_id'>;
+
+// A preserved earlier version of a quote. Revising a sent quote stores the sent version here and
+// continues the quote under the same number with the next version.
+export interface QuoteRevision {
+  id: number;
+  org_id: string;
+  quote_id: number;
+  version: number;
+  created_at: string; // When the version was superseded
+  created_by: string;
+  customer_id: number;
+  issue_date: string;
+  valid_until_date: string;
+  status: QuoteStatus;
+  notes: string | null;
+  discount_type: DiscountType | null;
+  discount_value: number | null;
+  tax_treatment: TaxTreatment | null;
+  total_amount: number;
+  items: QuoteRevisionItem[];
+}
+
+// A tokenized public link through which a customer can view and accept or decline a quote.
+// Links expire with the quote's valid_until_date.
+export interface QuoteLink {
+  id: number;
+  org_id: string;
+  quote_id: number;
+  token: string;
+  created_by: string;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+// A quote as loaded through its acceptance link, with everything needed to show it and render its PDF.
+export type PublicQuote = Quote & {
+  quote_items: QuoteItem[];
+  customers: Customer;
+  organizations: Organization;
+  pdf_layout: PdfLayout | null;
+};
+
 export interface Expense {
   id: number;
   user_id: string;
@@ -119,6 +455,7 @@ export interface Expense {
   description: string;
   amount: number;
   category: string | null;
+  vat_rate?: number | null; // VAT rate when passed on to a customer; the document's default rate if not set
   organizations?: Organization;
 }
 
@@ -159,6 +496,7 @@ export interface VisitProduct {
 export interface VisitExpense {
     visit_id: number;
     expense_id: number;
+    billable: boolean; // Passed on to the customer when the visit is invoiced
     expenses?: Expense; // Joined data
 }
 
@@ -174,8 +512,12 @@ export interface Visit {
     category: VisitCategory;
     purpose: string | null;
     status: VisitStatus;
+    labor_hours?: number | null;
+    hourly_rate?: number | null;
+    invoice_id?: number | null; // Set once the visit has been billed
     customers?: Customer; // Joined data
     profiles?: Profile; // Joined data (for assigned employee)
+    invoices?: Pick<Invoice, 'id' | 'invoice_number' | 'status'> | null; // Joined data
     visit_products?: VisitProduct[]; // Joined data
     visit_expenses?: VisitExpense[]; // Joined data
 }